@@ -0,0 +1,105 @@
+/**
+ * @format
+ */
+
+import { attendanceSyncService } from '../src/services/sync/attendance-sync-service';
+import { markAttendanceRecordAsSynced } from '../src/services/attendance/attendance-db-service';
+import apiClient from '../src/services/api/api-client';
+import type { AttendanceRecord } from '../src/redux/types/userTypes';
+
+jest.mock('../src/services/attendance/attendance-db-service', () => ({
+  markAttendanceRecordAsSynced: jest.fn(),
+}));
+
+jest.mock('../src/redux', () => ({
+  store: { getState: () => ({ userState: { userData: { email: 'user@example.com' } } }) },
+}));
+
+const post = apiClient.post as jest.Mock;
+
+const makePunch = (punchID: string, timestamp: number): AttendanceRecord =>
+  ({
+    PunchID: punchID,
+    Timestamp: timestamp,
+    UserID: 'user@example.com',
+    PunchDirection: 'IN',
+    IsSynced: 'N',
+  }) as AttendanceRecord;
+
+describe('attendance batch upload', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('uploads a chunk in one request and reports each punch', async () => {
+    post.mockResolvedValueOnce({
+      data: {
+        results: [
+          { punchId: 'punch-1', status: 'accepted', timestamp: 1000 },
+          { punchId: 'punch-2', status: 'duplicate', timestamp: 2000 },
+          { punchId: 'punch-3', status: 'rejected', error: 'Attendance period is closed' },
+        ],
+      },
+    });
+
+    const results = await attendanceSyncService.uploadPunches([
+      makePunch('punch-1', 1000),
+      makePunch('punch-2', 2000),
+      makePunch('punch-3', 3000),
+      makePunch('punch-4', 4000),
+    ]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toBe('/api/attendance/punches/batch');
+    expect(post.mock.calls[0][1].punches.map((punch: any) => punch.punchId)).toEqual([
+      'punch-1',
+      'punch-2',
+      'punch-3',
+      'punch-4',
+    ]);
+    expect(Object.fromEntries(results)).toEqual({
+      'punch-1': { outcome: 'synced' },
+      'punch-2': { outcome: 'synced' },
+      'punch-3': { outcome: 'rejected', error: 'Attendance period is closed' },
+      'punch-4': { outcome: 'failed', error: 'Missing from batch response' },
+    });
+    expect((markAttendanceRecordAsSynced as jest.Mock).mock.calls).toEqual([
+      ['punch-1', 1000],
+      ['punch-2', 2000],
+    ]);
+  });
+
+  test('falls back to one request per punch when the batch request fails', async () => {
+    post
+      .mockRejectedValueOnce(new Error('timeout of 60000ms exceeded'))
+      .mockResolvedValue({ data: {} });
+
+    const results = await attendanceSyncService.uploadPunches([
+      makePunch('punch-1', 1000),
+      makePunch('punch-2', 2000),
+    ]);
+
+    expect(post.mock.calls.map(([endpoint, , config]) => [endpoint, config?.headers])).toEqual([
+      ['/api/attendance/punches/batch', undefined],
+      ['/api/attendance/punch-in', { 'Idempotency-Key': 'punch-1' }],
+      ['/api/attendance/punch-in', { 'Idempotency-Key': 'punch-2' }],
+    ]);
+    expect(Object.fromEntries(results)).toEqual({
+      'punch-1': { outcome: 'synced' },
+      'punch-2': { outcome: 'synced' },
+    });
+  });
+
+  test('stops using the batch endpoint when the server does not have it', async () => {
+    post
+      .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { response: { status: 404 } }))
+      .mockResolvedValue({ data: {} });
+
+    await attendanceSyncService.uploadPunches([makePunch('punch-1', 1000), makePunch('punch-2', 2000)]);
+    await attendanceSyncService.uploadPunches([makePunch('punch-3', 3000), makePunch('punch-4', 4000)]);
+
+    const endpoints = post.mock.calls.map(([endpoint]) => endpoint);
+    expect(endpoints.filter((endpoint) => endpoint === '/api/attendance/punches/batch')).toHaveLength(1);
+    expect(endpoints).toHaveLength(5);
+  });
+});
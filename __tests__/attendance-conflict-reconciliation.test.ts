@@ -0,0 +1,118 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+
+import { attendanceSyncService } from '../src/services/sync/attendance-sync-service';
+import { syncConflictService } from '../src/services/sync/sync-conflict-service';
+import { syncCursorService } from '../src/services/sync/sync-cursor-service';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const EMAIL = 'user@example.com';
+
+const get = apiClient.get as jest.Mock;
+
+// Checkout waiting for a manager to approve the forgotten-checkout correction
+const insertPendingCheckout = (isSynced: 'Y' | 'N') =>
+  db.query(
+    `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchDirection, Address, IsSynced, DateOfPunch,
+        AttendanceStatus, ApprovalRequired, Reason, CorrectionType)
+      VALUES ('punch-1', 1000, ?, 'OUT', 'Home', ?, '2025-12-20',
+        'PENDING_APPROVAL', 'Y', 'FORGOT_TO_CHECKOUT', 'FORGOT_CHECKOUT');`,
+    [EMAIL, isSynced],
+  );
+
+const getPunch = () =>
+  db.query(
+    'SELECT Address, IsSynced, AttendanceStatus, ApprovalRequired, CorrectedCheckoutTime FROM attendance;',
+  )[0];
+
+const getConflicts = async () =>
+  (await syncConflictService.getConflicts()).map(({ field, localValue, serverValue, resolution }) => ({
+    field,
+    localValue,
+    serverValue,
+    resolution,
+  }));
+
+const approvedCheckout = {
+  PunchID: 'punch-1',
+  Timestamp: 1000,
+  PunchDirection: 'OUT',
+  Address: 'Office',
+  AttendanceStatus: 'PRESENT',
+  ApprovalRequired: 'N',
+  CorrectedCheckoutTime: 1500,
+};
+
+describe('attendance conflict reconciliation', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('month merge takes server-authoritative fields and keeps the rest of the local copy', async () => {
+    insertPendingCheckout('Y');
+    get.mockResolvedValueOnce({ data: [{ dateOfPunch: '2025-12-20', records: [approvedCheckout] }] });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL, moment().subtract(2, 'months'));
+
+    expect(getPunch()).toEqual({
+      Address: 'Home',
+      IsSynced: 'Y',
+      AttendanceStatus: 'PRESENT',
+      ApprovalRequired: 'N',
+      CorrectedCheckoutTime: 1500,
+    });
+    await expect(getConflicts()).resolves.toEqual(
+      expect.arrayContaining([
+        { field: 'AttendanceStatus', localValue: 'PENDING_APPROVAL', serverValue: 'PRESENT', resolution: 'server_wins' },
+        { field: 'ApprovalRequired', localValue: 'Y', serverValue: 'N', resolution: 'server_wins' },
+      ]),
+    );
+    // Local-only display fields of a synced punch are not conflicts
+    expect((await getConflicts()).map((conflict) => conflict.field)).not.toContain('Address');
+  });
+
+  test('change feed approves an unsynced punch without touching its local fields', async () => {
+    insertPendingCheckout('N');
+    await syncCursorService.setCursor(EMAIL, 'attendance', { cursor: 'cursor-1', updatedSince: null });
+    get.mockResolvedValueOnce({
+      data: { records: [approvedCheckout], deleted: [], cursor: 'cursor-2', hasMore: false },
+    });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL);
+
+    expect(getPunch()).toEqual({
+      Address: 'Home',
+      IsSynced: 'N',
+      AttendanceStatus: 'PRESENT',
+      ApprovalRequired: 'N',
+      CorrectedCheckoutTime: 1500,
+    });
+    await expect(getConflicts()).resolves.toEqual(
+      expect.arrayContaining([
+        { field: 'Address', localValue: 'Home', serverValue: 'Office', resolution: 'local_kept' },
+        { field: 'ApprovalRequired', localValue: 'Y', serverValue: 'N', resolution: 'server_wins' },
+      ]),
+    );
+  });
+});
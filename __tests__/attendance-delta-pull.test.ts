@@ -0,0 +1,135 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+
+import { attendanceSyncService } from '../src/services/sync/attendance-sync-service';
+import { syncCursorService } from '../src/services/sync/sync-cursor-service';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const EMAIL = 'user@example.com';
+
+const get = apiClient.get as jest.Mock;
+
+const insertPunch = (punchID: string, timestamp: number, isSynced: 'Y' | 'N', address = 'Office') =>
+  db.query(
+    `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchDirection, Address, IsSynced, DateOfPunch)
+      VALUES (?, ?, ?, 'OUT', ?, ?, '2025-12-20');`,
+    [punchID, timestamp, EMAIL, address, isSynced],
+  );
+
+const getPunches = () =>
+  db.query('SELECT PunchID, Timestamp, Address, CorrectionType, IsSynced FROM attendance ORDER BY Timestamp;');
+
+describe('attendance delta pull', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('first pull of the current month fetches the month and starts the change feed', async () => {
+    get.mockResolvedValueOnce({ data: [] });
+    const startedAt = Date.now();
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL, moment());
+
+    expect(get.mock.calls[0][0]).toMatch(/^\/api\/attendance\/days\?startDate=/);
+    const position = await syncCursorService.getCursor(EMAIL, 'attendance');
+    expect(position?.cursor).toBeNull();
+    expect(position?.updatedSince).toBeLessThan(startedAt);
+  });
+
+  test('server edits and deletions win over synced punches but not unsynced ones', async () => {
+    insertPunch('punch-1', 1000, 'Y');
+    insertPunch('punch-2', 2000, 'Y');
+    insertPunch('punch-3', 3000, 'N', 'Local edit');
+    await syncCursorService.setCursor(EMAIL, 'attendance', { cursor: 'cursor-1', updatedSince: null });
+    get.mockResolvedValueOnce({
+      data: {
+        records: [
+          { PunchID: 'punch-1', Timestamp: 1500, CorrectionType: 'MANUAL_TIME' },
+          { PunchID: 'punch-3', Timestamp: 3000, Address: 'Server copy' },
+          { PunchID: 'punch-4', Timestamp: 4000, PunchDirection: 'IN', Address: 'Gate 2' },
+        ],
+        deleted: ['punch-2'],
+        cursor: 'cursor-2',
+        hasMore: false,
+      },
+    });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL);
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get.mock.calls[0][0]).toBe('/api/attendance/changes?cursor=cursor-1');
+    expect(getPunches()).toEqual([
+      { PunchID: 'punch-1', Timestamp: 1500, Address: 'Office', CorrectionType: 'MANUAL_TIME', IsSynced: 'Y' },
+      { PunchID: 'punch-3', Timestamp: 3000, Address: 'Local edit', CorrectionType: null, IsSynced: 'N' },
+      { PunchID: 'punch-4', Timestamp: 4000, Address: 'Gate 2', CorrectionType: null, IsSynced: 'Y' },
+    ]);
+    await expect(syncCursorService.getCursor(EMAIL, 'attendance')).resolves.toMatchObject({
+      cursor: 'cursor-2',
+    });
+  });
+
+  test('pages through the feed while the server has more', async () => {
+    await syncCursorService.setCursor(EMAIL, 'attendance', { cursor: null, updatedSince: 1000 });
+    get
+      .mockResolvedValueOnce({ data: { records: [], deleted: [], cursor: 'cursor-2', hasMore: true } })
+      .mockResolvedValueOnce({ data: { records: [], deleted: [], cursor: 'cursor-3', hasMore: false } });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL);
+
+    expect(get.mock.calls.map(([url]) => url)).toEqual([
+      '/api/attendance/changes?updatedSince=1000',
+      '/api/attendance/changes?cursor=cursor-2',
+    ]);
+    await expect(syncCursorService.getCursor(EMAIL, 'attendance')).resolves.toMatchObject({
+      cursor: 'cursor-3',
+    });
+  });
+
+  test('an expired cursor falls back to the month window and restarts the feed', async () => {
+    await syncCursorService.setCursor(EMAIL, 'attendance', { cursor: 'stale', updatedSince: null });
+    get
+      .mockRejectedValueOnce(Object.assign(new Error('Gone'), { response: { status: 410 } }))
+      .mockResolvedValueOnce({ data: [] });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL);
+
+    expect(get.mock.calls.map(([url]) => url)).toEqual([
+      '/api/attendance/changes?cursor=stale',
+      '/api/attendance/days',
+    ]);
+    const position = await syncCursorService.getCursor(EMAIL, 'attendance');
+    expect(position?.cursor).toBeNull();
+    expect(position?.updatedSince).toEqual(expect.any(Number));
+  });
+
+  test('older months are still fetched as month windows', async () => {
+    await syncCursorService.setCursor(EMAIL, 'attendance', { cursor: 'cursor-1', updatedSince: null });
+    get.mockResolvedValueOnce({ data: [] });
+
+    await attendanceSyncService.syncAttendanceFromServer(EMAIL, moment().subtract(2, 'months'));
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get.mock.calls[0][0]).toMatch(/^\/api\/attendance\/days\?startDate=/);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import notifee, { EventType } from '@notifee/react-native';
+import BackgroundFetch from 'react-native-background-fetch';
+import {
+  autoCheckoutService,
+  getDueAutoCheckout,
+} from '../src/services/attendance/auto-checkout-service';
+import { AUTO_CHECKOUT_LINK, handleNotificationEvent } from '../src/services/notifications/notification-service';
+import { syncCoordinator } from '../src/services/sync/sync-coordinator';
+import { networkService } from '../src/services/network/network-service';
+import { readMonotonicClock, trustedClockService } from '../src/services/time/trusted-clock-service';
+import { getShiftRoster } from '../src/utils/shift-roster-utils';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/services/sync/sync-coordinator', () => ({
+  syncCoordinator: { syncPushOnly: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  persistor: { getState: () => ({ bootstrapped: true }), subscribe: jest.fn() },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    requestPermission: jest.fn(async () => ({ authorizationStatus: 1 })),
+    createChannel: jest.fn(async () => undefined),
+    setNotificationCategories: jest.fn(async () => undefined),
+    displayNotification: jest.fn(async () => undefined),
+    getDisplayedNotifications: jest.fn(async () => []),
+  },
+  AndroidImportance: { HIGH: 4 },
+  TriggerType: { TIMESTAMP: 0 },
+  EventType: { DELIVERED: 3 },
+}));
+
+const EMAIL = 'user@example.com';
+
+const ticks = (dateTime: string) => moment.utc(dateTime, 'YYYY-MM-DD HH:mm').valueOf();
+
+// 09:00 - 17:00 every day
+const roster = getShiftRoster();
+
+const checkIn = (dateTime: string) => ({
+  PunchDirection: 'IN',
+  Timestamp: ticks(dateTime),
+  DateOfPunch: dateTime.slice(0, 10),
+});
+
+describe('auto-checkout', () => {
+  test('a check-in is checked out at the shift end once the buffer has passed', () => {
+    const morning = checkIn('2025-12-03 09:02');
+
+    expect(getDueAutoCheckout(morning, roster, ticks('2025-12-03 18:59'))).toBeNull();
+    expect(getDueAutoCheckout(morning, roster, ticks('2025-12-03 19:00'))).toEqual({
+      dueAt: ticks('2025-12-03 19:00'),
+      checkoutTime: ticks('2025-12-03 17:00'),
+      dateOfPunch: '2025-12-03',
+      linkedEntryDate: undefined,
+    });
+    expect(getDueAutoCheckout({ ...morning, PunchDirection: 'OUT' }, roster, ticks('2025-12-05 19:00'))).toBeNull();
+
+    // Checked in after the shift ended - closed 3 hours after the check-in, not before it
+    expect(getDueAutoCheckout(checkIn('2025-12-03 22:30'), roster, ticks('2025-12-04 01:30'))).toMatchObject({
+      checkoutTime: ticks('2025-12-04 01:30'),
+      linkedEntryDate: '2025-12-04',
+    });
+  });
+
+  describe('engine', () => {
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      (networkService.isConnected as jest.Mock).mockResolvedValue(false);
+      jest.useFakeTimers({ now: new Date('2025-12-05T08:00:00Z') });
+      db = await openTestDatabase();
+      db.query(
+        `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchType, PunchDirection, DateOfPunch, IsSynced)
+          VALUES ('check-in', ?, ?, 'CHECK', 'IN', '2025-12-03', 'Y');`,
+        [ticks('2025-12-03 09:02'), EMAIL],
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      db.close();
+    });
+
+    test('the delivered notice writes a system checkout for approval and queues it', async () => {
+      autoCheckoutService.registerBackgroundTrigger();
+
+      await handleNotificationEvent({ type: EventType.DELIVERED, detail: { notification: { id: 'shift-auto-checkout' } } });
+
+      expect(
+        db.query(`SELECT PunchDirection, Timestamp, DateOfPunch, ApprovalRequired, CorrectionType, Reason, IsSynced,
+          DeviceTimestamp, TrustedTimestamp, TimeConfidence FROM attendance ORDER BY Timestamp DESC LIMIT 1;`),
+      ).toEqual([
+        {
+          PunchDirection: 'OUT',
+          Timestamp: ticks('2025-12-03 17:00'),
+          DateOfPunch: '2025-12-03',
+          ApprovalRequired: 'Y',
+          CorrectionType: 'AUTO_CHECKOUT',
+          Reason: 'AUTO_CHECKOUT',
+          IsSynced: 'N',
+          // Written when the engine ran, never anchored to the server here
+          DeviceTimestamp: ticks('2025-12-05 08:00'),
+          TrustedTimestamp: ticks('2025-12-05 08:00'),
+          TimeConfidence: 'DEVICE_CLOCK',
+        },
+      ]);
+      expect(db.query(`SELECT type, operation FROM sync_queue;`)).toEqual([{ type: 'attendance', operation: 'create' }]);
+      expect(syncCoordinator.syncPushOnly).toHaveBeenCalledWith(EMAIL, EMAIL);
+      expect(notifee.displayNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'shift-auto-checkout', data: { link: AUTO_CHECKOUT_LINK, kind: 'AUTO_CHECKOUT' } }),
+      );
+
+      // The entry is closed now - nothing more to do
+      expect(await autoCheckoutService.run('foreground')).toBeNull();
+      expect(db.query(`SELECT COUNT(*) AS count FROM attendance;`)).toEqual([{ count: 2 }]);
+    });
+
+    test('a background fetch checks out on Android and iOS, and in the Android headless task', async () => {
+      autoCheckoutService.registerBackgroundTrigger();
+      const [config, onFetch] = (BackgroundFetch.configure as jest.Mock).mock.calls[0];
+      expect(config).toMatchObject({ stopOnTerminate: false, enableHeadless: true });
+
+      await onFetch('com.transistorsoft.fetch');
+      expect(db.query(`SELECT PunchDirection, CorrectionType FROM attendance ORDER BY Timestamp DESC LIMIT 1;`)).toEqual([
+        { PunchDirection: 'OUT', CorrectionType: 'AUTO_CHECKOUT' },
+      ]);
+      expect(BackgroundFetch.finish).toHaveBeenCalledWith('com.transistorsoft.fetch');
+
+      // The app was closed - the headless task runs the same check, nothing is left to close
+      const [headlessTask] = (BackgroundFetch.registerHeadlessTask as jest.Mock).mock.calls[0];
+      await headlessTask({ taskId: 'headless', timeout: false });
+      expect(BackgroundFetch.finish).toHaveBeenCalledWith('headless');
+      expect(db.query(`SELECT COUNT(*) AS count FROM attendance;`)).toEqual([{ count: 2 }]);
+    });
+
+    test('a device clock set forward does not check out before the trusted shift end', async () => {
+      // The server says it is still the afternoon of the check-in day
+      trustedClockService.recordServerTime(ticks('2025-12-03 15:00'), readMonotonicClock());
+
+      expect(await autoCheckoutService.run('foreground')).toBeNull();
+      expect(db.query(`SELECT COUNT(*) AS count FROM attendance;`)).toEqual([{ count: 1 }]);
+    });
+  });
+});
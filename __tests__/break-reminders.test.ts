@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import notifee, { EventType } from '@notifee/react-native';
+import {
+  cancelBreakReminderNotifications,
+  getBreakReminderSetting,
+  handleNotificationEvent,
+  onNotificationLinkPress,
+  planBreakReminders,
+  RESUME_WORK_ACTION_ID,
+  RESUME_WORK_LINK,
+  scheduleBreakReminderNotifications,
+} from '../src/services/notifications/notification-service';
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    requestPermission: jest.fn(async () => ({ authorizationStatus: 1 })),
+    createChannel: jest.fn(async () => undefined),
+    setNotificationCategories: jest.fn(async () => undefined),
+    createTriggerNotification: jest.fn(async () => undefined),
+    getTriggerNotificationIds: jest.fn(async () => ['break-reminder-40', 'shift-start']),
+    getDisplayedNotifications: jest.fn(async () => [{ id: 'break-reminder-1', notification: { id: 'break-reminder-1' } }]),
+    cancelAllNotifications: jest.fn(async () => undefined),
+    onForegroundEvent: jest.fn(() => jest.fn()),
+  },
+  AndroidImportance: { HIGH: 4 },
+  TriggerType: { TIMESTAMP: 0 },
+  EventType: { PRESS: 1, ACTION_PRESS: 2 },
+}));
+
+const MINUTE = 60 * 1000;
+const BREAK_START = Date.UTC(2025, 11, 3, 13, 0);
+
+describe('break reminders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('settings come from the defaults, the profile and the shift allowance', () => {
+    expect(getBreakReminderSetting('LUNCH')).toEqual({
+      intervalMinutes: 15,
+      maxMinutes: 45,
+      escalationIntervalMinutes: 5,
+    });
+    expect(
+      getBreakReminderSetting(
+        'LUNCH',
+        { LUNCH: { intervalMinutes: 10, maxMinutes: 50 } },
+        { byType: { LUNCH: 30 } },
+      ),
+    ).toEqual({ intervalMinutes: 10, maxMinutes: 30, escalationIntervalMinutes: 5 });
+  });
+
+  test('reminders repeat until the allowed length, then escalate', () => {
+    const setting = { intervalMinutes: 10, maxMinutes: 25, escalationIntervalMinutes: 5 };
+
+    const reminders = planBreakReminders(BREAK_START, setting, BREAK_START);
+
+    expect(reminders).toHaveLength(12);
+    expect(reminders.slice(0, 5)).toEqual([
+      { id: 'break-reminder-0', timestamp: BREAK_START + 10 * MINUTE, minutesIntoBreak: 10, minutesOver: 0, isEscalated: false },
+      { id: 'break-reminder-1', timestamp: BREAK_START + 20 * MINUTE, minutesIntoBreak: 20, minutesOver: 0, isEscalated: false },
+      { id: 'break-reminder-2', timestamp: BREAK_START + 25 * MINUTE, minutesIntoBreak: 25, minutesOver: 0, isEscalated: true },
+      { id: 'break-reminder-3', timestamp: BREAK_START + 30 * MINUTE, minutesIntoBreak: 30, minutesOver: 5, isEscalated: true },
+      { id: 'break-reminder-4', timestamp: BREAK_START + 35 * MINUTE, minutesIntoBreak: 35, minutesOver: 10, isEscalated: true },
+    ]);
+
+    // Rescheduling later in the break keeps the ids and skips reminders already due
+    const later = planBreakReminders(BREAK_START, setting, BREAK_START + 22 * MINUTE);
+    expect(later[0]).toMatchObject({ id: 'break-reminder-2', minutesIntoBreak: 25 });
+  });
+
+  test('a cancel on punch IN wins over a schedule still in progress', async () => {
+    const scheduling = scheduleBreakReminderNotifications('LUNCH', Date.now(), {
+      intervalMinutes: 15,
+      maxMinutes: 45,
+      escalationIntervalMinutes: 5,
+    });
+    const cancelling = cancelBreakReminderNotifications();
+    await Promise.all([scheduling, cancelling]);
+
+    expect(notifee.createTriggerNotification).toHaveBeenCalledTimes(12);
+    const escalated = (notifee.createTriggerNotification as jest.Mock).mock.calls[2][0];
+    expect(escalated).toMatchObject({
+      title: 'Break Overrun',
+      data: { link: RESUME_WORK_LINK },
+      android: { channelId: 'break-overrun' },
+    });
+    expect(escalated.android.actions[0].pressAction).toEqual({ id: RESUME_WORK_ACTION_ID, launchActivity: 'default' });
+
+    const cancelCalls = (notifee.cancelAllNotifications as jest.Mock).mock.calls;
+    expect(cancelCalls).toHaveLength(2);
+    const lastCancelled: string[] = cancelCalls[1][0];
+    expect(lastCancelled).toEqual(expect.arrayContaining(['break-reminder-0', 'break-reminder-1', 'break-reminder-40']));
+    expect(lastCancelled).not.toContain('shift-start');
+    expect((notifee.cancelAllNotifications as jest.Mock).mock.invocationCallOrder[1]).toBeGreaterThan(
+      Math.max(...(notifee.createTriggerNotification as jest.Mock).mock.invocationCallOrder),
+    );
+  });
+
+  test('"Resume work" presses reach the subscribers as a deep link', async () => {
+    const listener = jest.fn();
+    const unsubscribe = onNotificationLinkPress(listener);
+
+    await handleNotificationEvent({ type: EventType.PRESS, detail: { pressAction: { id: 'default' } } });
+    await handleNotificationEvent({
+      type: EventType.ACTION_PRESS,
+      detail: { pressAction: { id: RESUME_WORK_ACTION_ID }, notification: { data: { link: RESUME_WORK_LINK } } },
+    });
+    unsubscribe();
+    await handleNotificationEvent({ type: EventType.ACTION_PRESS, detail: { pressAction: { id: RESUME_WORK_ACTION_ID } } });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(RESUME_WORK_LINK);
+  });
+});
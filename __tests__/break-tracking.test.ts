@@ -0,0 +1,107 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import { runMigrations, SCHEMA_MIGRATIONS } from '../src/services/database/migrations';
+import { calculateBreaks, getBreakType } from '../src/services/attendance/break-service';
+import { groupAttendanceByDate } from '../src/services/attendance/attendance-grouping-service';
+import { getShiftRoster, type ShiftRoster } from '../src/utils/shift-roster-utils';
+import { AttendanceRecord } from '../src/redux/types/userTypes';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+
+const ticks = (dateTime: string) => moment.utc(dateTime, 'YYYY-MM-DD HH:mm').valueOf();
+
+const punch = (
+  time: string,
+  direction: 'IN' | 'OUT',
+  fields: Partial<AttendanceRecord> = {},
+): AttendanceRecord => ({
+  Timestamp: ticks(`2025-12-03 ${time}`),
+  PunchDirection: direction,
+  DateOfPunch: '2025-12-03',
+  PunchType: fields.BreakType ? 'BREAK' : 'CHECK',
+  ...fields,
+});
+
+// 09:00-18:00 with a 45 minute lunch, a 20 minute personal timeout and an early checkout gap
+const day: AttendanceRecord[] = [
+  punch('09:00', 'IN'),
+  punch('13:00', 'OUT', { BreakType: 'LUNCH' }),
+  punch('13:45', 'IN', { BreakType: 'LUNCH' }),
+  punch('15:00', 'OUT', { AttendanceStatus: 'PERSONALTIMEOUT' }), // Recorded before break punches
+  punch('15:20', 'IN'),
+  punch('16:00', 'OUT', { AttendanceStatus: 'EARLY_CHECKOUT' }),
+  punch('16:30', 'IN'),
+  punch('18:00', 'OUT'),
+];
+
+describe('break tracking', () => {
+  test('breaks are totalled per type, separately from other gaps', () => {
+    expect(getBreakType({ PunchDirection: 'OUT', AttendanceStatus: 'shortBreak' })).toBe('SHORTBREAK');
+    expect(getBreakType({ PunchDirection: 'IN', BreakType: 'LUNCH' })).toBeNull();
+
+    const summary = calculateBreaks(day);
+
+    expect(summary.minutesByType).toEqual({ LUNCH: 45, PERSONALTIMEOUT: 20 });
+    expect(summary.totalMinutes).toBe(65);
+    expect(summary.hasOverrun).toBe(false);
+  });
+
+  test('a break still going on counts up to now and overruns are flagged', () => {
+    const ongoing = [...day.slice(0, 2)];
+    const allowance = { total: 60, byType: { LUNCH: 30, SHORTBREAK: 15 } };
+
+    expect(calculateBreaks(ongoing, allowance).breaks).toEqual([
+      expect.objectContaining({ breakType: 'LUNCH', endTime: null, minutes: 0 }),
+    ]);
+    expect(calculateBreaks(ongoing, allowance, ticks('2025-12-03 13:40'))).toMatchObject({
+      minutesByType: { LUNCH: 40 },
+      overrunByType: { LUNCH: 10 },
+      totalOverrunMinutes: 0,
+      hasOverrun: true,
+    });
+    expect(calculateBreaks(day, allowance)).toMatchObject({
+      overrunByType: { LUNCH: 15 },
+      totalOverrunMinutes: 5,
+    });
+  });
+
+  test('grouped days carry the break summary against the roster allowance', () => {
+    const roster: ShiftRoster = { ...getShiftRoster(), breakAllowance: { byType: { LUNCH: 60 } } };
+
+    const [grouped] = groupAttendanceByDate(day, roster);
+
+    expect(grouped.breakDuration).toBe('01:05');
+    expect(grouped.breakSummary).toMatchObject({
+      minutesByType: { LUNCH: 45, PERSONALTIMEOUT: 20 },
+      hasOverrun: false,
+    });
+  });
+
+  test('migration turns break statuses of existing punches into break punches', async () => {
+    const db = await SQLiteStandIn.open();
+    await runMigrations(db, SCHEMA_MIGRATIONS.slice(0, 11));
+    day.forEach((record, index) =>
+      db.query(
+        `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchType, PunchDirection, AttendanceStatus)
+          VALUES (?, ?, 'user@example.com', 'CHECK', ?, ?);`,
+        [`punch-${index}`, record.Timestamp, record.PunchDirection, record.AttendanceStatus ?? record.BreakType ?? null],
+      ),
+    );
+
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+
+    expect(db.query('SELECT PunchType, BreakType FROM attendance ORDER BY Timestamp;')).toEqual([
+      { PunchType: 'CHECK', BreakType: null },
+      { PunchType: 'BREAK', BreakType: 'LUNCH' },
+      { PunchType: 'BREAK', BreakType: 'LUNCH' },
+      { PunchType: 'BREAK', BreakType: 'PERSONALTIMEOUT' },
+      { PunchType: 'BREAK', BreakType: 'PERSONALTIMEOUT' },
+      { PunchType: 'CHECK', BreakType: null },
+      { PunchType: 'CHECK', BreakType: null },
+      { PunchType: 'CHECK', BreakType: null },
+    ]);
+    db.close();
+  });
+});
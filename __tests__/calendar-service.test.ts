@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import { calendarService } from '../src/services/attendance/calendar-service';
+import { fillMissingDatesInMonth } from '../src/services/attendance/attendance-utils';
+import { getStatusColorFromStatus } from '../src/services/attendance/attendance-status-service';
+import { networkService } from '../src/services/network/network-service';
+import apiClient from '../src/services/api/api-client';
+import { getShiftRoster } from '../src/utils/shift-roster-utils';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+const EMAIL = 'user@example.com';
+const DECEMBER = moment.utc('2025-12-01');
+
+const get = apiClient.get as jest.Mock;
+
+const present = (dateOfPunch: string) => ({
+  dateOfPunch,
+  attendanceStatus: 'PRESENT' as const,
+  totalDuration: '08:00',
+  breakDuration: '00:00',
+  records: [],
+});
+
+describe('calendar service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-12-31T12:00:00Z') });
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    db.close();
+  });
+
+  test('empty dates become holidays, weekly offs and leaves instead of absences', async () => {
+    get.mockResolvedValueOnce({
+      data: {
+        holidays: [{ date: '2025-12-25', name: 'Christmas' }],
+        weeklyOffs: ['SUN'],
+        leaves: [
+          { leaveId: 'leave-1', leaveType: 'SICK', startDate: '2025-12-10', endDate: '2025-12-11', status: 'APPROVED' },
+          { leaveId: 'leave-2', leaveType: 'CASUAL', startDate: '2025-12-16', endDate: '2025-12-16', status: 'PENDING' },
+        ],
+      },
+    });
+    await expect(calendarService.refreshMonthCalendar(EMAIL, DECEMBER)).resolves.toBe(true);
+    expect(get).toHaveBeenCalledWith('/api/attendance/calendar?from=2025-12-01&to=2025-12-31', expect.anything());
+
+    const calendar = await calendarService.getMonthCalendar(EMAIL, DECEMBER);
+    // Saturdays are off in the roster
+    const nineToFive = { segments: [{ startTime: '09:00', endTime: '17:00' }] };
+    const roster = getShiftRoster({
+      shiftRoster: { weeks: [{ MON: nineToFive, TUE: nineToFive, WED: nineToFive, THU: nineToFive, FRI: nineToFive }] },
+    });
+    const days = fillMissingDatesInMonth([present('2025-12-01'), present('2025-12-07')], DECEMBER, calendar, roster);
+    const byDate = Object.fromEntries(days.map((day) => [day.dateOfPunch, day]));
+
+    expect(byDate['2025-12-01'].attendanceStatus).toBe('PRESENT');
+    expect(byDate['2025-12-07'].attendanceStatus).toBe('PRESENT'); // Worked on a Sunday
+    expect(byDate['2025-12-14'].attendanceStatus).toBe('WEEK_OFF');
+    expect(byDate['2025-12-13'].attendanceStatus).toBe('WEEK_OFF');
+    expect(byDate['2025-12-25']).toMatchObject({ attendanceStatus: 'HOLIDAY', calendarLabel: 'Christmas' });
+    expect(byDate['2025-12-11']).toMatchObject({ attendanceStatus: 'ON_LEAVE', calendarLabel: 'SICK' });
+    expect(byDate['2025-12-16'].attendanceStatus).toBe('ABSENT');
+
+    expect(getStatusColorFromStatus('HOLIDAY')).toBe('BLUE');
+    expect(getStatusColorFromStatus('WEEK_OFF')).toBe('GREY');
+    expect(getStatusColorFromStatus('ON_LEAVE')).toBe('PURPLE');
+  });
+
+  test('cached calendar is kept when offline or the request fails', async () => {
+    get.mockResolvedValueOnce({ data: { holidays: [{ date: '2025-12-25', name: 'Christmas' }], weeklyOffs: ['SUN'] } });
+    await calendarService.refreshMonthCalendar(EMAIL, DECEMBER);
+
+    (networkService.isConnected as jest.Mock).mockResolvedValueOnce(false);
+    await expect(calendarService.refreshMonthCalendar(EMAIL, DECEMBER)).resolves.toBe(false);
+    get.mockRejectedValueOnce(new Error('Network Error'));
+    await expect(calendarService.refreshMonthCalendar(EMAIL, DECEMBER)).resolves.toBe(false);
+
+    await expect(calendarService.getMonthCalendar(EMAIL, DECEMBER)).resolves.toEqual({
+      holidays: [{ date: '2025-12-25', name: 'Christmas' }],
+      weeklyOffs: ['SUN'],
+      leaves: [],
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @format
+ */
+
+import { correctionService } from '../src/services/attendance/correction-service';
+import { syncQueueService } from '../src/services/sync/sync-queue-service';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const EMAIL = 'user@example.com';
+
+const get = apiClient.get as jest.Mock;
+const post = apiClient.post as jest.Mock;
+
+const insertCheckout = (isSynced: 'Y' | 'N') =>
+  db.query(
+    `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchDirection, IsSynced, DateOfPunch, ApprovalRequired)
+      VALUES ('punch-1', 1000, ?, 'OUT', ?, '2025-12-20', 'Y');`,
+    [EMAIL, isSynced],
+  );
+
+const submitForgotCheckout = () =>
+  correctionService.submitCorrection({
+    punchId: 'punch-1',
+    userId: EMAIL,
+    correctionType: 'FORGOT_CHECKOUT',
+    reason: 'FORGOT_TO_CHECKOUT',
+    originalTime: 5000,
+    requestedTime: 1000,
+  });
+
+const getQueuedCorrections = async () =>
+  (await syncQueueService.getQueuedItems()).filter((item) => item.type === 'correction');
+
+const pushQueued = async () => {
+  const outcomes = [];
+  for (const item of await getQueuedCorrections()) {
+    outcomes.push((await correctionService.pushQueuedRequest(item, EMAIL)).outcome);
+  }
+  return outcomes;
+};
+
+describe('correction service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('submit is queued once per punch and sent after the punch is synced', async () => {
+    insertCheckout('N');
+    const request = await submitForgotCheckout();
+    await expect(submitForgotCheckout()).resolves.toMatchObject({ requestId: request.requestId });
+    await expect(getQueuedCorrections()).resolves.toHaveLength(1);
+
+    await expect(pushQueued()).resolves.toEqual(['deferred']);
+    expect(post).not.toHaveBeenCalled();
+
+    db.query(`UPDATE attendance SET IsSynced = 'Y';`);
+    post.mockResolvedValueOnce({ data: { requestId: request.requestId, status: 'PENDING' } });
+    await expect(pushQueued()).resolves.toEqual(['synced']);
+
+    expect(post).toHaveBeenCalledWith(
+      '/api/attendance/corrections',
+      expect.objectContaining({ requestId: request.requestId, punchId: 'punch-1', correctionType: 'FORGOT_CHECKOUT' }),
+      expect.objectContaining({ headers: { 'Idempotency-Key': request.requestId } }),
+    );
+    await expect(correctionService.getMyRequests(EMAIL)).resolves.toEqual([
+      expect.objectContaining({ status: 'pending', isSynced: 1 }),
+    ]);
+  });
+
+  test('a request withdrawn before it was sent never reaches the server', async () => {
+    insertCheckout('Y');
+    const request = await submitForgotCheckout();
+
+    await expect(correctionService.withdrawCorrection(request.requestId)).resolves.toBe(true);
+    await expect(correctionService.withdrawCorrection(request.requestId)).resolves.toBe(false);
+    post.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { response: { status: 404 } }));
+
+    await expect(pushQueued()).resolves.toEqual(['synced', 'synced']);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toBe(`/api/attendance/corrections/${request.requestId}/withdraw`);
+    await expect(correctionService.getMyRequests(EMAIL)).resolves.toEqual([
+      expect.objectContaining({ status: 'withdrawn', isSynced: 1 }),
+    ]);
+  });
+
+  test('refresh takes manager decisions but keeps unsent local changes', async () => {
+    insertCheckout('Y');
+    const sent = await submitForgotCheckout();
+    post.mockResolvedValueOnce({ data: {} });
+    await pushQueued();
+    db.query(`INSERT INTO attendance (PunchID, Timestamp, UserID, PunchDirection, IsSynced, DateOfPunch)
+      VALUES ('punch-2', 2000, '${EMAIL}', 'OUT', 'Y', '2025-12-21');`);
+    const unsent = await correctionService.submitCorrection({
+      punchId: 'punch-2',
+      userId: EMAIL,
+      correctionType: 'MANUAL_TIME',
+      requestedTime: 2000,
+    });
+    get.mockResolvedValueOnce({
+      data: [
+        { requestId: sent.requestId, punchId: 'punch-1', correctionType: 'FORGOT_CHECKOUT', requestedTime: 1000,
+          status: 'REJECTED', reviewerComment: 'Badge shows 17:10', reviewedBy: 'manager@example.com', submittedAt: 10 },
+        { requestId: unsent.requestId, punchId: 'punch-2', correctionType: 'MANUAL_TIME', requestedTime: 2000,
+          status: 'APPROVED', submittedAt: 20 },
+        { requestId: 'other-device', punchId: 'punch-3', correctionType: 'MANUAL_TIME', requestedTime: 3000,
+          status: 'PENDING', submittedAt: 30 },
+      ],
+    });
+
+    const requests = await correctionService.refreshMyRequests(EMAIL);
+
+    const byId = Object.fromEntries(requests.map((request) => [request.requestId, request]));
+    expect(byId[sent.requestId]).toMatchObject({ status: 'rejected', reviewerComment: 'Badge shows 17:10', isSynced: 1 });
+    expect(byId[unsent.requestId]).toMatchObject({ status: 'pending', isSynced: 0 });
+    expect(byId['other-device']).toMatchObject({ status: 'pending', userId: EMAIL, isSynced: 1 });
+  });
+});
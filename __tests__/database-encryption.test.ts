@@ -0,0 +1,188 @@
+/**
+ * @format
+ */
+
+import { runMigrations, SCHEMA_MIGRATIONS } from '../src/services/database/migrations';
+import type * as DatabaseService from '../src/services/database/database-service';
+import type * as SqlClient from '../src/services/database/sql-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+
+// Database files on the device by name, with the key they were opened with
+const mockFiles = new Map<string, { db: SQLiteStandIn; key?: string }>();
+const mockOpened: Array<{ name: string; key?: string }> = [];
+const mockKeychain = new Map<string, string>();
+const mockStorage = new Map<string, boolean>();
+const mockSecureRandom = jest.fn((length: number): string | null =>
+  require('crypto').randomBytes(length).toString('hex'),
+);
+
+// The real connection, on top of the database files below
+jest.unmock('../src/services/database/db-connection');
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.SecurityUtils = { getSecureRandomBytes: mockSecureRandom };
+  return ReactNative;
+});
+
+jest.mock('react-native-sqlite-storage', () => {
+  const { SQLiteStandIn: StandIn } = require('../jest/sqlite-stand-in');
+  return {
+    __esModule: true,
+    default: {
+      openDatabase: jest.fn(
+        ({ name, key }: { name: string; key?: string }, success: (db: unknown) => void, error: (e: unknown) => void) => {
+          mockOpened.push({ name, key });
+          const file = mockFiles.get(name);
+          if (file && file.key !== key) {
+            setTimeout(() => error(new Error('file is not a database')));
+            return;
+          }
+          (file ? Promise.resolve(file.db) : StandIn.open()).then((db: any) => {
+            // Closing keeps the file: only the connection is released
+            db.close = (onClosed?: () => void) => onClosed?.();
+            mockFiles.set(name, { db, key });
+            success(db);
+          });
+        },
+      ),
+      deleteDatabase: jest.fn(({ name }: { name: string }, success: () => void, error: (e: unknown) => void) => {
+        setTimeout(() => (mockFiles.delete(name) ? success() : error('The database does not exist on that path')));
+      }),
+    },
+  };
+});
+
+jest.mock('react-native-keychain', () => ({
+  ACCESSIBLE: { AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 'AccessibleAfterFirstUnlockThisDeviceOnly' },
+  getGenericPassword: jest.fn(async ({ service }: { service: string }) =>
+    mockKeychain.has(service) ? { username: 'database_key', password: mockKeychain.get(service) } : false,
+  ),
+  setGenericPassword: jest.fn(async (_username: string, password: string, { service }: { service: string }) => {
+    mockKeychain.set(service, password);
+    return true;
+  }),
+  resetGenericPassword: jest.fn(async ({ service }: { service: string }) => mockKeychain.delete(service)),
+}));
+
+jest.mock('react-native-mmkv', () => ({
+  MMKV: class {
+    private readonly prefix: string;
+    constructor(config: { id?: string } = {}) {
+      this.prefix = `${config.id}:`;
+    }
+    set(key: string, value: boolean) {
+      mockStorage.set(this.prefix + key, value);
+    }
+    getBoolean(key: string) {
+      return mockStorage.get(this.prefix + key);
+    }
+  },
+}));
+
+const LATEST_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// The database modules as loaded by a fresh app process
+const startApp = (): typeof DatabaseService & typeof SqlClient => {
+  let loaded: (typeof DatabaseService & typeof SqlClient) | undefined;
+  jest.isolateModules(() => {
+    loaded = {
+      ...require('../src/services/database/database-service'),
+      ...require('../src/services/database/sql-client'),
+    };
+  });
+  return loaded!;
+};
+
+// Plaintext database left by an earlier version of the app
+const installEarlierVersion = async (): Promise<SQLiteStandIn> => {
+  const legacy = await SQLiteStandIn.open();
+  await runMigrations(legacy, SCHEMA_MIGRATIONS);
+  legacy.query(
+    `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchDirection, IsSynced)
+     VALUES ('punch-1', 1764752400000, 'user@example.com', 'IN', 'N')`,
+  );
+  mockFiles.set('RadiumDB', { db: legacy });
+  return legacy;
+};
+
+describe('encrypted database', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    mockOpened.length = 0;
+    mockKeychain.clear();
+    mockStorage.clear();
+  });
+
+  test('an earlier install is moved into the encrypted database once', async () => {
+    await installEarlierVersion();
+
+    const app = startApp();
+    await expect(app.runDatabaseMigrations()).resolves.toBe(LATEST_VERSION);
+    await expect(app.query('SELECT PunchID, IsSynced FROM attendance')).resolves.toEqual([
+      { PunchID: 'punch-1', IsSynced: 'N' },
+    ]);
+
+    const key = mockKeychain.get('database_key');
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(mockOpened).toEqual([{ name: 'RadiumSecureDB', key }, { name: 'RadiumDB', key: undefined }]);
+    expect(mockFiles.has('RadiumDB')).toBe(false);
+    expect(mockFiles.get('RadiumSecureDB')?.key).toBe(key);
+
+    // Next launch: same key, nothing left to migrate
+    mockOpened.length = 0;
+    const restarted = startApp();
+    await expect(restarted.query('SELECT PunchID FROM attendance')).resolves.toEqual([{ PunchID: 'punch-1' }]);
+    expect(mockOpened).toEqual([{ name: 'RadiumSecureDB', key }]);
+  });
+
+  test('a new install starts with an empty encrypted database', async () => {
+    const app = startApp();
+
+    await expect(app.runDatabaseMigrations()).resolves.toBe(LATEST_VERSION);
+    await expect(app.query('SELECT * FROM attendance')).resolves.toEqual([]);
+    expect(Array.from(mockFiles.keys())).toEqual(['RadiumSecureDB']);
+  });
+
+  test('logout deletes the database, its key and the key that signed its punch chain', async () => {
+    await installEarlierVersion();
+    mockKeychain.set('device_signing_key', 'ab'.repeat(32));
+    const app = startApp();
+    await app.runDatabaseMigrations();
+    const firstKey = mockKeychain.get('database_key');
+
+    await app.deleteLocalDatabase();
+    expect(mockKeychain.has('database_key')).toBe(false);
+    expect(mockKeychain.has('device_signing_key')).toBe(false);
+    expect(mockFiles.size).toBe(0);
+
+    // The next user gets a new key and a freshly migrated database
+    await expect(app.runDatabaseMigrations()).resolves.toBe(LATEST_VERSION);
+    await expect(app.query('SELECT * FROM attendance')).resolves.toEqual([]);
+    expect(mockKeychain.get('database_key')).not.toBe(firstKey);
+  });
+
+  test('the database is not opened without its key', async () => {
+    await installEarlierVersion();
+    const Keychain = require('react-native-keychain');
+    Keychain.getGenericPassword.mockRejectedValueOnce(new Error('Keychain not available'));
+
+    const app = startApp();
+    await expect(app.runDatabaseMigrations()).rejects.toThrow('Keychain not available');
+    expect(mockOpened).toEqual([]);
+
+    // Retried on the next call
+    await expect(app.runDatabaseMigrations()).resolves.toBe(LATEST_VERSION);
+    await expect(app.query('SELECT PunchID FROM attendance')).resolves.toEqual([{ PunchID: 'punch-1' }]);
+  });
+
+  test('no key is created without the native secure random', async () => {
+    mockSecureRandom.mockReturnValueOnce(null);
+
+    const app = startApp();
+    await expect(app.runDatabaseMigrations()).rejects.toThrow('Secure random not available');
+    expect(mockKeychain.has('database_key')).toBe(false);
+    expect(mockOpened).toEqual([]);
+  });
+});
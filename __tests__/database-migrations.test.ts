@@ -0,0 +1,295 @@
+/**
+ * @format
+ */
+
+import {
+  getSchemaVersion,
+  runMigrations,
+  SCHEMA_MIGRATIONS,
+  type Migration,
+} from '../src/services/database/migrations';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+
+const LATEST_VERSION = SCHEMA_MIGRATIONS.length;
+
+const getColumns = (db: SQLiteStandIn, table: string): string[] =>
+  db.query(`PRAGMA table_info(${table});`).map((row) => row.name);
+
+const getTables = (db: SQLiteStandIn): string[] =>
+  db
+    .query("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name;")
+    .map((row) => row.name);
+
+describe('database migrations', () => {
+  let db: SQLiteStandIn;
+
+  beforeEach(async () => {
+    db = await SQLiteStandIn.open();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('migration versions are consecutive starting at 1', () => {
+    SCHEMA_MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+  });
+
+  test('fresh database is migrated to the latest version', async () => {
+    expect(await getSchemaVersion(db)).toBe(0);
+
+    await expect(runMigrations(db, SCHEMA_MIGRATIONS)).resolves.toBe(LATEST_VERSION);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(getTables(db)).toEqual([
+      'attendance',
+      'correction_requests',
+      'holidays',
+      'leave_balances',
+      'leaves',
+      'profile',
+      'punch_chain',
+      'punch_chain_tombstone',
+      'settings',
+      'sync_conflicts',
+      'sync_cursors',
+      'sync_queue',
+      'team_corrections',
+      'team_members',
+      'teams',
+      'weekly_offs',
+    ]);
+    expect(getColumns(db, 'attendance')).toEqual(
+      expect.arrayContaining([
+        'PunchID',
+        'Timestamp',
+        'UserID',
+        'GeofenceStatus',
+        'GpsAccuracy',
+        'server_Timestamp',
+        'lastSyncedAt',
+        'lastUpdatedAt',
+      ]),
+    );
+    expect(getColumns(db, 'profile')).toEqual(
+      expect.arrayContaining(['email', 'firstName', 'profilePhoto', 'isSynced']),
+    );
+  });
+
+  test('every migration applies on top of the previous one', async () => {
+    for (let version = 1; version <= LATEST_VERSION; version++) {
+      await expect(runMigrations(db, SCHEMA_MIGRATIONS.slice(0, version))).resolves.toBe(version);
+    }
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+  });
+
+  test('running again is a no-op', async () => {
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+    db.query("INSERT INTO settings (key, value) VALUES ('language', 'en');");
+
+    await expect(runMigrations(db, SCHEMA_MIGRATIONS)).resolves.toBe(LATEST_VERSION);
+
+    expect(db.query('SELECT key, value FROM settings;')).toEqual([
+      { key: 'language', value: 'en' },
+    ]);
+  });
+
+  test('database created before versioning is upgraded without losing data', async () => {
+    db.query(
+      `CREATE TABLE attendance (Timestamp BIGINT PRIMARY KEY, OrgID TEXT, UserID TEXT, PunchType TEXT,
+        PunchDirection TEXT, LatLon TEXT, Address TEXT, CreatedOn BIGINT, IsSynced TEXT, DateOfPunch TEXT);`,
+    );
+    db.query(
+      `INSERT INTO attendance (Timestamp, UserID, PunchDirection, CreatedOn, IsSynced, DateOfPunch)
+        VALUES (1700000000000, 'user@example.com', 'IN', 1700000000500, 'Y', '2023-11-14');`,
+    );
+    db.query(
+      `CREATE TABLE profile (email TEXT PRIMARY KEY, firstName TEXT, firstName_synced INTEGER,
+        firstName_lastUpdatedAt INTEGER, lastName TEXT, lastUpdatedAt INTEGER);`,
+    );
+    db.query(
+      "INSERT INTO profile (email, firstName, firstName_synced, lastName) VALUES ('user@example.com', 'Asha', 0, 'Rao');",
+    );
+
+    await expect(runMigrations(db, SCHEMA_MIGRATIONS)).resolves.toBe(LATEST_VERSION);
+
+    const [punch] = db.query('SELECT * FROM attendance;');
+    expect(punch.PunchID).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(punch).toMatchObject({
+      Timestamp: 1700000000000,
+      UserID: 'user@example.com',
+      PunchDirection: 'IN',
+      GeofenceStatus: null,
+      lastUpdatedAt: 1700000000500,
+    });
+
+    const profileColumns = getColumns(db, 'profile');
+    expect(profileColumns).not.toContain('firstName_synced');
+    expect(profileColumns).not.toContain('firstName_lastUpdatedAt');
+    expect(db.query('SELECT email, firstName, lastName, isSynced FROM profile;')).toEqual([
+      { email: 'user@example.com', firstName: 'Asha', lastName: 'Rao', isSynced: 1 },
+    ]);
+  });
+
+  test('punches are unique per user and timestamp, not per timestamp', async () => {
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+    const insertPunch = (punchId: string, userId: string) =>
+      db.query('INSERT INTO attendance (PunchID, Timestamp, UserID) VALUES (?, ?, ?);', [
+        punchId,
+        1700000000000,
+        userId,
+      ]);
+
+    insertPunch('punch-1', 'first@example.com');
+    insertPunch('punch-2', 'second@example.com');
+    expect(() => insertPunch('punch-3', 'first@example.com')).toThrow(/UNIQUE/);
+    expect(db.query('SELECT COUNT(*) as count FROM attendance;')).toEqual([{ count: 2 }]);
+  });
+
+  test('unsynced rows without a queue item are queued for push', async () => {
+    await runMigrations(db, SCHEMA_MIGRATIONS.slice(0, 3));
+    db.query(
+      `INSERT INTO attendance (PunchID, Timestamp, UserID, CreatedOn, IsSynced)
+        VALUES ('punch-1', 1700000000000, 'user@example.com', 1700000000000, 'N'),
+               ('punch-2', 1700000100000, 'user@example.com', 1700000100000, 'Y');`,
+    );
+    db.query(
+      `INSERT INTO settings (key, value, isSynced, lastUpdatedAt)
+        VALUES ('language', 'ar', 0, 1700000200000), ('theme', 'dark', 0, 1700000300000);`,
+    );
+    db.query(
+      `INSERT INTO sync_queue (id, type, entityId, operation, data, timestamp, attempts, nextRetryAt, createdAt)
+        VALUES ('settings_theme_all_1700000300000', 'settings', 'theme', 'update', '{"theme":"dark"}',
+                1700000300000, 2, 0, 1700000300000);`,
+    );
+
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+
+    expect(
+      db.query('SELECT id, type, entityId, data, attempts, status FROM sync_queue ORDER BY id;'),
+    ).toEqual([
+      {
+        id: 'attendance_punch-1_all_1700000000000',
+        type: 'attendance',
+        entityId: 'punch-1',
+        data: 'null',
+        attempts: 0,
+        status: 'pending',
+      },
+      {
+        id: 'settings_language_all_1700000200000',
+        type: 'settings',
+        entityId: 'language',
+        data: '{"language":"ar"}',
+        attempts: 0,
+        status: 'pending',
+      },
+      {
+        id: 'settings_theme_all_1700000300000',
+        type: 'settings',
+        entityId: 'theme',
+        data: '{"theme":"dark"}',
+        attempts: 2,
+        status: 'pending',
+      },
+    ]);
+  });
+
+  test('break statuses become break punches, ended by the check-in right after them', async () => {
+    await runMigrations(db, SCHEMA_MIGRATIONS.slice(0, 11));
+    const insertPunch = (
+      punchID: string,
+      userID: string,
+      minute: number,
+      direction: string,
+      status: string,
+      date = '2025-12-03',
+    ) =>
+      db.query(
+        `INSERT INTO attendance (PunchID, Timestamp, UserID, PunchType, PunchDirection, AttendanceStatus, DateOfPunch)
+          VALUES (?, ?, ?, 'CHECK', ?, ?, ?);`,
+        [punchID, Date.UTC(2025, 11, 3, 9, minute), userID, direction, status, date],
+      );
+    // A lunch break, then two check-ins in a row
+    insertPunch('lunch-out', 'user@example.com', 0, 'OUT', 'Lunch');
+    insertPunch('lunch-in', 'user@example.com', 10, 'IN', 'PRESENT');
+    insertPunch('second-in', 'user@example.com', 20, 'IN', 'PRESENT');
+    // A short break never closed on the day, the next check-in is on the next day
+    insertPunch('break-out', 'user@example.com', 30, 'OUT', 'ShortBreak');
+    insertPunch('next-day-in', 'user@example.com', 40, 'IN', 'PRESENT', '2025-12-04');
+    // Another user's break does not end this user's check-in
+    insertPunch('other-out', 'other@example.com', 45, 'OUT', 'Commuting');
+    insertPunch('own-in', 'user@example.com', 50, 'IN', 'PRESENT', '2025-12-04');
+
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+
+    expect(db.query('SELECT PunchID, PunchType, BreakType FROM attendance ORDER BY Timestamp;')).toEqual([
+      { PunchID: 'lunch-out', PunchType: 'BREAK', BreakType: 'LUNCH' },
+      { PunchID: 'lunch-in', PunchType: 'BREAK', BreakType: 'LUNCH' },
+      { PunchID: 'second-in', PunchType: 'CHECK', BreakType: null },
+      { PunchID: 'break-out', PunchType: 'BREAK', BreakType: 'SHORTBREAK' },
+      { PunchID: 'next-day-in', PunchType: 'CHECK', BreakType: null },
+      { PunchID: 'other-out', PunchType: 'BREAK', BreakType: 'COMMUTING' },
+      { PunchID: 'own-in', PunchType: 'CHECK', BreakType: null },
+    ]);
+  });
+
+  test('failing migration is rolled back and stops the run', async () => {
+    const failing: Migration = {
+      version: LATEST_VERSION + 1,
+      name: 'failing',
+      up: (tx) => {
+        tx.executeSql('ALTER TABLE attendance ADD COLUMN ShouldRollBack TEXT;');
+        tx.executeSql('INSERT INTO missing_table (id) VALUES (1);');
+      },
+    };
+    const unreachable: Migration = {
+      version: LATEST_VERSION + 2,
+      name: 'unreachable',
+      up: jest.fn(),
+    };
+
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+    await expect(
+      runMigrations(db, [...SCHEMA_MIGRATIONS, failing, unreachable]),
+    ).rejects.toBeTruthy();
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(getColumns(db, 'attendance')).not.toContain('ShouldRollBack');
+    expect(unreachable.up).not.toHaveBeenCalled();
+  });
+
+  test('a failing statement rolls back even when its error callback returns false', async () => {
+    await runMigrations(db, SCHEMA_MIGRATIONS);
+
+    const failure = await new Promise((resolve) => {
+      db.transaction(
+        (tx) => {
+          tx.executeSql('ALTER TABLE attendance ADD COLUMN ShouldRollBack TEXT;');
+          tx.executeSql('INSERT INTO missing_table (id) VALUES (1);', [], undefined, () => false);
+        },
+        resolve,
+        () => resolve(null),
+      );
+    });
+
+    expect(failure).toBeTruthy();
+    expect(getColumns(db, 'attendance')).not.toContain('ShouldRollBack');
+  });
+
+  test('rejects migration lists with gaps in the versions', async () => {
+    await expect(
+      runMigrations(db, [SCHEMA_MIGRATIONS[0], { version: 3, name: 'gap', up: jest.fn() }]),
+    ).rejects.toThrow('consecutive');
+    expect(await getSchemaVersion(db)).toBe(0);
+  });
+
+  test('database newer than the app is left untouched', async () => {
+    db.query(`PRAGMA user_version = ${LATEST_VERSION + 5};`);
+
+    await expect(runMigrations(db, SCHEMA_MIGRATIONS)).resolves.toBe(LATEST_VERSION + 5);
+    expect(getTables(db)).toEqual([]);
+  });
+});
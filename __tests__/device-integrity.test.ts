@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+
+import { NativeModules } from 'react-native';
+import Config from 'react-native-config';
+import { logger } from '../src/services/logger';
+import type * as DeviceIntegrity from '../src/services/device/device-integrity-service';
+
+jest.mock('react-native-config', () => ({}));
+
+jest.mock('../src/services/device/device-identifier-service', () => ({
+  getDeviceUniqueIdentifier: jest.fn(async () => 'device-1'),
+}));
+
+const RELEASE_SIGNATURE = 'AB:CD:EF:01';
+
+let nativeIntegrity: Record<string, unknown>;
+
+// The service as loaded by a fresh app process (detections are reported once per session)
+const startApp = (): typeof DeviceIntegrity => {
+  let loaded: typeof DeviceIntegrity | undefined;
+  jest.isolateModules(() => {
+    loaded = require('../src/services/device/device-integrity-service');
+  });
+  return loaded!;
+};
+
+describe('device integrity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete Config.APP_SIGNATURE_SHA256;
+    nativeIntegrity = {
+      rooted: false,
+      emulator: false,
+      hookingFramework: false,
+      signatureSha256: 'abcdef01',
+      indicators: [],
+    };
+    NativeModules.SecurityUtils = {
+      getDeviceIntegrity: jest.fn((callback) => callback(null, nativeIntegrity)),
+    };
+  });
+
+  test('an unmodified device passes and nothing is reported', async () => {
+    Config.APP_SIGNATURE_SHA256 = RELEASE_SIGNATURE;
+    const { checkDeviceIntegrity } = startApp();
+
+    expect(await checkDeviceIntegrity()).toEqual({ reasons: [], indicators: [] });
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  test('detections are reported once per app session with the policy', async () => {
+    nativeIntegrity = {
+      ...nativeIntegrity,
+      rooted: true,
+      hookingFramework: true,
+      indicators: ['package:com.topjohnwu.magisk', 'maps:frida-agent.so'],
+    };
+    const { checkDeviceIntegrity } = startApp();
+
+    const result = await checkDeviceIntegrity('BLOCK');
+    expect(result.reasons).toEqual(['ROOTED', 'HOOKING_FRAMEWORK']);
+    expect(logger.error).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledWith('Device integrity check failed', undefined, undefined, expect.objectContaining({
+      reason: 'ROOTED',
+      policy: 'BLOCK',
+      deviceId: 'device-1',
+      indicators: ['package:com.topjohnwu.magisk', 'maps:frida-agent.so'],
+    }));
+
+    // Back in the foreground: still detected, not reported again
+    expect((await checkDeviceIntegrity('BLOCK')).reasons).toEqual(['ROOTED', 'HOOKING_FRAMEWORK']);
+    expect(logger.error).toHaveBeenCalledTimes(2);
+  });
+
+  test('a different signing certificate counts only when the release certificate is configured', async () => {
+    nativeIntegrity = { ...nativeIntegrity, signatureSha256: '99887766' };
+
+    expect((await startApp().checkDeviceIntegrity()).reasons).toEqual([]);
+
+    Config.APP_SIGNATURE_SHA256 = RELEASE_SIGNATURE;
+    expect((await startApp().checkDeviceIntegrity()).reasons).toEqual(['SIGNATURE_TAMPERED']);
+  });
+
+  test('the policy blocks, warns or only reports', () => {
+    const { getDeviceIntegrityPolicy, isDeviceBlockedByIntegrity, isDeviceWarnedByIntegrity } = startApp();
+    const emulator: DeviceIntegrity.DeviceIntegrityResult = { reasons: ['EMULATOR'], indicators: [] };
+    const clean: DeviceIntegrity.DeviceIntegrityResult = { reasons: [], indicators: [] };
+
+    expect(getDeviceIntegrityPolicy(undefined)).toBe('REPORT');
+    expect(getDeviceIntegrityPolicy('warn')).toBe('WARN');
+
+    expect(isDeviceBlockedByIntegrity(emulator, 'BLOCK')).toBe(true);
+    expect(isDeviceBlockedByIntegrity(clean, 'BLOCK')).toBe(false);
+    expect(isDeviceWarnedByIntegrity(emulator, 'WARN')).toBe(true);
+    expect(isDeviceBlockedByIntegrity(emulator, 'REPORT')).toBe(false);
+    expect(isDeviceWarnedByIntegrity(emulator, 'REPORT')).toBe(false);
+  });
+});
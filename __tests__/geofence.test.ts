@@ -0,0 +1,174 @@
+/**
+ * @format
+ */
+
+import { insertAttendancePunchRecord } from '../src/services/attendance/attendance-db-service';
+import {
+  evaluateGeofence,
+  getGeofenceUnverifiedPolicy,
+  isPunchBlockedByGeofence,
+  isPunchFlaggedByGeofence,
+  isPunchWarnedByGeofence,
+  toPunchGeofenceFields,
+} from '../src/services/location/geofence-service';
+import type { GeofenceArea } from '../src/services/auth/profile-service';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const OFFICE: GeofenceArea = { id: 'office', name: 'Office', latitude: 12.9716, longitude: 77.5946, radius: 100 };
+// Overlaps the office, its center 110 m north
+const ANNEX: GeofenceArea = { id: 'annex', name: 'Annex', latitude: 12.9726, longitude: 77.5946, radius: 100 };
+const CLOSED_SITE: GeofenceArea = { id: 'closed', name: 'Closed', latitude: 12.9716, longitude: 77.5946, radius: 5000, isActive: false };
+
+// Fix north of the office by latitudeOffset degrees (0.001 is about 111 m)
+const fix = (latitudeOffset: number, accuracy?: number | null) => ({
+  latitude: OFFICE.latitude + latitudeOffset,
+  longitude: OFFICE.longitude,
+  accuracy,
+});
+
+describe('geofence', () => {
+  test('fix within an area radius is inside it', () => {
+    const evaluation = evaluateGeofence(fix(0.0005, 20), [OFFICE, CLOSED_SITE]);
+
+    expect(evaluation).toEqual({
+      status: 'INSIDE',
+      matchedArea: OFFICE,
+      nearestArea: OFFICE,
+      distanceToNearest: 0,
+      accuracy: 20,
+    });
+    // The accuracy limit itself still counts as accurate enough
+    expect(evaluateGeofence(fix(0.0005, 150), [OFFICE]).status).toBe('INSIDE');
+  });
+
+  test('overlapping areas match the one whose center is closest', () => {
+    expect(evaluateGeofence(fix(0.0004, 20), [OFFICE, ANNEX]).matchedArea).toBe(OFFICE);
+    expect(evaluateGeofence(fix(0.0006, 20), [OFFICE, ANNEX]).matchedArea).toBe(ANNEX);
+  });
+
+  test('fix outside the radius is uncertain while its accuracy circle reaches the area', () => {
+    // About 133 m from the center, 33 m beyond the edge
+    expect(evaluateGeofence(fix(0.0012, 34), [OFFICE])).toMatchObject({
+      status: 'UNCERTAIN',
+      matchedArea: null,
+      nearestArea: OFFICE,
+      distanceToNearest: 33,
+    });
+    expect(evaluateGeofence(fix(0.0012, 33), [OFFICE]).status).toBe('OUTSIDE');
+  });
+
+  test('fix far from every area is outside, with the distance to the nearest edge', () => {
+    expect(evaluateGeofence(fix(-0.01, 20), [OFFICE, ANNEX, CLOSED_SITE])).toEqual({
+      status: 'OUTSIDE',
+      matchedArea: null,
+      nearestArea: OFFICE,
+      distanceToNearest: 1012,
+      accuracy: 20,
+    });
+  });
+
+  test('fix less accurate than required, or without accuracy, is low accuracy even inside an area', () => {
+    expect(evaluateGeofence(fix(0, 150.5), [OFFICE])).toMatchObject({
+      status: 'LOW_ACCURACY',
+      matchedArea: null,
+      nearestArea: OFFICE,
+    });
+    expect(evaluateGeofence(fix(0, null), [OFFICE]).status).toBe('LOW_ACCURACY');
+  });
+
+  test('missing fix has no status to trust', () => {
+    expect(evaluateGeofence(null, [OFFICE])).toEqual({
+      status: 'NO_FIX',
+      matchedArea: null,
+      nearestArea: null,
+      distanceToNearest: null,
+      accuracy: null,
+    });
+  });
+
+  test('no active areas configured enforces nothing', () => {
+    expect(evaluateGeofence(fix(0.01, 20), undefined).status).toBe('NOT_CONFIGURED');
+    expect(evaluateGeofence(fix(0.01, 20), [CLOSED_SITE, { ...OFFICE, radius: 0 }]).status).toBe('NOT_CONFIGURED');
+    expect(evaluateGeofence(null, []).status).toBe('NOT_CONFIGURED');
+  });
+
+  test('outside and missing fixes always block, unverified punches follow the policy', () => {
+    const inside = evaluateGeofence(fix(0, 20), [OFFICE]);
+    const outside = evaluateGeofence(fix(0.01, 20), [OFFICE]);
+    const noFix = evaluateGeofence(null, [OFFICE]);
+    const uncertain = evaluateGeofence(fix(0.0012, 50), [OFFICE]);
+    const lowAccuracy = evaluateGeofence(fix(0, 500), [OFFICE]);
+
+    expect(getGeofenceUnverifiedPolicy(undefined)).toBe('WARN');
+    expect(getGeofenceUnverifiedPolicy('block')).toBe('BLOCK');
+    expect(getGeofenceUnverifiedPolicy('IGNORE')).toBe('WARN');
+
+    for (const policy of ['BLOCK', 'WARN', 'FLAG'] as const) {
+      expect(isPunchBlockedByGeofence(outside, policy)).toBe(true);
+      expect(isPunchBlockedByGeofence(noFix, policy)).toBe(true);
+      expect(isPunchBlockedByGeofence(inside, policy)).toBe(false);
+      expect(isPunchWarnedByGeofence(inside, policy)).toBe(false);
+    }
+    expect(isPunchBlockedByGeofence(uncertain, 'BLOCK')).toBe(true);
+    expect(isPunchBlockedByGeofence(lowAccuracy, 'BLOCK')).toBe(true);
+    expect(isPunchBlockedByGeofence(lowAccuracy, 'WARN')).toBe(false);
+    expect(isPunchWarnedByGeofence(uncertain, 'WARN')).toBe(true);
+    expect(isPunchWarnedByGeofence(lowAccuracy, 'FLAG')).toBe(false);
+    expect(isPunchFlaggedByGeofence(lowAccuracy)).toBe(true);
+    expect(isPunchFlaggedByGeofence(outside)).toBe(false);
+  });
+
+  describe('punch', () => {
+    beforeEach(async () => {
+      db = await openTestDatabase();
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    test('keeps the matched area, distance and accuracy', async () => {
+      const START = Date.UTC(2025, 11, 3, 9, 0);
+      const punch = {
+        orgID: '123',
+        userID: 'user@example.com',
+        punchType: 'CHECK',
+        punchDirection: 'IN',
+        latLon: '12.9716,77.5946',
+        address: 'Office',
+        createdOn: START,
+        isSynced: 'N',
+        dateOfPunch: '2025-12-03',
+      };
+      await insertAttendancePunchRecord({
+        ...punch,
+        timestamp: START,
+        ...toPunchGeofenceFields(evaluateGeofence(fix(0.0005, 12.4), [OFFICE])),
+      });
+      await insertAttendancePunchRecord({
+        ...punch,
+        timestamp: START + 60000,
+        ...toPunchGeofenceFields(evaluateGeofence(fix(0.0012, 50), [OFFICE])),
+      });
+
+      expect(
+        db.query('SELECT GeofenceStatus, GeofenceID, GeofenceDistance, GpsAccuracy FROM attendance ORDER BY Timestamp;'),
+      ).toEqual([
+        { GeofenceStatus: 'INSIDE', GeofenceID: 'office', GeofenceDistance: 0, GpsAccuracy: 12 },
+        { GeofenceStatus: 'UNCERTAIN', GeofenceID: null, GeofenceDistance: 33, GpsAccuracy: 50 },
+      ]);
+    });
+  });
+});
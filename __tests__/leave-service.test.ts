@@ -0,0 +1,175 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import { leaveService } from '../src/services/attendance/leave-service';
+import { calendarService } from '../src/services/attendance/calendar-service';
+import { fillMissingDatesInMonth } from '../src/services/attendance/attendance-utils';
+import { syncQueueService } from '../src/services/sync/sync-queue-service';
+import { syncQueueProcessor } from '../src/services/sync/sync-queue-processor';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/services/sync/attendance-sync-service', () => ({
+  attendanceSyncService: { syncQueuedPunchesToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/profile-sync-service', () => ({
+  profileSyncService: { syncProfilePropertyToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/settings-sync-service', () => ({
+  settingsSyncService: { syncSettingToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/correction-service', () => ({
+  correctionService: { pushQueuedRequest: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/team-approval-service', () => ({
+  teamApprovalService: { pushQueuedDecision: jest.fn() },
+}));
+
+const EMAIL = 'user@example.com';
+const DECEMBER = moment.utc('2025-12-01');
+
+const get = apiClient.get as jest.Mock;
+const post = apiClient.post as jest.Mock;
+
+const applySickLeave = (startDate = '2025-12-10', endDate = '2025-12-11') =>
+  leaveService.applyLeave({ userId: EMAIL, leaveType: 'SICK', startDate, endDate, reason: 'Fever' });
+
+const pushQueued = async () => {
+  const outcomes = [];
+  for (const item of (await syncQueueService.getQueuedItems()).filter((queued) => queued.type === 'leave')) {
+    outcomes.push((await leaveService.pushQueuedLeave(item, EMAIL)).outcome);
+  }
+  return outcomes;
+};
+
+describe('leave service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('an application is queued, sent, and shows on the Days tab once approved', async () => {
+    const leave = await applySickLeave();
+    expect(leave).toMatchObject({ status: 'pending', days: 2, isSynced: 0 });
+    const halfDay = await leaveService.applyLeave({
+      userId: EMAIL,
+      leaveType: 'CASUAL',
+      startDate: '2025-12-16',
+      endDate: '2025-12-16',
+      halfDaySession: 'FIRST_HALF',
+      reason: 'Bank visit',
+    });
+    expect(halfDay).toMatchObject({ days: 0.5, halfDaySession: 'FIRST_HALF' });
+    await expect(leaveService.findOverlappingLeave(EMAIL, '2025-12-11', '2025-12-12')).resolves.toMatchObject({
+      leaveId: leave.leaveId,
+    });
+
+    post.mockResolvedValue({ data: {} });
+    await expect(pushQueued()).resolves.toEqual(['synced', 'synced']);
+    expect(post).toHaveBeenCalledWith(
+      '/api/leaves',
+      expect.objectContaining({ leaveId: leave.leaveId, leaveType: 'SICK', startDate: '2025-12-10', endDate: '2025-12-11' }),
+      expect.objectContaining({ headers: { 'Idempotency-Key': leave.leaveId } }),
+    );
+
+    get.mockResolvedValueOnce({
+      data: {
+        holidays: [],
+        weeklyOffs: [],
+        leaves: [
+          { leaveId: leave.leaveId, leaveType: 'SICK', startDate: '2025-12-10', endDate: '2025-12-11', status: 'APPROVED' },
+          { leaveId: halfDay.leaveId, leaveType: 'CASUAL', startDate: '2025-12-16', endDate: '2025-12-16', status: 'PENDING' },
+        ],
+      },
+    });
+    await calendarService.refreshMonthCalendar(EMAIL, DECEMBER);
+
+    // The calendar refresh updates the status without dropping the application's details
+    await expect(leaveService.getMyLeaves(EMAIL)).resolves.toEqual([
+      expect.objectContaining({ leaveType: 'CASUAL', status: 'pending', days: 0.5 }),
+      expect.objectContaining({ leaveId: leave.leaveId, status: 'approved', reason: 'Fever', days: 2 }),
+    ]);
+    const days = fillMissingDatesInMonth(
+      [],
+      DECEMBER,
+      await calendarService.getMonthCalendar(EMAIL, DECEMBER),
+    );
+    const byDate = Object.fromEntries(days.map((day) => [day.dateOfPunch, day]));
+    expect(byDate['2025-12-10']).toMatchObject({ attendanceStatus: 'ON_LEAVE', calendarLabel: 'SICK' });
+    expect(byDate['2025-12-16'].attendanceStatus).toBe('ABSENT');
+  });
+
+  test('a leave cancelled before it was sent never reaches the server', async () => {
+    const leave = await applySickLeave();
+
+    await expect(leaveService.cancelLeave(leave.leaveId)).resolves.toBe(true);
+    await expect(leaveService.cancelLeave(leave.leaveId)).resolves.toBe(false);
+    post.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { response: { status: 404 } }));
+
+    await expect(pushQueued()).resolves.toEqual(['synced', 'synced']);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toBe(`/api/leaves/${leave.leaveId}/cancel`);
+    await expect(leaveService.getMyLeaves(EMAIL)).resolves.toEqual([
+      expect.objectContaining({ status: 'cancelled', isSynced: 1 }),
+    ]);
+    await expect(leaveService.findOverlappingLeave(EMAIL, '2025-12-10', '2025-12-11')).resolves.toBeNull();
+  });
+
+  test('a leave applied or cancelled online is pushed right away', async () => {
+    post.mockResolvedValue({ data: {} });
+
+    // As ApplyLeaveScreen and LeavesScreen do after queueing
+    const leave = await applySickLeave();
+    expect((await syncQueueProcessor.processQueue(EMAIL)).leave).toEqual({ success: 1, failed: 0 });
+    expect(post).toHaveBeenLastCalledWith('/api/leaves', expect.objectContaining({ leaveId: leave.leaveId }), expect.any(Object));
+
+    await leaveService.cancelLeave(leave.leaveId);
+    expect((await syncQueueProcessor.processQueue(EMAIL)).leave).toEqual({ success: 1, failed: 0 });
+    expect(post).toHaveBeenLastCalledWith(`/api/leaves/${leave.leaveId}/cancel`, undefined, expect.any(Object));
+    expect(db.query('SELECT id FROM sync_queue;')).toEqual([]);
+  });
+
+  test('refresh takes decisions and balances but keeps unsent local changes', async () => {
+    const sent = await applySickLeave();
+    post.mockResolvedValueOnce({ data: {} });
+    await pushQueued();
+    const unsent = await applySickLeave('2025-12-22', '2025-12-22');
+    get
+      .mockResolvedValueOnce({
+        data: [
+          { leaveId: sent.leaveId, leaveType: 'SICK', startDate: '2025-12-10', endDate: '2025-12-11',
+            status: 'REJECTED', reviewerComment: 'Team offsite', submittedAt: 10 },
+          { leaveId: unsent.leaveId, leaveType: 'SICK', startDate: '2025-12-22', endDate: '2025-12-22',
+            status: 'APPROVED', submittedAt: 20 },
+          { leaveId: 'other-device', leaveType: 'EARNED', startDate: '2025-12-29', endDate: '2025-12-31',
+            status: 'PENDING', submittedAt: 30 },
+        ],
+      })
+      .mockResolvedValueOnce({
+        data: { balances: [{ leaveType: 'SICK', name: 'Sick Leave', total: 8, used: '2', available: 6 }] },
+      });
+
+    const leaves = await leaveService.refreshMyLeaves(EMAIL);
+    await expect(leaveService.refreshBalances(EMAIL)).resolves.toEqual([
+      { leaveType: 'SICK', name: 'Sick Leave', total: 8, used: 2, available: 6 },
+    ]);
+
+    const byId = Object.fromEntries(leaves.map((leave) => [leave.leaveId, leave]));
+    expect(byId[sent.leaveId]).toMatchObject({ status: 'rejected', reviewerComment: 'Team offsite', isSynced: 1 });
+    expect(byId[unsent.leaveId]).toMatchObject({ status: 'pending', isSynced: 0 });
+    expect(byId['other-device']).toMatchObject({ status: 'pending', days: 3, userId: EMAIL, isSynced: 1 });
+  });
+});
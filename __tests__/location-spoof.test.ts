@@ -0,0 +1,136 @@
+/**
+ * @format
+ */
+
+import { insertAttendancePunchRecord } from '../src/services/attendance/attendance-db-service';
+import {
+  evaluateLocationRisk,
+  getLocationSpoofPolicy,
+  isPunchBlockedByLocationRisk,
+  isPunchWarnedByLocationRisk,
+  recordLocationFix,
+  toPunchLocationRiskFields,
+  type LocationFix,
+} from '../src/services/location/location-spoof-service';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const START = Date.UTC(2025, 11, 3, 9, 0);
+const SECOND = 1000;
+// Roughly 1.1 km north of the office
+const FAR_AWAY = 0.01;
+
+// Fix at the office, moved north by latitudeOffset degrees
+const fix = (seconds: number, latitudeOffset: number, accuracy: number, mocked?: boolean): LocationFix => ({
+  latitude: 12.9716 + latitudeOffset,
+  longitude: 77.5946,
+  accuracy,
+  timestamp: START + seconds * SECOND,
+  mocked,
+});
+
+const history = (...fixes: LocationFix[]): LocationFix[] => fixes.reduce(recordLocationFix, [] as LocationFix[]);
+
+describe('location spoof detection', () => {
+  test('walking around the office with varying accuracy is not flagged', () => {
+    const evaluation = evaluateLocationRisk(
+      history(fix(0, 0, 12.5), fix(10, 0.0001, 8.2), fix(20, 0.0002, 15), fix(30, 0.0002, 9.7)),
+    );
+
+    expect(evaluation.flags).toEqual([]);
+    expect(evaluation.maxSpeed).toBe(0);
+    expect(toPunchLocationRiskFields(evaluation)).toEqual({ LocationRiskFlags: undefined });
+  });
+
+  test('mock provider is flagged from the fix or the native check', () => {
+    expect(evaluateLocationRisk(history(fix(0, 0, 10), fix(10, 0, 12, true))).flags).toEqual(['MOCK_PROVIDER']);
+    expect(evaluateLocationRisk(history(fix(0, 0, 10)), true).flags).toEqual(['MOCK_PROVIDER']);
+  });
+
+  test('impossible speed, teleporting and constant accuracy are flagged', () => {
+    // 1.1 km in 5 seconds
+    const speeding = evaluateLocationRisk(history(fix(0, 0, 10), fix(5, FAR_AWAY, 12)));
+    expect(speeding.flags).toEqual(['IMPOSSIBLE_SPEED']);
+    expect(speeding.maxSpeed).toBeGreaterThan(200);
+
+    // Off to the office and back home, over ten minutes each way (plausible speed)
+    const teleporting = evaluateLocationRisk(history(fix(0, 0, 10), fix(600, FAR_AWAY, 12), fix(1200, 0, 8)));
+    expect(teleporting.flags).toEqual(['TELEPORT']);
+
+    // Moved a kilometre without time passing
+    expect(evaluateLocationRisk(history(fix(0, 0, 10), fix(0, FAR_AWAY, 12))).flags).toEqual(['TELEPORT']);
+
+    const constantFixes = history(fix(0, 0, 3), fix(10, 0.0001, 3), fix(20, 0.0002, 3), fix(30, 0.0003, 3));
+    expect(evaluateLocationRisk(constantFixes).flags).toEqual(['CONSTANT_ACCURACY']);
+    expect(toPunchLocationRiskFields(evaluateLocationRisk(constantFixes, true))).toEqual({
+      LocationRiskFlags: 'MOCK_PROVIDER,CONSTANT_ACCURACY',
+    });
+  });
+
+  test('fixes arriving out of order or twice are not flagged', () => {
+    // A cached fix from before the walk arrives after the newer watch updates
+    const outOfOrder = history(fix(0, 0, 10), fix(600, FAR_AWAY, 12), fix(300, FAR_AWAY / 2, 11), fix(900, FAR_AWAY, 9));
+    expect(outOfOrder.map(item => item.timestamp - START)).toEqual([0, 300 * SECOND, 600 * SECOND, 900 * SECOND]);
+    expect(evaluateLocationRisk(outOfOrder).flags).toEqual([]);
+
+    const repeated = history(fix(0, 0, 10), fix(600, FAR_AWAY, 12), fix(0, 0, 10));
+    expect(repeated).toHaveLength(2);
+    expect(evaluateLocationRisk(repeated).flags).toEqual([]);
+  });
+
+  test('policy blocks, warns or only flags risky punches', () => {
+    const risky = evaluateLocationRisk([], true);
+    const clean = evaluateLocationRisk([]);
+
+    expect(getLocationSpoofPolicy(undefined)).toBe('FLAG');
+    expect(getLocationSpoofPolicy('block')).toBe('BLOCK');
+    expect(getLocationSpoofPolicy('IGNORE')).toBe('FLAG');
+
+    expect(isPunchBlockedByLocationRisk(risky, 'BLOCK')).toBe(true);
+    expect(isPunchBlockedByLocationRisk(clean, 'BLOCK')).toBe(false);
+    expect(isPunchBlockedByLocationRisk(risky, 'WARN')).toBe(false);
+    expect(isPunchWarnedByLocationRisk(risky, 'WARN')).toBe(true);
+    expect(isPunchWarnedByLocationRisk(risky, 'FLAG')).toBe(false);
+  });
+
+  describe('punch', () => {
+    beforeEach(async () => {
+      db = await openTestDatabase();
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    test('keeps the risk flags', async () => {
+      await insertAttendancePunchRecord({
+        timestamp: START,
+        orgID: '123',
+        userID: 'user@example.com',
+        punchType: 'CHECK',
+        punchDirection: 'IN',
+        latLon: '12.9716,77.5946',
+        address: 'Office',
+        createdOn: START,
+        isSynced: 'N',
+        dateOfPunch: '2025-12-03',
+        ...toPunchLocationRiskFields(evaluateLocationRisk(history(fix(0, 0, 10), fix(5, FAR_AWAY, 12)), true)),
+      });
+
+      expect(db.query(`SELECT LocationRiskFlags FROM attendance;`)).toEqual([
+        { LocationRiskFlags: 'MOCK_PROVIDER,IMPOSSIBLE_SPEED' },
+      ]);
+    });
+  });
+});
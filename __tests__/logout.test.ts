@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import { claimLocalDatabase, logoutUser } from '../src/services/auth/login-service';
+import { clearJWTToken } from '../src/services/auth/token-service';
+import { deleteLocalDatabase } from '../src/services/database/database-service';
+import { syncQueueProcessor } from '../src/services/sync/sync-queue-processor';
+import { persistor } from '../src/redux';
+
+const mockStorage = new Map<string, string>();
+let mockQueueSize = 0;
+
+jest.mock('react-native-mmkv', () => ({
+  MMKV: class {
+    private readonly prefix: string;
+    constructor(config: { id?: string } = {}) {
+      this.prefix = `${config.id}:`;
+    }
+    set(key: string, value: string) {
+      mockStorage.set(this.prefix + key, value);
+    }
+    getString(key: string) {
+      return mockStorage.get(this.prefix + key);
+    }
+    delete(key: string) {
+      mockStorage.delete(this.prefix + key);
+    }
+  },
+}));
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' } } }),
+    dispatch: jest.fn(),
+  },
+  persistor: { purge: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../src/redux/reducers/userReducer', () => ({
+  resetUserState: jest.fn(() => ({ type: 'resetUserState' })),
+}));
+
+jest.mock('../src/services/auth/token-service', () => ({
+  clearJWTToken: jest.fn(async () => undefined),
+}));
+
+jest.mock('../src/services/notifications/notification-service', () => ({
+  cancelBreakReminderNotifications: jest.fn(async () => undefined),
+}));
+
+jest.mock('../src/services/notifications/shift-notification-service', () => ({
+  shiftNotificationService: { cancelAll: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../src/services/database/database-service', () => ({
+  deleteLocalDatabase: jest.fn(async () => undefined),
+}));
+
+jest.mock('../src/services/attendance/attendance-db-service', () => ({
+  getUnsyncedAttendanceRecords: jest.fn(async () => []),
+}));
+
+// Pushing empties the queue unless the test keeps items in it
+jest.mock('../src/services/sync/sync-queue-processor', () => ({
+  syncQueueProcessor: { processQueue: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../src/services/sync/sync-queue-service', () => ({
+  syncQueueService: { getQueueSize: jest.fn(async () => mockQueueSize) },
+}));
+
+const EMAIL = 'user@example.com';
+
+describe('logout', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.clear();
+    mockQueueSize = 0;
+  });
+
+  test('pushes the sync queue before the session and the database are cleared', async () => {
+    await expect(logoutUser()).resolves.toEqual({ loggedOut: true, unsyncedCount: 0 });
+
+    expect(syncQueueProcessor.processQueue).toHaveBeenCalledWith(EMAIL);
+    const pushOrder = (syncQueueProcessor.processQueue as jest.Mock).mock.invocationCallOrder[0];
+    expect(pushOrder).toBeLessThan((clearJWTToken as jest.Mock).mock.invocationCallOrder[0]);
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+    expect(persistor.purge).toHaveBeenCalled();
+  });
+
+  test('changes still not on the server stop the logout until the user discards them', async () => {
+    mockQueueSize = 3;
+
+    await expect(logoutUser()).resolves.toEqual({ loggedOut: false, unsyncedCount: 3 });
+    expect(clearJWTToken).not.toHaveBeenCalled();
+    expect(deleteLocalDatabase).not.toHaveBeenCalled();
+    expect(persistor.purge).not.toHaveBeenCalled();
+
+    await expect(logoutUser({ discardUnsynced: true })).resolves.toEqual({ loggedOut: true, unsyncedCount: 3 });
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+  });
+
+  test('an expired session keeps the unsynced changes for the same user only', async () => {
+    mockQueueSize = 2;
+
+    await expect(logoutUser({ sessionExpired: true })).resolves.toEqual({ loggedOut: true, unsyncedCount: 2 });
+    expect(syncQueueProcessor.processQueue).not.toHaveBeenCalled();
+    expect(clearJWTToken).toHaveBeenCalledWith(EMAIL);
+    expect(deleteLocalDatabase).not.toHaveBeenCalled();
+
+    // The same user is back: the queue is theirs to push
+    await claimLocalDatabase('User@Example.com');
+    expect(deleteLocalDatabase).not.toHaveBeenCalled();
+
+    // Someone else signs in after another expired logout
+    await logoutUser({ sessionExpired: true });
+    await claimLocalDatabase('colleague@example.com');
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+
+    // Nothing kept any more
+    await claimLocalDatabase('colleague@example.com');
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+  });
+
+  test('an expired session with nothing unsynced deletes the database', async () => {
+    await logoutUser({ sessionExpired: true });
+
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+    await claimLocalDatabase('colleague@example.com');
+    expect(deleteLocalDatabase).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @format
+ */
+
+import {
+  applyServerAttendanceChanges,
+  insertAttendancePunchRecord,
+  type AttendanceRecord,
+} from '../src/services/attendance/attendance-db-service';
+import { GENESIS_HASH, hashPunch, punchChainService } from '../src/services/attendance/punch-chain-service';
+import { hmacSha256Hex, sha256Hex } from '../src/utils/hash-utils';
+import * as Keychain from 'react-native-keychain';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+const EMAIL = 'user@example.com';
+const CHECK_IN = Date.UTC(2025, 11, 3, 9, 0);
+
+const punch = (timestamp: number, punchDirection: 'IN' | 'OUT', isSynced = 'N'): AttendanceRecord => ({
+  timestamp,
+  orgID: '123',
+  userID: EMAIL,
+  punchType: 'CHECK',
+  punchDirection,
+  latLon: '12.9716,77.5946',
+  address: 'Office',
+  createdOn: timestamp,
+  isSynced,
+  dateOfPunch: '2025-12-03',
+});
+
+const chainRows = () =>
+  db.query(
+    `SELECT PunchID, UserID, Timestamp, LatLon, PunchDirection, DeviceID, ChainSeq, PrevHash, RecordHash, Signature
+      FROM attendance WHERE ChainSeq IS NOT NULL ORDER BY ChainSeq;`,
+  );
+
+describe('punch chain', () => {
+  test('hashes match the standard test vectors', () => {
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    // RFC 4231 test case 2
+    expect(hmacSha256Hex('4a656665', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    );
+  });
+
+  describe('local punches', () => {
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      db = await openTestDatabase();
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    test('are chained by previous hash and signed with the device key', async () => {
+      await insertAttendancePunchRecord(punch(CHECK_IN, 'IN'));
+      // Pulled from the server - not part of this device's chain
+      await insertAttendancePunchRecord(punch(CHECK_IN + 60 * 60 * 1000, 'OUT', 'Y'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 2 * 60 * 60 * 1000, 'IN'));
+
+      const rows = chainRows();
+      const credentials = await Keychain.getGenericPassword({ service: 'device_signing_key' });
+      const key = credentials ? credentials.password : '';
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(rows).toHaveLength(2);
+      expect(rows.map((row) => [row.ChainSeq, row.PrevHash])).toEqual([
+        [1, GENESIS_HASH],
+        [2, rows[0].RecordHash],
+      ]);
+      rows.forEach((row) => {
+        expect(row.RecordHash).toBe(hashPunch(row));
+        expect(row.Signature).toBe(hmacSha256Hex(key, row.RecordHash));
+      });
+      expect(db.query(`SELECT userId, seq, headHash FROM punch_chain;`)).toEqual([
+        { userId: EMAIL, seq: 2, headHash: rows[1].RecordHash },
+      ]);
+
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([]);
+    });
+
+    test('verification flags altered and removed punches not synced yet', async () => {
+      await insertAttendancePunchRecord(punch(CHECK_IN, 'IN'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 60 * 60 * 1000, 'OUT'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 2 * 60 * 60 * 1000, 'IN'));
+      const [first, second, third] = chainRows();
+
+      // An earlier check-in, with the hash recomputed (the signature gives it away)
+      const earlier = { ...first, Timestamp: CHECK_IN - 30 * 60 * 1000 };
+      db.query(`UPDATE attendance SET Timestamp = ?, RecordHash = ? WHERE PunchID = ?;`, [
+        earlier.Timestamp,
+        hashPunch(earlier),
+        first.PunchID,
+      ]);
+      db.query(`DELETE FROM attendance WHERE PunchID IN (?, ?);`, [second.PunchID, third.PunchID]);
+
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([
+        { reason: 'ALTERED', chainSeq: 1, punchID: first.PunchID },
+        { reason: 'MISSING', chainSeq: 3 },
+      ]);
+    });
+
+    test('verification flags a rewritten punch whose signature was removed', async () => {
+      await insertAttendancePunchRecord(punch(CHECK_IN, 'IN'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 60 * 60 * 1000, 'OUT'));
+      const [first, second] = chainRows();
+
+      // An earlier check-in, with the hash and the link of the next punch recomputed
+      const earlier = { ...first, Timestamp: CHECK_IN - 30 * 60 * 1000 };
+      const relinked = { ...second, PrevHash: hashPunch(earlier) };
+      db.query(`UPDATE attendance SET Timestamp = ?, RecordHash = ?, Signature = NULL WHERE PunchID = ?;`, [
+        earlier.Timestamp,
+        hashPunch(earlier),
+        first.PunchID,
+      ]);
+      db.query(`UPDATE attendance SET PrevHash = ?, RecordHash = ?, Signature = NULL WHERE PunchID = ?;`, [
+        relinked.PrevHash,
+        hashPunch(relinked),
+        second.PunchID,
+      ]);
+      db.query(`UPDATE punch_chain SET headHash = ? WHERE userId = ?;`, [hashPunch(relinked), EMAIL]);
+
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([
+        { reason: 'ALTERED', chainSeq: 1, punchID: first.PunchID },
+        { reason: 'ALTERED', chainSeq: 2, punchID: second.PunchID },
+      ]);
+    });
+
+    test('punches are not written without the signing key', async () => {
+      jest.spyOn(punchChainService, 'prepareSigner').mockResolvedValueOnce({ deviceID: 'device', key: null });
+
+      await expect(insertAttendancePunchRecord(punch(CHECK_IN, 'IN'))).rejects.toThrow('Device signing key not available');
+      expect(db.query(`SELECT PunchID FROM attendance;`)).toEqual([]);
+      expect(db.query(`SELECT userId FROM punch_chain;`)).toEqual([]);
+      expect(db.query(`SELECT id FROM sync_queue;`)).toEqual([]);
+    });
+
+    test('synced punches are left to the server', async () => {
+      await insertAttendancePunchRecord(punch(CHECK_IN, 'IN'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 60 * 60 * 1000, 'OUT'));
+      const [first] = chainRows();
+
+      // Synced, then changed by the server
+      db.query(`UPDATE attendance SET IsSynced = 'Y', LatLon = '' WHERE PunchID = ?;`, [first.PunchID]);
+
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([]);
+    });
+
+    test('punches deleted by the server keep their place in the chain', async () => {
+      await insertAttendancePunchRecord(punch(CHECK_IN, 'IN'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 60 * 60 * 1000, 'OUT'));
+      await insertAttendancePunchRecord(punch(CHECK_IN + 2 * 60 * 60 * 1000, 'IN'));
+      const [first, second, third] = chainRows();
+      db.query(`UPDATE attendance SET IsSynced = 'Y' WHERE PunchID IN (?, ?);`, [first.PunchID, second.PunchID]);
+
+      // The last synced punch, then the head, deleted on the server
+      await applyServerAttendanceChanges(EMAIL, [], [{ punchID: second.PunchID }]);
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([]);
+      db.query(`UPDATE attendance SET IsSynced = 'Y' WHERE PunchID = ?;`, [third.PunchID]);
+      await applyServerAttendanceChanges(EMAIL, [], [{ punchID: third.PunchID }]);
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([]);
+      expect(db.query(`SELECT chainSeq, recordHash, punchId FROM punch_chain_tombstone ORDER BY chainSeq;`)).toEqual([
+        { chainSeq: 2, recordHash: second.RecordHash, punchId: second.PunchID },
+        { chainSeq: 3, recordHash: third.RecordHash, punchId: third.PunchID },
+      ]);
+
+      // The next punch links to the deleted head
+      await insertAttendancePunchRecord(punch(CHECK_IN + 3 * 60 * 60 * 1000, 'OUT'));
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([]);
+
+      // A removed punch that was not synced is still caught
+      const [, fourth] = chainRows();
+      db.query(`DELETE FROM attendance WHERE PunchID = ?;`, [fourth.PunchID]);
+      expect(await punchChainService.verifyChain(EMAIL)).toEqual([{ reason: 'MISSING', chainSeq: 4 }]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import notifee from '@notifee/react-native';
+import {
+  planShiftNotifications,
+  shiftNotificationService,
+} from '../src/services/notifications/shift-notification-service';
+import { AUTO_CHECKOUT_LINK, CHECK_IN_LINK } from '../src/services/notifications/notification-service';
+import { EMPTY_CALENDAR, type AttendanceCalendar } from '../src/services/attendance/calendar-service';
+import { type Leave } from '../src/services/attendance/leave-service';
+import { networkService } from '../src/services/network/network-service';
+import { getShiftRoster } from '../src/utils/shift-roster-utils';
+import { AttendanceRecord } from '../src/redux/types/userTypes';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    requestPermission: jest.fn(async () => ({ authorizationStatus: 1 })),
+    createChannel: jest.fn(async () => undefined),
+    setNotificationCategories: jest.fn(async () => undefined),
+    createTriggerNotification: jest.fn(async () => undefined),
+    getTriggerNotificationIds: jest.fn(async () => ['shift-start-2025-12-04', 'break-reminder-0']),
+    getDisplayedNotifications: jest.fn(async () => [{ id: 'shift-start-2025-12-03', notification: { id: 'shift-start-2025-12-03' } }]),
+    cancelAllNotifications: jest.fn(async () => undefined),
+  },
+  AndroidImportance: { HIGH: 4 },
+  TriggerType: { TIMESTAMP: 0 },
+}));
+
+const EMAIL = 'user@example.com';
+
+const ticks = (dateTime: string) => moment.utc(dateTime, 'YYYY-MM-DD HH:mm').valueOf();
+
+const punch = (time: string, direction: 'IN' | 'OUT', fields: Partial<AttendanceRecord> = {}): AttendanceRecord => ({
+  Timestamp: ticks(`2025-12-03 ${time}`),
+  PunchDirection: direction,
+  DateOfPunch: '2025-12-03',
+  ...fields,
+});
+
+// 09:00 - 17:00 every day; a holiday on Friday, Sundays off and a leave on Monday (2025-12-03 is a Wednesday)
+const roster = getShiftRoster();
+const calendar: AttendanceCalendar = {
+  holidays: [{ date: '2025-12-05', name: 'Foundation Day' }],
+  weeklyOffs: ['SUN'],
+  leaves: [{ leaveType: 'CASUAL', startDate: '2025-12-08', endDate: '2025-12-08', status: 'approved' } as Leave],
+};
+
+describe('shift notifications', () => {
+  test('shift starts are planned for working days without a punch', () => {
+    const planned = planShiftNotifications(roster, punch('17:00', 'OUT'), calendar, ticks('2025-12-03 17:05'));
+
+    expect(planned).toEqual([
+      { id: 'shift-start-2025-12-04', kind: 'SHIFT_START', timestamp: ticks('2025-12-04 08:45'), shiftTime: ticks('2025-12-04 09:00') },
+      { id: 'shift-start-2025-12-06', kind: 'SHIFT_START', timestamp: ticks('2025-12-06 08:45'), shiftTime: ticks('2025-12-06 09:00') },
+      { id: 'shift-start-2025-12-09', kind: 'SHIFT_START', timestamp: ticks('2025-12-09 08:45'), shiftTime: ticks('2025-12-09 09:00') },
+      { id: 'shift-start-2025-12-10', kind: 'SHIFT_START', timestamp: ticks('2025-12-10 08:45'), shiftTime: ticks('2025-12-10 09:00') },
+    ]);
+
+    // Before today's first punch, today's shift start is still due
+    const morning = planShiftNotifications(roster, null, EMPTY_CALENDAR, ticks('2025-12-03 08:30'));
+    expect(morning[0]).toMatchObject({ id: 'shift-start-2025-12-03', timestamp: ticks('2025-12-03 08:45') });
+  });
+
+  test('an open entry gets shift end and auto-checkout notifications', () => {
+    const planned = planShiftNotifications(roster, punch('09:02', 'IN'), calendar, ticks('2025-12-03 16:00'));
+
+    expect(planned.slice(0, 2)).toEqual([
+      { id: 'shift-end', kind: 'SHIFT_END', timestamp: ticks('2025-12-03 17:15'), shiftTime: ticks('2025-12-03 17:00') },
+      { id: 'shift-auto-checkout', kind: 'AUTO_CHECKOUT', timestamp: ticks('2025-12-03 19:00'), shiftTime: ticks('2025-12-03 17:00') },
+    ]);
+    expect(planned[2]).toMatchObject({ id: 'shift-start-2025-12-04' });
+
+    // Past the shift end only the auto-checkout is still due
+    const evening = planShiftNotifications(roster, punch('09:02', 'IN'), calendar, ticks('2025-12-03 18:00'));
+    expect(evening.map((item) => item.kind).slice(0, 2)).toEqual(['AUTO_CHECKOUT', 'SHIFT_START']);
+
+    // A break is ended by its own punch, it is not checked out automatically
+    const onBreak = punch('13:00', 'OUT', { PunchType: 'BREAK', BreakType: 'LUNCH' });
+    const duringBreak = planShiftNotifications(roster, onBreak, calendar, ticks('2025-12-03 16:00'));
+    expect(duringBreak.map((item) => item.kind).slice(0, 2)).toEqual(['SHIFT_END', 'SHIFT_START']);
+  });
+
+  describe('scheduling', () => {
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      (networkService.isConnected as jest.Mock).mockResolvedValue(false);
+      jest.useFakeTimers({ now: new Date('2025-12-03T10:00:00Z') });
+      db = await openTestDatabase();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      db.close();
+    });
+
+    test('reminders are replaced and link to check in', async () => {
+      await shiftNotificationService.reschedule({ email: EMAIL }, punch('09:02', 'IN'));
+
+      const created = (notifee.createTriggerNotification as jest.Mock).mock.calls.map(([notification]) => notification);
+      expect(created.map((notification) => notification.id)).toEqual([
+        'shift-end',
+        'shift-auto-checkout',
+        'shift-start-2025-12-04',
+        'shift-start-2025-12-05',
+        'shift-start-2025-12-06',
+        'shift-start-2025-12-07',
+        'shift-start-2025-12-08',
+        'shift-start-2025-12-09',
+        'shift-start-2025-12-10',
+      ]);
+      expect(created[0]).toMatchObject({ data: { link: CHECK_IN_LINK }, android: { channelId: 'shift-reminders' } });
+      // Scheduled shift reminders and today's shown shift start (now checked in) are cleared, break reminders kept
+      expect(notifee.cancelAllNotifications).toHaveBeenCalledWith(['shift-start-2025-12-04', 'shift-start-2025-12-03']);
+    });
+
+    test('turning shift reminders off cancels them, except for the auto-checkout notice', async () => {
+      db.query(
+        `INSERT INTO settings (key, value, isSynced, lastUpdatedAt) VALUES ('shiftReminders', 'false', 1, 0);`,
+      );
+
+      expect(await shiftNotificationService.isEnabled()).toBe(false);
+      await shiftNotificationService.reschedule({ email: EMAIL }, punch('09:02', 'IN'));
+
+      expect(notifee.createTriggerNotification).toHaveBeenCalledTimes(1);
+      expect(notifee.createTriggerNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'shift-auto-checkout', data: { link: AUTO_CHECKOUT_LINK, kind: 'AUTO_CHECKOUT' } }),
+        { type: 0, timestamp: ticks('2025-12-03 19:00') },
+      );
+      expect(notifee.cancelAllNotifications).toHaveBeenCalledWith(['shift-start-2025-12-04', 'shift-start-2025-12-03']);
+    });
+  });
+});
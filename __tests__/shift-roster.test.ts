@@ -0,0 +1,114 @@
+/**
+ * @format
+ */
+
+import moment from 'moment';
+import {
+  getShiftForDate,
+  getShiftRoster,
+  getShiftWindow,
+  type RosterDay,
+  type RosterWeek,
+  type ShiftRoster,
+} from '../src/utils/shift-roster-utils';
+import { needsAutoCheckoutByShiftEnd } from '../src/utils/shift-utils';
+import { getCheckInEntryDate } from '../src/services/attendance/shift-detection-service';
+import { calculateAttendanceStatus } from '../src/services/attendance/attendance-status-service';
+import { AttendanceRecord } from '../src/redux/types/userTypes';
+
+const ticks = (dateTime: string) => moment.utc(dateTime, 'YYYY-MM-DD HH:mm').valueOf();
+
+const workWeek = (day: RosterDay): RosterWeek => ({
+  MON: day, TUE: day, WED: day, THU: day, FRI: day, SAT: day, SUN: null,
+});
+
+// Factory roster: morning week, then night week, Sundays off (2025-12-01 is a Monday)
+const factoryRoster: ShiftRoster = {
+  rotationStartDate: '2025-12-01',
+  weeks: [
+    workWeek({ segments: [{ startTime: '06:00', endTime: '14:00' }] }),
+    workWeek({ segments: [{ startTime: '22:00', endTime: '06:00' }], minimumWorkingHours: 7 }),
+  ],
+};
+
+const checkout = (dateTime: string, dateOfPunch: string): AttendanceRecord => ({
+  Timestamp: ticks(dateTime),
+  PunchDirection: 'OUT',
+  DateOfPunch: dateOfPunch,
+});
+
+describe('shift roster', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('resolves rotating weeks, split shifts and weekly offs', () => {
+    expect(getShiftForDate(factoryRoster, '2025-12-03')).toMatchObject({ startTime: '06:00', minimumWorkingHours: 8 });
+    expect(getShiftForDate(factoryRoster, '2025-12-09')).toMatchObject({ startTime: '22:00', minimumWorkingHours: 7 });
+    expect(getShiftForDate(factoryRoster, '2025-12-15')).toMatchObject({ startTime: '06:00' });
+    expect(getShiftForDate(factoryRoster, '2025-12-07')).toMatchObject({ isWeeklyOff: true, startTime: null });
+    expect(getShiftWindow(getShiftForDate(factoryRoster, '2025-12-07'))).toBeNull();
+
+    // Night shift of Tuesday starts on Monday
+    expect(getShiftWindow(getShiftForDate(factoryRoster, '2025-12-09'))).toEqual({
+      start: ticks('2025-12-08 22:00'),
+      end: ticks('2025-12-09 06:00'),
+    });
+
+    const split = getShiftRoster({
+      shiftRoster: {
+        weeks: [{ MON: { segments: [{ startTime: '06:00', endTime: '10:00' }, { startTime: '16:00', endTime: '20:00' }] } }],
+      },
+      minimumWorkingHours: 6,
+    });
+    expect(getShiftWindow(getShiftForDate(split, '2025-12-01'))).toEqual({
+      start: ticks('2025-12-01 06:00'),
+      end: ticks('2025-12-01 20:00'),
+    });
+    expect(getShiftForDate(split, '2025-12-01').minimumWorkingHours).toBe(6);
+    expect(getShiftForDate(split, '2025-12-02').isWeeklyOff).toBe(true);
+
+    // Profiles without a roster keep their single shift on every day
+    const legacy = getShiftRoster({ shiftStartTime: '17:00', shiftEndTime: '06:00' });
+    expect(getShiftForDate(legacy, '2025-12-07')).toMatchObject({ startTime: '17:00', endTime: '06:00' });
+  });
+
+  test('check-in date follows the rotation between morning and night weeks', () => {
+    // Sunday off before the first night week - the check-in is for Monday's night shift
+    expect(getCheckInEntryDate(checkout('2025-12-06 14:00', '2025-12-06'), ticks('2025-12-07 21:50'), factoryRoster))
+      .toBe('2025-12-08');
+    // Night week - after Monday's shift ended the next check-in is for Tuesday
+    expect(getCheckInEntryDate(checkout('2025-12-08 06:00', '2025-12-08'), ticks('2025-12-08 21:55'), factoryRoster))
+      .toBe('2025-12-09');
+    // Back from a break during the night shift - same entry
+    expect(getCheckInEntryDate(checkout('2025-12-09 01:00', '2025-12-09'), ticks('2025-12-09 01:30'), factoryRoster))
+      .toBe('2025-12-09');
+    // Morning week again - the check-in is for today
+    expect(getCheckInEntryDate(checkout('2025-12-13 06:00', '2025-12-13'), ticks('2025-12-15 05:50'), factoryRoster))
+      .toBe('2025-12-15');
+  });
+
+  test('auto checkout waits for the end of the rostered shift', () => {
+    jest.useFakeTimers({ now: ticks('2025-12-09 07:00') });
+    expect(needsAutoCheckoutByShiftEnd(ticks('2025-12-08 22:00'), '2025-12-09', factoryRoster)).toBe(false);
+
+    jest.setSystemTime(ticks('2025-12-09 08:30'));
+    expect(needsAutoCheckoutByShiftEnd(ticks('2025-12-08 22:00'), '2025-12-09', factoryRoster)).toBe(true);
+
+    // Weekly off - 3 hours after check-in
+    jest.setSystemTime(ticks('2025-12-07 12:30'));
+    expect(needsAutoCheckoutByShiftEnd(ticks('2025-12-07 10:00'), '2025-12-07', factoryRoster)).toBe(false);
+  });
+
+  test('attendance status uses the minimum hours of the rostered day', () => {
+    const sevenHours = (date: string, start: string, end: string): AttendanceRecord[] => [
+      { Timestamp: ticks(start), PunchDirection: 'IN', DateOfPunch: date },
+      { Timestamp: ticks(end), PunchDirection: 'OUT', DateOfPunch: date },
+    ];
+
+    expect(calculateAttendanceStatus(sevenHours('2025-12-09', '2025-12-08 22:30', '2025-12-09 05:30'), factoryRoster))
+      .toBe('PRESENT');
+    expect(calculateAttendanceStatus(sevenHours('2025-12-03', '2025-12-03 06:00', '2025-12-03 13:00'), factoryRoster))
+      .toBe('HOURS_DEFICIT');
+  });
+});
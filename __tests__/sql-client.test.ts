@@ -0,0 +1,83 @@
+/**
+ * @format
+ */
+
+import { execute, query, queryFirst, transaction } from '../src/services/database/sql-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+interface SettingRow {
+  key: string;
+  value: string;
+}
+
+describe('sql client', () => {
+  beforeEach(async () => {
+    db = await openTestDatabase({ migrate: false });
+    db.query('CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT);');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('query and execute return typed rows and affected counts', async () => {
+    await expect(
+      execute('INSERT INTO settings (key, value) VALUES (?, ?)', ['language', 'en']),
+    ).resolves.toMatchObject({ rowsAffected: 1 });
+
+    await expect(query<SettingRow>('SELECT * FROM settings')).resolves.toEqual([
+      { key: 'language', value: 'en' },
+    ]);
+    await expect(
+      queryFirst<SettingRow>('SELECT * FROM settings WHERE key = ?', ['missing']),
+    ).resolves.toBeNull();
+  });
+
+  test('transaction commits all statements and returns the callback result', async () => {
+    const result = await transaction(async (tx) => {
+      await tx.execute("INSERT INTO settings (key, value) VALUES ('a', '1')");
+      const row = await tx.queryFirst<SettingRow>("SELECT * FROM settings WHERE key = 'a'");
+      await tx.execute("INSERT INTO settings (key, value) VALUES ('b', ?)", [row?.value]);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(db.query('SELECT key, value FROM settings ORDER BY key')).toEqual([
+      { key: 'a', value: '1' },
+      { key: 'b', value: '1' },
+    ]);
+  });
+
+  test('transaction rolls back when the callback throws', async () => {
+    await expect(
+      transaction(async (tx) => {
+        await tx.execute("INSERT INTO settings (key, value) VALUES ('a', '1')");
+        await tx.execute("INSERT INTO settings (key, value) VALUES ('a', '2')");
+      }),
+    ).rejects.toBeTruthy();
+
+    expect(db.query('SELECT * FROM settings')).toEqual([]);
+  });
+
+  test('statements issued during a transaction wait for it to finish', async () => {
+    let releaseTransaction: () => void = () => undefined;
+    const running = transaction(async (tx) => {
+      await tx.execute("INSERT INTO settings (key, value) VALUES ('a', '1')");
+      await new Promise<void>((resolve) => {
+        releaseTransaction = resolve;
+      });
+      throw new Error('abort');
+    });
+    // Would see the uncommitted row if it ran inside the open transaction
+    const outside = query<SettingRow>('SELECT * FROM settings');
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    releaseTransaction();
+
+    await expect(running).rejects.toThrow('abort');
+    await expect(outside).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * @format
+ */
+
+import { syncQueueService } from '../src/services/sync/sync-queue-service';
+import { syncQueueProcessor } from '../src/services/sync/sync-queue-processor';
+import { attendanceSyncService } from '../src/services/sync/attendance-sync-service';
+import { settingsSyncService } from '../src/services/sync/settings-sync-service';
+import { networkService } from '../src/services/network/network-service';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/services/sync/attendance-sync-service', () => ({
+  attendanceSyncService: { syncQueuedPunchesToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/profile-sync-service', () => ({
+  profileSyncService: { syncProfilePropertyToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/settings-sync-service', () => ({
+  settingsSyncService: { syncSettingToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/correction-service', () => ({
+  correctionService: { pushQueuedRequest: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/team-approval-service', () => ({
+  teamApprovalService: { pushQueuedDecision: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/leave-service', () => ({
+  leaveService: { pushQueuedLeave: jest.fn() },
+}));
+
+const EMAIL = 'user@example.com';
+
+const syncQueuedPunchesToServer = attendanceSyncService.syncQueuedPunchesToServer as jest.Mock;
+const syncSettingToServer = settingsSyncService.syncSettingToServer as jest.Mock;
+
+// Same push result for every punch in the call
+const respondToPunches = (result: object) =>
+  syncQueuedPunchesToServer.mockImplementation(async (punchIDs: string[]) =>
+    new Map(punchIDs.map((punchID) => [punchID, result])),
+  );
+
+const queuePunch = (punchID: string, timestamp: number) =>
+  syncQueueService.addToQueue({
+    type: 'attendance',
+    entityId: punchID,
+    operation: 'create',
+    data: null,
+    timestamp,
+  });
+
+const queueSetting = (key: string, value: string, timestamp: number) =>
+  syncQueueService.addToQueue({
+    type: 'settings',
+    entityId: key,
+    operation: 'update',
+    data: { [key]: value },
+    timestamp,
+  });
+
+const makeDue = () => db.query('UPDATE sync_queue SET nextRetryAt = 0;');
+
+const getQueue = () =>
+  db.query('SELECT id, attempts, status, lastError FROM sync_queue ORDER BY createdAt, timestamp;');
+
+describe('sync queue processor', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (networkService.isConnected as jest.Mock).mockResolvedValue(true);
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('queued items are pushed right away and removed from the queue', async () => {
+    respondToPunches({ outcome: 'synced' });
+    await queuePunch('punch-1', 1);
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(syncQueuedPunchesToServer).toHaveBeenCalledWith(['punch-1'], EMAIL);
+    expect(result.attendance).toEqual({ success: 1, failed: 0 });
+    expect(getQueue()).toEqual([]);
+  });
+
+  test('items wait until nextRetryAt', async () => {
+    await queueSetting('language', 'en', 1);
+    db.query('UPDATE sync_queue SET nextRetryAt = ?;', [Date.now() + 60 * 1000]);
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(syncSettingToServer).not.toHaveBeenCalled();
+    expect(result.remaining).toBe(1);
+  });
+
+  test('a failed item backs off and holds back later items of the same entity', async () => {
+    syncSettingToServer.mockImplementation(async (key: string) => key !== 'language');
+    await queueSetting('language', 'en', 1);
+    await queueSetting('language', 'ar', 2);
+    await queueSetting('theme', 'dark', 3);
+    makeDue();
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(syncSettingToServer.mock.calls).toEqual([
+      ['language', 'en'],
+      ['theme', 'dark'],
+    ]);
+    expect(result.settings).toEqual({ success: 1, failed: 1 });
+    expect(result.remaining).toBe(2);
+    expect(getQueue()).toEqual([
+      { id: 'settings_language_all_1', attempts: 1, status: 'pending', lastError: 'Push was not accepted' },
+      { id: 'settings_language_all_2', attempts: 0, status: 'pending', lastError: null },
+    ]);
+    const [{ nextRetryAt }] = db.query("SELECT nextRetryAt FROM sync_queue WHERE id = 'settings_language_all_1';");
+    expect(nextRetryAt).toBeGreaterThan(Date.now());
+  });
+
+  test('items move to dead letter once retries are exhausted', async () => {
+    respondToPunches({ outcome: 'failed', error: 'Request failed with status code 500' });
+    await queuePunch('punch-1', 1);
+    db.query('UPDATE sync_queue SET attempts = 5, nextRetryAt = 0;');
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(result.deadLettered).toBe(1);
+    expect(getQueue()).toEqual([
+      {
+        id: 'attendance_punch-1_all_1',
+        attempts: 6,
+        status: 'dead_letter',
+        lastError: 'Request failed with status code 500',
+      },
+    ]);
+    await expect(syncQueueService.getQueueSize()).resolves.toBe(0);
+    await expect(syncQueueService.getDeadLetterCount()).resolves.toBe(1);
+
+    // Dead letter items are not retried
+    makeDue();
+    await syncQueueProcessor.processQueue(EMAIL);
+    expect(syncQueuedPunchesToServer).toHaveBeenCalledTimes(1);
+  });
+
+  test('due punches are uploaded together and rejected ones go straight to dead letter', async () => {
+    syncQueuedPunchesToServer.mockResolvedValue(
+      new Map([
+        ['punch-1', { outcome: 'synced' }],
+        ['punch-2', { outcome: 'rejected', error: 'Attendance period is closed' }],
+      ]),
+    );
+    await queuePunch('punch-1', 1);
+    await queuePunch('punch-2', 2);
+    makeDue();
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(syncQueuedPunchesToServer).toHaveBeenCalledTimes(1);
+    expect(syncQueuedPunchesToServer).toHaveBeenCalledWith(['punch-1', 'punch-2'], EMAIL);
+    expect(result.attendance).toEqual({ success: 1, failed: 1 });
+    expect(result.deadLettered).toBe(1);
+    expect(getQueue()).toEqual([
+      {
+        id: 'attendance_punch-2_all_2',
+        attempts: 0,
+        status: 'dead_letter',
+        lastError: 'Attendance period is closed',
+      },
+    ]);
+  });
+
+  test('deferred items are left untouched', async () => {
+    respondToPunches({ outcome: 'deferred' });
+    await queuePunch('punch-1', 1);
+    makeDue();
+
+    await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(getQueue()).toEqual([
+      { id: 'attendance_punch-1_all_1', attempts: 0, status: 'pending', lastError: null },
+    ]);
+  });
+
+  test('nothing is pushed while offline', async () => {
+    (networkService.isConnected as jest.Mock).mockResolvedValue(false);
+    await queueSetting('language', 'en', 1);
+    makeDue();
+
+    const result = await syncQueueProcessor.processQueue(EMAIL);
+
+    expect(syncSettingToServer).not.toHaveBeenCalled();
+    expect(result.remaining).toBe(1);
+    expect(getQueue()).toEqual([
+      { id: 'settings_language_all_1', attempts: 0, status: 'pending', lastError: null },
+    ]);
+  });
+});
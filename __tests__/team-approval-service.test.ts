@@ -0,0 +1,152 @@
+/**
+ * @format
+ */
+
+import { teamApprovalService } from '../src/services/attendance/team-approval-service';
+import { syncQueueService } from '../src/services/sync/sync-queue-service';
+import { syncQueueProcessor } from '../src/services/sync/sync-queue-processor';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+jest.mock('../src/redux', () => ({
+  store: {
+    getState: () => ({ userState: { userData: { email: 'user@example.com' }, userAttendanceHistory: [] } }),
+    dispatch: jest.fn(),
+  },
+  setUserAttendanceHistory: jest.fn(),
+  setUserLastAttendance: jest.fn(),
+}));
+
+jest.mock('../src/services/sync/attendance-sync-service', () => ({
+  attendanceSyncService: { syncQueuedPunchesToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/profile-sync-service', () => ({
+  profileSyncService: { syncProfilePropertyToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/sync/settings-sync-service', () => ({
+  settingsSyncService: { syncSettingToServer: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/correction-service', () => ({
+  correctionService: { pushQueuedRequest: jest.fn() },
+}));
+
+jest.mock('../src/services/attendance/leave-service', () => ({
+  leaveService: { pushQueuedLeave: jest.fn() },
+}));
+
+const MANAGER = 'manager@example.com';
+
+const get = apiClient.get as jest.Mock;
+const post = apiClient.post as jest.Mock;
+
+const pendingRequest = (requestId: string, submittedAt: number) => ({
+  requestId,
+  punchId: `punch-${requestId}`,
+  employee: { email: 'report@example.com', name: 'Report' },
+  correctionType: 'FORGOT_CHECKOUT',
+  requestedTime: 1000,
+  submittedAt,
+  records: [{ PunchID: `punch-${requestId}`, Timestamp: 1000, PunchDirection: 'OUT' }],
+});
+
+const pushQueued = async () => {
+  const outcomes = [];
+  const items = (await syncQueueService.getQueuedItems()).filter((item) => item.type === 'approval');
+  for (const item of items) {
+    outcomes.push((await teamApprovalService.pushQueuedDecision(item, MANAGER)).outcome);
+  }
+  return outcomes;
+};
+
+describe('team approval service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('decisions leave the inbox at once and survive a refresh until they are pushed', async () => {
+    get.mockResolvedValueOnce({ data: [pendingRequest('r1', 10), pendingRequest('r2', 20), pendingRequest('r3', 30)] });
+    const inbox = await teamApprovalService.refreshInbox(MANAGER);
+    expect(inbox.map((request) => request.requestId)).toEqual(['r1', 'r2', 'r3']);
+    expect(inbox[0]).toMatchObject({ employeeId: 'report@example.com', employeeName: 'Report' });
+    expect(inbox[0].records).toHaveLength(1);
+
+    await expect(teamApprovalService.approveMany(['r1', 'r2'])).resolves.toBe(2);
+    await expect(teamApprovalService.decide('r1', 'rejected', 'Too late')).resolves.toBe(false);
+
+    // r3 was decided on the web portal meanwhile
+    get.mockResolvedValueOnce({ data: [pendingRequest('r1', 10), pendingRequest('r2', 20)] });
+    await expect(teamApprovalService.refreshInbox(MANAGER)).resolves.toEqual([]);
+
+    post.mockResolvedValueOnce({ data: {} });
+    post.mockRejectedValueOnce(Object.assign(new Error('Conflict'), { response: { status: 409 } }));
+    await expect(pushQueued()).resolves.toEqual(['synced', 'rejected']);
+    expect(post.mock.calls.map(([url]) => url)).toEqual([
+      '/api/attendance/corrections/r1/approve',
+      '/api/attendance/corrections/r2/approve',
+    ]);
+    expect(db.query('SELECT requestId FROM team_corrections;')).toEqual([]);
+  });
+
+  test('a rejection is sent with its comment', async () => {
+    get.mockResolvedValueOnce({ data: [pendingRequest('r1', 10)] });
+    await teamApprovalService.refreshInbox(MANAGER);
+
+    await expect(teamApprovalService.decide('r1', 'rejected', '  Badge shows 17:10 ')).resolves.toBe(true);
+    post.mockResolvedValueOnce({ data: {} });
+
+    await expect(pushQueued()).resolves.toEqual(['synced']);
+    expect(post).toHaveBeenCalledWith(
+      '/api/attendance/corrections/r1/reject',
+      { comment: 'Badge shows 17:10' },
+      expect.any(Object),
+    );
+  });
+
+  test('a decision made online is pushed right away', async () => {
+    get.mockResolvedValueOnce({ data: [pendingRequest('r1', 10)] });
+    await teamApprovalService.refreshInbox(MANAGER);
+    post.mockResolvedValueOnce({ data: {} });
+
+    // As ApprovalsBottomTabScreen does after a decision
+    await teamApprovalService.decide('r1', 'approved');
+    const result = await syncQueueProcessor.processQueue(MANAGER);
+
+    expect(post).toHaveBeenCalledWith('/api/attendance/corrections/r1/approve', { comment: null }, expect.any(Object));
+    expect(result.approval).toEqual({ success: 1, failed: 0 });
+    expect(db.query('SELECT id FROM sync_queue;')).toEqual([]);
+  });
+
+  test('a decision the server refuses puts the request back in the inbox', async () => {
+    get.mockResolvedValueOnce({ data: [pendingRequest('r1', 10)] });
+    await teamApprovalService.refreshInbox(MANAGER);
+
+    await teamApprovalService.decide('r1', 'rejected', '');
+    post.mockRejectedValueOnce(Object.assign(new Error('Comment required'), { response: { status: 422 } }));
+    expect((await syncQueueProcessor.processQueue(MANAGER)).deadLettered).toBe(1);
+
+    const inbox = await teamApprovalService.getInbox(MANAGER);
+    expect(inbox.map((request) => request.requestId)).toEqual(['r1']);
+    expect(inbox[0]).toMatchObject({ decision: null, decisionComment: null, isSynced: 1 });
+
+    // Decided again with a comment
+    await expect(teamApprovalService.decide('r1', 'rejected', 'Badge shows 17:10')).resolves.toBe(true);
+    post.mockResolvedValueOnce({ data: {} });
+    expect((await syncQueueProcessor.processQueue(MANAGER)).approval).toEqual({ success: 1, failed: 0 });
+    expect(post).toHaveBeenLastCalledWith(
+      '/api/attendance/corrections/r1/reject',
+      { comment: 'Badge shows 17:10' },
+      expect.any(Object),
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import { teamRosterService, getColleagueStatus } from '../src/services/team/team-roster-service';
+import { networkService } from '../src/services/network/network-service';
+import apiClient from '../src/services/api/api-client';
+import { SQLiteStandIn } from '../jest/sqlite-stand-in';
+import { openTestDatabase } from '../jest/test-database';
+
+let db: SQLiteStandIn;
+
+const EMAIL = 'user@example.com';
+const NOW = new Date(2025, 11, 22, 14, 0).getTime();
+const THIS_MORNING = new Date(2025, 11, 22, 9, 0).getTime();
+const YESTERDAY = new Date(2025, 11, 21, 17, 0).getTime();
+
+const get = apiClient.get as jest.Mock;
+
+const member = (email: string, name: string, lastPunch: any) => ({ email, name, designation: 'Engineer', lastPunch });
+
+describe('team roster service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('colleague status is derived from the last punch of today', () => {
+    const punch = (lastPunchDirection: string, lastPunchStatus: string, lastPunchAt: number | null) => ({
+      lastPunchDirection,
+      lastPunchStatus,
+      lastPunchAt,
+    });
+
+    expect(getColleagueStatus(punch('IN', 'CHECKIN', THIS_MORNING), NOW)).toBe('checked_in');
+    expect(getColleagueStatus(punch('OUT', 'LUNCH', THIS_MORNING), NOW)).toBe('on_break');
+    expect(getColleagueStatus(punch('OUT', 'CHECKOUT', THIS_MORNING), NOW)).toBe('checked_out');
+    expect(getColleagueStatus(punch('IN', 'CHECKIN', YESTERDAY), NOW)).toBe('absent');
+    expect(getColleagueStatus(punch('IN', 'CHECKIN', null), NOW)).toBe('absent');
+  });
+
+  test('refresh replaces the cached roster and keeps it when offline', async () => {
+    const now = Date.now();
+    get.mockResolvedValueOnce({
+      data: {
+        teams: [
+          {
+            teamId: 'ops',
+            name: 'Operations',
+            members: [
+              member('asha@example.com', 'Asha Verma', { PunchDirection: 'IN', AttendanceStatus: 'CHECKIN', Timestamp: now }),
+              member('rahul@example.com', 'Rahul Das', { PunchDirection: 'OUT', AttendanceStatus: 'LUNCH', Timestamp: now }),
+              member(EMAIL, 'Me', { PunchDirection: 'IN', AttendanceStatus: 'CHECKIN', Timestamp: now }),
+            ],
+          },
+          { teamId: 'support', name: 'Support', members: [member('asha@example.com', 'Asha Verma', null)] },
+        ],
+      },
+    });
+
+    await expect(teamRosterService.refreshRoster(EMAIL)).resolves.toBe(true);
+
+    await expect(teamRosterService.getTeams(EMAIL)).resolves.toEqual([
+      { teamId: 'ops', name: 'Operations', memberCount: 3, checkedInCount: 2 },
+      { teamId: 'support', name: 'Support', memberCount: 1, checkedInCount: 0 },
+    ]);
+    const colleagues = await teamRosterService.getColleagues(EMAIL);
+    expect(colleagues.map((colleague) => colleague.userId)).toEqual(['asha@example.com', 'rahul@example.com']);
+    await expect(teamRosterService.getTeamMembers(EMAIL, 'ops')).resolves.toEqual(
+      expect.arrayContaining([expect.objectContaining({ userId: 'rahul@example.com', status: 'on_break' })]),
+    );
+    await expect(teamRosterService.getColleagueTeams(EMAIL, 'asha@example.com')).resolves.toHaveLength(2);
+
+    get.mockResolvedValueOnce({ data: { teams: [{ teamId: 'ops', name: 'Operations', members: [] }] } });
+    await teamRosterService.refreshRoster(EMAIL);
+    await expect(teamRosterService.getColleagues(EMAIL)).resolves.toEqual([]);
+    await expect(teamRosterService.getTeams(EMAIL)).resolves.toHaveLength(1);
+
+    (networkService.isConnected as jest.Mock).mockResolvedValueOnce(false);
+    await expect(teamRosterService.refreshRoster(EMAIL)).resolves.toBe(false);
+    await expect(teamRosterService.getTeams(EMAIL)).resolves.toHaveLength(1);
+  });
+});
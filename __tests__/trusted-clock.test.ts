@@ -0,0 +1,139 @@
+/**
+ * @format
+ */
+
+import apiClient from '../src/services/api/api-client';
+import { checkClockAccuracy, getCurrentTimeAndZone } from '../src/services/time/time-service';
+import type * as TimeService from '../src/services/time/time-service';
+import type * as TrustedClock from '../src/services/time/trusted-clock-service';
+
+// Shared by every MMKV instance, so it outlives a reloaded module (an app restart)
+const mockStorage = new Map<string, string | number>();
+
+jest.mock('react-native-mmkv', () => ({
+  MMKV: class {
+    private readonly prefix: string;
+    constructor(config: { id?: string } = {}) {
+      this.prefix = `${config.id}:`;
+    }
+    set(key: string, value: string | number) {
+      mockStorage.set(this.prefix + key, value);
+    }
+    getString(key: string) {
+      return mockStorage.get(this.prefix + key) as string | undefined;
+    }
+    getNumber(key: string) {
+      return mockStorage.get(this.prefix + key) as number | undefined;
+    }
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const DEVICE_TIME = Date.UTC(2025, 11, 3, 9, 0);
+// The server is 10 minutes ahead of the device
+const SERVER_TIME = DEVICE_TIME + 10 * MINUTE;
+
+// The services as loaded by a fresh app process
+const restartApp = (): typeof TrustedClock & typeof TimeService => {
+  let reloaded: (typeof TrustedClock & typeof TimeService) | undefined;
+  jest.isolateModules(() => {
+    reloaded = {
+      ...require('../src/services/time/trusted-clock-service'),
+      ...require('../src/services/time/time-service'),
+    };
+  });
+  return reloaded!;
+};
+
+describe('trusted clock', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: DEVICE_TIME });
+    mockStorage.clear();
+    (apiClient.get as jest.Mock).mockResolvedValue({
+      data: { currentTime: new Date(SERVER_TIME).toISOString(), timezone: 'UTC', timezoneOffset: 0, timestamp: SERVER_TIME },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('punch times follow the server anchor when the device clock is set back', async () => {
+    const { trustedClockService } = require('../src/services/time/trusted-clock-service');
+    expect(trustedClockService.now()).toEqual({ timestamp: DEVICE_TIME, deviceTimestamp: DEVICE_TIME, confidence: 'DEVICE_CLOCK' });
+
+    await getCurrentTimeAndZone();
+    jest.advanceTimersByTime(5 * MINUTE);
+    // Set back by 2 hours - the monotonic clock keeps running
+    jest.setSystemTime(Date.now() - 120 * MINUTE);
+
+    expect(trustedClockService.now()).toEqual({
+      timestamp: SERVER_TIME + 5 * MINUTE,
+      deviceTimestamp: DEVICE_TIME - 115 * MINUTE,
+      confidence: 'SERVER_ANCHORED',
+    });
+
+    // Caught without another server call
+    expect(await checkClockAccuracy(5)).toMatchObject({ isAccurate: false, differenceMinutes: 130 });
+    expect(apiClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('after a restart offline the last offset is used and a set-back clock is flagged', async () => {
+    await getCurrentTimeAndZone();
+    jest.advanceTimersByTime(5 * MINUTE);
+
+    // Restarted: the process clock anchor is gone, the offset to the server is not
+    const { trustedClockService } = restartApp();
+    jest.advanceTimersByTime(MINUTE);
+    expect(trustedClockService.now()).toEqual({
+      timestamp: SERVER_TIME + 6 * MINUTE,
+      deviceTimestamp: DEVICE_TIME + 6 * MINUTE,
+      confidence: 'SERVER_OFFSET',
+    });
+
+    jest.setSystemTime(DEVICE_TIME - 60 * MINUTE);
+    const rolledBack = trustedClockService.now();
+    expect(rolledBack).toEqual({
+      timestamp: SERVER_TIME + 6 * MINUTE + 1,
+      deviceTimestamp: DEVICE_TIME - 60 * MINUTE,
+      confidence: 'CLOCK_ROLLBACK',
+    });
+    // Still never earlier than a time already issued
+    expect(trustedClockService.now().timestamp).toBe(rolledBack.timestamp + 1);
+  });
+
+  test('a device clock set forward before the first server fetch does not flag later punches', async () => {
+    const app = restartApp();
+    jest.setSystemTime(DEVICE_TIME + 24 * 60 * MINUTE);
+    expect(app.trustedClockService.now().confidence).toBe('DEVICE_CLOCK');
+
+    // Clock corrected, then the server time fetched
+    jest.setSystemTime(DEVICE_TIME);
+    await app.getCurrentTimeAndZone();
+    jest.advanceTimersByTime(MINUTE);
+
+    const restarted = restartApp().trustedClockService;
+    expect(restarted.now()).toEqual({
+      timestamp: SERVER_TIME + MINUTE,
+      deviceTimestamp: DEVICE_TIME + MINUTE,
+      confidence: 'SERVER_OFFSET',
+    });
+  });
+
+  test('a last trusted time ahead of the server is reset by the next fetch', async () => {
+    // Left by a device clock set forward a day
+    mockStorage.set('trusted-clock:floor', SERVER_TIME + 24 * 60 * MINUTE);
+    const app = restartApp();
+    await app.getCurrentTimeAndZone();
+    jest.advanceTimersByTime(MINUTE);
+
+    const restarted = restartApp().trustedClockService;
+    expect(restarted.now()).toEqual({
+      timestamp: SERVER_TIME + MINUTE,
+      deviceTimestamp: DEVICE_TIME + MINUTE,
+      confidence: 'SERVER_OFFSET',
+    });
+    expect(app.trustedClockService.now().confidence).toBe('SERVER_ANCHORED');
+  });
+});
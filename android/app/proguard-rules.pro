@@ -8,3 +8,6 @@
 #   http://developer.android.com/guide/developing/tools/proguard.html
 
 # Add any project specific keep options here:
+
+# SQLCipher (encrypted local database): native code looks up these classes by name
+-keep class net.zetetic.** { *; }
@@ -1,12 +1,21 @@
 package com.colabclient
 
 import android.content.Context
+import android.content.pm.PackageManager
+import android.location.Location
+import android.location.LocationManager
 import android.os.Build
+import android.os.SystemClock
 import android.provider.Settings
+import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.Callback
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.WritableMap
+import java.io.File
+import java.security.MessageDigest
+import java.security.SecureRandom
 
 class SecurityUtilsModule(reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -84,5 +93,169 @@ class SecurityUtilsModule(reactContext: ReactApplicationContext) :
             callback.invoke(e.message, false)
         }
     }
-}
 
+    /**
+     * Check if the device location comes from a mock location provider (fake GPS apps)
+     * Checks the last known fix of each provider, and the pre-Android 6 "allow mock locations" setting
+     */
+    @ReactMethod
+    fun isMockLocationActive(callback: Callback) {
+        val context: Context? = reactApplicationContext
+        try {
+            context?.let {
+                @Suppress("DEPRECATION")
+                val allowMockLocation = Build.VERSION.SDK_INT < Build.VERSION_CODES.M &&
+                    Settings.Secure.getString(it.contentResolver, Settings.Secure.ALLOW_MOCK_LOCATION) == "1"
+                val locationManager = it.getSystemService(Context.LOCATION_SERVICE) as? LocationManager
+                val mockedFix = locationManager?.getProviders(true)?.any { provider ->
+                    try {
+                        locationManager.getLastKnownLocation(provider)?.let { location -> isMock(location) } ?: false
+                    } catch (e: SecurityException) {
+                        false
+                    }
+                } ?: false
+                callback.invoke(null, allowMockLocation || mockedFix)
+            } ?: callback.invoke(null, false)
+        } catch (e: Exception) {
+            callback.invoke(e.message, false)
+        }
+    }
+
+    @Suppress("DEPRECATION")
+    private fun isMock(location: Location): Boolean =
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) location.isMock else location.isFromMockProvider
+
+    /**
+     * Device integrity indicators: root, emulator, hooking frameworks and the app signing certificate
+     * rooted / emulator / hookingFramework: Booleans
+     * signatureSha256: SHA-256 (hex) of the signing certificate, compared with the release certificate in JS
+     * indicators: What was found, for the compliance report
+     */
+    @ReactMethod
+    fun getDeviceIntegrity(callback: Callback) {
+        try {
+            val indicators = mutableListOf<String>()
+
+            val suPaths = listOf(
+                "/system/bin/su", "/system/xbin/su", "/sbin/su", "/system/sd/xbin/su",
+                "/system/bin/failsafe/su", "/data/local/su", "/data/local/bin/su", "/data/local/xbin/su",
+                "/su/bin/su", "/system/app/Superuser.apk", "/data/adb/magisk",
+            )
+            suPaths.filter { File(it).exists() }.forEach { indicators.add("file:$it") }
+            if (Build.TAGS?.contains("test-keys") == true) {
+                indicators.add("build:test-keys")
+            }
+            val rootPackages = listOf(
+                "com.topjohnwu.magisk", "eu.chainfire.supersu", "com.noshufou.android.su",
+                "com.koushikdutta.superuser", "com.kingroot.kinguser",
+            )
+            rootPackages.filter { isPackageInstalled(it) }.forEach { indicators.add("package:$it") }
+            val rooted = indicators.isNotEmpty()
+
+            val emulator = Build.FINGERPRINT.startsWith("generic") ||
+                Build.FINGERPRINT.contains("emulator") ||
+                Build.MODEL.contains("Emulator") ||
+                Build.MODEL.contains("Android SDK built for") ||
+                Build.MANUFACTURER.contains("Genymotion") ||
+                Build.HARDWARE.contains("goldfish") ||
+                Build.HARDWARE.contains("ranchu") ||
+                Build.PRODUCT.contains("sdk_gphone") ||
+                (Build.BRAND.startsWith("generic") && Build.DEVICE.startsWith("generic"))
+            if (emulator) {
+                indicators.add("emulator:${Build.MANUFACTURER}/${Build.MODEL}/${Build.HARDWARE}")
+            }
+
+            val hookIndicators = mutableListOf<String>()
+            listOf("de.robv.android.xposed.XposedBridge", "com.saurik.substrate.MS").forEach { className ->
+                try {
+                    Class.forName(className)
+                    hookIndicators.add("class:$className")
+                } catch (e: ClassNotFoundException) {
+                    // Not loaded
+                }
+            }
+            listOf("de.robv.android.xposed.installer", "org.lsposed.manager", "com.saurik.substrate")
+                .filter { isPackageInstalled(it) }
+                .forEach { hookIndicators.add("package:$it") }
+            try {
+                File("/proc/self/maps").useLines { lines ->
+                    lines.map { it.lowercase() }
+                        .firstOrNull { it.contains("frida") || it.contains("xposed") || it.contains("substrate") }
+                        ?.let { hookIndicators.add("maps:${it.substringAfterLast(' ')}") }
+                }
+            } catch (e: Exception) {
+                // Not readable
+            }
+            if (File("/data/local/tmp/frida-server").exists()) {
+                hookIndicators.add("file:/data/local/tmp/frida-server")
+            }
+            indicators.addAll(hookIndicators)
+
+            val result = Arguments.createMap()
+            result.putBoolean("rooted", rooted)
+            result.putBoolean("emulator", emulator)
+            result.putBoolean("hookingFramework", hookIndicators.isNotEmpty())
+            getSigningCertificateSha256()?.let { result.putString("signatureSha256", it) }
+            result.putArray("indicators", Arguments.fromList(indicators))
+            callback.invoke(null, result)
+        } catch (e: Exception) {
+            callback.invoke(e.message, null)
+        }
+    }
+
+    private fun isPackageInstalled(packageName: String): Boolean =
+        try {
+            reactApplicationContext.packageManager.getPackageInfo(packageName, 0)
+            true
+        } catch (e: PackageManager.NameNotFoundException) {
+            false
+        }
+
+    @Suppress("DEPRECATION")
+    private fun getSigningCertificateSha256(): String? =
+        try {
+            val packageManager = reactApplicationContext.packageManager
+            val packageName = reactApplicationContext.packageName
+            val signature = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) {
+                packageManager.getPackageInfo(packageName, PackageManager.GET_SIGNING_CERTIFICATES)
+                    .signingInfo?.apkContentsSigners?.firstOrNull()
+            } else {
+                packageManager.getPackageInfo(packageName, PackageManager.GET_SIGNATURES)
+                    .signatures?.firstOrNull()
+            }
+            signature?.let {
+                MessageDigest.getInstance("SHA-256").digest(it.toByteArray())
+                    .joinToString("") { byte -> "%02x".format(byte) }
+            }
+        } catch (e: Exception) {
+            null
+        }
+
+    /**
+     * Monotonic clock for the trusted time anchor
+     * elapsedRealtime: milliseconds since boot (counts deep sleep, unaffected by clock changes)
+     * bootCount: boot number, so an anchor taken before a reboot is not reused (-1 if unavailable)
+     */
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    fun getMonotonicClock(): WritableMap {
+        val bootCount = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.N) {
+            Settings.Global.getInt(reactApplicationContext.contentResolver, Settings.Global.BOOT_COUNT, -1)
+        } else {
+            -1
+        }
+        val clock = Arguments.createMap()
+        clock.putDouble("elapsedRealtime", SystemClock.elapsedRealtime().toDouble())
+        clock.putInt("bootCount", bootCount)
+        return clock
+    }
+
+    /**
+     * Cryptographically secure random bytes as hex (device signing key)
+     */
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    fun getSecureRandomBytes(length: Int): String {
+        val bytes = ByteArray(length)
+        SecureRandom().nextBytes(bytes)
+        return bytes.joinToString("") { "%02x".format(it) }
+    }
+}
@@ -5,5 +5,12 @@
 import { AppRegistry } from 'react-native';
 import App from './App';
 import { name as appName } from './app.json';
+import { registerNotificationBackgroundHandler } from './src/services/notifications/notification-service';
+import { autoCheckoutService } from './src/services/attendance/auto-checkout-service';
+
+// Break reminder actions pressed while the app is in the background
+registerNotificationBackgroundHandler();
+// Auto-checkout on background fetch and when its notice is delivered, also while the app is in the background
+autoCheckoutService.registerBackgroundTrigger();
 
 AppRegistry.registerComponent(appName, () => App);
@@ -0,0 +1,136 @@
+#import <React/RCTBridgeModule.h>
+#import <UIKit/UIKit.h>
+#import <mach-o/dyld.h>
+#import <Security/Security.h>
+#include <sys/sysctl.h>
+#include <time.h>
+
+/**
+ * SecurityUtils (iOS)
+ * Device integrity indicators, a monotonic clock and secure random bytes;
+ * the mock location check is Android only
+ */
+@interface SecurityUtils : NSObject <RCTBridgeModule>
+@end
+
+@implementation SecurityUtils
+
+RCT_EXPORT_MODULE();
+
+/**
+ * Device integrity indicators: jailbreak, simulator, hooking frameworks and a re-signed app
+ * Same shape as the Android module (rooted is the jailbreak result), plus signatureTampered
+ */
+RCT_EXPORT_METHOD(getDeviceIntegrity:(RCTResponseSenderBlock)callback)
+{
+  NSMutableArray<NSString *> *indicators = [NSMutableArray array];
+
+  NSArray<NSString *> *jailbreakPaths = @[
+    @"/Applications/Cydia.app", @"/Applications/Sileo.app", @"/Library/MobileSubstrate/MobileSubstrate.dylib",
+    @"/bin/bash", @"/usr/sbin/sshd", @"/etc/apt", @"/private/var/lib/apt/", @"/var/jb", @"/usr/bin/ssh",
+  ];
+  for (NSString *path in jailbreakPaths) {
+    if ([[NSFileManager defaultManager] fileExistsAtPath:path]) {
+      [indicators addObject:[@"file:" stringByAppendingString:path]];
+    }
+  }
+  // Apps cannot write outside their sandbox unless the device is jailbroken
+  NSString *probePath = @"/private/jailbreak_probe.txt";
+  if ([@"probe" writeToFile:probePath atomically:YES encoding:NSUTF8StringEncoding error:nil]) {
+    [[NSFileManager defaultManager] removeItemAtPath:probePath error:nil];
+    [indicators addObject:@"sandbox:writable"];
+  }
+  if ([[UIApplication sharedApplication] canOpenURL:[NSURL URLWithString:@"cydia://package/com.example.package"]]) {
+    [indicators addObject:@"scheme:cydia"];
+  }
+  BOOL jailbroken = indicators.count > 0;
+
+  BOOL simulator = NO;
+#if TARGET_OS_SIMULATOR
+  simulator = YES;
+  [indicators addObject:@"emulator:simulator"];
+#endif
+
+  BOOL hooked = NO;
+  for (uint32_t i = 0; i < _dyld_image_count(); i++) {
+    const char *imageName = _dyld_get_image_name(i);
+    if (imageName == NULL) {
+      continue;
+    }
+    NSString *image = [[NSString stringWithUTF8String:imageName] lowercaseString];
+    if ([image containsString:@"frida"] || [image containsString:@"substrate"] ||
+        [image containsString:@"cycript"] || [image containsString:@"libhooker"] ||
+        [image containsString:@"substitute"]) {
+      hooked = YES;
+      [indicators addObject:[@"image:" stringByAppendingString:image.lastPathComponent]];
+    }
+  }
+
+  // Cracked (re-signed) builds carry SignerIdentity in Info.plist
+  BOOL signatureTampered = [[NSBundle mainBundle] objectForInfoDictionaryKey:@"SignerIdentity"] != nil;
+  if (signatureTampered) {
+    [indicators addObject:@"plist:SignerIdentity"];
+  }
+
+  callback(@[[NSNull null], @{
+    @"rooted": @(jailbroken),
+    @"emulator": @(simulator),
+    @"hookingFramework": @(hooked),
+    @"signatureTampered": @(signatureTampered),
+    @"indicators": indicators,
+  }]);
+}
+
+/**
+ * Monotonic clock for trusted punch times, same shape as the Android module
+ * elapsedRealtime: milliseconds since boot (CLOCK_MONOTONIC counts sleep, unaffected by clock changes)
+ * bootCount: boot time in seconds - iOS has no boot counter, a new boot has a new boot time (-1 if unavailable)
+ */
+RCT_EXPORT_BLOCKING_SYNCHRONOUS_METHOD(getMonotonicClock)
+{
+  struct timespec now;
+  if (clock_gettime(CLOCK_MONOTONIC, &now) != 0) {
+    return [NSNull null];
+  }
+  double elapsedRealtime = (double)now.tv_sec * 1000.0 + (double)now.tv_nsec / 1000000.0;
+
+  struct timeval bootTime;
+  size_t size = sizeof(bootTime);
+  int mib[2] = { CTL_KERN, KERN_BOOTTIME };
+  long bootCount = sysctl(mib, 2, &bootTime, &size, NULL, 0) == 0 ? (long)bootTime.tv_sec : -1;
+
+  return @{
+    @"elapsedRealtime": @(elapsedRealtime),
+    @"bootCount": @(bootCount),
+  };
+}
+
+/**
+ * Cryptographically secure random bytes as hex (device signing key, database key)
+ */
+RCT_EXPORT_BLOCKING_SYNCHRONOUS_METHOD(getSecureRandomBytes:(nonnull NSNumber *)length)
+{
+  NSMutableData *bytes = [NSMutableData dataWithLength:length.unsignedIntegerValue];
+  if (SecRandomCopyBytes(kSecRandomDefault, bytes.length, bytes.mutableBytes) != errSecSuccess) {
+    return [NSNull null];
+  }
+  const unsigned char *buffer = bytes.bytes;
+  NSMutableString *hex = [NSMutableString stringWithCapacity:bytes.length * 2];
+  for (NSUInteger i = 0; i < bytes.length; i++) {
+    [hex appendFormat:@"%02x", buffer[i]];
+  }
+  return hex;
+}
+
++ (BOOL)requiresMainQueueSetup
+{
+  return NO;
+}
+
+// canOpenURL must be called on the main thread
+- (dispatch_queue_t)methodQueue
+{
+  return dispatch_get_main_queue();
+}
+
+@end
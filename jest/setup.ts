@@ -0,0 +1,65 @@
+/**
+ * Mocks shared by every test file
+ * A test file that needs other behaviour mocks the module again, or sets the jest.fn per test
+ */
+
+// Database served from the in-memory stand-in opened by openTestDatabase()
+jest.mock('../src/services/database/db-connection', () => ({
+  getDB: () => require('./test-database').getTestDatabase(),
+}));
+
+jest.mock('../src/services/api/api-client', () => ({
+  __esModule: true,
+  default: { post: jest.fn(), get: jest.fn() },
+}));
+
+jest.mock('../src/services/network/network-service', () => ({
+  networkService: { isConnected: jest.fn(async () => true) },
+}));
+
+jest.mock('../src/constants/configs', () => ({
+  Configs: { apiBaseUrl: 'http://localhost:8080' },
+}));
+
+jest.mock('../src/services/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  resetCorrelationId: jest.fn(),
+}));
+
+// Keychain items kept in memory, per service
+jest.mock('react-native-keychain', () => {
+  const items = new Map<string, { username: string; password: string }>();
+  return {
+    ACCESSIBLE: { AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 'AccessibleAfterFirstUnlockThisDeviceOnly' },
+    getGenericPassword: jest.fn(async (options?: { service?: string }) => items.get(options?.service ?? '') ?? false),
+    setGenericPassword: jest.fn(async (username: string, password: string, options?: { service?: string }) => {
+      items.set(options?.service ?? '', { username, password });
+      return true;
+    }),
+    resetGenericPassword: jest.fn(async (options?: { service?: string }) => items.delete(options?.service ?? '')),
+  };
+});
+
+// Keys (signing, database) come from the native secure random
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.SecurityUtils = {
+    getSecureRandomBytes: (length: number) => require('crypto').randomBytes(length).toString('hex'),
+  };
+  return ReactNative;
+});
+
+jest.mock('react-native-background-fetch', () => ({
+  __esModule: true,
+  default: {
+    NETWORK_TYPE_NONE: 0,
+    configure: jest.fn(async () => 2),
+    registerHeadlessTask: jest.fn(),
+    finish: jest.fn(),
+  },
+}));
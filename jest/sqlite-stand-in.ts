@@ -0,0 +1,159 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type {
+  SQLDatabase,
+  SQLResultSet,
+  SQLTransaction,
+} from '../src/services/database/migrations';
+
+type StatementSuccess = (tx: SQLTransaction, result: SQLResultSet) => void;
+type StatementError = (tx: SQLTransaction, error: any) => boolean | void;
+
+interface QueuedStatement {
+  sql: string;
+  params: any[];
+  success?: StatementSuccess;
+  error?: StatementError;
+}
+
+/**
+ * Node stand-in for react-native-sqlite-storage, backed by sql.js (SQLite compiled to wasm)
+ *
+ * Mirrors the driver's transaction semantics:
+ * - Transactions and executeSql calls run one at a time, asynchronously
+ * - transaction() wraps its statements in BEGIN / COMMIT, executeSql() does not
+ * - Statements queued from success callbacks run in the same transaction, batch after batch
+ * - A failing statement rolls the transaction back, even when its error callback returns false
+ * - Statement error callbacks receive only the error, exceptions from callbacks are swallowed
+ */
+export class SQLiteStandIn implements SQLDatabase {
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly db: Database) {}
+
+  static async open(): Promise<SQLiteStandIn> {
+    const SQL = await initSqlJs();
+    return new SQLiteStandIn(new SQL.Database());
+  }
+
+  transaction(
+    scope: (tx: SQLTransaction) => void,
+    error?: (error: any) => void,
+    success?: () => void,
+  ): void {
+    this.pending = this.pending.then(() => this.runTransaction(scope, error, success));
+  }
+
+  /**
+   * Single statement without BEGIN / COMMIT, like the driver's db.executeSql
+   */
+  executeSql(
+    sql: string,
+    params: any[] = [],
+    success?: (result: SQLResultSet) => void,
+    error?: (error: any) => void,
+  ): void {
+    this.pending = this.pending.then(() => {
+      let result: SQLResultSet;
+      try {
+        result = this.execute(sql, params);
+      } catch (statementError) {
+        error?.(statementError);
+        return;
+      }
+      success?.(result);
+    });
+  }
+
+  /**
+   * Run a statement immediately (test setup and assertions)
+   */
+  query(sql: string, params: any[] = []): any[] {
+    const result = this.execute(sql, params);
+    const rows: any[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      rows.push(result.rows.item(i));
+    }
+    return rows;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private runTransaction(
+    scope: (tx: SQLTransaction) => void,
+    error?: (error: any) => void,
+    success?: () => void,
+  ): void {
+    let batch: QueuedStatement[] = [];
+    const tx: SQLTransaction = {
+      executeSql: (sql, params = [], onSuccess, onError) => {
+        batch.push({ sql, params, success: onSuccess, error: onError });
+      },
+    };
+
+    try {
+      scope(tx);
+    } catch (scopeError) {
+      error?.(scopeError);
+      return;
+    }
+
+    this.db.run('BEGIN;');
+    let failure: unknown = null;
+
+    while (batch.length > 0 && !failure) {
+      const current = batch;
+      batch = [];
+      for (const statement of current) {
+        let result: SQLResultSet;
+        try {
+          result = this.execute(statement.sql, statement.params);
+        } catch (statementError) {
+          try {
+            statement.error?.(tx, statementError);
+          } catch {
+            // The driver only logs exceptions thrown from error callbacks
+          }
+          failure = statementError;
+          break;
+        }
+        try {
+          statement.success?.(tx, result);
+        } catch {
+          // The driver only logs exceptions thrown from success callbacks
+        }
+      }
+    }
+
+    if (failure) {
+      this.db.run('ROLLBACK;');
+      error?.(failure);
+      return;
+    }
+
+    this.db.run('COMMIT;');
+    success?.();
+  }
+
+  private execute(sql: string, params: any[]): SQLResultSet {
+    const statement = this.db.prepare(sql);
+    const rows: any[] = [];
+    try {
+      statement.bind(params.map((value): SqlValue => (value === undefined ? null : value)));
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    return {
+      rows: {
+        length: rows.length,
+        item: (index: number) => rows[index],
+      },
+      rowsAffected: this.db.getRowsModified(),
+    };
+  }
+}
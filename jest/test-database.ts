@@ -0,0 +1,23 @@
+import { runMigrations, SCHEMA_MIGRATIONS } from '../src/services/database/migrations';
+import { SQLiteStandIn } from './sqlite-stand-in';
+
+let testDb: SQLiteStandIn | null = null;
+
+/**
+ * Open a new in-memory database and serve it from getDB (see jest/setup.ts)
+ * @param migrate - Create the app schema (default true)
+ */
+export const openTestDatabase = async ({ migrate = true } = {}): Promise<SQLiteStandIn> => {
+  testDb = await SQLiteStandIn.open();
+  if (migrate) {
+    await runMigrations(testDb, SCHEMA_MIGRATIONS);
+  }
+  return testDb;
+};
+
+export const getTestDatabase = (): SQLiteStandIn => {
+  if (!testDb) {
+    throw new Error('No test database open - call openTestDatabase() first');
+  }
+  return testDb;
+};
@@ -1,11 +1,15 @@
 import React, { ReactNode } from 'react';
+import { StyleProp, TouchableWithoutFeedbackProps, ViewStyle } from 'react-native';
 import Ripple, { RippleProps } from 'react-native-material-ripple';
 import { useAppSelector } from '../../redux';
 import { APP_THEMES, DarkThemeColors, LightThemeColors } from '../../themes';
 
-interface RippleButtonProps extends RippleProps {
+// Ripple renders a TouchableWithoutFeedback around an Animated.View, its props are not typed
+interface RippleButtonProps extends RippleProps, Omit<TouchableWithoutFeedbackProps, 'style'> {
   children?: ReactNode;
+  style?: StyleProp<ViewStyle>;
   rippleColor?: string;
+  rippleContainerBorderRadius?: number;
 }
 
 const RippleButton: React.FC<RippleButtonProps> = ({ children, rippleColor, ...props }) => {
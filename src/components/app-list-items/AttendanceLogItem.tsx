@@ -12,6 +12,7 @@ import { AttendanceDay } from '../../services/attendance/attendance-service';
 import { useTranslation } from '../../hooks/useTranslation';
 import { DarkThemeColors, APP_THEMES } from '../../themes';
 import { useAppSelector } from '../../redux';
+import { getShiftForDate, getShiftRoster } from '../../utils/shift-roster-utils';
 
 interface AttendanceLogItemProps {
   item: AttendanceDay;
@@ -39,13 +40,19 @@ const AttendanceLogItem: React.FC<AttendanceLogItemProps> = ({ item }) => {
 
   // Use pre-calculated status and durations from AttendanceDay
   const attendanceSummary = useMemo(() => {
+    // Minimum hours of the day's rostered shift, when not stored at check-in
+    const rosterMinimumHours = getShiftForDate(
+      getShiftRoster(userData),
+      item?.dateOfPunch || moment.utc().format('YYYY-MM-DD'),
+    ).minimumWorkingHours;
+
     if (!item || !item.records || item.records.length === 0) {
       return {
         status: 'ABSENT',
         statusColor: 'RED',
         totalDuration: '00:00',
         punchCount: 0,
-        minimumHours: userData?.minimumWorkingHours || 8,
+        minimumHours: rosterMinimumHours,
       };
     }
 
@@ -56,7 +63,7 @@ const AttendanceLogItem: React.FC<AttendanceLogItemProps> = ({ item }) => {
     
     // Get minimum hours from the first check-in record or use default
     const firstCheckIn = item.records.find(r => r.PunchDirection === 'IN');
-    const minimumHours = (firstCheckIn as any)?.MinimumHoursRequired || userData?.minimumWorkingHours || 8;
+    const minimumHours = (firstCheckIn as any)?.MinimumHoursRequired || rosterMinimumHours;
 
     // Determine status color
     let statusColor: 'GREEN' | 'RED' | 'YELLOW' = 'RED';
@@ -77,7 +84,7 @@ const AttendanceLogItem: React.FC<AttendanceLogItemProps> = ({ item }) => {
       punchCount,
       minimumHours,
     };
-  }, [item, userData?.minimumWorkingHours]);
+  }, [item, userData]);
 
   // Get status badge text
   const getStatusBadge = (status: string): string => {
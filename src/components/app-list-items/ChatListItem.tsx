@@ -1,18 +1,42 @@
 import React, { memo } from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, StyleSheet, ImageSourcePropType } from 'react-native';
 import AppText from '../app-texts/AppText';
 import UserImage from '../app-images/UserImage';
-import { FontTypes, hp, wp } from '../../constants';
+import { FontTypes, hp, wp, PUNCH_DIRECTIONS } from '../../constants';
 import RippleButton from '../app-buttons/RippleButton';
 
-const ChatListItem: React.FC = () => {
+interface ChatListItemProps {
+  title?: string;
+  subtitle?: string;
+  userName?: string;
+  source?: ImageSourcePropType | null;
+  punchDirection?: typeof PUNCH_DIRECTIONS[keyof typeof PUNCH_DIRECTIONS];
+  isAttendanceStatusVisible?: boolean;
+  onPress?: () => void;
+}
+
+const ChatListItem: React.FC<ChatListItemProps> = ({
+  title = 'Channel Name',
+  subtitle = 'Last Message',
+  userName,
+  source,
+  punchDirection,
+  isAttendanceStatusVisible,
+  onPress,
+}) => {
   return (
-    <RippleButton style={styles.container}>
-      <UserImage size={hp(5)} />
+    <RippleButton style={styles.container} disabled={!onPress} onPress={onPress}>
+      <UserImage
+        size={hp(5)}
+        userName={userName}
+        source={source}
+        punchDirection={punchDirection}
+        isAttendanceStatusVisible={isAttendanceStatusVisible}
+      />
       <View style={styles.subContainer}>
-        <AppText fontType={FontTypes.medium}>{'Channel Name'}</AppText>
-        <AppText size={hp(1.61)} style={styles.lastMessage}>
-          {'Last Message'}
+        <AppText fontType={FontTypes.medium} numberOfLines={1}>{title}</AppText>
+        <AppText size={hp(1.61)} style={styles.lastMessage} numberOfLines={1}>
+          {subtitle}
         </AppText>
       </View>
     </RippleButton>
@@ -29,6 +53,7 @@ const styles = StyleSheet.create({
     paddingVertical: hp(1),
   },
   subContainer: {
+    flex: 1,
     paddingHorizontal: wp(2),
   },
   lastMessage: {
@@ -9,6 +9,7 @@ import { hp, wp, Icons } from '../../constants';
 import { DarkThemeColors, APP_THEMES } from '../../themes';
 import { useAppSelector } from '../../redux';
 import { useTranslation } from '../../hooks/useTranslation';
+import type { CalendarDayStatus, StatusColor } from '../../services/attendance/attendance-status-service';
 
 interface AttendanceRecord {
   Timestamp: string | number;
@@ -26,7 +27,8 @@ interface DayAttendanceItemProps {
   records: AttendanceRecord[];
   onPress?: () => void;
   onDetailPress?: () => void;
-  attendanceStatus?: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' | 'PENDING_APPROVAL';
+  attendanceStatus?: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' | 'PENDING_APPROVAL' | CalendarDayStatus;
+  calendarLabel?: string | null; // Holiday name or leave type
   totalDuration?: string;
   breakDuration?: string;
   workedHours?: number;
@@ -45,15 +47,27 @@ interface DayAttendanceItemProps {
  * - YELLOW: Requires approval (forgot checkout, manual correction)
  * - RED: Hours deficit (PARTIAL/HOURS_DEFICIT without approval) OR ABSENT (no check-in)
  * - GREEN: Valid attendance (PRESENT without approval)
+ * - BLUE / GREY / PURPLE: Holiday / weekly off / leave without check-in
  */
 const getStatusColor = (
-  attendanceStatus: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' | 'PENDING_APPROVAL' | undefined,
+  attendanceStatus: DayAttendanceItemProps['attendanceStatus'],
   requiresApproval: boolean,
-): 'GREEN' | 'RED' | 'YELLOW' => {
+): StatusColor => {
   // YELLOW takes priority - if approval is required (for any status)
   if (requiresApproval || attendanceStatus === 'PENDING_APPROVAL') {
     return 'YELLOW';
   }
+
+  // Non-working days without check-in
+  if (attendanceStatus === 'HOLIDAY') {
+    return 'BLUE';
+  }
+  if (attendanceStatus === 'WEEK_OFF') {
+    return 'GREY';
+  }
+  if (attendanceStatus === 'ON_LEAVE') {
+    return 'PURPLE';
+  }
   
   // RED - hours deficit (PARTIAL/HOURS_DEFICIT without approval) or ABSENT (no check-in)
   if (attendanceStatus === 'PARTIAL' || attendanceStatus === 'HOURS_DEFICIT' || attendanceStatus === 'ABSENT') {
@@ -70,6 +84,7 @@ const DayAttendanceItem: React.FC<DayAttendanceItemProps> = ({
   onPress,
   onDetailPress,
   attendanceStatus,
+  calendarLabel,
   totalDuration,
   breakDuration,
   workedHours: _workedHours, // Renamed to indicate intentionally unused
@@ -283,6 +298,12 @@ const DayAttendanceItem: React.FC<DayAttendanceItemProps> = ({
         return '#FF4444'; // Red - hours deficit
       case 'YELLOW':
         return '#FFA500'; // Orange/Amber - requires approval
+      case 'BLUE':
+        return '#4A90E2'; // Blue - holiday
+      case 'GREY':
+        return '#8E8E93'; // Grey - weekly off
+      case 'PURPLE':
+        return '#9B59B6'; // Purple - on leave
       default:
         return '#62C268';
     }
@@ -290,8 +311,11 @@ const DayAttendanceItem: React.FC<DayAttendanceItemProps> = ({
   
   const borderColor = getStatusBorderColor();
   const hasAttendance = !!firstCheckIn || !!lastCheckOut;
+  // Holiday, weekly off or leave without any punch - nothing is missing that day
+  const isNonWorkingDay = !hasAttendance
+    && (attendanceStatus === 'HOLIDAY' || attendanceStatus === 'WEEK_OFF' || attendanceStatus === 'ON_LEAVE');
   // Show color bar for all days (including ABSENT days with RED)
-  const showColorBar = hasAttendance || attendanceStatus === 'ABSENT' || statusColor === 'RED';
+  const showColorBar = hasAttendance || attendanceStatus === 'ABSENT' || statusColor === 'RED' || isNonWorkingDay;
 
   // Get status badge text and color based on attendanceStatus (not statusColor)
   const getStatusBadge = (): { text: string; color: string } | null => {
@@ -323,6 +347,19 @@ const DayAttendanceItem: React.FC<DayAttendanceItemProps> = ({
       return { text: t('attendance.partial', 'Incomplete'), color: '#FF4444' };
     }
     
+    // Priority 5: Non-working days, with the holiday name or leave type
+    if (attendanceStatus === 'HOLIDAY') {
+      const text = t('attendance.holiday', 'Holiday');
+      return { text: calendarLabel ? `${text} · ${calendarLabel}` : text, color: borderColor };
+    }
+    if (attendanceStatus === 'WEEK_OFF') {
+      return { text: t('attendance.weekOff', 'Week Off'), color: borderColor };
+    }
+    if (attendanceStatus === 'ON_LEAVE') {
+      const text = t('attendance.onLeave', 'On Leave');
+      return { text: calendarLabel ? `${text} · ${calendarLabel}` : text, color: borderColor };
+    }
+
     // PRESENT status shows no badge (green color bar is enough)
     return null;
   };
@@ -383,58 +420,60 @@ const DayAttendanceItem: React.FC<DayAttendanceItemProps> = ({
         {/* Right: Times and Info */}
         <View style={styles.infoSection}>
           {/* Check-in/Check-out Times - Show FIRST check-in and LAST check-out */}
-          <View style={styles.timesContainer}>
-            {firstCheckIn ? (
-              <View style={styles.timeRow}>
-                <Image
-                  source={Icons.clock}
-                  style={[styles.clockIcon, { tintColor: colors.text || DarkThemeColors.white_common }]}
-                  resizeMode="contain"
-                />
-                <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.timeText}>
-                  {formatTimeIn(firstCheckIn.Timestamp)}
-                </AppText>
-                <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.dateTextSmall}>
-                  {formatDateOnly(firstCheckIn.Timestamp)}
-                </AppText>
-              </View>
-            ) : (
-              <View style={styles.timeRow}>
-                <Image
-                  source={Icons.clock}
-                  style={[styles.clockIcon, { tintColor: '#FF4444' }]}
-                  resizeMode="contain"
-                />
-                <AppText size={15} color="#FF4444" style={styles.missingText}>
-                  {t('attendance.inMissing', 'IN: Missing')}
-                </AppText>
-              </View>
-            )}
+          {!isNonWorkingDay && (
+            <View style={styles.timesContainer}>
+              {firstCheckIn ? (
+                <View style={styles.timeRow}>
+                  <Image
+                    source={Icons.clock}
+                    style={[styles.clockIcon, { tintColor: colors.text || DarkThemeColors.white_common }]}
+                    resizeMode="contain"
+                  />
+                  <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.timeText}>
+                    {formatTimeIn(firstCheckIn.Timestamp)}
+                  </AppText>
+                  <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.dateTextSmall}>
+                    {formatDateOnly(firstCheckIn.Timestamp)}
+                  </AppText>
+                </View>
+              ) : (
+                <View style={styles.timeRow}>
+                  <Image
+                    source={Icons.clock}
+                    style={[styles.clockIcon, { tintColor: '#FF4444' }]}
+                    resizeMode="contain"
+                  />
+                  <AppText size={15} color="#FF4444" style={styles.missingText}>
+                    {t('attendance.inMissing', 'IN: Missing')}
+                  </AppText>
+                </View>
+              )}
 
-            {lastCheckOut ? (
-              <View style={styles.timeRow}>
-                <Image
-                  source={Icons.clock}
-                  style={[styles.clockIcon, { tintColor: colors.text || DarkThemeColors.white_common }]}
-                  resizeMode="contain"
-                />
-                <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.timeText}>
-                  {formatTimeOut(lastCheckOut.Timestamp)}
-                </AppText>
-              </View>
-            ) : (
-              <View style={styles.timeRow}>
-                <Image
-                  source={Icons.clock}
-                  style={[styles.clockIcon, { tintColor: '#FF4444' }]}
-                  resizeMode="contain"
-                />
-                <AppText size={15} color="#FF4444" style={styles.missingText}>
-                  {t('attendance.outMissing', 'OUT: Missing')}
-                </AppText>
-              </View>
-            )}
-          </View>
+              {lastCheckOut ? (
+                <View style={styles.timeRow}>
+                  <Image
+                    source={Icons.clock}
+                    style={[styles.clockIcon, { tintColor: colors.text || DarkThemeColors.white_common }]}
+                    resizeMode="contain"
+                  />
+                  <AppText size={15} color={colors.text || DarkThemeColors.white_common} style={styles.timeText}>
+                    {formatTimeOut(lastCheckOut.Timestamp)}
+                  </AppText>
+                </View>
+              ) : (
+                <View style={styles.timeRow}>
+                  <Image
+                    source={Icons.clock}
+                    style={[styles.clockIcon, { tintColor: '#FF4444' }]}
+                    resizeMode="contain"
+                  />
+                  <AppText size={15} color="#FF4444" style={styles.missingText}>
+                    {t('attendance.outMissing', 'OUT: Missing')}
+                  </AppText>
+                </View>
+              )}
+            </View>
+          )}
 
           {/* Duration Info - always show if has both check-in and check-out */}
           {calculatedTotalDuration && (
@@ -8,10 +8,12 @@ import RippleButton from '../app-buttons/RippleButton';
 
 interface MyTeamListItemProps {
   teamName?: string;
+  subtitle?: string; // e.g., "3/5 checked in"
   isDummy?: boolean;
+  onPress?: () => void;
 }
 
-const MyTeamListItem: React.FC<MyTeamListItemProps> = ({ teamName = '', isDummy = false }) => {
+const MyTeamListItem: React.FC<MyTeamListItemProps> = ({ teamName = '', subtitle, isDummy = false, onPress }) => {
   const { colors } = useTheme();
 
   // ✅ Memoize dynamic styles to avoid new object creation each render
@@ -29,9 +31,21 @@ const MyTeamListItem: React.FC<MyTeamListItemProps> = ({ teamName = '', isDummy
   );
 
   return (
-    <RippleButton rippleContainerBorderRadius={hp(1.86)} style={containerStyle}>
+    <RippleButton
+      rippleContainerBorderRadius={hp(1.86)}
+      style={containerStyle}
+      disabled={isDummy || !onPress}
+      onPress={onPress}
+    >
       {!isDummy && (
-        <AppText fontType={FontTypes.medium}>{teamName}</AppText>
+        <View style={styles.textContainer}>
+          <AppText fontType={FontTypes.medium} numberOfLines={1}>{teamName}</AppText>
+          {!!subtitle && (
+            <AppText size={hp(1.5)} style={styles.subtitle} numberOfLines={1}>
+              {subtitle}
+            </AppText>
+          )}
+        </View>
       )}
     </RippleButton>
   );
@@ -50,5 +64,13 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  textContainer: {
+    alignItems: 'center',
+    paddingHorizontal: wp(2),
+  },
+  subtitle: {
+    marginTop: hp(0.5),
+    opacity: 0.7,
+  },
 });
 
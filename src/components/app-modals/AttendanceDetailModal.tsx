@@ -8,6 +8,14 @@ import { formatUTCForDisplay } from '../../utils/time-utils';
 
 import { AppText, AppMap } from '..';
 import { logger } from '../../services/logger';
+import { getGeofenceAreaName } from '../../services/location/geofence-service';
+import {
+  BREAK_TYPES,
+  calculateBreaks,
+  getBreakType,
+  type BreakAllowance,
+  type BreakType,
+} from '../../services/attendance/break-service';
 import { hp, wp, FontTypes } from '../../constants';
 import { DarkThemeColors, APP_THEMES } from '../../themes';
 import { useAppSelector } from '../../redux';
@@ -27,6 +35,7 @@ interface AttendanceDetailModalProps {
   visible: boolean;
   date: string;
   records: AttendanceRecord[];
+  breakAllowance?: BreakAllowance | null; // Allowed break minutes of the day's shift (flags overruns)
   onClose: () => void;
 }
 
@@ -34,12 +43,14 @@ export default function AttendanceDetailModal({
   visible,
   date,
   records,
+  breakAllowance,
   onClose,
 }: AttendanceDetailModalProps): React.JSX.Element {
   const insets = useSafeAreaInsets();
   const theme = useTheme();
   const colors = useMemo(() => theme?.colors || {}, [theme?.colors]);
   const { appTheme } = useAppSelector(state => state.appState);
+  const allowedGeofenceAreas = useAppSelector(state => state.userState.userData?.allowedGeofenceAreas);
   const { t } = useTranslation();
 
   // Debug logging
@@ -68,6 +79,12 @@ export default function AttendanceDetailModal({
     return sorted;
   }, [records]);
 
+  // Breaks by type - a break still going on today counts up to now
+  const breakSummary = useMemo(() => {
+    const isToday = date === moment.utc().format('YYYY-MM-DD');
+    return calculateBreaks(sortedRecords, breakAllowance, isToday ? Date.now() : undefined);
+  }, [sortedRecords, breakAllowance, date]);
+
   // Format time (e.g., "10:30")
   // Timestamp is UTC ticks - convert to local time for display
   const formatTime = (timestamp: string | number): string => {
@@ -128,19 +145,30 @@ export default function AttendanceDetailModal({
     };
   };
 
-  // Check if record is a break
-  const isBreak = (record: AttendanceRecord): boolean => {
-    if (record.PunchDirection !== 'OUT') return false;
-    if (!record.AttendanceStatus) return false;
-    const breakStatuses = ['LUNCH', 'SHORTBREAK', 'COMMUTING', 'PERSONALTIMEOUT', 'OUTFORDINNER'];
-    return breakStatuses.includes(record.AttendanceStatus.toUpperCase());
+  // Describe which office/site the punch matched (recorded at punch time)
+  const getGeofenceLabel = (record: AttendanceRecord): string | null => {
+    if (!record.GeofenceStatus || record.GeofenceStatus === 'NOT_CONFIGURED') return null;
+    let label: string;
+    if (record.GeofenceStatus === 'INSIDE' && record.GeofenceID) {
+      const area = getGeofenceAreaName(record.GeofenceID, allowedGeofenceAreas);
+      label = t('attendance.geofence.matched', { area, defaultValue: `Matched: ${area}` });
+    } else if (record.GeofenceStatus === 'OUTSIDE' && record.GeofenceDistance != null) {
+      label = t('attendance.geofence.unmatched', {
+        distance: record.GeofenceDistance,
+        defaultValue: `Outside work locations (${record.GeofenceDistance} m away)`,
+      });
+    } else {
+      label = t('attendance.geofence.unverified', 'Work location not verified');
+    }
+    if (record.GpsAccuracy != null) {
+      label += ` · ${t('attendance.geofence.accuracy', { accuracy: record.GpsAccuracy, defaultValue: `GPS ±${record.GpsAccuracy} m` })}`;
+    }
+    return label;
   };
 
-  // Get break label
-  const getBreakLabel = (record: AttendanceRecord): string => {
-    if (!isBreak(record)) return '';
-    const status = record.AttendanceStatus?.toUpperCase();
-    switch (status) {
+  // Get break type label
+  const getBreakTypeLabel = (breakType: BreakType): string => {
+    switch (breakType) {
       case 'LUNCH':
         return t('attendance.breakStatus.lunch');
       case 'SHORTBREAK':
@@ -156,6 +184,33 @@ export default function AttendanceDetailModal({
     }
   };
 
+  // Get break label (break start punches only)
+  const getBreakLabel = (record: AttendanceRecord): string => {
+    const breakType = getBreakType(record);
+    return breakType ? getBreakTypeLabel(breakType) : '';
+  };
+
+  const formatBreakMinutes = (minutes: number): string =>
+    t('attendance.breaks.minutes', { count: minutes, defaultValue: `${minutes} min` });
+
+  // Used minutes of a break type (or all breaks) against the allowance, e.g. "35 min / 30 min"
+  const renderBreakRow = (label: string, minutes: number, allowed?: number, overrun?: number): React.JSX.Element => (
+    <View key={label} style={styles.breakRow}>
+      <AppText size={hp(1.7)} color={colors.text || DarkThemeColors.white_common}>
+        {label}
+      </AppText>
+      <AppText
+        size={hp(1.7)}
+        fontType={overrun ? FontTypes.medium : undefined}
+        color={overrun ? DarkThemeColors.red : colors.text || DarkThemeColors.white_common}
+      >
+        {formatBreakMinutes(minutes)}
+        {allowed != null && ` / ${formatBreakMinutes(allowed)}`}
+        {!!overrun && ` (${t('attendance.breaks.overrun', { minutes: overrun, defaultValue: `+${overrun} min over` })})`}
+      </AppText>
+    </View>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -227,10 +282,42 @@ export default function AttendanceDetailModal({
             keyboardShouldPersistTaps="handled"
             alwaysBounceVertical={false}
           >
+            {/* Break breakdown - lunch and personal time are accounted separately */}
+            {breakSummary.breaks.length > 0 && (
+              <View style={[
+                styles.breakSummary,
+                { borderColor: (colors as any).separator || DarkThemeColors.white_common + '20' }
+              ]}>
+                <AppText
+                  size={hp(2)}
+                  fontType={FontTypes.medium}
+                  color={colors.text || DarkThemeColors.white_common}
+                  style={styles.breakSummaryTitle}
+                >
+                  {t('attendance.breaks.title', 'Breaks')}
+                </AppText>
+                {BREAK_TYPES.filter((type) => breakSummary.minutesByType[type] != null).map((type) =>
+                  renderBreakRow(
+                    getBreakTypeLabel(type),
+                    breakSummary.minutesByType[type] || 0,
+                    breakAllowance?.byType?.[type],
+                    breakSummary.overrunByType[type],
+                  ),
+                )}
+                {renderBreakRow(
+                  t('attendance.breaks.total', 'Total'),
+                  breakSummary.totalMinutes,
+                  breakAllowance?.total,
+                  breakSummary.totalOverrunMinutes,
+                )}
+              </View>
+            )}
+
             {sortedRecords.length > 0 ? sortedRecords.map((record, index) => {
               const coords = parseLatLon(record.LatLon);
               const mapRegion = getMapRegion(record);
               const breakLabel = getBreakLabel(record);
+              const geofenceLabel = getGeofenceLabel(record);
 
               return (
                 <View key={`record-${record.Timestamp}-${index}-${record.PunchDirection}`} style={styles.recordCard}>
@@ -291,6 +378,18 @@ export default function AttendanceDetailModal({
                     {getAddress(record)}
                   </AppText>
 
+                  {/* Matched geofence area */}
+                  {geofenceLabel && (
+                    <AppText
+                      size={hp(1.5)}
+                      fontType={FontTypes.medium}
+                      color={record.GeofenceStatus === 'INSIDE' ? '#62C268' : '#F5A623'}
+                      style={styles.geofenceText}
+                    >
+                      {geofenceLabel}
+                    </AppText>
+                  )}
+
                   {/* Divider (except last item) */}
                   {index < sortedRecords.length - 1 && (
                     <View style={[
@@ -378,6 +477,21 @@ const styles = StyleSheet.create({
     paddingTop: hp(2),
     paddingBottom: hp(4),
   },
+  breakSummary: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: wp(3),
+    paddingVertical: hp(1.5),
+    marginBottom: hp(1),
+  },
+  breakSummaryTitle: {
+    marginBottom: hp(1),
+  },
+  breakRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: hp(0.4),
+  },
   recordCard: {
     paddingVertical: hp(2),
     marginBottom: hp(1),
@@ -410,6 +524,10 @@ const styles = StyleSheet.create({
     fontWeight: '400',
     lineHeight: hp(2.2),
   },
+  geofenceText: {
+    fontFamily: 'Noto Sans',
+    marginTop: hp(0.5),
+  },
   divider: {
     width: '100%',
     height: 1,
@@ -6,6 +6,9 @@
  * 1. "Check Out Now" - Normal checkout at current time (no approval)
  * 2. "Select Checkout Time" - Opens time picker for manual time selection (requires approval)
  * 3. "Forgot to Check Out" - Auto-checkout at shift end time, mark for approval (YELLOW status)
+ *
+ * After an auto-checkout (autoCheckoutTime) only "Select Checkout Time" is offered, to contest
+ * the time the user was checked out at
  */
 
 import React, { useState } from 'react';
@@ -22,6 +25,7 @@ import { TimePickerModal } from './TimePickerModal';
 import { hp, wp, FontTypes } from '../../constants';
 import { APP_THEMES, DarkThemeColors, LightThemeColors } from '../../themes';
 import { useAppSelector } from '../../redux';
+import { formatUTCForDisplay } from '../../utils/time-utils';
 
 interface ForgotCheckoutModalProps {
   visible: boolean;
@@ -30,6 +34,7 @@ interface ForgotCheckoutModalProps {
   onForgotCheckout: () => void; // Option 3: User confirms they forgot (shift end time, requires approval)
   onCancel: () => void; // Close modal without action
   shiftEndTime?: string; // Shift end time for constraints (e.g., "18:00")
+  autoCheckoutTime?: number; // Checkout written by auto-checkout (UTC ticks) - contest it instead
 }
 
 export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
@@ -39,6 +44,7 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
   onForgotCheckout,
   onCancel,
   shiftEndTime,
+  autoCheckoutTime,
 }) => {
   const { colors } = useTheme();
   const { appTheme } = useAppSelector(state => state.appState);
@@ -87,7 +93,7 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
               color={colors.text}
               style={styles.title}
             >
-              Missed Checkout?
+              {autoCheckoutTime ? 'Checked Out Automatically' : 'Missed Checkout?'}
             </AppText>
 
             {/* Message */}
@@ -96,7 +102,9 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
               color={colors.text}
               style={[styles.message, { opacity: 0.8 }]}
             >
-              It appears you didn't check out at the end of your shift. Please choose an option:
+              {autoCheckoutTime
+                ? `You didn't check out, so you were checked out at ${formatUTCForDisplay(autoCheckoutTime, 'hh:mm A')}. If you left at another time, select it:`
+                : "It appears you didn't check out at the end of your shift. Please choose an option:"}
             </AppText>
 
             {/* Divider */}
@@ -121,30 +129,32 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
             </AppText>
 
             {/* Button 1: Check Out Now (No Approval) */}
-            <TouchableOpacity
-              style={[
-                styles.button,
-                styles.primaryButton,
-                { backgroundColor: '#62c268' }, // Green for no approval
-              ]}
-              onPress={onCheckoutNow}
-              activeOpacity={0.8}
-            >
-              <AppText
-                size={hp(2.2)}
-                fontType={FontTypes.medium}
-                color={DarkThemeColors.white_common}
-              >
-                Check Out Now
-              </AppText>
-              <AppText
-                size={hp(1.6)}
-                color={DarkThemeColors.white_common}
-                style={[styles.buttonSubtext, { opacity: 0.9 }]}
+            {!autoCheckoutTime && (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.primaryButton,
+                  { backgroundColor: '#62c268' }, // Green for no approval
+                ]}
+                onPress={onCheckoutNow}
+                activeOpacity={0.8}
               >
-                Use current time (no approval needed)
-              </AppText>
-            </TouchableOpacity>
+                <AppText
+                  size={hp(2.2)}
+                  fontType={FontTypes.medium}
+                  color={DarkThemeColors.white_common}
+                >
+                  Check Out Now
+                </AppText>
+                <AppText
+                  size={hp(1.6)}
+                  color={DarkThemeColors.white_common}
+                  style={[styles.buttonSubtext, { opacity: 0.9 }]}
+                >
+                  Use current time (no approval needed)
+                </AppText>
+              </TouchableOpacity>
+            )}
 
             {/* Button 2: Select Checkout Time (Requires Approval) */}
             <TouchableOpacity
@@ -179,37 +189,39 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
             </TouchableOpacity>
 
             {/* Button 3: Forgot to Check Out (Requires Approval) */}
-            <TouchableOpacity
-              style={[
-                styles.button,
-                styles.secondaryButton,
-                {
-                  backgroundColor: isDark
-                    ? DarkThemeColors.white_common + '15'
-                    : LightThemeColors.black_common + '08',
-                  borderColor: isDark
-                    ? DarkThemeColors.white_common + '30'
-                    : LightThemeColors.black_common + '20',
-                },
-              ]}
-              onPress={onForgotCheckout}
-              activeOpacity={0.8}
-            >
-              <AppText
-                size={hp(2.2)}
-                fontType={FontTypes.medium}
-                color={colors.text}
+            {!autoCheckoutTime && (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.secondaryButton,
+                  {
+                    backgroundColor: isDark
+                      ? DarkThemeColors.white_common + '15'
+                      : LightThemeColors.black_common + '08',
+                    borderColor: isDark
+                      ? DarkThemeColors.white_common + '30'
+                      : LightThemeColors.black_common + '20',
+                  },
+                ]}
+                onPress={onForgotCheckout}
+                activeOpacity={0.8}
               >
-                Forgot to Check Out
-              </AppText>
-              <AppText
-                size={hp(1.6)}
-                color={colors.text}
-                style={[styles.buttonSubtext, { opacity: 0.6 }]}
-              >
-                No time recorded (requires approval)
-              </AppText>
-            </TouchableOpacity>
+                <AppText
+                  size={hp(2.2)}
+                  fontType={FontTypes.medium}
+                  color={colors.text}
+                >
+                  Forgot to Check Out
+                </AppText>
+                <AppText
+                  size={hp(1.6)}
+                  color={colors.text}
+                  style={[styles.buttonSubtext, { opacity: 0.6 }]}
+                >
+                  No time recorded (requires approval)
+                </AppText>
+              </TouchableOpacity>
+            )}
 
             {/* Cancel button */}
             <TouchableOpacity
@@ -222,7 +234,7 @@ export const ForgotCheckoutModal: React.FC<ForgotCheckoutModalProps> = ({
                 color={colors.text}
                 style={{ opacity: 0.6 }}
               >
-                Cancel
+                {autoCheckoutTime ? 'Keep This Time' : 'Cancel'}
               </AppText>
             </TouchableOpacity>
           </View>
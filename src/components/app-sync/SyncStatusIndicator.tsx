@@ -15,13 +15,21 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ onPres
   const colors = theme?.colors || {};
   const syncState = useAppSelector((state) => state.syncState);
   const { isSyncing, unsyncedItems } = syncState;
+  const queueItems = syncState.queueItems || [];
 
   const totalUnsynced =
     unsyncedItems.profile.length +
     unsyncedItems.attendance.length +
     unsyncedItems.settings.length;
 
-  if (totalUnsynced === 0 && !isSyncing) {
+  // Items that exhausted their retries need the user (or support) to act
+  const failedCount = queueItems.filter((item) => item.status === 'dead_letter').length;
+  const retryTimes = queueItems
+    .filter((item) => item.status === 'pending' && item.attempts > 0)
+    .map((item) => item.nextRetryAt);
+  const nextRetryAt = retryTimes.length > 0 ? Math.min(...retryTimes) : null;
+
+  if (totalUnsynced === 0 && failedCount === 0 && !isSyncing) {
     return null; // Don't show indicator if everything is synced
   }
 
@@ -78,6 +86,25 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ onPres
           >
             {totalUnsynced === 1 ? 'item' : 'items'} pending
           </AppText>
+          {failedCount > 0 ? (
+            <AppText
+              size={12}
+              fontType={FontTypes.medium}
+              color={colors.notification || '#FF6B6B'}
+            >
+              · {failedCount} failed
+            </AppText>
+          ) : (
+            nextRetryAt !== null && (
+              <AppText
+                size={12}
+                fontType={FontTypes.regular}
+                color={colors.text || DarkThemeColors.white_common}
+              >
+                · retry at {new Date(nextRetryAt).toLocaleTimeString()}
+              </AppText>
+            )
+          )}
         </View>
       )}
     </TouchableOpacity>
@@ -1,11 +1,28 @@
 import React from 'react';
-import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
-import { useAppSelector } from '../../redux';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Share } from 'react-native';
+import { useAppDispatch, useAppSelector } from '../../redux';
+import { setSyncQueueItems, setUnsyncedItems } from '../../redux/reducers/syncReducer';
 import AppText from '../app-texts/AppText';
 import { FontTypes } from '../../constants';
 import { useTheme } from '@react-navigation/native';
 import { DarkThemeColors } from '../../themes';
-import { syncCoordinator } from '../../services/sync';
+import {
+  syncCoordinator,
+  syncQueueService,
+  syncStatusService,
+  SyncQueueItem,
+} from '../../services/sync';
+import { logger } from '../../services/logger';
+
+// One section per queue item type, in display order
+const QUEUE_SECTIONS: Array<{ type: SyncQueueItem['type']; title: string }> = [
+  { type: 'attendance', title: 'Attendance' },
+  { type: 'leave', title: 'Leave' },
+  { type: 'correction', title: 'Corrections' },
+  { type: 'approval', title: 'Approvals' },
+  { type: 'profile', title: 'Profile' },
+  { type: 'settings', title: 'Settings' },
+];
 
 interface UnsyncedItemsListProps {
   onClose?: () => void;
@@ -14,162 +31,201 @@ interface UnsyncedItemsListProps {
 export const UnsyncedItemsList: React.FC<UnsyncedItemsListProps> = ({ onClose }) => {
   const theme = useTheme();
   const colors = theme?.colors || {};
+  const dispatch = useAppDispatch();
   const syncState = useAppSelector((state) => state.syncState);
   const { unsyncedItems } = syncState;
+  const queueItems = syncState.queueItems || [];
   const userState = useAppSelector((state) => state.userState);
   const email = userState?.userData?.email || '';
   const userID = userState?.userData?.id?.toString() || email || '';
 
+  const refreshItems = async () => {
+    dispatch(setUnsyncedItems(await syncStatusService.getAllUnsyncedItems(email, userID)));
+    dispatch(setSyncQueueItems(await syncStatusService.getSyncQueueItems()));
+  };
+
   const handleSyncAll = async () => {
     if (email && userID) {
       await syncCoordinator.syncAll(email, userID);
+      await refreshItems();
       if (onClose) {
         onClose();
       }
     }
   };
 
-  const renderProfileItems = () => {
-    if (unsyncedItems.profile.length === 0) return null;
+  const handleRetryNow = async (queueItem: SyncQueueItem) => {
+    try {
+      await syncQueueService.retryNow(queueItem.id);
+      await syncCoordinator.syncPushOnly(email, userID);
+    } catch (error) {
+      logger.error('Error retrying sync queue item', error, undefined, { itemId: queueItem.id });
+    }
+    await refreshItems();
+  };
 
-    return (
-      <View style={styles.section}>
-        <AppText
-          size={16}
-          fontType={FontTypes.bold}
-          color={colors.text || DarkThemeColors.white_common}
-          style={styles.sectionTitle}
-        >
-          Profile ({unsyncedItems.profile.length})
-        </AppText>
-        {unsyncedItems.profile.map((item, index) => (
-          <View
-            key={`${item.property}-${index}`}
-            style={[
-              styles.item,
-              {
-                backgroundColor: colors.card || DarkThemeColors.cardBg,
-                borderColor: colors.border || DarkThemeColors.cardBorder,
-              },
-            ]}
-          >
-            <AppText
-              size={14}
-              fontType={FontTypes.medium}
-              color={colors.text || DarkThemeColors.white_common}
-            >
-              {item.property}
-            </AppText>
-            <AppText
-              size={12}
-              fontType={FontTypes.regular}
-              color={colors.text || DarkThemeColors.white_common}
-              style={styles.itemValue}
-            >
-              {typeof item.value === 'string' ? item.value : JSON.stringify(item.value)}
-            </AppText>
-          </View>
-        ))}
-      </View>
+  const handleDiscard = (queueItem: SyncQueueItem) => {
+    Alert.alert(
+      'Discard change?',
+      'This change will stay on this device but will no longer be sent to the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncQueueService.discard(queueItem.id);
+            } catch (error) {
+              logger.error('Error discarding sync queue item', error, undefined, { itemId: queueItem.id });
+            }
+            await refreshItems();
+          },
+        },
+      ],
     );
   };
 
-  const renderAttendanceItems = () => {
-    if (unsyncedItems.attendance.length === 0) return null;
+  const handleExport = async (queueItem?: SyncQueueItem) => {
+    try {
+      const report = await syncQueueService.exportForSupport(queueItem ? [queueItem.id] : undefined);
+      await Share.share({ title: 'Sync report', message: report });
+    } catch (error) {
+      logger.error('Error exporting sync queue items', error);
+    }
+  };
 
+  const renderActionButton = (label: string, onPress: () => void) => (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[
+        styles.actionButton,
+        {
+          borderColor: colors.primary || DarkThemeColors.primary,
+        },
+      ]}
+    >
+      <AppText
+        size={12}
+        fontType={FontTypes.medium}
+        color={colors.primary || DarkThemeColors.primary}
+      >
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+
+  const renderQueueDetails = (queueItem: SyncQueueItem) => {
+    const isDeadLetter = queueItem.status === 'dead_letter';
     return (
-      <View style={styles.section}>
+      <View style={styles.queueDetails}>
         <AppText
-          size={16}
-          fontType={FontTypes.bold}
-          color={colors.text || DarkThemeColors.white_common}
-          style={styles.sectionTitle}
+          size={12}
+          fontType={isDeadLetter ? FontTypes.medium : FontTypes.regular}
+          color={isDeadLetter ? colors.notification || '#FF6B6B' : colors.text || DarkThemeColors.white_common}
+          style={isDeadLetter ? undefined : styles.itemValue}
         >
-          Attendance ({unsyncedItems.attendance.length})
+          {isDeadLetter
+            ? `Failed after ${queueItem.attempts} attempts - will not retry automatically`
+            : `Attempts: ${queueItem.attempts} · Next retry: ${new Date(queueItem.nextRetryAt).toLocaleTimeString()}`}
         </AppText>
-        {unsyncedItems.attendance.map((item, index) => (
-          <View
-            key={`${item.Timestamp}-${index}`}
-            style={[
-              styles.item,
-              {
-                backgroundColor: colors.card || DarkThemeColors.cardBg,
-                borderColor: colors.border || DarkThemeColors.cardBorder,
-              },
-            ]}
+        {queueItem.lastError && (
+          <AppText
+            size={12}
+            fontType={FontTypes.regular}
+            color={colors.text || DarkThemeColors.white_common}
+            style={styles.itemValue}
           >
-            <AppText
-              size={14}
-              fontType={FontTypes.medium}
-              color={colors.text || DarkThemeColors.white_common}
-            >
-              {item.PunchDirection} - {new Date(item.Timestamp).toLocaleString()}
-            </AppText>
-            {item.Address && (
-              <AppText
-                size={12}
-                fontType={FontTypes.regular}
-                color={colors.text || DarkThemeColors.white_common}
-                style={styles.itemValue}
-              >
-                {item.Address}
-              </AppText>
-            )}
-          </View>
-        ))}
+            Error: {queueItem.lastError}
+          </AppText>
+        )}
+        <View style={styles.actions}>
+          {renderActionButton('Retry now', () => handleRetryNow(queueItem))}
+          {renderActionButton('Discard', () => handleDiscard(queueItem))}
+          {renderActionButton('Export for support', () => handleExport(queueItem))}
+        </View>
       </View>
     );
   };
 
-  const renderSettingsItems = () => {
-    if (unsyncedItems.settings.length === 0) return null;
+  const formatValue = (value: unknown): string =>
+    typeof value === 'string' ? value : JSON.stringify(value);
+
+  // Title and detail line of a queue item; punches still on the device show their own details
+  const describeQueueItem = (queueItem: SyncQueueItem): { title: string; detail?: string } => {
+    switch (queueItem.type) {
+      case 'attendance': {
+        const punch = unsyncedItems.attendance.find((item) => item.PunchID === queueItem.entityId);
+        return punch
+          ? { title: `${punch.PunchDirection} - ${new Date(punch.Timestamp).toLocaleString()}`, detail: punch.Address }
+          : { title: `Punch - ${new Date(queueItem.timestamp).toLocaleString()}`, detail: queueItem.entityId };
+      }
+      case 'profile':
+        return { title: queueItem.property || queueItem.entityId, detail: formatValue(queueItem.data) };
+      case 'settings':
+        return { title: queueItem.entityId, detail: formatValue(queueItem.data) };
+      default:
+        return {
+          title: queueItem.property ? `${queueItem.entityId} (${queueItem.property})` : queueItem.entityId,
+          detail: `${queueItem.operation} - ${new Date(queueItem.timestamp).toLocaleString()}`,
+        };
+    }
+  };
+
+  const renderQueueSection = (type: SyncQueueItem['type'], title: string) => {
+    const sectionItems = queueItems.filter((queueItem) => queueItem.type === type);
+    if (sectionItems.length === 0) return null;
 
     return (
-      <View style={styles.section}>
+      <View key={type} style={styles.section}>
         <AppText
           size={16}
           fontType={FontTypes.bold}
           color={colors.text || DarkThemeColors.white_common}
           style={styles.sectionTitle}
         >
-          Settings ({unsyncedItems.settings.length})
+          {title} ({sectionItems.length})
         </AppText>
-        {unsyncedItems.settings.map((item, index) => (
-          <View
-            key={`${item.key}-${index}`}
-            style={[
-              styles.item,
-              {
-                backgroundColor: colors.card || DarkThemeColors.cardBg,
-                borderColor: colors.border || DarkThemeColors.cardBorder,
-              },
-            ]}
-          >
-            <AppText
-              size={14}
-              fontType={FontTypes.medium}
-              color={colors.text || DarkThemeColors.white_common}
-            >
-              {item.key}
-            </AppText>
-            <AppText
-              size={12}
-              fontType={FontTypes.regular}
-              color={colors.text || DarkThemeColors.white_common}
-              style={styles.itemValue}
+        {sectionItems.map((queueItem) => {
+          const { title: itemTitle, detail } = describeQueueItem(queueItem);
+          return (
+            <View
+              key={queueItem.id}
+              style={[
+                styles.item,
+                {
+                  backgroundColor: colors.card || DarkThemeColors.cardBg,
+                  borderColor: colors.border || DarkThemeColors.cardBorder,
+                },
+              ]}
             >
-              {typeof item.value === 'string' ? item.value : JSON.stringify(item.value)}
-            </AppText>
-          </View>
-        ))}
+              <AppText
+                size={14}
+                fontType={FontTypes.medium}
+                color={colors.text || DarkThemeColors.white_common}
+              >
+                {itemTitle}
+              </AppText>
+              {!!detail && (
+                <AppText
+                  size={12}
+                  fontType={FontTypes.regular}
+                  color={colors.text || DarkThemeColors.white_common}
+                  style={styles.itemValue}
+                >
+                  {detail}
+                </AppText>
+              )}
+              {renderQueueDetails(queueItem)}
+            </View>
+          );
+        })}
       </View>
     );
   };
 
-  const totalUnsynced =
-    unsyncedItems.profile.length +
-    unsyncedItems.attendance.length +
-    unsyncedItems.settings.length;
+  // Everything still to be pushed, straight from sync_queue (failed items included)
+  const totalUnsynced = queueItems.length;
 
   if (totalUnsynced === 0) {
     return (
@@ -181,6 +237,7 @@ export const UnsyncedItemsList: React.FC<UnsyncedItemsListProps> = ({ onClose })
         >
           All items are synced
         </AppText>
+        {onClose && <View style={styles.emptyActions}>{renderActionButton('Close', onClose)}</View>}
       </View>
     );
   }
@@ -210,28 +267,30 @@ export const UnsyncedItemsList: React.FC<UnsyncedItemsListProps> = ({ onClose })
         >
           Unsynced Items ({totalUnsynced})
         </AppText>
-        <TouchableOpacity
-          onPress={handleSyncAll}
-          style={[
-            styles.syncButton,
-            {
-              backgroundColor: colors.primary || DarkThemeColors.primary,
-            },
-          ]}
-        >
-          <AppText
-            size={14}
-            fontType={FontTypes.medium}
-            color="#FFFFFF"
+        <View style={styles.headerActions}>
+          {renderActionButton('Export', () => handleExport())}
+          {onClose && renderActionButton('Close', onClose)}
+          <TouchableOpacity
+            onPress={handleSyncAll}
+            style={[
+              styles.syncButton,
+              {
+                backgroundColor: colors.primary || DarkThemeColors.primary,
+              },
+            ]}
           >
-            Sync All
-          </AppText>
-        </TouchableOpacity>
+            <AppText
+              size={14}
+              fontType={FontTypes.medium}
+              color="#FFFFFF"
+            >
+              Sync All
+            </AppText>
+          </TouchableOpacity>
+        </View>
       </View>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
-        {renderProfileItems()}
-        {renderAttendanceItems()}
-        {renderSettingsItems()}
+        {QUEUE_SECTIONS.map(({ type, title }) => renderQueueSection(type, title))}
       </ScrollView>
     </View>
   );
@@ -275,11 +334,34 @@ const styles = StyleSheet.create({
     marginTop: 4,
     opacity: 0.7,
   },
+  queueDetails: {
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 32,
   },
+  emptyActions: {
+    marginTop: 16,
+  },
 });
 
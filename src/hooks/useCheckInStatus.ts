@@ -5,6 +5,7 @@ import {
   isStaleCheckIn, 
   isMissedCheckout 
 } from '../services/attendance/attendance-status-service';
+import { getShiftRoster } from '../utils/shift-roster-utils';
 
 export interface CheckInStatusResult {
   buttonType: 'CHECK_IN' | 'CHECK_OUT';
@@ -82,13 +83,12 @@ export function useCheckInStatus(): CheckInStatusResult {
     // Check missed checkout (not stale, but past shift end + buffer)
     const checkInDate = userLastAttendance.DateOfPunch || 
     new Date(lastTimestamp).toISOString().split('T')[0];
-    const shiftEndTime = userData?.shiftEndTime || '17:00';
     const bufferHours = 2; // 2 hours after shift end
 
     const missedCheckout = isMissedCheckout(
       lastTimestamp,
       checkInDate,
-      shiftEndTime,
+      getShiftRoster(userData),
       bufferHours
     );
 
@@ -113,7 +113,7 @@ export function useCheckInStatus(): CheckInStatusResult {
       showMissedCheckoutModal: false,
       isUserCheckedIn: true,
     };
-  }, [userLastAttendance, userData?.shiftEndTime]);
+  }, [userLastAttendance, userData]);
 
   return result;
 }
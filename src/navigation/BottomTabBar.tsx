@@ -7,7 +7,7 @@ import { CurvedBottomBar } from 'react-native-curved-bottom-bar';
 import { hp, Icons, Images } from '../constants';
 import { DarkThemeColors } from '../themes';
 import { AppImage, AppText, RippleButton, FaceRDVerificationModal } from '../components';
-import { DaysBottomTabScreen, HomeScreen } from '../screens';
+import { ApprovalsBottomTabScreen, DaysBottomTabScreen, HomeScreen } from '../screens';
 import { useAppSelector, store } from '../redux';
 import { createTableForAttendance } from '../services';
 import { APP_THEMES } from '../themes';
@@ -21,6 +21,7 @@ import { NavigationProp } from '../types/navigation';
 import { ImageSourcePropType } from 'react-native';
 import moment from 'moment';
 import { logger } from '../services/logger';
+import { hasManagerRole } from '../utils/role-utils';
 
 const ATTENDANCE_ICON_SIZE = hp('9%');
 const CIRCLE_WIDTH = 60;
@@ -33,6 +34,7 @@ interface RouteConfig {
 const ROUTE_CONFIG: Record<string, RouteConfig> = {
   HomeTab: { icon: Icons.home, label: 'Home' },
   DaysTab: { icon: Icons.calendar, label: 'Days' },
+  ApprovalsTab: { icon: Icons.tick, label: 'Approvals' },
 };
 
 interface TabBarProps {
@@ -60,6 +62,9 @@ export default function BottomTabBar(): React.JSX.Element {
   // Check if data is initialized (userData must exist for button to work)
   const isDataInitialized = !!userData?.email;
 
+  // Approval inbox tab is only shown to managers
+  const isManager = hasManagerRole(userData?.roles);
+
   const [showFaceRDModal, setShowFaceRDModal] = useState<boolean>(false);
   const [isFaceRDVerifying, setIsFaceRDVerifying] = useState<boolean>(false);
   const [faceRDError, setFaceRDError] = useState<string | null>(null);
@@ -270,18 +275,34 @@ export default function BottomTabBar(): React.JSX.Element {
         )}
         tabBar={renderTabBar}
       >
-        <CurvedBottomBar.Screen
-          name="HomeTab"
-          position="LEFT"
-          component={HomeScreen}
-          options={{ lazy: true }}
-        />
-        <CurvedBottomBar.Screen
-          name="DaysTab"
-          component={DaysBottomTabScreen}
-          position="RIGHT"
-          options={{ lazy: true }}
-        />
+        {/* Built as a list - the bar maps over its children, so it cannot skip a `false` child */}
+        {[
+          <CurvedBottomBar.Screen
+            key="HomeTab"
+            name="HomeTab"
+            position="LEFT"
+            component={HomeScreen}
+            options={{ lazy: true }}
+          />,
+          <CurvedBottomBar.Screen
+            key="DaysTab"
+            name="DaysTab"
+            component={DaysBottomTabScreen}
+            position="RIGHT"
+            options={{ lazy: true }}
+          />,
+          ...(isManager
+            ? [
+                <CurvedBottomBar.Screen
+                  key="ApprovalsTab"
+                  name="ApprovalsTab"
+                  component={ApprovalsBottomTabScreen}
+                  position="RIGHT"
+                  options={{ lazy: true }}
+                />,
+              ]
+            : []),
+        ]}
       </CurvedBottomBar.Navigator>
 
       <FaceRDVerificationModal
@@ -1,6 +1,11 @@
 import * as React from 'react';
-import { View, StatusBar, StyleSheet, Platform, AppState, AppStateStatus } from 'react-native';
-import { NavigationContainer, NavigationContainerRef, CommonActions } from '@react-navigation/native';
+import { View, StatusBar, StyleSheet, Platform, AppState, AppStateStatus, Linking } from 'react-native';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  CommonActions,
+  LinkingOptions,
+} from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import Config from 'react-native-config';
 import BootSplash from 'react-native-bootsplash';
@@ -10,6 +15,11 @@ import {
   AadhaarOtpScreen,
   AttendanceLogsScreen,
   GeoLocationsScreen,
+  MyRequestsScreen,
+  LeavesScreen,
+  ApplyLeaveScreen,
+  TeamDetailScreen,
+  ColleagueDetailScreen,
   ChangePasswordScreen,
   CheckInScreen,
   FirstTimeLoginScreen,
@@ -39,7 +49,15 @@ import DashboardScreen from './BottomTabBar';
 import { useAppSelector } from '../redux';
 import {
   checkUsbDebuggingStatus,
+  checkDeviceIntegrity,
+  getDeviceIntegrityPolicy,
+  isDeviceBlockedByIntegrity,
+  isDeviceWarnedByIntegrity,
+  DeviceIntegrityResult,
   checkAndRefreshSession,
+  DEEP_LINK_PREFIX,
+  getInitialNotificationLink,
+  onNotificationLinkPress,
 } from '../services';
 import { RootStackParamList } from '../types/navigation';
 import { logger } from '../services/logger';
@@ -57,6 +75,11 @@ export default function AppNavigation(): React.JSX.Element {
   const [isChecking, setIsChecking] = React.useState<boolean>(true);
   const [isRehydrated, setIsRehydrated] = React.useState<boolean>(false);
   const [initialRoute, setInitialRoute] = React.useState<string>('LoginScreen');
+  // Device integrity (root / jailbreak, emulator, hooking, signature) - policy set per organization
+  const integrityPolicySetting = useAppSelector(state => state.userState.userData?.deviceIntegrityPolicy);
+  const deviceIntegrityPolicy = getDeviceIntegrityPolicy(integrityPolicySetting);
+  const [integrityResult, setIntegrityResult] = React.useState<DeviceIntegrityResult | null>(null);
+  const [isIntegrityWarningAccepted, setIsIntegrityWarningAccepted] = React.useState<boolean>(false);
 
   // Listen for logout navigation events from interceptors
   React.useEffect(() => {
@@ -190,6 +213,38 @@ export default function AppNavigation(): React.JSX.Element {
     };
   }, [bypassUsbCheck]);
 
+  const checkIntegrity = React.useCallback(async (): Promise<void> => {
+    setIntegrityResult(await checkDeviceIntegrity(deviceIntegrityPolicy));
+  }, [deviceIntegrityPolicy]);
+
+  // Check device integrity on mount and when app comes to foreground (all platforms)
+  React.useEffect(() => {
+    checkIntegrity();
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        checkIntegrity();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [checkIntegrity]);
+
+  const isIntegrityBlocked = !!integrityResult && isDeviceBlockedByIntegrity(integrityResult, deviceIntegrityPolicy);
+  const isIntegrityWarned =
+    !!integrityResult && isDeviceWarnedByIntegrity(integrityResult, deviceIntegrityPolicy) && !isIntegrityWarningAccepted;
+  // With a blocking policy nothing is shown until the first check is done
+  const isIntegrityChecking = deviceIntegrityPolicy === 'BLOCK' && !integrityResult;
+
+  // Hide splash when the integrity block / warning screen is shown
+  React.useEffect(() => {
+    if (isIntegrityBlocked || isIntegrityWarned) {
+      BootSplash.hide({ fade: true });
+    }
+  }, [isIntegrityBlocked, isIntegrityWarned]);
+
   // Hide splash when USB debugging screen is shown (moved to top level to follow Rules of Hooks)
   React.useEffect(() => {
     // Only hide splash if we're showing USB debugging screen and checking is complete
@@ -203,6 +258,41 @@ export default function AppNavigation(): React.JSX.Element {
     }
   }, [isChecking, isUsbDebuggingEnabled, bypassUsbCheck]);
 
+  // Deep links (e.g. "Resume work" on a break reminder, shift reminders open CheckInScreen) - only for a signed-in
+  // user, on top of the dashboard
+  const linking = React.useMemo<LinkingOptions<RootStackParamList> | undefined>(() => {
+    if (initialRoute !== 'DashboardScreen') {
+      return undefined;
+    }
+    const isSignedIn = (): boolean => !!store.getState()?.userState?.userData?.email;
+    return {
+      prefixes: [DEEP_LINK_PREFIX],
+      config: {
+        initialRouteName: 'DashboardScreen',
+        screens: {
+          CheckInScreen: 'check-in',
+        },
+      },
+      async getInitialURL() {
+        const url = await Linking.getInitialURL();
+        return url || getInitialNotificationLink();
+      },
+      subscribe(listener) {
+        const onLink = (url: string): void => {
+          if (isSignedIn()) {
+            listener(url);
+          }
+        };
+        const linkSubscription = Linking.addEventListener('url', ({ url }) => onLink(url));
+        const unsubscribeNotificationLinks = onNotificationLinkPress(onLink);
+        return () => {
+          linkSubscription.remove();
+          unsubscribeNotificationLinks();
+        };
+      },
+    };
+  }, [initialRoute]);
+
   // Show blocking screen if USB debugging is enabled (unless bypassed)
   if (
     Platform.OS === 'android' &&
@@ -229,8 +319,19 @@ export default function AppNavigation(): React.JSX.Element {
     return <UsbDebuggingBlockScreen />;
   }
 
+  // Show blocking (or warning) screen if the device failed the integrity check
+  if (integrityResult && (isIntegrityBlocked || isIntegrityWarned)) {
+    return (
+      <UsbDebuggingBlockScreen
+        reason={integrityResult.reasons[0]}
+        onCheckAgain={checkIntegrity}
+        onContinue={isIntegrityWarned ? () => setIsIntegrityWarningAccepted(true) : undefined}
+      />
+    );
+  }
+
   // Wait for rehydration and initial route determination before rendering navigator
-  if (!isRehydrated) {
+  if (!isRehydrated || isIntegrityChecking) {
     return (
       <View style={styles.container}>
         <StatusBar
@@ -263,6 +364,7 @@ export default function AppNavigation(): React.JSX.Element {
       />
       <NavigationContainer
         ref={navigationRef}
+        linking={linking}
         theme={appTheme === APP_THEMES.dark ? DarkTheme : LightTheme}
         onReady={() => {
           // Hide splash screen only when navigation is ready to prevent black screen
@@ -279,6 +381,11 @@ export default function AppNavigation(): React.JSX.Element {
           <Stack.Screen name="ProfileDrawerScreen" component={ProfileDrawerScreen} />
           <Stack.Screen name="AttendanceLogsScreen" component={AttendanceLogsScreen} />
           <Stack.Screen name="GeoLocationsScreen" component={GeoLocationsScreen} />
+          <Stack.Screen name="MyRequestsScreen" component={MyRequestsScreen} />
+          <Stack.Screen name="LeavesScreen" component={LeavesScreen} />
+          <Stack.Screen name="ApplyLeaveScreen" component={ApplyLeaveScreen} />
+          <Stack.Screen name="TeamDetailScreen" component={TeamDetailScreen} />
+          <Stack.Screen name="ColleagueDetailScreen" component={ColleagueDetailScreen} />
           <Stack.Screen name="ViewProfileScreen" component={ViewProfileScreen} />
           <Stack.Screen name="DatabaseViewerScreen" component={DatabaseViewerScreen} />
           <Stack.Screen name="OtpScreen" component={OtpScreen} />
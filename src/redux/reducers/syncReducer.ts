@@ -1,6 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { UnsyncedProfileProperty } from '../../services/sync/profile-sync-service';
 import { UnsyncedSetting } from '../../services/sync/settings-sync-service';
+import { SyncQueueItem } from '../../services/sync/sync-queue-service';
 import { AttendanceRecord } from '../types/userTypes';
 
 export interface SyncError {
@@ -19,6 +20,7 @@ export interface SyncState {
     attendance: AttendanceRecord[];
     settings: UnsyncedSetting[];
   };
+  queueItems: SyncQueueItem[]; // sync_queue rows (pending and dead letter) for the unsynced items list
 }
 
 const initialState: SyncState = {
@@ -30,6 +32,7 @@ const initialState: SyncState = {
     attendance: [],
     settings: [],
   },
+  queueItems: [],
 };
 
 const syncSlice = createSlice({
@@ -81,6 +84,10 @@ const syncSlice = createSlice({
         attendance: [],
         settings: [],
       };
+      state.queueItems = [];
+    },
+    setSyncQueueItems: (state, action: PayloadAction<SyncQueueItem[]>) => {
+      state.queueItems = action.payload;
     },
   },
 });
@@ -92,6 +99,7 @@ export const {
   clearSyncErrors,
   setUnsyncedItems,
   clearUnsyncedItems,
+  setSyncQueueItems,
 } = syncSlice.actions;
 
 export default syncSlice.reducer;
@@ -26,6 +26,7 @@ export interface LocationRegion {
 
 // Attendance Record Type
 export interface AttendanceRecord {
+  PunchID?: string;          // Client-generated UUID - record key and idempotency key for sync
   Timestamp: number;
   OrgID?: string;
   UserID?: string;
@@ -46,7 +47,7 @@ export interface AttendanceRecord {
   PhoneNumber?: string;
   // New fields for approval workflow and status tracking
   ApprovalRequired?: 'Y' | 'N';
-  Reason?: 'FORGOT_TO_CHECKOUT' | 'MANUAL_CORRECTION' | null;
+  Reason?: 'FORGOT_TO_CHECKOUT' | 'MANUAL_CORRECTION' | 'AUTO_CHECKOUT' | null;
   OriginalCheckoutTime?: number;
   CorrectedCheckoutTime?: number;
   WorkedHours?: number;
@@ -56,12 +57,34 @@ export interface AttendanceRecord {
   LinkedEntryDate?: string;
   
   // For correction tracking
-  CorrectionType?: 'FORGOT_CHECKOUT' | 'MANUAL_TIME' | null;
+  CorrectionType?: 'FORGOT_CHECKOUT' | 'MANUAL_TIME' | 'AUTO_CHECKOUT' | null;
   ManualCheckoutTime?: number;
   
   // Store shift times with each record (captured at check-in time)
   ShiftStartTime?: string;   // "HH:mm" - from profile at check-in
   ShiftEndTime?: string;     // "HH:mm" - from profile at check-in
+
+  // Geofence enforcement result at punch time (INSIDE, UNCERTAIN, LOW_ACCURACY, NO_FIX, NOT_CONFIGURED)
+  GeofenceStatus?: string;
+  GeofenceID?: string;       // Matched geofence area id (only when inside)
+  GeofenceDistance?: number; // Meters to the edge of the nearest area
+  GpsAccuracy?: number;      // GPS accuracy of the punch fix in meters
+  LocationRiskFlags?: string; // Spoofed location signals, comma-separated (MOCK_PROVIDER, IMPOSSIBLE_SPEED, ...)
+
+  // Break start (OUT) / end (IN) punches have PunchType BREAK and the break type
+  BreakType?: string;
+
+  // Clocks when the punch was written on the device
+  DeviceTimestamp?: number;  // Device clock
+  TrustedTimestamp?: number; // Trusted (server anchored) clock
+  TimeConfidence?: string;   // SERVER_ANCHORED, SERVER_OFFSET, DEVICE_CLOCK, CLOCK_ROLLBACK
+
+  // Hash chain of the punches written on the device (tamper evidence)
+  DeviceID?: string;
+  ChainSeq?: number;
+  PrevHash?: string;
+  RecordHash?: string;
+  Signature?: string;
 }
 
 // First Time Login Data (temporary storage before API submission)
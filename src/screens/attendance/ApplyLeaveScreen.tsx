@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, Alert, Platform } from 'react-native';
+import { useNavigation, useTheme } from '@react-navigation/native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import moment from 'moment';
+import { AnimatedSwitch, AppButton, AppContainer, AppInput, AppText, BackHeader } from '../../components';
+import { useAppSelector } from '../../redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import { wp, hp, FontTypes } from '../../constants';
+import {
+  countLeaveDays,
+  DEFAULT_LEAVE_TYPES,
+  leaveService,
+  type HalfDaySession,
+  type LeaveBalance,
+} from '../../services/attendance/leave-service';
+import { syncCoordinator } from '../../services/sync/sync-coordinator';
+import { DarkThemeColors } from '../../themes';
+import { logger } from '../../services/logger';
+import { NavigationProp } from '../../types/navigation';
+
+const HALF_DAY_SESSIONS: HalfDaySession[] = ['FIRST_HALF', 'SECOND_HALF'];
+
+type DateField = 'startDate' | 'endDate';
+
+const today = (): string => moment().format('YYYY-MM-DD');
+
+export default function ApplyLeaveScreen(): React.JSX.Element {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const navigation = useNavigation<NavigationProp>();
+  const { userData } = useAppSelector(state => state.userState);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [leaveType, setLeaveType] = useState<string>(DEFAULT_LEAVE_TYPES[0]);
+  const [startDate, setStartDate] = useState<string>(today());
+  const [endDate, setEndDate] = useState<string>(today());
+  const [isHalfDay, setIsHalfDay] = useState(false);
+  const [halfDaySession, setHalfDaySession] = useState<HalfDaySession>('FIRST_HALF');
+  const [reason, setReason] = useState('');
+  const [pickerField, setPickerField] = useState<DateField | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!userData?.email) return;
+    leaveService.getBalances(userData.email)
+      .then((cached) => {
+        setBalances(cached);
+        if (cached.length > 0) {
+          setLeaveType(cached[0].leaveType);
+        }
+      })
+      .catch((error) => logger.error('[ApplyLeave] Error loading balances', error));
+  }, [userData?.email]);
+
+  const leaveTypes = useMemo(
+    () => (balances.length > 0 ? balances.map((balance) => balance.leaveType) : DEFAULT_LEAVE_TYPES),
+    [balances],
+  );
+  const isSingleDay = startDate === endDate;
+  const days = countLeaveDays(startDate, endDate, isSingleDay && isHalfDay ? halfDaySession : null);
+  const available = balances.find((balance) => balance.leaveType === leaveType)?.available ?? null;
+
+  const onDateChange = useCallback((event: DateTimePickerEvent, date?: Date) => {
+    const field = pickerField;
+    if (Platform.OS === 'android') {
+      setPickerField(null);
+    }
+    if (event.type !== 'set' || !date || !field) {
+      return;
+    }
+    const value = moment(date).format('YYYY-MM-DD');
+    if (field === 'startDate') {
+      setStartDate(value);
+      // Keep the range valid - the end moves along with a later start
+      if (value > endDate) {
+        setEndDate(value);
+      }
+    } else {
+      setEndDate(value < startDate ? startDate : value);
+    }
+  }, [pickerField, startDate, endDate]);
+
+  const onSubmit = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    if (!reason.trim()) {
+      Alert.alert(t('leaves.reasonRequired', 'Please enter a reason'));
+      return;
+    }
+    if (available != null && days > available) {
+      Alert.alert(
+        t('leaves.insufficientBalance', 'Not enough balance'),
+        t('leaves.insufficientBalanceMessage', {
+          available,
+          defaultValue: `Only ${available} day(s) of this leave are available.`,
+        }),
+      );
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const overlapping = await leaveService.findOverlappingLeave(userData.email, startDate, endDate);
+      if (overlapping) {
+        Alert.alert(
+          t('leaves.overlapTitle', 'Leave already applied'),
+          t('leaves.overlapMessage', 'You already have a leave on some of these dates.'),
+        );
+        return;
+      }
+
+      await leaveService.applyLeave({
+        userId: userData.email,
+        leaveType,
+        startDate,
+        endDate,
+        halfDaySession: isSingleDay && isHalfDay ? halfDaySession : null,
+        reason,
+      });
+      // Applications are queued; push now when online (the next sync picks them up otherwise)
+      syncCoordinator.processSyncQueue(userData.email);
+      navigation.goBack();
+    } catch (error) {
+      logger.error('[ApplyLeave] Error applying for leave', error);
+      Alert.alert(t('leaves.applyFailed', 'Could not save the application, please try again'));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [
+    userData?.email,
+    reason,
+    available,
+    days,
+    startDate,
+    endDate,
+    leaveType,
+    isSingleDay,
+    isHalfDay,
+    halfDaySession,
+    navigation,
+    t,
+  ]);
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void): React.JSX.Element => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        selected && { backgroundColor: DarkThemeColors.primary + '30', borderColor: DarkThemeColors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <AppText size={hp(1.7)} color={selected ? DarkThemeColors.primary : colors.text}>
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+
+  const renderDateField = (field: DateField, label: string, value: string): React.JSX.Element => (
+    <TouchableOpacity
+      style={[styles.dateField, { backgroundColor: DarkThemeColors.black + '40' }]}
+      onPress={() => setPickerField(field)}
+    >
+      <AppText size={hp(1.5)} color={colors.text} style={styles.secondaryText}>
+        {label}
+      </AppText>
+      <AppText size={hp(1.9)} fontType={FontTypes.medium} color={colors.text}>
+        {moment(value, 'YYYY-MM-DD').format('ddd, DD MMM YY')}
+      </AppText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <AppContainer>
+      <BackHeader title={t('leaves.apply', 'Apply for leave')} isTitleVisible={true} />
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <AppText size={hp(1.8)} fontType={FontTypes.medium} color={colors.text} style={styles.sectionTitle}>
+          {t('leaves.leaveType', 'Leave type')}
+        </AppText>
+        <View style={styles.chipRow}>
+          {leaveTypes.map((type) =>
+            renderChip(t(`leaves.type.${type}`, type), type === leaveType, () => setLeaveType(type)),
+          )}
+        </View>
+
+        <View style={styles.dateRow}>
+          {renderDateField('startDate', t('leaves.from', 'From'), startDate)}
+          {renderDateField('endDate', t('leaves.to', 'To'), endDate)}
+        </View>
+        {pickerField && (
+          <DateTimePicker
+            value={moment(pickerField === 'startDate' ? startDate : endDate, 'YYYY-MM-DD').toDate()}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={onDateChange}
+            minimumDate={pickerField === 'endDate' ? moment(startDate, 'YYYY-MM-DD').toDate() : undefined}
+          />
+        )}
+
+        {isSingleDay && (
+          <>
+            <View style={styles.switchRow}>
+              <AppText size={hp(1.8)} color={colors.text}>
+                {t('leaves.halfDay', 'Half day')}
+              </AppText>
+              <AnimatedSwitch value={isHalfDay} onValueChange={setIsHalfDay} />
+            </View>
+            {isHalfDay && (
+              <View style={styles.chipRow}>
+                {HALF_DAY_SESSIONS.map((session) =>
+                  renderChip(
+                    t(`leaves.session.${session}`, session),
+                    session === halfDaySession,
+                    () => setHalfDaySession(session),
+                  ),
+                )}
+              </View>
+            )}
+          </>
+        )}
+
+        <AppInput
+          label={t('leaves.reason', 'Reason')}
+          value={reason}
+          onChangeText={setReason}
+          multiline
+        />
+
+        <View style={[styles.summary, { backgroundColor: DarkThemeColors.black + '40' }]}>
+          <AppText size={hp(1.8)} color={colors.text}>
+            {t('leaves.days', { count: days, defaultValue: `${days} day(s)` })}
+          </AppText>
+          {available != null && (
+            <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+              {t('leaves.available', { count: available, defaultValue: `${available} available` })}
+            </AppText>
+          )}
+        </View>
+
+        <AppButton
+          title={t('leaves.submit', 'Submit')}
+          onPress={onSubmit}
+          loading={submitting}
+          disabled={submitting}
+        />
+      </ScrollView>
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(2),
+  },
+  sectionTitle: {
+    marginBottom: hp(1),
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: wp(2),
+    marginBottom: hp(2),
+  },
+  chip: {
+    paddingVertical: hp(0.8),
+    paddingHorizontal: wp(3.5),
+    borderRadius: wp(5),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '30',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: wp(3),
+    marginBottom: hp(2),
+  },
+  dateField: {
+    flex: 1,
+    padding: hp(1.5),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: hp(1.5),
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: hp(1.5),
+    marginBottom: hp(2),
+    borderRadius: hp(1.74),
+  },
+  secondaryText: {
+    opacity: 0.7,
+  },
+});
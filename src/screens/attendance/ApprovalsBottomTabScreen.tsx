@@ -0,0 +1,382 @@
+import React, { useMemo, useCallback, useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, Image, RefreshControl, Modal } from 'react-native';
+import { useTheme, useFocusEffect } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { AppButton, AppContainer, AppInput, AppText } from '../../components';
+import DayAttendanceItem from '../../components/app-list-items/DayAttendanceItem';
+import AttendanceDetailModal from '../../components/app-modals/AttendanceDetailModal';
+import { useAppSelector } from '../../redux';
+import { hp, wp, FontTypes, Icons } from '../../constants';
+import { useTranslation } from '../../hooks/useTranslation';
+import { DarkThemeColors } from '../../themes';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import { teamApprovalService, type TeamCorrection } from '../../services/attendance/team-approval-service';
+import { syncCoordinator } from '../../services/sync/sync-coordinator';
+import { logger } from '../../services/logger';
+
+const TIME_FORMAT = 'DD MMM YY hh:mm A';
+
+export default function ApprovalsBottomTabScreen(): React.JSX.Element {
+  const theme = useTheme();
+  const colors = useMemo(() => theme?.colors || {}, [theme?.colors]);
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const userData = useAppSelector(state => state.userState.userData);
+
+  const [inbox, setInbox] = useState<TeamCorrection[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [detailRequest, setDetailRequest] = useState<TeamCorrection | null>(null);
+  const [rejectRequest, setRejectRequest] = useState<TeamCorrection | null>(null);
+  const [rejectComment, setRejectComment] = useState('');
+
+  const loadInbox = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    try {
+      const requests = await teamApprovalService.getInbox(userData.email);
+      setInbox(requests);
+      setSelectedIds(prev => prev.filter(id => requests.some(request => request.requestId === id)));
+    } catch (error) {
+      logger.error('[ApprovalsTab] Error loading inbox', error);
+    }
+  }, [userData?.email]);
+
+  const refreshInbox = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    await teamApprovalService.refreshInbox(userData.email);
+    await loadInbox();
+  }, [userData?.email, loadInbox]);
+
+  // Show the cached inbox right away, then pick up new requests from the server
+  useFocusEffect(
+    useCallback(() => {
+      loadInbox().then(refreshInbox);
+    }, [loadInbox, refreshInbox])
+  );
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    setRefreshing(true);
+    await refreshInbox();
+    setRefreshing(false);
+  }, [refreshInbox]);
+
+  // Decisions are queued; push them now when online (the next sync picks them up otherwise)
+  const afterDecision = useCallback(async (): Promise<void> => {
+    await loadInbox();
+    if (userData?.email) {
+      syncCoordinator.processSyncQueue(userData.email);
+    }
+  }, [loadInbox, userData?.email]);
+
+  const onApprovePress = useCallback(async (request: TeamCorrection): Promise<void> => {
+    try {
+      await teamApprovalService.decide(request.requestId, 'approved');
+    } catch (error) {
+      logger.error('[ApprovalsTab] Error approving request', error);
+    }
+    await afterDecision();
+  }, [afterDecision]);
+
+  const onApproveSelectedPress = useCallback(async (): Promise<void> => {
+    try {
+      await teamApprovalService.approveMany(selectedIds);
+    } catch (error) {
+      logger.error('[ApprovalsTab] Error approving selected requests', error);
+    }
+    setSelectedIds([]);
+    await afterDecision();
+  }, [selectedIds, afterDecision]);
+
+  const closeRejectModal = useCallback(() => {
+    setRejectRequest(null);
+    setRejectComment('');
+  }, []);
+
+  const onConfirmReject = useCallback(async (): Promise<void> => {
+    if (!rejectRequest) return;
+    try {
+      await teamApprovalService.decide(rejectRequest.requestId, 'rejected', rejectComment);
+    } catch (error) {
+      logger.error('[ApprovalsTab] Error rejecting request', error);
+    }
+    closeRejectModal();
+    await afterDecision();
+  }, [rejectRequest, rejectComment, closeRejectModal, afterDecision]);
+
+  const toggleSelected = useCallback((requestId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(requestId) ? prev.filter(id => id !== requestId) : [...prev, requestId]
+    );
+  }, []);
+
+  const renderRequestItem = useCallback(
+    ({ item }: { item: TeamCorrection }) => {
+      const isSelected = selectedIds.includes(item.requestId);
+      return (
+        <View style={[styles.requestCard, { backgroundColor: DarkThemeColors.black + '40' }]}>
+          <View style={styles.requestHeader}>
+            <TouchableOpacity
+              style={[styles.checkbox, isSelected && styles.checkboxSelected]}
+              onPress={() => toggleSelected(item.requestId)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isSelected }}
+            >
+              {isSelected && (
+                <Image source={Icons.tick} style={styles.checkboxIcon} resizeMode="contain" />
+              )}
+            </TouchableOpacity>
+            <View style={styles.requestInfo}>
+              <AppText size={hp(2)} fontType={FontTypes.medium} color={colors.text}>
+                {item.employeeName || item.employeeId}
+              </AppText>
+              <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+                {item.correctionType === 'FORGOT_CHECKOUT'
+                  ? t('corrections.type.forgotCheckout', 'Forgot checkout')
+                  : t('corrections.type.manualTime', 'Manual checkout time')}
+              </AppText>
+            </View>
+          </View>
+
+          {item.originalTime != null && (
+            <AppText size={hp(1.7)} color={colors.text} style={styles.secondaryText}>
+              {t('corrections.originalTime', 'Recorded at')}: {formatUTCForDisplay(item.originalTime, TIME_FORMAT)}
+            </AppText>
+          )}
+          <AppText size={hp(1.8)} color={colors.text}>
+            {t('approvals.correctedTime', 'Corrected checkout')}: {formatUTCForDisplay(item.requestedTime, TIME_FORMAT)}
+          </AppText>
+          {item.workedHours != null && (
+            <AppText size={hp(1.7)} color={colors.text} style={styles.secondaryText}>
+              {t('approvals.workedHours', {
+                hours: item.workedHours.toFixed(1),
+                defaultValue: `Worked ${item.workedHours.toFixed(1)} h`,
+              })}
+            </AppText>
+          )}
+          {!!item.note && (
+            <AppText size={hp(1.7)} color={colors.text} style={styles.secondaryText}>
+              “{item.note}”
+            </AppText>
+          )}
+
+          {item.records.length > 0 && (
+            <DayAttendanceItem
+              date={item.dateOfPunch || formatUTCForDisplay(item.requestedTime, 'YYYY-MM-DD')}
+              records={item.records}
+              onDetailPress={() => setDetailRequest(item)}
+              attendanceStatus="PENDING_APPROVAL"
+              workedHours={item.workedHours ?? undefined}
+              requiresApproval
+            />
+          )}
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setRejectRequest(item)}>
+              <AppText size={hp(1.8)} color={DarkThemeColors.red}>
+                {t('approvals.reject', 'Reject')}
+              </AppText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => onApprovePress(item)}>
+              <AppText size={hp(1.8)} fontType={FontTypes.medium} color={DarkThemeColors.primary}>
+                {t('approvals.approve', 'Approve')}
+              </AppText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    },
+    [selectedIds, colors.text, t, toggleSelected, onApprovePress],
+  );
+
+  return (
+    <AppContainer>
+      <View style={[styles.header, { paddingTop: insets.top + hp(1.5) }]}>
+        <AppText size={hp(2.6)} fontType={FontTypes.medium} color={colors.text}>
+          {t('approvals.title', 'Approvals')}
+        </AppText>
+        <AppText size={hp(1.7)} color={colors.text} style={styles.secondaryText}>
+          {t('approvals.pendingCount', { count: inbox.length, defaultValue: `${inbox.length} pending` })}
+        </AppText>
+      </View>
+
+      <FlatList
+        data={inbox}
+        renderItem={renderRequestItem}
+        keyExtractor={(item) => item.requestId}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary || DarkThemeColors.primary}
+            colors={[colors.primary || DarkThemeColors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <AppText size={hp(2)} color={colors.text}>
+              {t('approvals.empty', 'No corrections waiting for you')}
+            </AppText>
+          </View>
+        }
+      />
+
+      {selectedIds.length > 0 && (
+        <View style={styles.bulkBar}>
+          <AppButton
+            title={t('approvals.approveSelected', {
+              count: selectedIds.length,
+              defaultValue: `Approve selected (${selectedIds.length})`,
+            })}
+            onPress={onApproveSelectedPress}
+          />
+        </View>
+      )}
+
+      {detailRequest && (
+        <AttendanceDetailModal
+          visible={!!detailRequest}
+          date={detailRequest.dateOfPunch || ''}
+          records={detailRequest.records}
+          onClose={() => setDetailRequest(null)}
+        />
+      )}
+
+      <Modal
+        visible={!!rejectRequest}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={closeRejectModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.rejectModal, { backgroundColor: colors.card || DarkThemeColors.black }]}>
+            <AppText size={hp(2.3)} fontType={FontTypes.medium} color={colors.text} style={styles.modalTitle}>
+              {t('approvals.rejectTitle', 'Reject correction')}
+            </AppText>
+            <AppInput
+              label={t('approvals.comment', 'Comment for the employee')}
+              value={rejectComment}
+              onChangeText={setRejectComment}
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.actionButton} onPress={closeRejectModal}>
+                <AppText size={hp(1.8)} color={colors.text}>
+                  {t('common.cancel', 'Cancel')}
+                </AppText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={onConfirmReject}
+                disabled={!rejectComment.trim()}
+              >
+                <AppText
+                  size={hp(1.8)}
+                  fontType={FontTypes.medium}
+                  color={DarkThemeColors.red}
+                  style={!rejectComment.trim() ? styles.disabledText : undefined}
+                >
+                  {t('approvals.reject', 'Reject')}
+                </AppText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    paddingHorizontal: wp(5),
+    paddingBottom: hp(1.5),
+  },
+  listContent: {
+    paddingHorizontal: wp(4.27),
+    paddingBottom: hp(12),
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: hp(20),
+  },
+  requestCard: {
+    padding: hp(2),
+    marginVertical: hp(1),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: hp(1),
+  },
+  requestInfo: {
+    flex: 1,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderWidth: 1.37,
+    borderColor: DarkThemeColors.primary,
+    borderRadius: 3,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: wp(3),
+  },
+  checkboxSelected: {
+    backgroundColor: DarkThemeColors.primary,
+  },
+  checkboxIcon: {
+    width: 12,
+    height: 12,
+    tintColor: DarkThemeColors.white_common,
+  },
+  secondaryText: {
+    opacity: 0.7,
+    marginBottom: hp(0.5),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: hp(1),
+  },
+  actionButton: {
+    paddingVertical: hp(0.8),
+    paddingHorizontal: wp(4),
+  },
+  bulkBar: {
+    position: 'absolute',
+    left: wp(4.27),
+    right: wp(4.27),
+    bottom: hp(11),
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  rejectModal: {
+    borderTopLeftRadius: wp(5),
+    borderTopRightRadius: wp(5),
+    padding: wp(5),
+    paddingBottom: hp(3),
+  },
+  modalTitle: {
+    marginBottom: hp(2),
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: hp(2),
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+});
@@ -17,6 +17,7 @@ import { getDaysAttendance, AttendanceDay } from '../../services/attendance/atte
 import { DarkThemeColors, LightThemeColors, APP_THEMES } from '../../themes';
 import { logger } from '../../services/logger';
 import { groupAttendanceByDate } from '../../services/attendance/attendance-grouping-service';
+import { getShiftRoster } from '../../utils/shift-roster-utils';
 
 type AttendanceLogsRouteParams = {
   filterToday?: boolean;
@@ -191,13 +192,13 @@ export default function AttendanceLogsScreen(): React.JSX.Element {
     }
     
     // Use the same grouping logic as My Days screen
-    const grouped = groupAttendanceByDate(filteredHistory);
+    const grouped = groupAttendanceByDate(filteredHistory, getShiftRoster(userData));
     
     // Sort by date (most recent first)
     return grouped.sort((a, b) => 
       moment.utc(b.dateOfPunch).diff(moment.utc(a.dateOfPunch))
     );
-  }, [userAttendanceHistory, startDate, endDate]);
+  }, [userAttendanceHistory, startDate, endDate, userData]);
 
   /** Stable renderItem reference */
   const renderHistoryItem = useCallback(
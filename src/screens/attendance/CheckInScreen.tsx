@@ -5,8 +5,8 @@ import React, {
   useRef,
   useState,
 } from 'react';
-import { StyleSheet, View, StatusBar, TouchableOpacity } from 'react-native';
-import { useNavigation, CommonActions, useTheme } from '@react-navigation/native';
+import { Alert, StyleSheet, View, StatusBar, TouchableOpacity } from 'react-native';
+import { useNavigation, CommonActions, useTheme, useRoute, RouteProp } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import MapView from 'react-native-maps';
 
@@ -23,19 +23,42 @@ import {
   getLocationFromLatLon,
   isLocationEnabled,
   cancelBreakReminderNotifications,
+  evaluateGeofence,
+  isPunchBlockedByGeofence,
+  isPunchFlaggedByGeofence,
+  isPunchWarnedByGeofence,
+  getGeofenceUnverifiedPolicy,
+  toPunchGeofenceFields,
+  GeofenceEvaluation,
+  GeofenceFix,
+  trustedClockService,
+  toPunchTimeFields,
+  TrustedTime,
+  recordLocationFix,
+  evaluateLocationRisk,
+  getLocationSpoofPolicy,
+  isPunchBlockedByLocationRisk,
+  isPunchWarnedByLocationRisk,
+  toPunchLocationRiskFields,
+  checkMockLocationStatus,
+  LocationFix,
+  LocationRiskEvaluation,
 } from '../../services';
 import { useAppDispatch, useAppSelector } from '../../redux';
 import { setUserLocationRegion } from '../../redux';
-import { insertAttendancePunchRecord } from '../../services';
+import { correctionService, insertAttendancePunchRecord } from '../../services';
 import { isOvernightShift } from '../../services/attendance/overnight-shift-service';
 import moment from 'moment';
-import { getCurrentUTCTimestamp, getCurrentUTCDate} from '../../utils/time-utils';
+import { getCurrentUTCDate} from '../../utils/time-utils';
 import { PUNCH_DIRECTIONS } from '../../constants/location';
 import { useTranslation } from '../../hooks/useTranslation';
 import { useCheckInStatus } from '../../hooks/useCheckInStatus';
 import { APP_THEMES, DarkThemeColors, LightThemeColors } from '../../themes';
 import { logger } from '../../services/logger';
 import { getShiftEndTimestamp } from '../../utils/shift-utils';
+import { getShiftForDate, getShiftRoster, getShiftWindow } from '../../utils/shift-roster-utils';
+import { getCheckInEntryDate } from '../../services/attendance/shift-detection-service';
+import { BREAK_PUNCH_TYPE, getBreakType, isBreakStart } from '../../services/attendance/break-service';
 
 interface Coordinates {
   latitude: number;
@@ -45,8 +68,20 @@ interface Coordinates {
   longitudeDelta?: number;
 }
 
+type CheckInRouteParams = {
+  resumeWork?: boolean | string; // From the break reminder "Resume work" link (query params are strings)
+  autoCheckout?: boolean | string; // From the auto-checkout notice - offer to correct the checkout time
+};
+
+type CheckInRouteProp = RouteProp<{ params: CheckInRouteParams }, 'params'>;
+
+// LatLon of a punch, from the same fix its geofence status was evaluated on
+const toPunchLatLon = (fix: GeofenceFix | null): string =>
+  fix ? `${fix.latitude.toFixed(4)},${fix.longitude.toFixed(4)}` : '';
+
 export default function CheckInScreen(): React.JSX.Element {
   const insets = useSafeAreaInsets();
+  const route = useRoute<CheckInRouteProp>();
   const dispatch = useAppDispatch();
   const navigation = useNavigation();
   const { colors } = useTheme();
@@ -62,6 +97,12 @@ export default function CheckInScreen(): React.JSX.Element {
   );
 
   const userData = useAppSelector(state => state.userState.userData);
+  const shiftRoster = useMemo(() => getShiftRoster(userData), [userData]);
+  // Shift end of the open entry's day, for the forgot checkout modal
+  const forgotCheckoutShiftEndTime = useMemo(
+    () => getShiftForDate(shiftRoster, userLastAttendance?.DateOfPunch || getCurrentUTCDate()).endTime ?? undefined,
+    [shiftRoster, userLastAttendance?.DateOfPunch],
+  );
 
   // Use enhanced hook for check-in status with all logic
   const checkInStatus = useCheckInStatus();
@@ -82,6 +123,12 @@ export default function CheckInScreen(): React.JSX.Element {
   const locationUpdateCountRef = useRef<number>(0);
   const initialLocationFetchedRef = useRef<boolean>(false);
   const punchOperationInProgressRef = useRef<boolean>(false);
+  // Latest raw fix (with accuracy), evaluated against the geofence and saved as LatLon at punch time
+  const lastFixRef = useRef<GeofenceFix | null>(null);
+  const [currentFix, setCurrentFix] = useState<GeofenceFix | null>(null);
+  // Fixes of this session and the native mock location check, for spoof detection at punch time
+  const fixHistoryRef = useRef<LocationFix[]>([]);
+  const mockLocationDetectedRef = useRef<boolean>(false);
 
  
   const stopWatching = useCallback((): void => {
@@ -93,7 +140,7 @@ export default function CheckInScreen(): React.JSX.Element {
   }, []);
 
   const handleLocationUpdate = useCallback(
-    (coords: Coordinates): void => {
+    (coords: Coordinates, position?: { timestamp?: number; mocked?: boolean }): void => {
       // Limit location updates to prevent excessive calls
       locationUpdateCountRef.current += 1;
       
@@ -109,6 +156,18 @@ export default function CheckInScreen(): React.JSX.Element {
         return;
       }
 
+      // Always keep the freshest fix for geofence evaluation, even when map updates are limited
+      lastFixRef.current = {
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy: coords.accuracy,
+      };
+      fixHistoryRef.current = recordLocationFix(fixHistoryRef.current, {
+        ...lastFixRef.current,
+        timestamp: position?.timestamp ?? Date.now(),
+        mocked: position?.mocked,
+      });
+
       // After initial location is set, limit updates
       if (initialLocationFetchedRef.current && locationUpdateCountRef.current > 3) {
         logger.debug('handleLocationUpdate: Max updates reached, ignoring', logContext);
@@ -125,6 +184,7 @@ export default function CheckInScreen(): React.JSX.Element {
 
       logger.debug('handleLocationUpdate: Dispatching location region', logContext);
       dispatch(setUserLocationRegion(locationRegion));
+      setCurrentFix(lastFixRef.current);
       setIsFetchingLocation(false);
       initialLocationFetchedRef.current = true;
 
@@ -194,7 +254,7 @@ export default function CheckInScreen(): React.JSX.Element {
       Geolocation.getCurrentPosition(
         (position) => {
           logger.debug('startWatching: Current position received', { coords: position.coords });
-          handleLocationUpdate(position.coords);
+          handleLocationUpdate(position.coords, position);
         },
         (error) => {
           logger.warn('startWatching: Error getting current position', error);
@@ -206,7 +266,7 @@ export default function CheckInScreen(): React.JSX.Element {
       // Then start watching for updates (limited to 2-3 updates by handleLocationUpdate)
       const watchId = Geolocation.watchPosition(
         (position) => {
-          handleLocationUpdate(position.coords);
+          handleLocationUpdate(position.coords, position);
         },
         (error) => {
           logger.warn('startWatching: Error watching position', error);
@@ -216,6 +276,10 @@ export default function CheckInScreen(): React.JSX.Element {
       
       watchIdRef.current = watchId;
       logger.debug('startWatching: Watch started with ID', { watchId });
+
+      checkMockLocationStatus().then((isMockLocation) => {
+        mockLocationDetectedRef.current = isMockLocation;
+      });
     } else {
       logger.debug('startWatching: Location is not enabled');
       navigation.goBack();
@@ -358,150 +422,29 @@ export default function CheckInScreen(): React.JSX.Element {
   }, [userLocationRegion]);
 
   /**
-   * Determine the correct date for check-in based on shift type and last attendance
-   * Rules:
-   * 1. For normal shift: 
-   *    - User can do multiple checkouts/check-ins on same day
-   *    - BUT if check-in happens on next day (compared to last checkout date), use next day's date
-   * 2. For 2-day shift:
-   *    - If checkout was on/after shift end time, next check-in uses next day
-   *    - If checkout was before shift end time, check if current check-in is on/after shift start time
-   *      - If yes, it's next day's check-in
-   *      - If no, use today
-   * 3. Otherwise: Use today
+   * Determine the correct date for check-in from the shift roster and last attendance
+   * (see getCheckInEntryDate): back from a break continues the last entry, and a check-in
+   * for an overnight shift is dated by the day the shift ends on
    */
   const getCheckInDate = useCallback((): string => {
-    const today = getCurrentUTCDate();
-    const now = moment.utc();
-    
-    // If no last attendance or last attendance is IN, use today
-    if (!userLastAttendance || userLastAttendance.PunchDirection === PUNCH_DIRECTIONS.in) {
-      return today;
-    }
-    
-    // Last attendance is OUT - check if we should use next day
-    const shiftStartTime = userData?.shiftStartTime || '09:00';
-    const shiftEndTime = userData?.shiftEndTime || '17:00';
-    
-    // Check if shift spans 2 days
-    const [startHour, startMin] = shiftStartTime.split(':').map(Number);
-    const [endHour, endMin] = shiftEndTime.split(':').map(Number);
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
-    const doesShiftSpanTwoDays = endMinutes < startMinutes;
-    
+    const lastCheckout = userLastAttendance?.PunchDirection === PUNCH_DIRECTIONS.out
+      ? userLastAttendance
+      : null;
     try {
-      const checkoutTimestamp = typeof userLastAttendance.Timestamp === 'string'
-        ? parseInt(userLastAttendance.Timestamp, 10)
-        : userLastAttendance.Timestamp;
-      
-      if (!checkoutTimestamp) {
-        return today;
-      }
-      
-      // Get checkout date
-      const checkoutDate = userLastAttendance.DateOfPunch || moment.utc(checkoutTimestamp).format('YYYY-MM-DD');
-      const checkoutUTC = moment.utc(checkoutTimestamp);
-      
-      if (!doesShiftSpanTwoDays) {
-        // Normal shift: Check if current check-in is on a different day compared to checkout date
-        // Use string comparison for reliability
-        const isDifferentDay = today !== checkoutDate;
-        
-        logger.debug('Normal shift check-in date calculation', {
-          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-          checkoutDate,
-          today,
-          isDifferentDay,
-        });
-        
-        // If today is different from checkout date, use today (it's a new day's attendance)
-        if (isDifferentDay) {
-          logger.debug('Using today as check-in date (different day from checkout)', {
-            _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-            date: today,
-          });
-          return today;
-        }
-        
-        // Same day as checkout, use today (user can do multiple check-ins/checkouts on same day)
-        logger.debug('Using today as check-in date (same day as checkout)', {
-          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-          date: today,
-        });
-        return today;
-      }
-      
-      // 2-day shift logic
-      // Get shift end timestamp for checkout date
-      const shiftEndTimestamp = getShiftEndTimestamp(checkoutDate, shiftEndTime);
-      
-      if (!shiftEndTimestamp) {
-        return today;
-      }
-      
-      const shiftEndUTC = moment.utc(shiftEndTimestamp);
-      
-      // Check if checkout was on or after shift end time
-      if (checkoutUTC.isSameOrAfter(shiftEndUTC)) {
-        // Checkout was on/after shift end time, next check-in should be next day
-        logger.debug('2-day shift: Checkout was on/after shift end, using next day', {
-          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-          checkoutDate,
-          checkoutTime: checkoutUTC.format('YYYY-MM-DD HH:mm'),
-          shiftEndTime: shiftEndUTC.format('YYYY-MM-DD HH:mm'),
-          nextDay: moment.utc(today).add(1, 'day').format('YYYY-MM-DD'),
-        });
-        const nextDay = moment.utc(today).add(1, 'day').format('YYYY-MM-DD');
-        return nextDay;
-      }
-      
-      // Checkout was before shift end time
-      // Check if current check-in time is on/after shift start time
-      // If yes, it's next day's check-in (since shift time is about to start)
-      const [currentHour, currentMin] = [now.hour(), now.minute()];
-      const currentMinutes = currentHour * 60 + currentMin;
-      
-      logger.debug('2-day shift: Checking if check-in is on/after shift start', {
-        _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-        checkoutDate,
-        checkoutTime: checkoutUTC.format('YYYY-MM-DD HH:mm'),
-        shiftEndTime: shiftEndUTC.format('YYYY-MM-DD HH:mm'),
-        currentTime: now.format('YYYY-MM-DD HH:mm'),
-        currentMinutes,
-        startMinutes,
-        shiftStartTime,
-      });
-      
-      if (currentMinutes >= startMinutes) {
-        // Current check-in is on/after shift start time, it's next day's check-in
-        // (since checkout was before shift end, but we're now at/after shift start)
-        logger.debug('2-day shift: Check-in is on/after shift start, using next day', {
-          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-          nextDay: moment.utc(today).add(1, 'day').format('YYYY-MM-DD'),
-        });
-        const nextDay = moment.utc(today).add(1, 'day').format('YYYY-MM-DD');
-        return nextDay;
-      }
-      
-      // Current check-in is before shift start time, use today
-      logger.debug('2-day shift: Check-in is before shift start, using today', {
-        _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'getCheckInDate' },
-        date: today,
-      });
-      return today;
+      return getCheckInEntryDate(lastCheckout, trustedClockService.now().timestamp, shiftRoster);
     } catch (error) {
       logger.error('Error determining check-in date', error);
-      return today;
+      return getCurrentUTCDate();
     }
-  }, [userLastAttendance, userData?.shiftStartTime, userData?.shiftEndTime]);
+  }, [userLastAttendance, shiftRoster]);
 
-  const getCurrentDate = (): string => getCurrentUTCDate();
-  const getCurrentTimestamp = useCallback((): number => {
-    // Return UTC timestamp (milliseconds since epoch)
+  const getCurrentDate = (): string => moment.utc(trustedClockService.now().timestamp).format('YYYY-MM-DD');
+  const getCurrentTime = useCallback((): TrustedTime => {
+    // Return UTC time (milliseconds since epoch) from the trusted clock, not the device clock
     // All punch records are stored in UTC
     // UI will convert to local time for display using formatUTCForDisplay()
-    return getCurrentUTCTimestamp();
+    // Read once per punch: the same reading gives its Timestamp and its TrustedTimestamp
+    return trustedClockService.now();
   }, []);
 
   // Calculate hours worked from check-in time
@@ -531,6 +474,78 @@ export default function CheckInScreen(): React.JSX.Element {
     }
   }, [isUserCheckedIn, userLastAttendance?.CreatedOn]);
 
+  // Evaluate a punch's fix against the user's allowed geofence areas
+  const evaluatePunchGeofence = useCallback((fix: GeofenceFix | null): GeofenceEvaluation => {
+    return evaluateGeofence(fix, userData?.allowedGeofenceAreas);
+  }, [userData?.allowedGeofenceAreas]);
+
+  // Check the session's fixes for signs of a spoofed location (fake GPS apps)
+  const evaluatePunchLocationRisk = useCallback((): LocationRiskEvaluation => {
+    return evaluateLocationRisk(fixHistoryRef.current, mockLocationDetectedRef.current);
+  }, []);
+
+  // Resolves true when the user chooses to punch despite the location warning
+  const confirmLocationRisk = useCallback((): Promise<boolean> => {
+    return new Promise((resolve) => {
+      Alert.alert(
+        t('attendance.locationRisk.warningTitle', 'Location Could Not Be Verified'),
+        t(
+          'attendance.locationRisk.warningMessage',
+          'Your location looks like it may come from a fake GPS app. If you punch anyway, this punch will be flagged for review.',
+        ),
+        [
+          { text: t('common.cancel', 'Cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: t('attendance.locationRisk.punchAnyway', 'Punch Anyway'), onPress: () => resolve(true) },
+        ],
+        { cancelable: false },
+      );
+    });
+  }, [t]);
+
+  // Resolves true when the user chooses to punch although the work location could not be verified
+  const confirmGeofenceUnverified = useCallback((): Promise<boolean> => {
+    return new Promise((resolve) => {
+      Alert.alert(
+        t('attendance.geofence.warningTitle', 'Work Location Not Verified'),
+        t(
+          'attendance.geofence.warningMessage',
+          'Your location is not accurate enough to confirm you are at your work location. If you punch anyway, this punch will be flagged for review.',
+        ),
+        [
+          { text: t('common.cancel', 'Cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: t('attendance.geofence.punchAnyway', 'Punch Anyway'), onPress: () => resolve(true) },
+        ],
+        { cancelable: false },
+      );
+    });
+  }, [t]);
+
+  // Geofence status shown under the address (updates with the displayed location)
+  const displayedGeofence = useMemo((): GeofenceEvaluation => {
+    return evaluateGeofence(currentFix, userData?.allowedGeofenceAreas);
+  }, [currentFix, userData?.allowedGeofenceAreas]);
+
+  const geofenceMessage = useMemo((): string | null => {
+    switch (displayedGeofence.status) {
+      case 'INSIDE':
+        return t('attendance.geofence.inside', { area: displayedGeofence.matchedArea?.name, defaultValue: `Inside ${displayedGeofence.matchedArea?.name}` });
+      case 'OUTSIDE':
+        return t('attendance.geofence.outside', {
+          distance: displayedGeofence.distanceToNearest,
+          area: displayedGeofence.nearestArea?.name,
+          defaultValue: `${displayedGeofence.distanceToNearest} m outside ${displayedGeofence.nearestArea?.name}`,
+        });
+      case 'UNCERTAIN':
+        return t('attendance.geofence.uncertain', 'Near the edge of your work location');
+      case 'LOW_ACCURACY':
+        return t('attendance.geofence.lowAccuracy', 'Location too inaccurate to verify work location');
+      case 'NO_FIX':
+        return t('attendance.geofence.noFix', 'Waiting for your location');
+      default:
+        return null;
+    }
+  }, [displayedGeofence, t]);
+
   const onCheckInPress = useCallback(async (): Promise<void> => {
     // Prevent multiple simultaneous operations
     if (punchOperationInProgressRef.current || isPunchInProgress) {
@@ -545,8 +560,93 @@ export default function CheckInScreen(): React.JSX.Element {
     setIsPunchInProgress(true);
 
     try {
-      // Get minimum working hours from profile (default to 9 if not set)
-      const minimumWorkingHours = userData?.minimumWorkingHours || 9;
+      // Block punches made outside every allowed geofence area, or without a fix to check
+      const punchFix = lastFixRef.current;
+      const geofenceEvaluation = evaluatePunchGeofence(punchFix);
+      const geofenceUnverifiedPolicy = getGeofenceUnverifiedPolicy(userData?.geofenceUnverifiedPolicy);
+      if (isPunchBlockedByGeofence(geofenceEvaluation, geofenceUnverifiedPolicy)) {
+        logger.warn('Punch blocked - outside allowed geofence areas', undefined, {
+          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'onCheckInPress' },
+          status: geofenceEvaluation.status,
+          nearestAreaId: geofenceEvaluation.nearestArea?.id,
+          distanceToNearest: geofenceEvaluation.distanceToNearest,
+          accuracy: geofenceEvaluation.accuracy,
+          policy: geofenceUnverifiedPolicy,
+        });
+        if (geofenceEvaluation.status === 'OUTSIDE') {
+          Alert.alert(
+            t('attendance.geofence.blockedTitle', 'Outside Work Location'),
+            t('attendance.geofence.blockedMessage', {
+              distance: geofenceEvaluation.distanceToNearest,
+              area: geofenceEvaluation.nearestArea?.name,
+              defaultValue: `You are ${geofenceEvaluation.distanceToNearest} m away from ${geofenceEvaluation.nearestArea?.name}. You can only punch from one of your allowed work locations.`,
+            }),
+          );
+        } else {
+          Alert.alert(
+            t('attendance.geofence.unverifiedTitle', 'Work Location Not Verified'),
+            t(
+              'attendance.geofence.unverifiedMessage',
+              'Your location could not be confirmed at one of your allowed work locations. Wait for a better GPS signal and try again.',
+            ),
+          );
+        }
+        punchOperationInProgressRef.current = false;
+        setIsPunchInProgress(false);
+        return;
+      }
+      if (isPunchFlaggedByGeofence(geofenceEvaluation)) {
+        logger.warn('Punch flagged - geofence could not be verified', undefined, {
+          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'onCheckInPress' },
+          status: geofenceEvaluation.status,
+          accuracy: geofenceEvaluation.accuracy,
+          policy: geofenceUnverifiedPolicy,
+        });
+      }
+      if (
+        isPunchWarnedByGeofence(geofenceEvaluation, geofenceUnverifiedPolicy) &&
+        !(await confirmGeofenceUnverified())
+      ) {
+        punchOperationInProgressRef.current = false;
+        setIsPunchInProgress(false);
+        return;
+      }
+
+      // Spoofed location: blocked, confirmed by the user or only flagged, per the organization's policy
+      mockLocationDetectedRef.current = await checkMockLocationStatus();
+      const locationRisk = evaluatePunchLocationRisk();
+      const locationSpoofPolicy = getLocationSpoofPolicy(userData?.locationSpoofPolicy);
+      if (locationRisk.flags.length > 0) {
+        logger.warn('Punch location may be spoofed', undefined, {
+          _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'onCheckInPress' },
+          flags: locationRisk.flags,
+          maxSpeed: locationRisk.maxSpeed,
+          policy: locationSpoofPolicy,
+        });
+      }
+      if (isPunchBlockedByLocationRisk(locationRisk, locationSpoofPolicy)) {
+        Alert.alert(
+          t('attendance.locationRisk.blockedTitle', 'Location Could Not Be Verified'),
+          t(
+            'attendance.locationRisk.blockedMessage',
+            'Your location looks like it comes from a fake GPS app. Turn off mock locations and try again.',
+          ),
+        );
+        punchOperationInProgressRef.current = false;
+        setIsPunchInProgress(false);
+        return;
+      }
+      if (isPunchWarnedByLocationRisk(locationRisk, locationSpoofPolicy) && !(await confirmLocationRisk())) {
+        punchOperationInProgressRef.current = false;
+        setIsPunchInProgress(false);
+        return;
+      }
+
+      // Minimum working hours of the current entry's day from the shift roster
+      const minimumWorkingHours = getShiftForDate(
+        shiftRoster,
+        userLastAttendance?.DateOfPunch || getCurrentUTCDate(),
+      ).minimumWorkingHours;
       
       // If checking out and hours worked is less than minimum working hours, show early checkout modal
       if (isUserCheckedIn && hoursWorked < minimumWorkingHours) {
@@ -557,18 +657,22 @@ export default function CheckInScreen(): React.JSX.Element {
       }
 
     // Proceed with normal check-in/check-out
-    const currentTimeTS = getCurrentTimestamp();
+    const punchTime = getCurrentTime();
+    const currentTimeTS = punchTime.timestamp;
     // Use getCheckInDate() for check-in, getCurrentDate() for checkout
     const currentDate = isUserCheckedIn ? getCurrentDate() : getCheckInDate();
+    const entryShift = getShiftForDate(shiftRoster, currentDate);
+    // Checking in after a break ends that break
+    const endedBreakType = !isUserCheckedIn && userLastAttendance ? getBreakType(userLastAttendance) : null;
 
     // Handle overnight shift checkout: Link checkout to check-in date
     let finalDateOfPunch = currentDate;
     let linkedEntryDate: string | undefined = undefined;
 
-    if (isUserCheckedIn && userLastAttendance && userData?.shiftStartTime && userData?.shiftEndTime) {
-      // Check if shift is overnight
-      const shiftIsOvernight = isOvernightShift(userData.shiftStartTime, userData.shiftEndTime);
+    if (isUserCheckedIn && userLastAttendance) {
       const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
+      const checkInShift = getShiftForDate(shiftRoster, checkInDate);
+      const shiftIsOvernight = isOvernightShift(checkInShift);
       const checkoutDate = moment.utc(currentTimeTS).format('YYYY-MM-DD');
       const isNextDay = checkoutDate !== checkInDate;
 
@@ -581,8 +685,8 @@ export default function CheckInScreen(): React.JSX.Element {
           _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'onCheckInPress' },
           checkInDate,
           checkoutDate,
-          shiftStartTime: userData.shiftStartTime,
-          shiftEndTime: userData.shiftEndTime,
+          shiftStartTime: checkInShift.startTime,
+          shiftEndTime: checkInShift.endTime,
           finalDateOfPunch,
           linkedEntryDate,
         });
@@ -608,15 +712,11 @@ export default function CheckInScreen(): React.JSX.Element {
         timestamp: currentTimeTS,
         orgID: '123',
         userID: userData?.email || '',
-        punchType: 'CHECK',
+        punchType: endedBreakType ? BREAK_PUNCH_TYPE : 'CHECK',
         punchDirection: isUserCheckedIn
           ? PUNCH_DIRECTIONS.out
           : PUNCH_DIRECTIONS.in,
-        latLon: userLocationRegion
-          ? `${userLocationRegion.latitude?.toFixed(
-              4,
-            )},${userLocationRegion.longitude?.toFixed(4)}`
-          : '',
+        latLon: toPunchLatLon(punchFix),
         address: currentAddress || '',
         createdOn: currentTimeTS,
         isSynced: 'N',
@@ -629,16 +729,20 @@ export default function CheckInScreen(): React.JSX.Element {
         isCheckoutQrScan: 0,
         travelerName: '',
         phoneNumber: '',
-        // Capture shift times from profile at check-in time (for immutability)
-        ShiftStartTime: !isUserCheckedIn ? userData?.shiftStartTime : undefined,
-        ShiftEndTime: !isUserCheckedIn ? userData?.shiftEndTime : undefined,
-        MinimumHoursRequired: !isUserCheckedIn ? userData?.minimumWorkingHours : undefined,
+        // Capture the day's shift from the roster at check-in time (for immutability)
+        ShiftStartTime: !isUserCheckedIn ? entryShift.startTime ?? undefined : undefined,
+        ShiftEndTime: !isUserCheckedIn ? entryShift.endTime ?? undefined : undefined,
+        MinimumHoursRequired: !isUserCheckedIn ? entryShift.minimumWorkingHours : undefined,
         // Overnight shift linking
         LinkedEntryDate: linkedEntryDate || undefined, // Store actual checkout date for overnight shifts
+        BreakType: endedBreakType || undefined,
+        ...toPunchGeofenceFields(geofenceEvaluation),
+        ...toPunchLocationRiskFields(locationRisk),
+        ...toPunchTimeFields(punchTime),
       });
 
       // Cancel break notifications when checking in (returning from break)
-      if (isUserCheckedIn) {
+      if (!isUserCheckedIn) {
         cancelBreakReminderNotifications();
       }
 
@@ -668,34 +772,90 @@ export default function CheckInScreen(): React.JSX.Element {
       return; // Don't navigate if insert failed
     }
   }, [
-    userLocationRegion,
     isUserCheckedIn,
     userData?.email,
-    userData?.minimumWorkingHours,
-    userData?.shiftStartTime,
-    userData?.shiftEndTime,
+    shiftRoster,
     userLastAttendance,
     navigation,
     currentAddress,
-    getCurrentTimestamp,
+    getCurrentTime,
     hoursWorked,
     getCheckInDate,
     isPunchInProgress,
+    evaluatePunchGeofence,
+    evaluatePunchLocationRisk,
+    confirmGeofenceUnverified,
+    confirmLocationRisk,
+    userData?.geofenceUnverifiedPolicy,
+    userData?.locationSpoofPolicy,
+    t,
+  ]);
+
+  // "Resume work" on a break reminder: punch IN as soon as the location is known
+  const resumeWork = String(route.params?.resumeWork) === 'true';
+  const resumeWorkHandledRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (!resumeWork || resumeWorkHandledRef.current) {
+      return;
+    }
+    if (isUserCheckedIn || !isBreakStart(userLastAttendance)) {
+      // The break has already ended (e.g. punched in on another device) - leave it to the user
+      resumeWorkHandledRef.current = true;
+      return;
+    }
+    if (isFetchingLocation || permissionDenied || !userLocationRegion?.latitude || !userLocationRegion?.longitude) {
+      return;
+    }
+    resumeWorkHandledRef.current = true;
+    logger.debug('Resuming work from break reminder', {
+      _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'resumeWork' },
+      breakType: userLastAttendance?.BreakType || userLastAttendance?.AttendanceStatus,
+    });
+    onCheckInPress();
+  }, [
+    resumeWork,
+    isUserCheckedIn,
+    userLastAttendance,
+    isFetchingLocation,
+    permissionDenied,
+    userLocationRegion?.latitude,
+    userLocationRegion?.longitude,
+    onCheckInPress,
   ]);
 
+  // Auto-checkout notice: the forgot checkout modal contests the time of the auto-checkout punch
+  const autoCheckoutParam = String(route.params?.autoCheckout) === 'true';
+  const autoCheckoutPunch = useMemo(
+    () => (autoCheckoutParam &&
+      userLastAttendance?.PunchDirection === PUNCH_DIRECTIONS.out &&
+      userLastAttendance.CorrectionType === 'AUTO_CHECKOUT'
+      ? userLastAttendance
+      : null),
+    [autoCheckoutParam, userLastAttendance],
+  );
+  const autoCheckoutHandledRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (autoCheckoutPunch && !autoCheckoutHandledRef.current) {
+      autoCheckoutHandledRef.current = true;
+      setShowForgotCheckoutModal(true);
+    }
+  }, [autoCheckoutPunch]);
+
   const handleBreakStatusSelect = useCallback(
     async (status: string): Promise<void> => {
       setShowEarlyCheckoutModal(false);
-      const currentTimeTS = getCurrentTimestamp();
+      const punchTime = getCurrentTime();
+      const currentTimeTS = punchTime.timestamp;
       const currentDate = getCurrentDate();
 
       // Handle overnight shift checkout: Link checkout to check-in date
       let finalDateOfPunch = currentDate;
       let linkedEntryDate: string | undefined = undefined;
 
-      if (userLastAttendance && userData?.shiftStartTime && userData?.shiftEndTime) {
-        const shiftIsOvernight = isOvernightShift(userData.shiftStartTime, userData.shiftEndTime);
+      if (userLastAttendance) {
         const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
+        const checkInShift = getShiftForDate(shiftRoster, checkInDate);
+        const shiftIsOvernight = isOvernightShift(checkInShift);
         const checkoutDate = moment.utc(currentTimeTS).format('YYYY-MM-DD');
         const isNextDay = checkoutDate !== checkInDate;
 
@@ -705,18 +865,15 @@ export default function CheckInScreen(): React.JSX.Element {
         }
       }
 
+      const punchFix = lastFixRef.current;
       try {
         await insertAttendancePunchRecord({
           timestamp: currentTimeTS,
           orgID: '123',
           userID: userData?.email || '',
-          punchType: 'CHECK',
+          punchType: BREAK_PUNCH_TYPE,
           punchDirection: PUNCH_DIRECTIONS.out,
-          latLon: userLocationRegion
-            ? `${userLocationRegion.latitude?.toFixed(
-                4,
-              )},${userLocationRegion.longitude?.toFixed(4)}`
-            : '',
+          latLon: toPunchLatLon(punchFix),
           address: currentAddress || '',
           createdOn: currentTimeTS,
           isSynced: 'N',
@@ -730,6 +887,10 @@ export default function CheckInScreen(): React.JSX.Element {
           travelerName: '',
           phoneNumber: '',
           LinkedEntryDate: linkedEntryDate || undefined,
+          BreakType: getBreakType({ PunchDirection: 'OUT', BreakType: status }) || undefined,
+          ...toPunchGeofenceFields(evaluatePunchGeofence(punchFix)),
+          ...toPunchLocationRiskFields(evaluatePunchLocationRisk()),
+          ...toPunchTimeFields(punchTime),
         });
 
         // Navigate immediately to prevent button flicker
@@ -748,29 +909,31 @@ export default function CheckInScreen(): React.JSX.Element {
       }
     },
     [
-      userLocationRegion,
       userData?.email,
-      userData?.shiftStartTime,
-      userData?.shiftEndTime,
+      shiftRoster,
       userLastAttendance,
       navigation,
       currentAddress,
-      getCurrentTimestamp,
+      getCurrentTime,
+      evaluatePunchGeofence,
+      evaluatePunchLocationRisk,
     ],
   );
 
   const handleSkip = useCallback(async (): Promise<void> => {
     setShowEarlyCheckoutModal(false);
-    const currentTimeTS = getCurrentTimestamp();
+    const punchTime = getCurrentTime();
+    const currentTimeTS = punchTime.timestamp;
     const currentDate = getCurrentDate();
 
     // Handle overnight shift checkout: Link checkout to check-in date
     let finalDateOfPunch = currentDate;
     let linkedEntryDate: string | undefined = undefined;
 
-    if (userLastAttendance && userData?.shiftStartTime && userData?.shiftEndTime) {
-      const shiftIsOvernight = isOvernightShift(userData.shiftStartTime, userData.shiftEndTime);
+    if (userLastAttendance) {
       const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
+      const checkInShift = getShiftForDate(shiftRoster, checkInDate);
+      const shiftIsOvernight = isOvernightShift(checkInShift);
       const checkoutDate = moment.utc(currentTimeTS).format('YYYY-MM-DD');
       const isNextDay = checkoutDate !== checkInDate;
 
@@ -780,6 +943,7 @@ export default function CheckInScreen(): React.JSX.Element {
       }
     }
 
+    const punchFix = lastFixRef.current;
     try {
       await insertAttendancePunchRecord({
         timestamp: currentTimeTS,
@@ -787,11 +951,7 @@ export default function CheckInScreen(): React.JSX.Element {
         userID: userData?.email || '',
         punchType: 'CHECK',
         punchDirection: PUNCH_DIRECTIONS.out,
-        latLon: userLocationRegion
-          ? `${userLocationRegion.latitude?.toFixed(
-              4,
-            )},${userLocationRegion.longitude?.toFixed(4)}`
-          : '',
+        latLon: toPunchLatLon(punchFix),
         address: currentAddress || '',
         createdOn: currentTimeTS,
         isSynced: 'N',
@@ -805,6 +965,9 @@ export default function CheckInScreen(): React.JSX.Element {
         travelerName: '',
         phoneNumber: '',
         LinkedEntryDate: linkedEntryDate,
+        ...toPunchGeofenceFields(evaluatePunchGeofence(punchFix)),
+        ...toPunchLocationRiskFields(evaluatePunchLocationRisk()),
+        ...toPunchTimeFields(punchTime),
       });
 
       // Navigate immediately to prevent button flicker
@@ -822,14 +985,14 @@ export default function CheckInScreen(): React.JSX.Element {
       logger.error('Error inserting attendance record', error);
     }
   }, [
-    userLocationRegion,
     userData?.email,
-    userData?.shiftStartTime,
-    userData?.shiftEndTime,
+    shiftRoster,
     userLastAttendance,
     navigation,
     currentAddress,
-    getCurrentTimestamp,
+    getCurrentTime,
+    evaluatePunchGeofence,
+    evaluatePunchLocationRisk,
   ]);
 
   // Handler for "Yes, I forgot" option in forgot checkout modal
@@ -844,34 +1007,34 @@ export default function CheckInScreen(): React.JSX.Element {
     }
 
     const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
-    const shiftEndTime = userData.shiftEndTime || '17:00';
     
-    // Get shift end timestamp
-    const shiftEndTimestamp = getShiftEndTimestamp(checkInDate, shiftEndTime);
+    // Get shift end timestamp of the check-in day's shift
+    // (on a weekly off, the shift end captured at check-in)
+    const shiftEndTimestamp = getShiftWindow(getShiftForDate(shiftRoster, checkInDate))?.end
+      ?? getShiftEndTimestamp(checkInDate, (userLastAttendance as any).ShiftEndTime);
     if (!shiftEndTimestamp) {
       logger.error('Could not calculate shift end timestamp', {
         _context: { service: 'attendance', fileName: 'CheckInScreen.tsx', methodName: 'handleForgotCheckout' },
         checkInDate,
-        shiftEndTime,
       });
       return;
     }
 
-    const currentTimeTS = getCurrentTimestamp();
+    const punchTime = getCurrentTime();
+    const currentTimeTS = punchTime.timestamp;
     const shiftEndDate = moment.utc(shiftEndTimestamp).format('YYYY-MM-DD');
     const linkedEntryDate = shiftEndDate !== checkInDate ? shiftEndDate : undefined;
 
+    const punchFix = lastFixRef.current;
     try {
       // Insert checkout record with shift end time, marked for approval
-      await insertAttendancePunchRecord({
+      const { punchID } = await insertAttendancePunchRecord({
         timestamp: shiftEndTimestamp, // Use shift end time as checkout time
         orgID: '123',
         userID: userData.email || '',
         punchType: 'CHECK',
         punchDirection: PUNCH_DIRECTIONS.out,
-        latLon: userLocationRegion
-          ? `${userLocationRegion.latitude?.toFixed(4)},${userLocationRegion.longitude?.toFixed(4)}`
-          : '',
+        latLon: toPunchLatLon(punchFix),
         address: currentAddress || '',
         createdOn: currentTimeTS, // When this record was created
         isSynced: 'N',
@@ -890,6 +1053,17 @@ export default function CheckInScreen(): React.JSX.Element {
         OriginalCheckoutTime: currentTimeTS, // Actual current time
         CorrectedCheckoutTime: shiftEndTimestamp, // Corrected to shift end
         LinkedEntryDate: linkedEntryDate, // Store actual checkout date for overnight shifts
+        ...toPunchGeofenceFields(evaluatePunchGeofence(punchFix)),
+        ...toPunchLocationRiskFields(evaluatePunchLocationRisk()),
+        ...toPunchTimeFields(punchTime),
+      });
+      await correctionService.submitCorrection({
+        punchId: punchID,
+        userId: userData.email || '',
+        correctionType: 'FORGOT_CHECKOUT',
+        reason: 'FORGOT_TO_CHECKOUT',
+        originalTime: currentTimeTS,
+        requestedTime: shiftEndTimestamp,
       });
 
       // Navigate immediately
@@ -908,10 +1082,12 @@ export default function CheckInScreen(): React.JSX.Element {
   }, [
     userLastAttendance,
     userData,
-    userLocationRegion,
+    shiftRoster,
     currentAddress,
     navigation,
-    getCurrentTimestamp,
+    getCurrentTime,
+    evaluatePunchGeofence,
+    evaluatePunchLocationRisk,
   ]);
 
   // Handler for "No, check me out now" option in forgot checkout modal
@@ -919,16 +1095,18 @@ export default function CheckInScreen(): React.JSX.Element {
     setShowForgotCheckoutModal(false);
     
     // Proceed with normal checkout at current time
-    const currentTimeTS = getCurrentTimestamp();
+    const punchTime = getCurrentTime();
+    const currentTimeTS = punchTime.timestamp;
     const currentDate = getCurrentDate();
 
     // Handle overnight shift checkout: Link checkout to check-in date
     let finalDateOfPunch = currentDate;
     let linkedEntryDate: string | undefined = undefined;
 
-    if (userLastAttendance && userData?.shiftStartTime && userData?.shiftEndTime) {
-      const shiftIsOvernight = isOvernightShift(userData.shiftStartTime, userData.shiftEndTime);
+    if (userLastAttendance) {
       const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
+      const checkInShift = getShiftForDate(shiftRoster, checkInDate);
+      const shiftIsOvernight = isOvernightShift(checkInShift);
       const checkoutDate = moment.utc(currentTimeTS).format('YYYY-MM-DD');
       const isNextDay = checkoutDate !== checkInDate;
 
@@ -938,6 +1116,7 @@ export default function CheckInScreen(): React.JSX.Element {
       }
     }
 
+    const punchFix = lastFixRef.current;
     try {
       await insertAttendancePunchRecord({
         timestamp: currentTimeTS,
@@ -945,9 +1124,7 @@ export default function CheckInScreen(): React.JSX.Element {
         userID: userData?.email || '',
         punchType: 'CHECK',
         punchDirection: PUNCH_DIRECTIONS.out,
-        latLon: userLocationRegion
-          ? `${userLocationRegion.latitude?.toFixed(4)},${userLocationRegion.longitude?.toFixed(4)}`
-          : '',
+        latLon: toPunchLatLon(punchFix),
         address: currentAddress || '',
         createdOn: currentTimeTS,
         isSynced: 'N',
@@ -961,6 +1138,9 @@ export default function CheckInScreen(): React.JSX.Element {
         travelerName: '',
         phoneNumber: '',
         LinkedEntryDate: linkedEntryDate,
+        ...toPunchGeofenceFields(evaluatePunchGeofence(punchFix)),
+        ...toPunchLocationRiskFields(evaluatePunchLocationRisk()),
+        ...toPunchTimeFields(punchTime),
       });
 
       // Navigate immediately
@@ -978,13 +1158,13 @@ export default function CheckInScreen(): React.JSX.Element {
     }
   }, [
     userData?.email,
-    userData?.shiftStartTime,
-    userData?.shiftEndTime,
+    shiftRoster,
     userLastAttendance,
-    userLocationRegion,
     currentAddress,
     navigation,
-    getCurrentTimestamp,
+    getCurrentTime,
+    evaluatePunchGeofence,
+    evaluatePunchLocationRisk,
   ]);
 
   // Handler for "Select Checkout Time" option in forgot checkout modal
@@ -998,9 +1178,10 @@ export default function CheckInScreen(): React.JSX.Element {
     let finalDateOfPunch = currentDate;
     let linkedEntryDate: string | undefined = undefined;
 
-    if (userLastAttendance && userData?.shiftStartTime && userData?.shiftEndTime) {
-      const shiftIsOvernight = isOvernightShift(userData.shiftStartTime, userData.shiftEndTime);
+    if (userLastAttendance) {
       const checkInDate = userLastAttendance.DateOfPunch || moment.utc(userLastAttendance.Timestamp).format('YYYY-MM-DD');
+      const checkInShift = getShiftForDate(shiftRoster, checkInDate);
+      const shiftIsOvernight = isOvernightShift(checkInShift);
       const checkoutDate = moment.utc(selectedTime).format('YYYY-MM-DD');
       const isNextDay = checkoutDate !== checkInDate;
 
@@ -1010,16 +1191,15 @@ export default function CheckInScreen(): React.JSX.Element {
       }
     }
 
+    const punchFix = lastFixRef.current;
     try {
-      await insertAttendancePunchRecord({
+      const { punchID } = await insertAttendancePunchRecord({
         timestamp: selectedTime,
         orgID: '123',
         userID: userData?.email || '',
         punchType: 'CHECK',
         punchDirection: PUNCH_DIRECTIONS.out,
-        latLon: userLocationRegion
-          ? `${userLocationRegion.latitude?.toFixed(4)},${userLocationRegion.longitude?.toFixed(4)}`
-          : '',
+        latLon: toPunchLatLon(punchFix),
         address: currentAddress || '',
         createdOn: selectedTime,
         isSynced: 'N',
@@ -1037,6 +1217,14 @@ export default function CheckInScreen(): React.JSX.Element {
         CorrectionType: 'MANUAL_TIME',
         ManualCheckoutTime: selectedTime,
         LinkedEntryDate: linkedEntryDate || undefined,
+        ...toPunchGeofenceFields(evaluatePunchGeofence(punchFix)),
+        ...toPunchLocationRiskFields(evaluatePunchLocationRisk()),
+      });
+      await correctionService.submitCorrection({
+        punchId: punchID,
+        userId: userData?.email || '',
+        correctionType: 'MANUAL_TIME',
+        requestedTime: selectedTime,
       });
 
       // Navigate immediately
@@ -1051,14 +1239,43 @@ export default function CheckInScreen(): React.JSX.Element {
     }
   }, [
     userData?.email,
-    userData?.shiftStartTime,
-    userData?.shiftEndTime,
+    shiftRoster,
     userLastAttendance,
-    userLocationRegion,
     currentAddress,
     navigation,
+    evaluatePunchGeofence,
+    evaluatePunchLocationRisk,
   ]);
 
+  // Handler for "Select Checkout Time" after an auto-checkout - forgot checkout correction of its punch
+  const handleAutoCheckoutTime = useCallback(async (selectedTime: number): Promise<void> => {
+    setShowForgotCheckoutModal(false);
+
+    if (!autoCheckoutPunch?.PunchID || !userData?.email) {
+      return;
+    }
+
+    try {
+      await correctionService.submitCorrection({
+        punchId: autoCheckoutPunch.PunchID,
+        userId: userData.email,
+        correctionType: 'FORGOT_CHECKOUT',
+        reason: 'AUTO_CHECKOUT',
+        originalTime: Number(autoCheckoutPunch.Timestamp),
+        requestedTime: selectedTime,
+      });
+
+      navigation.dispatch(
+        CommonActions.reset({
+          index: 0,
+          routes: [{ name: 'DashboardScreen' }],
+        }),
+      );
+    } catch (error) {
+      logger.error('Error submitting auto-checkout correction', error);
+    }
+  }, [autoCheckoutPunch, userData?.email, navigation]);
+
   const buttonText = useMemo(() => {
     if (isFetchingLocation || isFetchingAddress) {
       return t('attendance.fetchingLocation') || 'Fetching Location...';
@@ -1219,6 +1436,14 @@ export default function CheckInScreen(): React.JSX.Element {
               {userLocationRegion?.longitude?.toFixed(4)}
             </AppText>
           )}
+          {!permissionDenied && !isFetchingLocation && geofenceMessage ? (
+            <AppText
+              style={styles.geofenceText}
+              color={displayedGeofence.status === 'INSIDE' ? '#62C268' : displayedGeofence.status === 'OUTSIDE' ? '#FF4444' : '#F5A623'}
+            >
+              {geofenceMessage}
+            </AppText>
+          ) : null}
         </View>
 
         <AppButton
@@ -1256,9 +1481,10 @@ export default function CheckInScreen(): React.JSX.Element {
         visible={showForgotCheckoutModal}
         onForgotCheckout={handleForgotCheckout}
         onCheckoutNow={handleCheckoutNow}
-        onManualTime={handleManualTime}
+        onManualTime={autoCheckoutPunch ? handleAutoCheckoutTime : handleManualTime}
         onCancel={() => setShowForgotCheckoutModal(false)}
-        shiftEndTime={userData?.shiftEndTime}
+        shiftEndTime={forgotCheckoutShiftEndTime}
+        autoCheckoutTime={autoCheckoutPunch ? Number(autoCheckoutPunch.Timestamp) : undefined}
       />
     </View>
   );
@@ -1297,6 +1523,10 @@ const styles = StyleSheet.create({
     lineHeight: hp(2.4),
     textAlign: 'left',
   },
+  geofenceText: {
+    fontSize: hp(1.6),
+    marginTop: hp(0.5),
+  },
   checkInButton: {
     width: '100%',
     alignSelf: 'center',
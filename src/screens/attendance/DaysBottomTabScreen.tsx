@@ -13,6 +13,9 @@ import { useTranslation } from '../../hooks/useTranslation';
 import { DarkThemeColors, APP_THEMES } from '../../themes';
 import { groupAttendanceByDate } from '../../services/attendance/attendance-grouping-service';
 import { fillMissingDatesInMonth } from '../../services/attendance/attendance-utils';
+import { calendarService, EMPTY_CALENDAR, type AttendanceCalendar } from '../../services/attendance/calendar-service';
+import type { CalendarDayStatus } from '../../services/attendance/attendance-status-service';
+import { getShiftForDate, getShiftRoster } from '../../utils/shift-roster-utils';
 import { getAttendanceData } from '../../services/attendance/attendance-db-service';
 import { attendanceSyncService } from '../../services/sync/attendance-sync-service';
 import { logger } from '../../services/logger';
@@ -27,7 +30,8 @@ interface GroupedAttendance {
     Address?: string;
     DateOfPunch?: string;
   }>;
-  attendanceStatus?: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT';
+  attendanceStatus?: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' | CalendarDayStatus;
+  calendarLabel?: string | null;
   totalDuration?: string;
   breakDuration?: string;
   workedHours?: number;
@@ -54,6 +58,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<moment.Moment>(moment.utc());
   const [refreshing, setRefreshing] = useState(false);
+  const [calendar, setCalendar] = useState<AttendanceCalendar>(EMPTY_CALENDAR);
 
   // Calculate header height: safe area top + padding + content height (UserImage ~10% width)
   const headerHeight = useMemo(() => {
@@ -76,16 +81,23 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
         return;
       }
 
+      const calendarMonth = month || moment.utc();
+
       // STEP 1: Load from DB → Update Redux (FAST - immediate UI update)
       await getAttendanceData(email);
+      setCalendar(await calendarService.getMonthCalendar(email, calendarMonth));
       logger.debug('[DaysTab] Loaded from DB and updated Redux');
 
       // STEP 2: Sync from server → Update DB (SLOWER - network)
       await attendanceSyncService.syncAttendanceFromServer(email, month);
+      const calendarRefreshed = await calendarService.refreshMonthCalendar(email, calendarMonth);
       logger.debug('[DaysTab] Synced from server and updated DB');
 
       // STEP 3: Load from DB again → Update Redux (show synced data)
       await getAttendanceData(email);
+      if (calendarRefreshed) {
+        setCalendar(await calendarService.getMonthCalendar(email, calendarMonth));
+      }
       logger.debug('[DaysTab] Reloaded from DB and updated Redux with synced data');
     } catch (err: any) {
       logger.error('[DaysTab] Error loading attendance data', err);
@@ -123,13 +135,16 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
   // 🔧 FIX: Combined attendanceData + groupedAttendance into single useMemo
   // to eliminate intermediate render cycles that cause "0s" flashing
   const groupedAttendance = useMemo<GroupedAttendance[]>(() => {
-    // Early return if no data - fill with ABSENT entries for selected month
+    const shiftRoster = getShiftRoster(userData);
+
+    // Early return if no data - fill with ABSENT entries for selected month (or the calendar's non-working days)
     if (!userAttendanceHistory || userAttendanceHistory.length === 0) {
-      const filledData = fillMissingDatesInMonth([], selectedMonth);
+      const filledData = fillMissingDatesInMonth([], selectedMonth, calendar, shiftRoster);
       return filledData.map((day) => ({
         date: day.dateOfPunch,
         records: [],
         attendanceStatus: day.attendanceStatus,
+        calendarLabel: day.calendarLabel,
         totalDuration: day.totalDuration,
         breakDuration: day.breakDuration,
         workedHours: day.workedHours,
@@ -138,7 +153,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
     }
 
     // Group and transform records from database
-    const attendanceData = groupAttendanceByDate(userAttendanceHistory);
+    const attendanceData = groupAttendanceByDate(userAttendanceHistory, shiftRoster);
 
     // Use UTC for month comparisons (selectedMonth is already UTC)
     const monthStart = selectedMonth.clone().startOf('month');
@@ -150,8 +165,8 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
       return dayDate.isSameOrAfter(monthStart) && dayDate.isSameOrBefore(monthEnd);
     });
 
-    // Fill missing dates in the month with ABSENT entries
-    const filledData = fillMissingDatesInMonth(filtered, selectedMonth);
+    // Fill missing dates in the month with ABSENT entries (holidays, weekly offs and leaves from the calendar)
+    const filledData = fillMissingDatesInMonth(filtered, selectedMonth, calendar, shiftRoster);
 
     // Create a map of original records by date for efficient lookup (computed once per useMemo execution)
     const recordsByDateMap = new Map<string, typeof userAttendanceHistory>();
@@ -189,6 +204,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
           DateOfPunch: record.DateOfPunch,
         })),
         attendanceStatus: day.attendanceStatus,
+        calendarLabel: day.calendarLabel,
         totalDuration: day.totalDuration,
         breakDuration: day.breakDuration,
         workedHours: day.workedHours,
@@ -200,7 +216,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
         linkedEntryDate,
       };
     });
-  }, [userAttendanceHistory, selectedMonth]);
+  }, [userAttendanceHistory, selectedMonth, userData, calendar]);
 
   const handleDayItemPress = useCallback((item: GroupedAttendance) => {
     logger.debug('[DaysTab] Opening modal', {
@@ -239,6 +255,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
         records={item.records}
         onDetailPress={() => handleDayItemPress(item)}
         attendanceStatus={item.attendanceStatus}
+        calendarLabel={item.calendarLabel}
         totalDuration={item.totalDuration}
         breakDuration={item.breakDuration}
         workedHours={item.workedHours}
@@ -408,6 +425,7 @@ export default function DaysBottomTabScreen(): React.JSX.Element {
           visible={showDetailModal}
           date={selectedDay.date}
           records={selectedDay.records || []}
+          breakAllowance={getShiftForDate(getShiftRoster(userData), selectedDay.date).breakAllowance}
           onClose={() => {
             setShowDetailModal(false);
             setSelectedDay(null);
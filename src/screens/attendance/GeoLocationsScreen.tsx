@@ -16,6 +16,7 @@ import { getAttendanceData, getAllAttendanceRecords } from '../../services/atten
 import { getDaysAttendance } from '../../services/attendance/attendance-service';
 import { DarkThemeColors, LightThemeColors, APP_THEMES } from '../../themes';
 import { logger } from '../../services/logger';
+import { getGeofenceAreaName } from '../../services/location/geofence-service';
 
 type GeoLocationsRouteParams = {
   filterToday?: boolean;
@@ -176,12 +177,29 @@ export default function GeoLocationsScreen(): React.JSX.Element {
     }
   }, []);
 
+  /** Which office/site the punch matched (recorded at punch time) */
+  const getGeofenceLabel = useCallback((item: AttendanceRecord): string | null => {
+    if (!item.GeofenceStatus || item.GeofenceStatus === 'NOT_CONFIGURED') return null;
+    if (item.GeofenceStatus === 'INSIDE' && item.GeofenceID) {
+      const area = getGeofenceAreaName(item.GeofenceID, userData?.allowedGeofenceAreas);
+      return t('attendance.geofence.matched', { area, defaultValue: `Matched: ${area}` });
+    }
+    if (item.GeofenceStatus === 'OUTSIDE' && item.GeofenceDistance != null) {
+      return t('attendance.geofence.unmatched', {
+        distance: item.GeofenceDistance,
+        defaultValue: `Outside work locations (${item.GeofenceDistance} m away)`,
+      });
+    }
+    return t('attendance.geofence.unverified', 'Work location not verified');
+  }, [userData?.allowedGeofenceAreas, t]);
+
   /** Render location item */
   const renderLocationItem = useCallback(
     ({ item }: { item: AttendanceRecord }) => {
       // Timestamp is in UTC - convert to local time for display
       const formattedTime = formatUTCForDisplay(item.Timestamp, 'hh:mm A');
       const formattedDate = formatUTCForDisplay(item.Timestamp, 'ddd, DD MMM YY');
+      const geofenceLabel = getGeofenceLabel(item);
       
       return (
         <TouchableOpacity
@@ -212,11 +230,20 @@ export default function GeoLocationsScreen(): React.JSX.Element {
             <AppText size={hp(1.6)} style={styles.coordinatesText}>
               {item.LatLon}
             </AppText>
+            {geofenceLabel && (
+              <AppText
+                size={hp(1.6)}
+                color={item.GeofenceStatus === 'INSIDE' ? '#62C268' : '#F5A623'}
+                style={styles.geofenceText}
+              >
+                {geofenceLabel}
+              </AppText>
+            )}
           </View>
         </TouchableOpacity>
       );
     },
-    [openInMaps]
+    [openInMaps, getGeofenceLabel]
   );
 
   return (
@@ -315,7 +342,7 @@ export default function GeoLocationsScreen(): React.JSX.Element {
       <FlatList
         data={locationRecords}
         renderItem={renderLocationItem}
-        keyExtractor={(item) => String(item.Timestamp)}
+        keyExtractor={(item) => item.PunchID || String(item.Timestamp)}
         contentContainerStyle={styles.container}
         showsVerticalScrollIndicator={false}
         removeClippedSubviews
@@ -629,6 +656,9 @@ const styles = StyleSheet.create({
     opacity: 0.6,
     fontFamily: 'monospace',
   },
+  geofenceText: {
+    marginTop: hp(0.5),
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -0,0 +1,298 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert, ScrollView } from 'react-native';
+import { useFocusEffect, useNavigation, useTheme } from '@react-navigation/native';
+import moment from 'moment';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import { AppButton, AppContainer, AppText, BackHeader } from '../../components';
+import { useAppSelector } from '../../redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import { wp, hp, FontTypes } from '../../constants';
+import {
+  leaveService,
+  type Leave,
+  type LeaveBalance,
+  type LeaveStatus,
+} from '../../services/attendance/leave-service';
+import { syncCoordinator } from '../../services/sync/sync-coordinator';
+import { DarkThemeColors } from '../../themes';
+import { logger } from '../../services/logger';
+import { NavigationProp } from '../../types/navigation';
+
+const STATUS_COLORS: Record<LeaveStatus, string> = {
+  pending: '#F5A623',
+  approved: DarkThemeColors.primary,
+  rejected: DarkThemeColors.red,
+  cancelled: DarkThemeColors.checked_out_indicator,
+};
+
+const formatLeaveDate = (date: string): string => moment.utc(date, 'YYYY-MM-DD').format('ddd, DD MMM YY');
+
+export default function LeavesScreen(): React.JSX.Element {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const navigation = useNavigation<NavigationProp>();
+  const { userData } = useAppSelector(state => state.userState);
+  const [leaves, setLeaves] = useState<Leave[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadLeaves = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    try {
+      setLeaves(await leaveService.getMyLeaves(userData.email));
+      setBalances(await leaveService.getBalances(userData.email));
+    } catch (error) {
+      logger.error('[Leaves] Error loading leaves', error);
+    }
+  }, [userData?.email]);
+
+  const refreshLeaves = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    setLeaves(await leaveService.refreshMyLeaves(userData.email));
+    setBalances(await leaveService.refreshBalances(userData.email));
+  }, [userData?.email]);
+
+  // Show local leaves right away, then pick up decisions and balances from the server
+  useFocusEffect(
+    useCallback(() => {
+      loadLeaves().then(refreshLeaves);
+    }, [loadLeaves, refreshLeaves])
+  );
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    setRefreshing(true);
+    await refreshLeaves();
+    setRefreshing(false);
+  }, [refreshLeaves]);
+
+  const onCancelPress = useCallback((leave: Leave) => {
+    Alert.alert(
+      t('leaves.cancelTitle', 'Cancel leave?'),
+      t('leaves.cancelMessage', 'Your manager will no longer see this application.'),
+      [
+        { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+        {
+          text: t('leaves.cancelLeave', 'Cancel leave'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveService.cancelLeave(leave.leaveId);
+            } catch (error) {
+              logger.error('[Leaves] Error cancelling leave', error);
+            }
+            await loadLeaves();
+            if (userData?.email) {
+              syncCoordinator.processSyncQueue(userData.email);
+            }
+          },
+        },
+      ],
+    );
+  }, [t, loadLeaves, userData?.email]);
+
+  const renderLeaveItem = useCallback(
+    ({ item }: { item: Leave }) => {
+      const statusColor = STATUS_COLORS[item.status];
+      return (
+        <View style={[styles.leaveCard, { backgroundColor: DarkThemeColors.black + '40' }]}>
+          <View style={styles.leaveHeader}>
+            <AppText size={hp(2)} fontType={FontTypes.medium} color={colors.text} style={styles.leaveTitle}>
+              {t(`leaves.type.${item.leaveType}`, item.leaveType)}
+            </AppText>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '30' }]}>
+              <AppText size={hp(1.5)} color={statusColor}>
+                {t(`leaves.status.${item.status}`, item.status)}
+              </AppText>
+            </View>
+          </View>
+
+          <AppText size={hp(1.8)} color={colors.text} style={styles.detailText}>
+            {item.startDate === item.endDate
+              ? formatLeaveDate(item.startDate)
+              : `${formatLeaveDate(item.startDate)} - ${formatLeaveDate(item.endDate)}`}
+          </AppText>
+          <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+            {item.halfDaySession
+              ? t(`leaves.session.${item.halfDaySession}`, item.halfDaySession)
+              : t('leaves.days', { count: item.days ?? 0, defaultValue: `${item.days ?? 0} day(s)` })}
+          </AppText>
+          {!!item.reason && (
+            <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+              {item.reason}
+            </AppText>
+          )}
+          {item.submittedAt != null && (
+            <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+              {t('leaves.submittedAt', 'Applied')}: {formatUTCForDisplay(item.submittedAt, 'DD MMM YY hh:mm A')}
+            </AppText>
+          )}
+
+          {!!item.reviewerComment && (
+            <View style={styles.commentContainer}>
+              <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+                {t('leaves.comment', 'Manager comment')}
+              </AppText>
+              <AppText size={hp(1.8)} color={colors.text}>
+                {item.reviewerComment}
+              </AppText>
+            </View>
+          )}
+
+          <View style={styles.leaveFooter}>
+            {!item.isSynced ? (
+              <AppText size={hp(1.5)} color={colors.text} style={styles.secondaryText}>
+                {t('leaves.waitingToSend', 'Waiting to send')}
+              </AppText>
+            ) : (
+              <View />
+            )}
+            {item.status === 'pending' && (
+              <TouchableOpacity style={styles.cancelButton} onPress={() => onCancelPress(item)}>
+                <AppText size={hp(1.7)} color={DarkThemeColors.red}>
+                  {t('leaves.cancelLeave', 'Cancel leave')}
+                </AppText>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors.text, t, onCancelPress]
+  );
+
+  const renderBalances = (): React.JSX.Element | null => {
+    if (balances.length === 0) {
+      return null;
+    }
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.balanceRow}>
+        {balances.map((balance) => (
+          <View
+            key={balance.leaveType}
+            style={[styles.balanceCard, { backgroundColor: DarkThemeColors.black + '40' }]}
+          >
+            <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+              {balance.name || t(`leaves.type.${balance.leaveType}`, balance.leaveType)}
+            </AppText>
+            <AppText size={hp(2.6)} fontType={FontTypes.medium} color={colors.text}>
+              {balance.available ?? '-'}
+            </AppText>
+            {balance.total != null && (
+              <AppText size={hp(1.4)} color={colors.text} style={styles.secondaryText}>
+                {t('leaves.ofTotal', { total: balance.total, defaultValue: `of ${balance.total}` })}
+              </AppText>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <AppContainer>
+      <BackHeader title={t('profile.leaves', 'Leaves')} isTitleVisible={true} />
+      <FlatList
+        data={leaves}
+        renderItem={renderLeaveItem}
+        keyExtractor={(item) => item.leaveId}
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={renderBalances()}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary || DarkThemeColors.primary}
+            colors={[colors.primary || DarkThemeColors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <AppText size={hp(2)} color={colors.text}>
+              {t('leaves.noLeaves', 'No leave applications yet')}
+            </AppText>
+          </View>
+        }
+      />
+      <View style={styles.applyContainer}>
+        <AppButton
+          title={t('leaves.apply', 'Apply for leave')}
+          onPress={() => navigation.navigate('ApplyLeaveScreen')}
+        />
+      </View>
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(1),
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  balanceRow: {
+    paddingVertical: hp(1),
+    gap: wp(3),
+  },
+  balanceCard: {
+    minWidth: wp(26),
+    padding: hp(1.5),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+  },
+  leaveCard: {
+    padding: hp(2),
+    marginVertical: hp(1),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+  },
+  leaveHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: hp(1),
+  },
+  leaveTitle: {
+    flex: 1,
+    marginRight: wp(2),
+  },
+  statusBadge: {
+    paddingVertical: hp(0.4),
+    paddingHorizontal: wp(2.5),
+    borderRadius: wp(3),
+  },
+  detailText: {
+    marginBottom: hp(0.5),
+  },
+  secondaryText: {
+    opacity: 0.7,
+    marginBottom: hp(0.5),
+  },
+  commentContainer: {
+    marginTop: hp(1),
+    paddingTop: hp(1),
+    borderTopWidth: 1,
+    borderTopColor: DarkThemeColors.white_common + '10',
+  },
+  leaveFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: hp(1),
+  },
+  cancelButton: {
+    paddingVertical: hp(0.5),
+    paddingLeft: wp(3),
+  },
+  applyContainer: {
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(1.5),
+  },
+});
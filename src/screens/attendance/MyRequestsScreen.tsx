@@ -0,0 +1,231 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert } from 'react-native';
+import { useFocusEffect, useTheme } from '@react-navigation/native';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import { AppContainer, AppText, BackHeader } from '../../components';
+import { useAppSelector } from '../../redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import { wp, hp, FontTypes } from '../../constants';
+import {
+  correctionService,
+  type CorrectionRequest,
+  type CorrectionRequestStatus,
+} from '../../services/attendance/correction-service';
+import { DarkThemeColors } from '../../themes';
+import { logger } from '../../services/logger';
+
+const STATUS_COLORS: Record<CorrectionRequestStatus, string> = {
+  pending: '#F5A623',
+  approved: DarkThemeColors.primary,
+  rejected: DarkThemeColors.red,
+  withdrawn: DarkThemeColors.checked_out_indicator,
+};
+
+export default function MyRequestsScreen(): React.JSX.Element {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { userData } = useAppSelector(state => state.userState);
+  const [requests, setRequests] = useState<CorrectionRequest[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadRequests = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    try {
+      setRequests(await correctionService.getMyRequests(userData.email));
+    } catch (error) {
+      logger.error('[MyRequests] Error loading requests', error);
+    }
+  }, [userData?.email]);
+
+  // Show local requests right away, then pick up decisions from the server
+  useFocusEffect(
+    useCallback(() => {
+      loadRequests();
+      if (userData?.email) {
+        correctionService.refreshMyRequests(userData.email).then(setRequests);
+      }
+    }, [loadRequests, userData?.email])
+  );
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    setRefreshing(true);
+    setRequests(await correctionService.refreshMyRequests(userData.email));
+    setRefreshing(false);
+  }, [userData?.email]);
+
+  const onWithdrawPress = useCallback((request: CorrectionRequest) => {
+    Alert.alert(
+      t('corrections.withdrawTitle', 'Withdraw request?'),
+      t('corrections.withdrawMessage', 'Your manager will no longer see this request.'),
+      [
+        { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+        {
+          text: t('corrections.withdraw', 'Withdraw'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await correctionService.withdrawCorrection(request.requestId);
+            } catch (error) {
+              logger.error('[MyRequests] Error withdrawing request', error);
+            }
+            await loadRequests();
+          },
+        },
+      ],
+    );
+  }, [t, loadRequests]);
+
+  const renderRequestItem = useCallback(
+    ({ item }: { item: CorrectionRequest }) => {
+      const statusColor = STATUS_COLORS[item.status];
+      return (
+        <View style={[styles.requestCard, { backgroundColor: DarkThemeColors.black + '40' }]}>
+          <View style={styles.requestHeader}>
+            <AppText size={hp(2)} fontType={FontTypes.medium} color={colors.text} style={styles.requestTitle}>
+              {item.correctionType === 'FORGOT_CHECKOUT'
+                ? t('corrections.type.forgotCheckout', 'Forgot checkout')
+                : t('corrections.type.manualTime', 'Manual checkout time')}
+            </AppText>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '30' }]}>
+              <AppText size={hp(1.5)} color={statusColor}>
+                {t(`corrections.status.${item.status}`, item.status)}
+              </AppText>
+            </View>
+          </View>
+
+          <AppText size={hp(1.8)} color={colors.text} style={styles.detailText}>
+            {t('corrections.requestedTime', 'Requested checkout')}:{' '}
+            {formatUTCForDisplay(item.requestedTime, 'ddd, DD MMM YY hh:mm A')}
+          </AppText>
+          {item.originalTime != null && (
+            <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+              {t('corrections.originalTime', 'Recorded at')}:{' '}
+              {formatUTCForDisplay(item.originalTime, 'ddd, DD MMM YY hh:mm A')}
+            </AppText>
+          )}
+          <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+            {t('corrections.submittedAt', 'Submitted')}: {formatUTCForDisplay(item.submittedAt, 'DD MMM YY hh:mm A')}
+          </AppText>
+
+          {!!item.reviewerComment && (
+            <View style={styles.commentContainer}>
+              <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+                {item.reviewedBy
+                  ? t('corrections.commentBy', { name: item.reviewedBy, defaultValue: `Comment from ${item.reviewedBy}` })
+                  : t('corrections.comment', 'Manager comment')}
+              </AppText>
+              <AppText size={hp(1.8)} color={colors.text}>
+                {item.reviewerComment}
+              </AppText>
+            </View>
+          )}
+
+          <View style={styles.requestFooter}>
+            {!item.isSynced ? (
+              <AppText size={hp(1.5)} color={colors.text} style={styles.secondaryText}>
+                {t('corrections.waitingToSend', 'Waiting to send')}
+              </AppText>
+            ) : (
+              <View />
+            )}
+            {item.status === 'pending' && (
+              <TouchableOpacity style={styles.withdrawButton} onPress={() => onWithdrawPress(item)}>
+                <AppText size={hp(1.7)} color={DarkThemeColors.red}>
+                  {t('corrections.withdraw', 'Withdraw')}
+                </AppText>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors.text, t, onWithdrawPress]
+  );
+
+  return (
+    <AppContainer>
+      <BackHeader title={t('profile.myRequests', 'My Requests')} isTitleVisible={true} />
+      <FlatList
+        data={requests}
+        renderItem={renderRequestItem}
+        keyExtractor={(item) => item.requestId}
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary || DarkThemeColors.primary}
+            colors={[colors.primary || DarkThemeColors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <AppText size={hp(2)} color={colors.text}>
+              {t('corrections.noRequests', 'No correction requests yet')}
+            </AppText>
+          </View>
+        }
+      />
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(1),
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  requestCard: {
+    padding: hp(2),
+    marginVertical: hp(1),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: hp(1),
+  },
+  requestTitle: {
+    flex: 1,
+    marginRight: wp(2),
+  },
+  statusBadge: {
+    paddingVertical: hp(0.4),
+    paddingHorizontal: wp(2.5),
+    borderRadius: wp(3),
+  },
+  detailText: {
+    marginBottom: hp(0.5),
+  },
+  secondaryText: {
+    opacity: 0.7,
+    marginBottom: hp(0.5),
+  },
+  commentContainer: {
+    marginTop: hp(1),
+    paddingTop: hp(1),
+    borderTopWidth: 1,
+    borderTopColor: DarkThemeColors.white_common + '10',
+  },
+  requestFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: hp(1),
+  },
+  withdrawButton: {
+    paddingVertical: hp(0.5),
+    paddingLeft: wp(3),
+  },
+});
@@ -31,7 +31,7 @@ import { FontTypes, hp, wp, Images } from '../../constants';
 import { useAppDispatch, useAppSelector } from '../../redux';
 import { DarkThemeColors, LightThemeColors } from '../../themes';
 import { verifyLoginOTP, resendOTP } from '../../services/auth/otp-service';
-import { storeJWTToken } from '../../services/auth/login-service';
+import { claimLocalDatabase, storeJWTToken } from '../../services/auth/login-service';
 import {
   setJWTToken,
   setExpiresAt,
@@ -277,6 +277,8 @@ const LoginOtpScreen: React.FC<LoginOtpScreenProps> = ({ route }) => {
           logger.warn('OTP verification response missing refreshToken');
         }
 
+        // A database kept for another user's unsynced changes is not this user's
+        await claimLocalDatabase(verifyResponse.email || emailID);
         // Store user data
         dispatch(
           setUserData({
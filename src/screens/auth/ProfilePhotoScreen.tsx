@@ -15,7 +15,7 @@ import { hp, wp, FontTypes, Images } from '../../constants';
 import { useTranslation } from '../../hooks/useTranslation';
 import { useAppDispatch, useAppSelector, setUserData, setFirstTimeLoginData, setJWTToken, setExpiresAt } from '../../redux';
 import { submitFirstTimeLogin } from '../../services/auth/first-time-login-service';
-import { storeJWTToken } from '../../services/auth/login-service';
+import { claimLocalDatabase, storeJWTToken } from '../../services/auth/login-service';
 import { updateProfile } from '../../services';
 import { profileSyncService } from '../../services/sync/profile-sync-service';
 import { logger } from '../../services/logger';
@@ -216,6 +216,8 @@ export default function ProfilePhotoScreen(): React.JSX.Element {
         userDataToStore.profilePhotoUrl = profilePhoto;
       }
 
+      // A database kept for another user's unsynced changes is not this user's
+      await claimLocalDatabase(userDataToStore.email);
       dispatch(setUserData(userDataToStore));
       
       // Clear temporary first-time login data
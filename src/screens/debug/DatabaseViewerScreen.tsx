@@ -30,7 +30,7 @@ export default function DatabaseViewerScreen(): React.JSX.Element {
   const [data, setData] = useState<DatabaseView | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [selectedTab, setSelectedTab] = useState<'stats' | 'attendance' | 'profile' | 'settings' | 'syncQueue' | 'pending'>('stats');
+  const [selectedTab, setSelectedTab] = useState<'stats' | 'attendance' | 'profile' | 'settings' | 'syncQueue' | 'conflicts' | 'pending'>('stats');
 
   const loadData = useCallback(async () => {
     try {
@@ -337,6 +337,15 @@ export default function DatabaseViewerScreen(): React.JSX.Element {
             </AppText>
           </View>
           
+          <View style={styles.statRow}>
+            <AppText style={styles.statLabel} color={colors.text}>
+              ⚔️ Sync Conflicts (Logged):
+            </AppText>
+            <AppText style={styles.statValue} color={colors.text}>
+              {data.stats.syncConflictCount}
+            </AppText>
+          </View>
+          
           <View style={[styles.statRow, { marginTop: hp(1), paddingTop: hp(1), borderTopWidth: 1, borderTopColor: '#E0E0E0' }]}>
             <AppText style={styles.statLabel} color={colors.text || themeColors.text} fontType={FontTypes.bold}>
               Total Pending Sync:
@@ -970,6 +979,64 @@ export default function DatabaseViewerScreen(): React.JSX.Element {
     );
   };
 
+  /**
+   * Conflict log: fields where the server copy and the local copy disagreed during a merge
+   */
+  const renderConflictLog = () => {
+    if (!data) return null;
+
+    return (
+      <View style={styles.section}>
+        <AppText size={hp(2)} fontType={FontTypes.bold} style={styles.sectionTitle}>
+          Sync Conflicts ({data.stats.syncConflictCount} total)
+        </AppText>
+        <AppText size={hp(1.4)} color={colors.text} style={styles.badgeDescription}>
+          Server-authoritative fields (approval / correction state) always take the server value. Other
+          fields of unsynced records keep the local value until it is pushed.
+        </AppText>
+        {data.syncConflicts.length > 0 ? (
+          data.syncConflicts.map((conflict) => {
+            const serverWins = conflict.resolution === 'server_wins';
+            const resolutionColor = serverWins ? '#4ECDC4' : '#FFA500';
+            return (
+              <View
+                key={`conflict-${conflict.id}`}
+                style={[
+                  styles.card,
+                  styles.dataCard,
+                  styles.conflictCard,
+                  { backgroundColor: colors.card || themeColors.cardBg, borderColor: resolutionColor },
+                ]}
+              >
+                <View style={styles.syncStatusHeader}>
+                  <AppText size={hp(1.6)} fontType={FontTypes.bold} color={resolutionColor}>
+                    {serverWins ? '⬇️ SERVER WINS' : '📱 LOCAL KEPT'} - {conflict.field}
+                  </AppText>
+                  <AppText size={hp(1.3)} color={colors.text}>
+                    {conflict.entityType}: {conflict.entityId}
+                  </AppText>
+                  <AppText size={hp(1.3)} color={colors.text}>
+                    Logged: {formatDateTime(conflict.createdAt)}
+                  </AppText>
+                </View>
+                <AppText size={hp(1.4)} style={styles.jsonText} color={colors.text}>
+                  Local: {conflict.localValue ?? 'null'}
+                </AppText>
+                <AppText size={hp(1.4)} style={styles.jsonText} color={colors.text}>
+                  Server: {conflict.serverValue ?? 'null'}
+                </AppText>
+              </View>
+            );
+          })
+        ) : (
+          <View style={[styles.card, { backgroundColor: colors.card || themeColors.cardBg }]}>
+            <AppText color={colors.text}>✅ No conflicts logged</AppText>
+          </View>
+        )}
+      </View>
+    );
+  };
+
   const renderPendingSyncDetails = () => {
     if (!data) return null;
 
@@ -1372,6 +1439,8 @@ export default function DatabaseViewerScreen(): React.JSX.Element {
         return renderDataTable('Settings', data.settings);
       case 'syncQueue':
         return renderDataTable('Sync Queue', data.syncQueue);
+      case 'conflicts':
+        return renderConflictLog();
       case 'pending':
         return renderPendingSyncDetails();
       default:
@@ -1399,7 +1468,7 @@ export default function DatabaseViewerScreen(): React.JSX.Element {
       {/* Tabs */}
       <View style={[styles.tabContainer, { backgroundColor: colors.card || themeColors.cardBg }]}>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          {(['stats', 'pending', 'attendance', 'profile', 'settings', 'syncQueue'] as const).map((tab) => {
+          {(['stats', 'pending', 'attendance', 'profile', 'settings', 'syncQueue', 'conflicts'] as const).map((tab) => {
             const tabLabel = tab === 'pending' ? 'Pending Sync' : (tab === 'syncQueue' ? 'Sync Queue' : tab.charAt(0).toUpperCase() + tab.slice(1));
             // Show badge count for pending tab
             const pendingCount = data ? 
@@ -1552,6 +1621,9 @@ const styles = StyleSheet.create({
   unsyncedCard: {
     borderLeftWidth: 4,
   },
+  conflictCard: {
+    borderWidth: 2,
+  },
   syncedCard: {
     borderLeftWidth: 4,
   },
@@ -18,9 +18,10 @@ import {
   Alert,
   Linking,
   ActivityIndicator,
+  Modal,
 } from 'react-native';
 import MapView, { Marker } from 'react-native-maps';
-import { useFocusEffect, useTheme } from '@react-navigation/native';
+import { useFocusEffect, useNavigation, useTheme } from '@react-navigation/native';
 import {
   AppContainer,
   AppIconButton,
@@ -32,6 +33,7 @@ import {
   MyTeamListItem,
   UserImage,
   SyncStatusIndicator,
+  UnsyncedItemsList,
 } from '../../components';
 import {
   DEFAULT_REGION,
@@ -50,6 +52,10 @@ import {
   isUserOnBreak,
   scheduleBreakReminderNotifications,
   cancelBreakReminderNotifications,
+  getBreakReminderSetting,
+  shiftNotificationService,
+  autoCheckoutService,
+  getBreakType,
   getCurrentPositionOfUser,
   requestLocationPermission,
   checkAndRefreshSession,
@@ -58,8 +64,10 @@ import {
   registerDevice,
   getCurrentTimeAndZone,
   checkClockAccuracy,
+  teamRosterService,
+  type Team,
+  type TeamMember,
 } from '../../services';
-// import { needsAutoCheckoutByShiftEnd } from '../../utils/shift-utils'; // Commented out - auto-checkout disabled
 import {
   setDeviceRegistration,
   setTimeZoneData,
@@ -73,6 +81,7 @@ import {
   setSyncing,
   setLastSyncAt,
   setUnsyncedItems,
+  setSyncQueueItems,
 } from '../../redux/reducers/syncReducer';
 import { initializeDatabaseTables } from '../../services/database';
 import {
@@ -80,7 +89,11 @@ import {
 } from '../../utils/time-utils';
 import { getAttendanceData } from '../../services/attendance/attendance-db-service';
 import { getDaysAttendance } from '../../services/attendance/attendance-service';
+import { punchChainService } from '../../services/attendance/punch-chain-service';
 import { logger } from '../../services/logger';
+import { getPunchDirectionForStatus } from '../../utils/colleague-status-utils';
+import { getShiftForDate, getShiftRoster } from '../../utils/shift-roster-utils';
+import { NavigationProp } from '../../types/navigation';
 
 const COLLEAGUE_NUM_COLUMNS = 4;
 const TEAM_NUM_COLUMNS = 2;
@@ -93,18 +106,21 @@ const SECTION_LIST_LAYOUTS = {
 
 interface SectionData {
   title: string;
-  data: Array<{ dummy?: boolean }>;
+  data: GridItem[];
   layout: (typeof SECTION_LIST_LAYOUTS)[keyof typeof SECTION_LIST_LAYOUTS];
 }
 
 interface GridItem {
   dummy?: boolean;
+  colleague?: TeamMember;
+  team?: Team;
 }
 
 export default function HomeScreen(): React.JSX.Element {
   const { t } = useTranslation();
   const { colors } = useTheme();
   const dispatch = useAppDispatch();
+  const navigation = useNavigation<NavigationProp>();
   const mapRef = useRef<MapView>(null);
   const scrollY = useRef(new Animated.Value(0)).current;
 
@@ -125,16 +141,37 @@ export default function HomeScreen(): React.JSX.Element {
 
   const [refreshing, setRefreshing] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true); // Track initialization state
+  const [showUnsyncedItems, setShowUnsyncedItems] = useState(false);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [colleagues, setColleagues] = useState<TeamMember[]>([]);
+
+  // Load the cached team roster (colleagues + teams)
+  const loadRoster = useCallback(async () => {
+    const email = store.getState().userState?.userData?.email;
+    if (!email) return;
+    try {
+      const [rosterTeams, rosterColleagues] = await Promise.all([
+        teamRosterService.getTeams(email),
+        teamRosterService.getColleagues(email),
+      ]);
+      setTeams(rosterTeams);
+      setColleagues(rosterColleagues);
+    } catch (error) {
+      logger.error('[HomeScreen] Error loading team roster', error);
+    }
+  }, []);
 
   // Check if user is on break
   const isOnBreak = useMemo(() => {
     return isUserOnBreak(
       userLastAttendance?.AttendanceStatus,
       userLastAttendance?.PunchDirection,
+      userLastAttendance?.BreakType,
     );
   }, [
     userLastAttendance?.AttendanceStatus,
     userLastAttendance?.PunchDirection,
+    userLastAttendance?.BreakType,
   ]);
 
   // Get break status label
@@ -173,21 +210,40 @@ export default function HomeScreen(): React.JSX.Element {
     }
   }, [isOnBreak, userLastAttendance?.CreatedOn]);
 
-  // Set up notifications when user goes on break
+  // Set up notifications when user goes on break (timed from the break start, so reopening
+  // the app keeps the schedule), and cancel them once the break has ended
+  const breakType = userLastAttendance ? getBreakType(userLastAttendance) : null;
+  const breakStartTimestamp = userLastAttendance?.Timestamp;
+  const breakDate = userLastAttendance?.DateOfPunch;
   useEffect(() => {
-    if (isOnBreak && userLastAttendance?.AttendanceStatus) {
-      scheduleBreakReminderNotifications(userLastAttendance.AttendanceStatus);
+    if (isOnBreak && breakType && breakStartTimestamp) {
+      const breakAllowance = breakDate
+        ? getShiftForDate(getShiftRoster(userData), breakDate).breakAllowance
+        : null;
+      scheduleBreakReminderNotifications(
+        breakType,
+        Number(breakStartTimestamp),
+        getBreakReminderSetting(breakType, userData?.breakReminders, breakAllowance),
+      );
     } else {
       cancelBreakReminderNotifications();
     }
+  }, [isOnBreak, breakType, breakStartTimestamp, breakDate, userData]);
 
-    // Cleanup on unmount
-    return () => {
-      if (!isOnBreak) {
-        cancelBreakReminderNotifications();
-      }
-    };
-  }, [isOnBreak, userLastAttendance?.AttendanceStatus, userData?.shiftEndTime]);
+  // Shift start / end reminders and the auto-checkout notice follow the shift roster (profile sync) and the last punch
+  useEffect(() => {
+    shiftNotificationService.reschedule(userData, userLastAttendance);
+  }, [userData, userLastAttendance]);
+
+  // Check-ins left open past the shift end + buffer are checked out automatically while signed in
+  const signedInEmail = userData?.email;
+  useEffect(() => {
+    if (!signedInEmail) {
+      return;
+    }
+    autoCheckoutService.start();
+    return () => autoCheckoutService.stop();
+  }, [signedInEmail]);
 
   const barStyle = useMemo<StatusBar['props']['barStyle']>(
     () => (appTheme === APP_THEMES.dark ? 'light-content' : 'dark-content'),
@@ -274,7 +330,7 @@ export default function HomeScreen(): React.JSX.Element {
 
     if (!isSessionValid) {
       // Session expired and couldn't be refreshed, logout user
-      logoutUser().catch(error => {
+      logoutUser({ sessionExpired: true }).catch(error => {
         logger.error('Error during logout on home screen', error);
       });
     }
@@ -292,6 +348,7 @@ export default function HomeScreen(): React.JSX.Element {
           userID,
         );
         dispatch(setUnsyncedItems(unsyncedItems));
+        dispatch(setSyncQueueItems(await syncStatusService.getSyncQueueItems()));
 
         // Sync all unsynced items
         const result = await syncCoordinator.syncAll(email, userID);
@@ -305,6 +362,7 @@ export default function HomeScreen(): React.JSX.Element {
         const updatedUnsyncedItems =
           await syncStatusService.getAllUnsyncedItems(email, userID);
         dispatch(setUnsyncedItems(updatedUnsyncedItems));
+        dispatch(setSyncQueueItems(await syncStatusService.getSyncQueueItems()));
       } catch (error) {
         logger.error('Error syncing unsynced items', error);
       } finally {
@@ -332,7 +390,7 @@ export default function HomeScreen(): React.JSX.Element {
     checkAndRefreshSession(expiresAt, 30).then(isSessionValid => {
       if (!isSessionValid) {
         // Session expired and couldn't be refreshed, logout user
-        logoutUser().catch(error => {
+        logoutUser({ sessionExpired: true }).catch(error => {
           logger.error('Error during logout on home screen', error);
         });
       }
@@ -379,6 +437,9 @@ export default function HomeScreen(): React.JSX.Element {
           // Continue even if attendance load fails
         }
 
+        // Check the punches not synced yet were not altered or removed (breaks are reported)
+        punchChainService.verifyChain(email);
+
         // Mark as initialized for this email
         lastInitializedEmailRef.current = email;
 
@@ -396,6 +457,14 @@ export default function HomeScreen(): React.JSX.Element {
         profileSyncService.syncProfileFromServer(email).catch(error => {
           logger.error('Error pulling profile from server', error);
         });
+
+        // Show the cached team roster, then pull colleagues' status from server
+        loadRoster();
+        teamRosterService.refreshRoster(email).then(refreshed => {
+          if (refreshed) {
+            loadRoster();
+          }
+        });
       } catch (error) {
         logger.error('Error initializing and loading profile', error);
         // Even if profile loading failed, mark database as initialized
@@ -620,6 +689,20 @@ export default function HomeScreen(): React.JSX.Element {
     }, [updateCurrentLocation]), // Removed userData?.email to prevent infinite loop - email is captured inside
   );
 
+  // Show the cached roster on focus, then refresh colleagues' status from the server
+  useFocusEffect(
+    useCallback(() => {
+      const email = userData?.email;
+      if (!email || !databaseInitializedRef.current) return;
+      loadRoster();
+      teamRosterService.refreshRoster(email).then(refreshed => {
+        if (refreshed) {
+          loadRoster();
+        }
+      });
+    }, [userData?.email, loadRoster]),
+  );
+
   // 7. Animate map to current location when it's updated
   useEffect(() => {
     if (currentLocation && mapRef.current) {
@@ -707,6 +790,9 @@ export default function HomeScreen(): React.JSX.Element {
       await syncUnsyncedItems(email, userID);
     }
 
+    // Roster was pulled by the sync above
+    await loadRoster();
+
     setRefreshing(false);
   }, [
     updateCurrentLocation,
@@ -714,6 +800,7 @@ export default function HomeScreen(): React.JSX.Element {
     syncUnsyncedItems,
     dispatch,
     checkSessionExpiration,
+    loadRoster,
   ]);
 
   // ============================================================================
@@ -766,16 +853,21 @@ export default function HomeScreen(): React.JSX.Element {
     () => [
       {
         title: t('home.colleagues'),
-        data: Array(4).fill({ dummy: true }) as GridItem[],
+        // Placeholders until the roster has been pulled
+        data: colleagues.length
+          ? colleagues.map(colleague => ({ colleague }))
+          : (Array(4).fill({ dummy: true }) as GridItem[]),
         layout: SECTION_LIST_LAYOUTS.colleagues,
       },
       {
         title: t('home.teams'),
-        data: Array(2).fill({ dummy: true }) as GridItem[],
+        data: teams.length
+          ? teams.map(team => ({ team }))
+          : (Array(2).fill({ dummy: true }) as GridItem[]),
         layout: SECTION_LIST_LAYOUTS.teams,
       },
     ],
-    [t],
+    [t, colleagues, teams],
   );
 
   const renderGridSection = useCallback(
@@ -788,30 +880,59 @@ export default function HomeScreen(): React.JSX.Element {
       <FlatList
         data={data}
         numColumns={numColumns}
-        keyExtractor={(_, index) => `grid-${layout}-${index}`}
+        keyExtractor={(item, index) =>
+          item.colleague?.userId || item.team?.teamId || `grid-${layout}-${index}`
+        }
         scrollEnabled={false}
         removeClippedSubviews
         windowSize={5}
         initialNumToRender={numColumns}
         maxToRenderPerBatch={numColumns}
-        renderItem={({ item, index }) => {
+        renderItem={({ item }) => {
           if (layout === SECTION_LIST_LAYOUTS.colleagues) {
+            const colleague = item.colleague;
             return (
               <View style={itemStyle}>
                 <UserImage
                   size={hp(5.7)}
-                  isClickable={!item?.dummy}
-                  isDummy={item?.dummy || false}
-                  isAttendanceStatusVisible={!item?.dummy}
+                  isClickable={!!colleague}
+                  isDummy={!colleague}
+                  isAttendanceStatusVisible={!!colleague}
+                  userName={colleague?.name || colleague?.userId}
+                  source={colleague?.photoUrl ? { uri: colleague.photoUrl } : null}
+                  punchDirection={colleague ? getPunchDirectionForStatus(colleague.status) : undefined}
+                  onPress={() =>
+                    colleague &&
+                    navigation.navigate('ColleagueDetailScreen', { userId: colleague.userId })
+                  }
                 />
+                {!!colleague && (
+                  <AppText size={hp(1.4)} numberOfLines={1} style={styles.colleagueName}>
+                    {colleague.name || colleague.userId}
+                  </AppText>
+                )}
               </View>
             );
           }
           if (layout === SECTION_LIST_LAYOUTS.teams) {
+            const team = item.team;
             return (
               <MyTeamListItem
-                teamName={`My Team ${index + 1}`}
-                isDummy={item?.dummy || false}
+                teamName={team?.name}
+                subtitle={
+                  team
+                    ? t('team.checkedInCount', {
+                        checkedIn: team.checkedInCount,
+                        total: team.memberCount,
+                        defaultValue: `${team.checkedInCount}/${team.memberCount} checked in`,
+                      })
+                    : undefined
+                }
+                isDummy={!team}
+                onPress={() =>
+                  team &&
+                  navigation.navigate('TeamDetailScreen', { teamId: team.teamId, teamName: team.name })
+                }
               />
             );
           }
@@ -819,7 +940,7 @@ export default function HomeScreen(): React.JSX.Element {
         }}
       />
     ),
-    [],
+    [navigation, t],
   );
 
   const renderItem = useCallback(
@@ -1062,9 +1183,19 @@ export default function HomeScreen(): React.JSX.Element {
 
       {/* Sync Status Indicator */}
       <View style={styles.syncIndicatorContainer}>
-        <SyncStatusIndicator />
+        <SyncStatusIndicator onPress={() => setShowUnsyncedItems(true)} />
       </View>
 
+      {/* Unsynced items with retry / discard / export actions */}
+      <Modal
+        visible={showUnsyncedItems}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowUnsyncedItems(false)}
+      >
+        <UnsyncedItemsList onClose={() => setShowUnsyncedItems(false)} />
+      </Modal>
+
       {/* Loading Overlay - Show while initializing database and loading data */}
       {isInitializing && (
         <View style={styles.loadingOverlay}>
@@ -1116,6 +1247,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  colleagueName: {
+    marginTop: hp(0.5),
+    maxWidth: wp(20),
+  },
   teamItem: {
     flex: 1,
     height: hp(11.11),
@@ -3,9 +3,13 @@ import AadhaarOtpScreen from './aadhaar/AadhaarOtpScreen';
 import PanCardCaptureScreen from './aadhaar/PanCardCaptureScreen';
 import AttendanceLogsScreen from './attendance/AttendanceLogsScreen';
 import GeoLocationsScreen from './attendance/GeoLocationsScreen';
+import MyRequestsScreen from './attendance/MyRequestsScreen';
+import LeavesScreen from './attendance/LeavesScreen';
+import ApplyLeaveScreen from './attendance/ApplyLeaveScreen';
 import ChangePasswordScreen from './auth/ChangePasswordScreen';
 import CheckInScreen from './attendance/CheckInScreen';
 import DaysBottomTabScreen from './attendance/DaysBottomTabScreen';
+import ApprovalsBottomTabScreen from './attendance/ApprovalsBottomTabScreen';
 import ForgotPasswordScreen from './auth/ForgotPasswordScreen';
 import HomeScreen from './home/HomeScreen';
 import FirstTimeLoginScreen from './auth/FirstTimeLoginScreen';
@@ -18,6 +22,8 @@ import TermsAndConditionsScreen from './legal/TermsAndConditionsScreen';
 import ProfilePhotoScreen from './auth/ProfilePhotoScreen';
 import ProfileDrawerScreen from './profile/ProfileDrawerScreen';
 import ViewProfileScreen from './profile/ViewProfileScreen';
+import TeamDetailScreen from './team/TeamDetailScreen';
+import ColleagueDetailScreen from './team/ColleagueDetailScreen';
 import UsbDebuggingBlockScreen from './security/UsbDebuggingBlockScreen';
 import DatabaseViewerScreen from './debug/DatabaseViewerScreen';
 
@@ -28,10 +34,16 @@ export {
   HomeScreen,
   ForgotPasswordScreen,
   DaysBottomTabScreen,
+  ApprovalsBottomTabScreen,
   CheckInScreen,
   ProfileDrawerScreen,
   AttendanceLogsScreen,
   GeoLocationsScreen,
+  MyRequestsScreen,
+  LeavesScreen,
+  ApplyLeaveScreen,
+  TeamDetailScreen,
+  ColleagueDetailScreen,
   ViewProfileScreen,
   OtpScreen,
   ChangePasswordScreen,
@@ -15,7 +15,7 @@ import { hp, Icons } from '../../constants';
 import { useAppDispatch, useAppSelector, setDisplayBreakStatus } from '../../redux';
 import { setAppTheme } from '../../redux';
 import { APP_THEMES, DarkThemeColors, LightThemeColors } from '../../themes';
-import { logoutUser, getProfile } from '../../services';
+import { logoutUser, getProfile, shiftNotificationService } from '../../services';
 import { profileSyncService } from '../../services/sync/profile-sync-service';
 import { logger } from '../../services/logger';
 import { NavigationProp } from '../../types/navigation';
@@ -28,11 +28,17 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
   const { t, currentLanguage } = useTranslation();
 
   const { appTheme } = useAppSelector(state => state.appState);
-  const { userData, displayBreakStatus } = useAppSelector(state => state.userState);
+  const { userData, userLastAttendance, displayBreakStatus } = useAppSelector(state => state.userState);
 
   const [isLanguageModalVisible, setIsLanguageModalVisible] = useState<boolean>(false);
   const [profilePhoto, setProfilePhoto] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [shiftRemindersEnabled, setShiftRemindersEnabled] = useState<boolean>(true);
+
+  // Shift reminder preference is a synced setting (SQLite), not Redux
+  useEffect(() => {
+    shiftNotificationService.isEnabled().then(setShiftRemindersEnabled);
+  }, []);
 
   // Load profile data from DB
   const loadProfileFromDB = useCallback(async () => {
@@ -116,6 +122,15 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
     dispatch(setDisplayBreakStatus(!displayBreakStatus));
   }, [dispatch, displayBreakStatus]);
 
+  const toggleShiftReminders = useCallback((): void => {
+    const enabled = !shiftRemindersEnabled;
+    setShiftRemindersEnabled(enabled);
+    shiftNotificationService.setEnabled(enabled, userData, userLastAttendance).catch((error) => {
+      logger.error('Error saving shift reminder preference', error);
+      setShiftRemindersEnabled(!enabled);
+    });
+  }, [shiftRemindersEnabled, userData, userLastAttendance]);
+
   const onAttendanceLogsPress = useCallback((): void => {
     navigation.navigate('AttendanceLogsScreen', { filterToday: true });
   }, [navigation]);
@@ -133,6 +148,14 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
     navigation.navigate('GeoLocationsScreen', { filterToday: true });
   }, [navigation]);
 
+  const onMyRequestsPress = useCallback((): void => {
+    navigation.navigate('MyRequestsScreen');
+  }, [navigation]);
+
+  const onLeavesPress = useCallback((): void => {
+    navigation.navigate('LeavesScreen');
+  }, [navigation]);
+
   const onSecurityPress = useCallback((): void => {
     navigation.navigate('ChangePasswordScreen');
   }, [navigation]);
@@ -146,9 +169,33 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
     );
   }, [t]);
 
+  // Resolves true when the user chooses to log out and lose the changes not synced yet
+  const confirmDiscardUnsynced = useCallback((unsyncedCount: number): Promise<boolean> => {
+    return new Promise((resolve) => {
+      Alert.alert(
+        t('profile.logoutUnsyncedTitle', 'Changes Not Synced'),
+        t('profile.logoutUnsyncedMessage', {
+          count: unsyncedCount,
+          defaultValue: `${unsyncedCount} change(s) have not reached the server yet. Connect to the internet and try again, or log out and lose them.`,
+        }),
+        [
+          { text: t('common.cancel', 'Cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: t('profile.logoutAnyway', 'Log Out Anyway'), style: 'destructive', onPress: () => resolve(true) },
+        ],
+        { cancelable: false },
+      );
+    });
+  }, [t]);
+
   const onLogoutPress = useCallback(async (): Promise<void> => {
     try {
-      await logoutUser();
+      const { loggedOut, unsyncedCount } = await logoutUser();
+      if (!loggedOut) {
+        if (!(await confirmDiscardUnsynced(unsyncedCount))) {
+          return;
+        }
+        await logoutUser({ discardUnsynced: true });
+      }
       if (navigation && navigation.reset) {
         navigation.reset({
           index: 0,
@@ -162,7 +209,7 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
         navigation.navigate('LoginScreen');
       }
     }
-  }, [navigation]);
+  }, [navigation, confirmDiscardUnsynced]);
 
   const onLanguagePress = useCallback((): void => {
     setIsLanguageModalVisible(true);
@@ -220,6 +267,20 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
           }
         />
 
+        {/* Shift Reminders */}
+        <ProfileDrawerItem
+          title={t('profile.shiftReminders', 'Shift Reminders')}
+          icon={Icons.clock}
+          iconColor={colors.text}
+          rightContent={
+            <AnimatedSwitch
+              value={shiftRemindersEnabled}
+              onValueChange={toggleShiftReminders}
+              style={{ marginEnd: hp(2) }}
+            />
+          }
+        />
+
         {/* Dark Mode */}
         <ProfileDrawerItem
           disabled
@@ -260,6 +321,22 @@ export default function ProfileDrawerScreen(): React.JSX.Element {
           onPress={onAttendanceLogsPress}
         />
 
+        {/* My Requests */}
+        <ProfileDrawerItem
+          title={t('profile.myRequests')}
+          icon={Icons.attendance_logs}
+          iconColor={colors.text}
+          onPress={onMyRequestsPress}
+        />
+
+        {/* Leaves */}
+        <ProfileDrawerItem
+          title={t('profile.leaves')}
+          icon={Icons.attendance_logs}
+          iconColor={colors.text}
+          onPress={onLeavesPress}
+        />
+
         {/* View Profile */}
         <ProfileDrawerItem
           title={t('profile.viewProfile')}
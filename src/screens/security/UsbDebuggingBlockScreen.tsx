@@ -4,11 +4,33 @@ import { View, StyleSheet, Platform, StatusBar, BackHandler } from 'react-native
 import { AppButton, AppContainer, AppImage, AppText } from '../../components';
 import { hp, wp, Images } from '../../constants';
 import { checkUsbDebuggingStatus } from '../../services/security-service';
+import type { DeviceIntegrityReason } from '../../services/device/device-integrity-service';
 import { useTranslation } from '../../hooks/useTranslation';
 import { useAppSelector } from '../../redux';
 import { APP_THEMES, DarkThemeColors, LightThemeColors } from '../../themes';
 
-export default function UsbDebuggingBlockScreen(): React.JSX.Element {
+// Why the app is blocked: USB debugging, or a failed device integrity check
+export type DeviceBlockReason = 'USB_DEBUGGING' | DeviceIntegrityReason;
+
+interface UsbDebuggingBlockScreenProps {
+  reason?: DeviceBlockReason;
+  onCheckAgain?: () => Promise<void>; // Integrity reasons: re-run the check
+  onContinue?: () => void; // Only when the organization's policy warns instead of blocking
+}
+
+// i18n keys of the title and message for each integrity reason
+const INTEGRITY_MESSAGE_KEYS: Record<DeviceIntegrityReason, string> = {
+  ROOTED: 'security.integrity.rooted',
+  EMULATOR: 'security.integrity.emulator',
+  HOOKING_FRAMEWORK: 'security.integrity.hookingFramework',
+  SIGNATURE_TAMPERED: 'security.integrity.signatureTampered',
+};
+
+export default function UsbDebuggingBlockScreen({
+  reason = 'USB_DEBUGGING',
+  onCheckAgain,
+  onContinue,
+}: UsbDebuggingBlockScreenProps): React.JSX.Element {
   const { t } = useTranslation();
   const [isChecking, setIsChecking] = useState<boolean>(false);
   const { appTheme } = useAppSelector(state => state.appState);
@@ -18,11 +40,15 @@ export default function UsbDebuggingBlockScreen(): React.JSX.Element {
 
   const handleCheckAgain = useCallback(async (): Promise<void> => {
     setIsChecking(true);
-    await checkUsbDebuggingStatus();
+    if (onCheckAgain) {
+      await onCheckAgain();
+    } else {
+      await checkUsbDebuggingStatus();
+    }
     setIsChecking(false);
     // Navigation component will handle redirect if USB debugging is disabled
     // It checks every 5 seconds automatically
-  }, []);
+  }, [onCheckAgain]);
 
   const handleExit = useCallback((): void => {
     if (Platform.OS === 'android') {
@@ -45,31 +71,43 @@ export default function UsbDebuggingBlockScreen(): React.JSX.Element {
         />
 
         <AppText size={hp(2.8)} style={styles.title} fontType="medium">
-          {t('security.usbDebuggingDetected')}
+          {reason === 'USB_DEBUGGING'
+            ? t('security.usbDebuggingDetected')
+            : t(`${INTEGRITY_MESSAGE_KEYS[reason]}.title`)}
         </AppText>
 
         <AppText size={hp(1.8)} style={styles.description} color={themeColors.white_common || '#FFFFFF'}>
-          {t('security.securityMessage')}
+          {reason === 'USB_DEBUGGING'
+            ? t('security.securityMessage')
+            : t(`${INTEGRITY_MESSAGE_KEYS[reason]}.message`)}
         </AppText>
 
-        <AppText size={hp(1.6)} style={styles.instructions} color={themeColors.white_common || '#FFFFFF'}>
-          {t('security.toContinue')}
-        </AppText>
+        {reason === 'USB_DEBUGGING' ? (
+          <>
+            <AppText size={hp(1.6)} style={styles.instructions} color={themeColors.white_common || '#FFFFFF'}>
+              {t('security.toContinue')}
+            </AppText>
 
-        <View style={styles.stepsContainer}>
-          <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
-            {t('security.step1')}
-          </AppText>
-          <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
-            {t('security.step2')}
-          </AppText>
-          <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
-            {t('security.step3')}
+            <View style={styles.stepsContainer}>
+              <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
+                {t('security.step1')}
+              </AppText>
+              <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
+                {t('security.step2')}
+              </AppText>
+              <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
+                {t('security.step3')}
+              </AppText>
+              <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
+                {t('security.step4')}
+              </AppText>
+            </View>
+          </>
+        ) : (
+          <AppText size={hp(1.6)} style={styles.instructions} color={themeColors.white_common || '#FFFFFF'}>
+            {onContinue ? t('security.integrity.warningNote') : t('security.integrity.blockedNote')}
           </AppText>
-          <AppText size={hp(1.5)} style={styles.step} color={themeColors.white_common || '#FFFFFF'}>
-            {t('security.step4')}
-          </AppText>
-        </View>
+        )}
 
         <View style={styles.buttonContainer}>
           <AppButton
@@ -78,6 +116,15 @@ export default function UsbDebuggingBlockScreen(): React.JSX.Element {
             style={styles.checkButton}
           />
 
+          {onContinue && (
+            <AppButton
+              title={t('security.continueAnyway')}
+              onPress={onContinue}
+              style={StyleSheet.flatten([styles.settingsButton, { borderColor: themeColors.primary || '#62C268' }])}
+              titleColor={themeColors.white_common || '#62C268'}
+            />
+          )}
+
           <AppButton
             title={t('security.exit')}
             onPress={handleExit}
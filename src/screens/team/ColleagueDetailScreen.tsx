@@ -0,0 +1,200 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { RouteProp, useFocusEffect, useNavigation, useRoute, useTheme } from '@react-navigation/native';
+import { AppContainer, AppText, BackHeader, MyTeamListItem, UserImage } from '../../components';
+import { useAppSelector } from '../../redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import { wp, hp, FontTypes } from '../../constants';
+import { teamRosterService, type Team, type TeamMember } from '../../services/team/team-roster-service';
+import { COLLEAGUE_STATUS_COLORS, getPunchDirectionForStatus } from '../../utils/colleague-status-utils';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import { NavigationProp, RootStackParamList } from '../../types/navigation';
+import { DarkThemeColors } from '../../themes';
+import { logger } from '../../services/logger';
+
+type ColleagueDetailRouteProp = RouteProp<RootStackParamList, 'ColleagueDetailScreen'>;
+
+export default function ColleagueDetailScreen(): React.JSX.Element {
+  const route = useRoute<ColleagueDetailRouteProp>();
+  const { userId } = route.params;
+  const navigation = useNavigation<NavigationProp>();
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { userData } = useAppSelector(state => state.userState);
+  const [colleague, setColleague] = useState<TeamMember | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadColleague = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    try {
+      const [member, memberTeams] = await Promise.all([
+        teamRosterService.getColleague(userData.email, userId),
+        teamRosterService.getColleagueTeams(userData.email, userId),
+      ]);
+      setColleague(member);
+      setTeams(memberTeams);
+    } catch (error) {
+      logger.error('[ColleagueDetail] Error loading colleague', error);
+    }
+  }, [userData?.email, userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadColleague();
+    }, [loadColleague])
+  );
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    setRefreshing(true);
+    await teamRosterService.refreshRoster(userData.email);
+    await loadColleague();
+    setRefreshing(false);
+  }, [userData?.email, loadColleague]);
+
+  const displayName = colleague?.name || userId;
+  const statusColor = colleague ? COLLEAGUE_STATUS_COLORS[colleague.status] : DarkThemeColors.checked_out_indicator;
+
+  return (
+    <AppContainer>
+      <BackHeader title={displayName} isTitleVisible={true} />
+      <ScrollView
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary || DarkThemeColors.primary}
+            colors={[colors.primary || DarkThemeColors.primary]}
+          />
+        }
+      >
+        <View style={styles.profileContainer}>
+          <UserImage
+            size={hp(10)}
+            userName={displayName}
+            source={colleague?.photoUrl ? { uri: colleague.photoUrl } : null}
+            punchDirection={colleague ? getPunchDirectionForStatus(colleague.status) : undefined}
+          />
+          <AppText size={hp(2.4)} fontType={FontTypes.bold} color={colors.text} style={styles.nameText}>
+            {displayName}
+          </AppText>
+          {!!colleague?.designation && (
+            <AppText size={hp(1.7)} color={colors.text} style={styles.secondaryText}>
+              {colleague.designation}
+            </AppText>
+          )}
+          <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+            {userId}
+          </AppText>
+        </View>
+
+        {!!colleague && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <AppText size={hp(2)} fontType={FontTypes.medium} color={colors.text}>
+                {t('team.currentStatus', 'Current status')}
+              </AppText>
+              <View style={[styles.statusBadge, { backgroundColor: statusColor + '30' }]}>
+                <AppText size={hp(1.5)} color={statusColor}>
+                  {t(`team.status.${colleague.status}`, colleague.status)}
+                </AppText>
+              </View>
+            </View>
+            {colleague.lastPunchAt ? (
+              <>
+                <AppText size={hp(1.8)} color={colors.text} style={styles.detailText}>
+                  {t('team.lastPunch', 'Last punch')}:{' '}
+                  {formatUTCForDisplay(colleague.lastPunchAt, 'ddd, DD MMM YY hh:mm A')}
+                </AppText>
+                {!!colleague.lastPunchAddress && (
+                  <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+                    {colleague.lastPunchAddress}
+                  </AppText>
+                )}
+              </>
+            ) : (
+              <AppText size={hp(1.6)} color={colors.text} style={styles.secondaryText}>
+                {t('team.noPunches', 'No punches recorded yet')}
+              </AppText>
+            )}
+          </View>
+        )}
+
+        {teams.length > 0 && (
+          <>
+            <AppText size={hp(2)} fontType={FontTypes.bold} color={colors.text} style={styles.sectionTitle}>
+              {t('home.teams')}
+            </AppText>
+            <View style={styles.teamsContainer}>
+              {teams.map(team => (
+                <View key={team.teamId} style={styles.teamItem}>
+                  <MyTeamListItem
+                    teamName={team.name}
+                    onPress={() =>
+                      navigation.navigate('TeamDetailScreen', { teamId: team.teamId, teamName: team.name })
+                    }
+                  />
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(1),
+  },
+  profileContainer: {
+    alignItems: 'center',
+    paddingVertical: hp(2),
+  },
+  nameText: {
+    marginTop: hp(1.5),
+  },
+  card: {
+    padding: hp(2),
+    marginVertical: hp(1),
+    borderRadius: hp(1.74),
+    borderWidth: 1,
+    borderColor: DarkThemeColors.white_common + '20',
+    backgroundColor: DarkThemeColors.black + '40',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: hp(1),
+  },
+  statusBadge: {
+    paddingVertical: hp(0.4),
+    paddingHorizontal: wp(2.5),
+    borderRadius: wp(3),
+  },
+  detailText: {
+    marginBottom: hp(0.5),
+  },
+  secondaryText: {
+    opacity: 0.7,
+    marginTop: hp(0.5),
+  },
+  sectionTitle: {
+    marginTop: hp(2),
+    marginBottom: hp(1),
+  },
+  teamsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  teamItem: {
+    width: '50%',
+  },
+});
@@ -0,0 +1,111 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { RouteProp, useFocusEffect, useNavigation, useRoute, useTheme } from '@react-navigation/native';
+import { AppContainer, AppText, BackHeader, ChatListItem } from '../../components';
+import { useAppSelector } from '../../redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import { wp, hp } from '../../constants';
+import { teamRosterService, type TeamMember } from '../../services/team/team-roster-service';
+import { getPunchDirectionForStatus } from '../../utils/colleague-status-utils';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import { NavigationProp, RootStackParamList } from '../../types/navigation';
+import { DarkThemeColors } from '../../themes';
+import { logger } from '../../services/logger';
+
+type TeamDetailRouteProp = RouteProp<RootStackParamList, 'TeamDetailScreen'>;
+
+export default function TeamDetailScreen(): React.JSX.Element {
+  const route = useRoute<TeamDetailRouteProp>();
+  const { teamId, teamName } = route.params;
+  const navigation = useNavigation<NavigationProp>();
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { userData } = useAppSelector(state => state.userState);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadMembers = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    try {
+      setMembers(await teamRosterService.getTeamMembers(userData.email, teamId));
+    } catch (error) {
+      logger.error('[TeamDetail] Error loading team members', error);
+    }
+  }, [userData?.email, teamId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadMembers();
+    }, [loadMembers])
+  );
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    if (!userData?.email) return;
+    setRefreshing(true);
+    await teamRosterService.refreshRoster(userData.email);
+    await loadMembers();
+    setRefreshing(false);
+  }, [userData?.email, loadMembers]);
+
+  const renderMemberItem = useCallback(
+    ({ item }: { item: TeamMember }) => {
+      const statusLabel = t(`team.status.${item.status}`, item.status);
+      return (
+        <ChatListItem
+          title={item.name || item.userId}
+          subtitle={
+            item.status !== 'absent' && item.lastPunchAt
+              ? `${statusLabel} • ${formatUTCForDisplay(item.lastPunchAt, 'hh:mm A')}`
+              : statusLabel
+          }
+          userName={item.name || item.userId}
+          source={item.photoUrl ? { uri: item.photoUrl } : null}
+          punchDirection={getPunchDirectionForStatus(item.status)}
+          onPress={() => navigation.navigate('ColleagueDetailScreen', { userId: item.userId })}
+        />
+      );
+    },
+    [t, navigation]
+  );
+
+  return (
+    <AppContainer>
+      <BackHeader title={teamName || t('home.teams')} isTitleVisible={true} />
+      <FlatList
+        data={members}
+        renderItem={renderMemberItem}
+        keyExtractor={(item) => item.userId}
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary || DarkThemeColors.primary}
+            colors={[colors.primary || DarkThemeColors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <AppText size={hp(2)} color={colors.text}>
+              {t('team.noMembers', 'No members in this team')}
+            </AppText>
+          </View>
+        }
+      />
+    </AppContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: wp(4.27),
+    paddingVertical: hp(1),
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
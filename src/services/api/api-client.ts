@@ -250,7 +250,7 @@ apiClient.interceptors.response.use(
           _context: { service: 'api', fileName: 'api-client.ts', methodName: 'responseInterceptor' },
         });
         try {
-          await logoutUser();
+          await logoutUser({ sessionExpired: true });
           // Emit navigation event to navigate to login screen
           navigationHelper.navigateToLogin();
         } catch (logoutError) {
@@ -1,33 +1,36 @@
-import SQLite from 'react-native-sqlite-storage';
 import moment from 'moment';
 
 import { store, setUserAttendanceHistory, setUserLastAttendance } from '../../redux';
 import { logger } from '../logger';
+import { runDatabaseMigrations } from '../database/database-service';
+import {
+  execute,
+  query,
+  queryFirst,
+  transaction,
+  type ExecuteResult,
+  type SqlExecutor,
+  type SqlParam,
+} from '../database/sql-client';
+import type { GeofenceStatus } from '../location/geofence-service';
+import type { BreakType } from './break-service';
+import { toPunchTimeFields, trustedClockService, type TimeConfidence } from '../time/trusted-clock-service';
+import { punchChainService, type PunchChainFields } from './punch-chain-service';
+import { syncQueueService } from '../sync/sync-queue-service';
+import { syncConflictService, type NewSyncConflict } from '../sync/sync-conflict-service';
+import { generateUUID } from '../../utils/uuid-utils';
 
 // 🔹 Debug Logger
 const log = (...args: any[]): void => {
   logger.debug(args.join(' '));
 };
 
-// 🔹 Singleton DB
-let db: SQLite.SQLiteDatabase | null = null;
-
-export const getDB = (): SQLite.SQLiteDatabase => {
-  if (!db) {
-    db = SQLite.openDatabase(
-      { name: 'RadiumDB', location: 'default' },
-      () => log('Database opened'),
-      (error: any) =>         logger.error('DB open error', error as Error, undefined, {
-          operation: 'open_database',
-        }),
-    );
-  }
-  return db;
-};
-
 // 🔹 Table Schema
+// Columns are created by the numbered migrations in services/database/migrations;
+// adding a column here also needs a new migration.
 export const ATTENDANCE_COLUMNS = {
-  Timestamp: 'BIGINT PRIMARY KEY',
+  PunchID: 'TEXT PRIMARY KEY', // Client-generated UUID, unique per punch
+  Timestamp: 'BIGINT NOT NULL', // Unique per user: UNIQUE (UserID, Timestamp)
   OrgID: 'TEXT',
   UserID: 'TEXT',
   PunchType: 'TEXT',
@@ -58,9 +61,33 @@ export const ATTENDANCE_COLUMNS = {
   ManualCheckoutTime: 'BIGINT',
   ShiftStartTime: 'TEXT',
   ShiftEndTime: 'TEXT',
+  // Geofence enforcement result at punch time
+  GeofenceStatus: 'TEXT',
+  GeofenceID: 'TEXT',
+  GeofenceDistance: 'REAL',
+  GpsAccuracy: 'REAL',
+  // Signs of a spoofed location at punch time (see location-spoof-service)
+  LocationRiskFlags: 'TEXT',
+  // Break start / end punches (PunchType BREAK)
+  BreakType: 'TEXT',
+  // Device clock and trusted clock when the record was written on the device
+  DeviceTimestamp: 'BIGINT',
+  TrustedTimestamp: 'BIGINT',
+  TimeConfidence: 'TEXT',
+  // Hash chain of the punches written on the device (see punch-chain-service)
+  DeviceID: 'TEXT',
+  ChainSeq: 'INTEGER',
+  PrevHash: 'TEXT',
+  RecordHash: 'TEXT',
+  Signature: 'TEXT',
+  // Sync metadata
+  server_Timestamp: 'BIGINT',
+  lastSyncedAt: 'BIGINT',
+  lastUpdatedAt: 'BIGINT',
 } as const;
 
-interface AttendanceRecord {
+export interface AttendanceRecord {
+  punchID?: string; // Generated on insert when not provided (server records carry their own)
   timestamp: string | number;
   orgID: string;
   userID: string;
@@ -84,20 +111,35 @@ interface AttendanceRecord {
   server_Timestamp?: number | null; // Server's timestamp for this record
   // New fields for approval workflow
   ApprovalRequired?: 'Y' | 'N';
-  Reason?: 'FORGOT_TO_CHECKOUT' | 'MANUAL_CORRECTION' | null;
+  Reason?: 'FORGOT_TO_CHECKOUT' | 'MANUAL_CORRECTION' | 'AUTO_CHECKOUT' | null;
   OriginalCheckoutTime?: number;
   CorrectedCheckoutTime?: number;
   WorkedHours?: number;
   MinimumHoursRequired?: number;
   // New fields for overnight shifts and corrections
   LinkedEntryDate?: string;
-  CorrectionType?: 'FORGOT_CHECKOUT' | 'MANUAL_TIME' | null;
+  CorrectionType?: 'FORGOT_CHECKOUT' | 'MANUAL_TIME' | 'AUTO_CHECKOUT' | null;
   ManualCheckoutTime?: number;
   ShiftStartTime?: string;
   ShiftEndTime?: string;
+  // Geofence enforcement result at punch time
+  GeofenceStatus?: GeofenceStatus;
+  GeofenceID?: string; // Matched geofence area id (only when inside)
+  GeofenceDistance?: number; // Meters to the edge of the nearest area
+  GpsAccuracy?: number; // GPS accuracy of the punch fix in meters
+  LocationRiskFlags?: string; // Comma-separated LocationRiskFlag values
+  BreakType?: BreakType; // Break started (OUT) or ended (IN) by a BREAK punch
+  // Clocks when the record was written (local records are stamped on insert)
+  DeviceTimestamp?: number; // Device clock
+  TrustedTimestamp?: number; // Trusted clock (server anchored)
+  TimeConfidence?: TimeConfidence;
 }
 
-interface AttendanceHistoryItem {
+// Local punches as inserted: the record plus its place in the device's punch chain
+type InsertedPunch = AttendanceRecord & Partial<PunchChainFields>;
+
+export interface AttendanceHistoryItem {
+  PunchID: string;
   Timestamp: string | number;
   OrgID: string;
   UserID: string;
@@ -131,8 +173,25 @@ interface AttendanceHistoryItem {
   ManualCheckoutTime?: number;
   ShiftStartTime?: string;
   ShiftEndTime?: string;
+  GeofenceStatus?: string;
+  GeofenceID?: string;
+  GeofenceDistance?: number;
+  GpsAccuracy?: number;
+  LocationRiskFlags?: string;
+  BreakType?: string;
+  DeviceTimestamp?: number;
+  TrustedTimestamp?: number;
+  TimeConfidence?: string;
+  DeviceID?: string;
+  ChainSeq?: number;
+  PrevHash?: string;
+  RecordHash?: string;
+  Signature?: string;
 }
 
+// Row as stored in the attendance table (AllowanceData is a JSON string)
+type AttendanceRow = Omit<AttendanceHistoryItem, 'AllowanceData'> & { AllowanceData: string };
+
 // 🔹 Safe JSON Parse
 const safeParseJSON = (str: string, fallback: any[] = []): any => {
   try {
@@ -142,208 +201,54 @@ const safeParseJSON = (str: string, fallback: any[] = []): any => {
   }
 };
 
-// 🔹 Create Attendance Table
+// 🔹 Create Attendance Table (runs pending schema migrations)
 export const createTableForAttendance = async (): Promise<void> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        const columnDefs = Object.entries(ATTENDANCE_COLUMNS)
-          .map(([col, type]) => `${col} ${type}`)
-          .join(', ');
-
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS attendance (${columnDefs});`,
-          [],
-          () => log('Table created successfully'),
-          (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-            logger.error('Table creation error', error),
-        );
-
-        // Indexes for performance
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_userid ON attendance(UserID);`,
-        );
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_synced ON attendance(IsSynced);`,
-        );
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_timestamp ON attendance(Timestamp);`,
-        );
-      },
-      (error: SQLite.SQLError) => {
-        logger.error('Transaction error', error);
-        reject(error);
-      },
-      () => {
-        updateTableStructure();
-        log('Transaction successful');
-        resolve();
-      },
-    );
-  });
-};
+  try {
+    await runDatabaseMigrations();
+  } catch (error) {
+    logger.error('Attendance table migration error', error as Error);
+    throw error;
+  }
 
-// 🔹 Update Table Structure (add missing columns)
-export const updateTableStructure = (): void => {
-  const db = getDB();
-  log('Checking table structure...');
-  db.transaction(
-    (tx: SQLite.Transaction) => {
-      tx.executeSql(
-        `PRAGMA table_info(attendance);`,
-        [],
-        (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-          const existing = new Set<string>();
-          for (let i = 0; i < result.rows.length; i++) {
-            existing.add(result.rows.item(i).name);
-          }
-
-          Object.entries(ATTENDANCE_COLUMNS).forEach(([col, type]) => {
-            if (!existing.has(col)) {
-              tx.executeSql(
-                `ALTER TABLE attendance ADD COLUMN ${col} ${type};`,
-                [],
-                () => log(`Added column: ${col}`),
-                (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-            logger.error(`Error adding column: ${col}`, error, undefined, {
-              column: col,
-            }),
-              );
-            }
-          });
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-        logger.error('PRAGMA error', error, undefined, {
-          operation: 'pragma',
-        }),
-      );
-    },
-    (error: SQLite.SQLError) => {
-      logger.error('extendAttendanceTable error', error, undefined, { operation: 'extend_table' });
-    },
-    () => {
-      if (store.getState().userState?.userData?.email) {
-        getAttendanceData(store.getState().userState?.userData?.email);
-      }
-    },
-  );
+  const email = store.getState().userState?.userData?.email;
+  if (email) {
+    await getAttendanceData(email);
+  }
 };
 
 // 🔹 Get All Table Data (for debug)
-const getTableData = (): void => {
-  const db = getDB();
+const getTableData = async (): Promise<void> => {
   log('Fetching table data...');
-  db.transaction((tx: SQLite.Transaction) => {
-    tx.executeSql(
-      `SELECT * FROM attendance;`,
-      [],
-      (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-        const rows: any[] = [];
-        for (let i = 0; i < result.rows.length; i++) {
-          rows.push(result.rows.item(i));
-        }
-        log('Attendance Data:', JSON.stringify(rows, null, 2));
-      },
-      (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-        logger.error('Get attendance data error', error),
-    );
-  });
+  try {
+    const rows = await query<AttendanceRow>(`SELECT * FROM attendance;`);
+    log('Attendance Data:', JSON.stringify(rows, null, 2));
+  } catch (error) {
+    logger.error('Get attendance data error', error as Error);
+  }
 };
 
-// 🔹 Insert Record
-export function insertAttendancePunchRecord(
-  record: AttendanceRecord,
-): Promise<SQLite.ResultSet> {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        // Validate required fields
-        if (!record.timestamp) {
-          const error = new Error('Timestamp is required for attendance record');
-          logger.error('Insert attendance record validation error', error, undefined, {
-            userID: record.userID,
-            operation: 'insert',
-          });
-          reject(error);
-          return;
-        }
-
-        // Ensure timestamp is a number (ticks - milliseconds since epoch)
-        // SQLite BIGINT stores ticks perfectly, no conversion needed
-        const timestamp = typeof record.timestamp === 'string' 
-          ? parseInt(record.timestamp, 10) 
-          : record.timestamp;
-
-        // Check if record with this timestamp already exists
-        tx.executeSql(
-          'SELECT Timestamp FROM attendance WHERE Timestamp = ?',
-          [timestamp],
-          (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-            if (result.rows.length > 0) {
-              // Record already exists, log warning but don't fail
-              logger.debug('Attendance record already exists, skipping insert', undefined, {
-                timestamp,
-                userID: record.userID,
-                operation: 'insert_duplicate',
-              });
-              resolve(result); // Resolve with existing record instead of rejecting
-              return;
-            }
-
-            // Proceed with insert
-            insertNewRecord(tx, record, timestamp, resolve, reject);
-          },
-          (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-            // Error checking for duplicate, proceed with insert anyway
-            logger.warn('Error checking for duplicate record, proceeding with insert', error);
-            insertNewRecord(tx, record, timestamp, resolve, reject);
-          },
-        );
-      },
-      (error: SQLite.SQLError) => reject(error),
-    );
-  });
-}
-
-// Helper function to insert a new attendance record
-function insertNewRecord(
-  tx: SQLite.Transaction,
-  record: AttendanceRecord,
+// SQLite error code 19 is SQLITE_CONSTRAINT (including UNIQUE / PRIMARY KEY violations)
+const isDuplicateKeyError = (error: any): boolean =>
+  error?.code === 19 ||
+  error?.message?.includes('UNIQUE constraint') ||
+  error?.message?.includes('PRIMARY KEY') ||
+  error?.message?.includes('unique constraint');
+
+// Only include columns that are in ATTENDANCE_COLUMNS (backend doesn't need lastUpdatedAt, lastSyncedAt, server_Timestamp)
+// Backend DB uses UTC, we store what's needed locally
+const insertPunchRow = (
+  tx: SqlExecutor,
+  punchID: string,
   timestamp: number,
-  resolve: (value: SQLite.ResultSet) => void,
-  reject: (reason?: any) => void,
-): void {
-  // Ensure DateOfPunch is set (derive from timestamp if not provided, in UTC format)
-  // Note: Backend DB uses UTC, we only store necessary fields locally
-  // IMPORTANT: Always use the provided dateOfPunch if available, don't override it
-  let dateOfPunch = record.dateOfPunch;
-  if (!dateOfPunch && timestamp) {
-    dateOfPunch = moment.utc(timestamp).format('YYYY-MM-DD');
-    logger.debug('Derived dateOfPunch from timestamp', {
-      _context: { service: 'attendance', fileName: 'attendance-db-service.ts', methodName: 'insertAttendanceRecord' },
-      timestamp,
-      derivedDate: dateOfPunch,
-      note: 'dateOfPunch was not provided in record',
-    });
-  } else if (dateOfPunch) {
-    logger.debug('Using provided dateOfPunch', {
-      _context: { service: 'attendance', fileName: 'attendance-db-service.ts', methodName: 'insertAttendanceRecord' },
-      providedDate: dateOfPunch,
-      timestamp,
-      timestampDate: moment.utc(timestamp).format('YYYY-MM-DD'),
-    });
-  }
-
-  // Build insert statement dynamically based on what columns exist
-  // Only include columns that are in ATTENDANCE_COLUMNS (backend doesn't need lastUpdatedAt, lastSyncedAt, server_Timestamp)
-  // Backend DB uses UTC, we store what's needed locally
-  tx.executeSql(
+  dateOfPunch: string | undefined,
+  record: InsertedPunch,
+): Promise<ExecuteResult> =>
+  tx.execute(
     `INSERT INTO attendance 
-      (Timestamp, OrgID, UserID, PunchType, PunchDirection, LatLon, Address, CreatedOn, IsSynced, DateOfPunch, AttendanceStatus, ModuleID, TripType, PassengerID, AllowanceData, IsCheckoutQrScan, TravelerName, PhoneNumber, ApprovalRequired, Reason, OriginalCheckoutTime, CorrectedCheckoutTime, WorkedHours, MinimumHoursRequired, LinkedEntryDate, CorrectionType, ManualCheckoutTime, ShiftStartTime, ShiftEndTime) 
-      VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`,
+      (PunchID, Timestamp, OrgID, UserID, PunchType, PunchDirection, LatLon, Address, CreatedOn, IsSynced, DateOfPunch, AttendanceStatus, ModuleID, TripType, PassengerID, AllowanceData, IsCheckoutQrScan, TravelerName, PhoneNumber, ApprovalRequired, Reason, OriginalCheckoutTime, CorrectedCheckoutTime, WorkedHours, MinimumHoursRequired, LinkedEntryDate, CorrectionType, ManualCheckoutTime, ShiftStartTime, ShiftEndTime, GeofenceStatus, GeofenceID, GeofenceDistance, GpsAccuracy, LocationRiskFlags, BreakType, DeviceTimestamp, TrustedTimestamp, TimeConfidence, DeviceID, ChainSeq, PrevHash, RecordHash, Signature) 
+      VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`,
     [
+      punchID,
       timestamp,
       record.orgID || '',
       record.userID || '',
@@ -373,470 +278,608 @@ function insertNewRecord(
       record.ManualCheckoutTime || null,
       record.ShiftStartTime || null,
       record.ShiftEndTime || null,
+      record.GeofenceStatus || null,
+      record.GeofenceID || null,
+      record.GeofenceDistance ?? null,
+      record.GpsAccuracy ?? null,
+      record.LocationRiskFlags || null,
+      record.BreakType || null,
+      record.DeviceTimestamp ?? null,
+      record.TrustedTimestamp ?? null,
+      record.TimeConfidence || null,
+      record.DeviceID || null,
+      record.ChainSeq ?? null,
+      record.PrevHash || null,
+      record.RecordHash || null,
+      record.Signature || null,
     ],
-    (_tx: SQLite.Transaction, res: SQLite.ResultSet) => {
-      logger.debug('Insert attendance record success', undefined, {
-        timestamp,
-        userID: record.userID,
-        punchDirection: record.punchDirection,
-        rowsAffected: res.rowsAffected,
-        insertId: res.insertId,
-        operation: 'insert_success',
-      });
-      // Refresh Redux state after successful insert (don't await - async operation)
-      getAttendanceData(record.userID).catch((error) => {
-        logger.error('Error refreshing attendance data after insert', error);
-      });
-      resolve(res);
-    },
-    (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-      // Check if it's a duplicate key error (constraint violation)
-      // SQLite error code 19 is SQLITE_CONSTRAINT (including UNIQUE constraint violations)
-      if (error.code === 19 || error.message?.includes('UNIQUE constraint') || error.message?.includes('PRIMARY KEY') || error.message?.includes('unique constraint')) {
-        logger.warn('Duplicate attendance record (timestamp already exists), skipping insert', error, {
+  );
+
+export interface InsertPunchResult extends ExecuteResult {
+  punchID: string; // Key of the inserted record, or of the existing record when it was a duplicate
+}
+
+// 🔹 Insert Record
+export async function insertAttendancePunchRecord(
+  record: AttendanceRecord,
+): Promise<InsertPunchResult> {
+  // Validate required fields
+  if (!record.timestamp) {
+    const error = new Error('Timestamp is required for attendance record');
+    logger.error('Insert attendance record validation error', error, undefined, {
+      userID: record.userID,
+      operation: 'insert',
+    });
+    throw error;
+  }
+
+  // Ensure timestamp is a number (ticks - milliseconds since epoch)
+  // SQLite BIGINT stores ticks perfectly, no conversion needed
+  const timestamp = typeof record.timestamp === 'string' 
+    ? parseInt(record.timestamp, 10) 
+    : record.timestamp;
+  const punchID = record.punchID || generateUUID();
+  const isLocal = (record.isSynced || 'N') === 'N';
+  // Local records carry the device and trusted clocks at the time they were written
+  const stampedRecord: AttendanceRecord = isLocal && !record.TimeConfidence
+    ? { ...record, ...toPunchTimeFields(trustedClockService.now()) }
+    : record;
+  // Local punches are chained and signed (Keychain and device id are read before the transaction)
+  const signer = isLocal ? await punchChainService.prepareSigner() : null;
+
+  // Ensure DateOfPunch is set (derive from timestamp if not provided, in UTC format)
+  // Note: Backend DB uses UTC, we only store necessary fields locally
+  // IMPORTANT: Always use the provided dateOfPunch if available, don't override it
+  let dateOfPunch = record.dateOfPunch;
+  if (!dateOfPunch && timestamp) {
+    dateOfPunch = moment.utc(timestamp).format('YYYY-MM-DD');
+    logger.debug('Derived dateOfPunch from timestamp', {
+      _context: { service: 'attendance', fileName: 'attendance-db-service.ts', methodName: 'insertAttendanceRecord' },
+      timestamp,
+      derivedDate: dateOfPunch,
+      note: 'dateOfPunch was not provided in record',
+    });
+  } else if (dateOfPunch) {
+    logger.debug('Using provided dateOfPunch', {
+      _context: { service: 'attendance', fileName: 'attendance-db-service.ts', methodName: 'insertAttendanceRecord' },
+      providedDate: dateOfPunch,
+      timestamp,
+      timestampDate: moment.utc(timestamp).format('YYYY-MM-DD'),
+    });
+  }
+
+  // Same punch (retried insert or server copy) or same user punching in the same millisecond
+  const findExisting = (first: SqlExecutor['queryFirst']) =>
+    first<Pick<AttendanceRow, 'PunchID'>>(
+      'SELECT PunchID FROM attendance WHERE PunchID = ? OR (UserID = ? AND Timestamp = ?)',
+      [punchID, record.userID || '', timestamp],
+    );
+
+  let result: InsertPunchResult;
+  try {
+    result = await transaction(async (tx) => {
+      const existing = await findExisting(tx.queryFirst);
+      if (existing) {
+        // Record already exists, log but don't fail
+        logger.debug('Attendance record already exists, skipping insert', undefined, {
+          punchID: existing.PunchID,
           timestamp,
           userID: record.userID,
           operation: 'insert_duplicate',
         });
-        // Query the existing record and resolve with it
-        _tx.executeSql(
-          'SELECT * FROM attendance WHERE Timestamp = ?',
-          [timestamp],
-          (queryTx: SQLite.Transaction, queryResult: SQLite.ResultSet) => {
-            // Create a mock ResultSet-like object with the existing record
-            const existingRecord = queryResult.rows.item(0);
-            resolve(queryResult); // Resolve with the query result
-          },
-          (queryTx: SQLite.Transaction, queryError: SQLite.SQLError) => {
-            // If we can't query the existing record, just resolve (record exists, that's okay)
-            logger.warn('Could not query existing record after duplicate error', queryError);
-            resolve({ rowsAffected: 0, insertId: timestamp } as SQLite.ResultSet);
+        return { rowsAffected: 0, punchID: existing.PunchID };
+      }
+
+      const chainFields = signer
+        ? await punchChainService.appendToChain(tx, signer, {
+            PunchID: punchID,
+            UserID: record.userID || '',
+            Timestamp: timestamp,
+            LatLon: record.latLon || '',
+            PunchDirection: record.punchDirection || '',
+          })
+        : {};
+      const inserted = await insertPunchRow(tx, punchID, timestamp, dateOfPunch, { ...stampedRecord, ...chainFields });
+      // Local punches are pushed by the sync queue processor
+      if (isLocal) {
+        await syncQueueService.addToQueue(
+          {
+            type: 'attendance',
+            entityId: punchID,
+            operation: 'create',
+            data: null,
+            timestamp,
           },
+          tx,
         );
-      } else {
-        logger.error('Insert attendance record error', error, undefined, {
-          timestamp,
-          userID: record.userID,
-          operation: 'insert',
-          dateOfPunch: record.dateOfPunch || dateOfPunch,
-          punchDirection: record.punchDirection,
-          errorCode: error.code,
-          errorMessage: error.message,
-        });
-        reject(error);
       }
-    },
-  );
+      return { ...inserted, punchID };
+    });
+  } catch (error: any) {
+    if (isDuplicateKeyError(error)) {
+      // Inserted concurrently between the existence check and the insert - the record exists, that's okay
+      logger.warn('Duplicate attendance record (punch already exists), skipping insert', error, {
+        punchID,
+        timestamp,
+        userID: record.userID,
+        operation: 'insert_duplicate',
+      });
+      const existing = await findExisting(queryFirst).catch(() => null);
+      return { rowsAffected: 0, punchID: existing?.PunchID || punchID };
+    }
+
+    logger.error('Insert attendance record error', error, undefined, {
+      timestamp,
+      userID: record.userID,
+      operation: 'insert',
+      dateOfPunch: record.dateOfPunch || dateOfPunch,
+      punchDirection: record.punchDirection,
+      errorCode: error?.code,
+      errorMessage: error?.message,
+    });
+    throw error;
+  }
+
+  if (result.rowsAffected > 0) {
+    logger.debug('Insert attendance record success', undefined, {
+      punchID,
+      timestamp,
+      userID: record.userID,
+      punchDirection: record.punchDirection,
+      rowsAffected: result.rowsAffected,
+      insertId: result.insertId,
+      operation: 'insert_success',
+    });
+    // Refresh Redux state after successful insert (don't await - async operation)
+    getAttendanceData(record.userID).catch((error) => {
+      logger.error('Error refreshing attendance data after insert', error);
+    });
+  }
+  return result;
 }
 
+const toHistoryItem = (row: AttendanceRow): AttendanceHistoryItem => ({
+  ...row,
+  AllowanceData: safeParseJSON(row.AllowanceData),
+});
+
 // 🔹 Get Attendance Data
-export const getAttendanceData = (userID: string): Promise<void> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      tx.executeSql(
-        'SELECT * FROM attendance WHERE UserID=? ORDER BY Timestamp DESC',
-        [userID],
-        (_tx: SQLite.Transaction, results: SQLite.ResultSet) => {
-          const data: AttendanceHistoryItem[] = [];
-          let syncedCount = 0;
-          let unsyncedCount = 0;
-          for (let i = 0; i < results.rows.length; i++) {
-            const row = results.rows.item(i);
-            if (row.IsSynced === 'Y') {
-              syncedCount++;
-            } else {
-              unsyncedCount++;
-            }
-            data.push({
-              ...row,
-              AllowanceData: safeParseJSON(row.AllowanceData),
-            });
-          }
-          logger.debug(`Retrieved ${data.length} attendance records (${syncedCount} synced, ${unsyncedCount} unsynced) for user: ${userID}`);
-          
-          // Also update last attendance if records exist
-          if (data.length > 0) {
-            const lastRecord = data[0]; // Already sorted by Timestamp DESC
-            logger.debug(`Last record: DateOfPunch=${lastRecord.DateOfPunch}, PunchDirection=${lastRecord.PunchDirection}, Timestamp=${lastRecord.Timestamp}`);
-            store.dispatch(setUserLastAttendance(lastRecord));
-          }
-          
-          // Dispatch attendance history update after last attendance to ensure proper state order
-          store.dispatch(setUserAttendanceHistory(data));
-          resolve();
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Get attendance data error', error);
-          reject(error);
-        },
-      );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Get attendance data transaction error', error);
-      reject(error);
-    });
-  });
+export const getAttendanceData = async (userID: string): Promise<void> => {
+  const rows = await query<AttendanceRow>(
+    'SELECT * FROM attendance WHERE UserID=? ORDER BY Timestamp DESC',
+    [userID],
+  );
+  const data = rows.map(toHistoryItem);
+  const syncedCount = data.filter((row) => row.IsSynced === 'Y').length;
+  logger.debug(`Retrieved ${data.length} attendance records (${syncedCount} synced, ${data.length - syncedCount} unsynced) for user: ${userID}`);
+
+  // Also update last attendance if records exist
+  if (data.length > 0) {
+    const lastRecord = data[0]; // Already sorted by Timestamp DESC
+    logger.debug(`Last record: DateOfPunch=${lastRecord.DateOfPunch}, PunchDirection=${lastRecord.PunchDirection}, Timestamp=${lastRecord.Timestamp}`);
+    store.dispatch(setUserLastAttendance(lastRecord));
+  }
+
+  // Dispatch attendance history update after last attendance to ensure proper state order
+  store.dispatch(setUserAttendanceHistory(data));
 };
 
 // 🔹 Update Sync State
 export const updateAttendanceSyncState = (
-  timestamp: string | number,
+  punchID: string,
   isSync: string,
 ): void => {
-  const db = getDB();
-  db.transaction((tx: SQLite.Transaction) => {
-    tx.executeSql(
-      'UPDATE attendance SET IsSynced=? WHERE Timestamp=?',
-      [isSync, timestamp],
-      () => {
-        const history = store.getState().userState.userAttendanceHistory;
-        const updated = history.map((item: AttendanceHistoryItem) =>
-          item.Timestamp === timestamp ? { ...item, IsSynced: 'Y' } : item,
-        );
-        store.dispatch(setUserAttendanceHistory(updated));
-        log('Sync state updated');
-      },
-      (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-        logger.error('Get attendance data error', error),
-    );
-  });
+  execute('UPDATE attendance SET IsSynced=? WHERE PunchID=?', [isSync, punchID])
+    .then(() => {
+      const history = store.getState().userState.userAttendanceHistory;
+      const updated = history.map((item: AttendanceHistoryItem) =>
+        item.PunchID === punchID ? { ...item, IsSynced: 'Y' } : item,
+      );
+      store.dispatch(setUserAttendanceHistory(updated));
+      log('Sync state updated');
+    })
+    .catch((error) => logger.error('Update sync state error', error));
 };
 
 // 🔹 Get Unsynced Records
 export const getUnsyncedAttendanceRecord = (userID: string): void => {
-  const db = getDB();
-  db.transaction((tx: SQLite.Transaction) => {
-    tx.executeSql(
-      'SELECT * FROM attendance WHERE IsSynced=? AND UserID=?',
-      ['N', userID],
-      (_tx: SQLite.Transaction, results: SQLite.ResultSet) => {
-        const unsynced: AttendanceHistoryItem[] = [];
-        for (let i = 0; i < results.rows.length; i++) {
-          const row = results.rows.item(i);
-          unsynced.push({
-            ...row,
-            AllowanceData: safeParseJSON(row.AllowanceData),
-          });
-        }
-        // store.dispatch(setUnsyncedAttendance(unsynced));
-        log('Unsynced records fetched:', unsynced.length);
-      },
-      (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-        logger.error('Get attendance data error', error),
-    );
-  });
+  getUnsyncedAttendanceRecords(userID).catch((error) =>
+    logger.error('Get unsynced records error', error),
+  );
 };
 
 // 🔹 Get Unsynced Records (Promise-based for sync service)
-export const getUnsyncedAttendanceRecords = (userID: string): Promise<AttendanceHistoryItem[]> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      tx.executeSql(
-        'SELECT * FROM attendance WHERE IsSynced=? AND UserID=? ORDER BY Timestamp ASC',
-        ['N', userID],
-        (_tx: SQLite.Transaction, results: SQLite.ResultSet) => {
-          const unsynced: AttendanceHistoryItem[] = [];
-          for (let i = 0; i < results.rows.length; i++) {
-            const row = results.rows.item(i);
-            unsynced.push({
-              ...row,
-              AllowanceData: safeParseJSON(row.AllowanceData),
-            });
-          }
-          log('Unsynced records fetched:', unsynced.length);
-          resolve(unsynced);
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Get unsynced records error', error);
-          reject(error);
-        },
-      );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Get unsynced records transaction error', error);
-      reject(error);
-    });
-  });
+export const getUnsyncedAttendanceRecords = async (userID: string): Promise<AttendanceHistoryItem[]> => {
+  const rows = await query<AttendanceRow>(
+    'SELECT * FROM attendance WHERE IsSynced=? AND UserID=? ORDER BY Timestamp ASC',
+    ['N', userID],
+  );
+  log('Unsynced records fetched:', rows.length);
+  return rows.map(toHistoryItem);
+};
+
+// 🔹 Get Attendance Record by PunchID (for the sync queue processor)
+export const getAttendanceRecordByPunchID = async (
+  punchID: string,
+): Promise<AttendanceHistoryItem | null> => {
+  const row = await queryFirst<AttendanceRow>('SELECT * FROM attendance WHERE PunchID=?', [punchID]);
+  return row ? toHistoryItem(row) : null;
 };
 
 // 🔹 Get All Attendance Records (for sync merge logic)
-export const getAllAttendanceRecords = (userID: string): Promise<AttendanceHistoryItem[]> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      tx.executeSql(
-        'SELECT * FROM attendance WHERE UserID=? ORDER BY Timestamp DESC',
-        [userID],
-        (_tx: SQLite.Transaction, results: SQLite.ResultSet) => {
-          const data: AttendanceHistoryItem[] = [];
-          for (let i = 0; i < results.rows.length; i++) {
-            const row = results.rows.item(i);
-            data.push({
-              ...row,
-              AllowanceData: safeParseJSON(row.AllowanceData),
-            });
-          }
-          resolve(data);
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Get all attendance records error', error);
-          reject(error);
-        },
-      );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Get all attendance records transaction error', error);
-      reject(error);
-    });
-  });
+export const getAllAttendanceRecords = async (userID: string): Promise<AttendanceHistoryItem[]> => {
+  const rows = await query<AttendanceRow>(
+    'SELECT * FROM attendance WHERE UserID=? ORDER BY Timestamp DESC',
+    [userID],
+  );
+  return rows.map(toHistoryItem);
 };
 
 // 🔹 Mark Attendance Record as Synced
-export const markAttendanceRecordAsSynced = (
-  timestamp: string | number,
+export const markAttendanceRecordAsSynced = async (
+  punchID: string,
   serverTimestamp?: number,
   lastSyncedAt?: number,
 ): Promise<void> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      // Backend DB uses UTC, we only need to mark IsSynced in local DB
-      tx.executeSql(
-        'UPDATE attendance SET IsSynced=? WHERE Timestamp=?',
-        ['Y', timestamp],
-        () => {
-          log('Marked attendance record as synced:', timestamp);
-          // Update Redux store
-          const history = store.getState().userState.userAttendanceHistory;
-          const updated = history.map((item: AttendanceHistoryItem) =>
-            item.Timestamp === timestamp 
-              ? { ...item, IsSynced: 'Y' } 
-              : item,
-          );
-          store.dispatch(setUserAttendanceHistory(updated));
-          resolve();
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Error marking record as synced', error, undefined, {
-            timestamp,
-            operation: 'mark_synced',
-          });
-          reject(error);
-        },
-      );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Mark as synced transaction error', error, undefined, {
-        timestamp,
-        operation: 'mark_synced_transaction',
-      });
-      reject(error);
-    });
-  });
+  // Backend DB uses UTC, we only need to mark IsSynced in local DB
+  await execute('UPDATE attendance SET IsSynced=? WHERE PunchID=?', ['Y', punchID]);
+  log('Marked attendance record as synced:', punchID);
+
+  // Update Redux store
+  const history = store.getState().userState.userAttendanceHistory;
+  const updated = history.map((item: AttendanceHistoryItem) =>
+    item.PunchID === punchID 
+      ? { ...item, IsSynced: 'Y' } 
+      : item,
+  );
+  store.dispatch(setUserAttendanceHistory(updated));
 };
 
 // 🔹 Delete Attendance Record
-export const deleteAttendanceRecord = (
+export const deleteAttendanceRecord = async (
   timestamp: string | number,
   userID: string,
 ): Promise<void> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      const ts = typeof timestamp === 'string' ? parseInt(timestamp, 10) : timestamp;
-      
-      tx.executeSql(
-        'DELETE FROM attendance WHERE Timestamp=? AND UserID=?',
-        [ts, userID],
-        (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-          logger.debug('Deleted attendance record', undefined, {
-            timestamp: ts,
-            userID,
-            rowsAffected: result.rowsAffected,
-            operation: 'delete_record',
-          });
-          
-          // Refresh Redux state after successful deletion
-          getAttendanceData(userID)
-            .then(() => {
-              resolve();
-            })
-            .catch((error) => {
-              logger.error('Error refreshing attendance data after delete', error);
-              resolve(); // Still resolve even if refresh fails
-            });
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Error deleting attendance record', error, undefined, {
-            timestamp: ts,
-            userID,
-            operation: 'delete_record',
-          });
-          reject(error);
-        },
-      );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Delete attendance record transaction error', error, undefined, {
-        timestamp,
-        userID,
-        operation: 'delete_record_transaction',
-      });
-      reject(error);
-    });
+  const ts = typeof timestamp === 'string' ? parseInt(timestamp, 10) : timestamp;
+
+  const result = await execute('DELETE FROM attendance WHERE Timestamp=? AND UserID=?', [ts, userID]);
+  logger.debug('Deleted attendance record', undefined, {
+    timestamp: ts,
+    userID,
+    rowsAffected: result.rowsAffected,
+    operation: 'delete_record',
   });
+
+  // Refresh Redux state after successful deletion
+  try {
+    await getAttendanceData(userID);
+  } catch (error) {
+    logger.error('Error refreshing attendance data after delete', error as Error);
+  }
 };
 
+// Columns updatable through updateAttendanceRecord (merge logic)
+const UPDATABLE_ATTENDANCE_FIELDS = [
+  'OrgID',
+  'PunchType',
+  'PunchDirection',
+  'LatLon',
+  'Address',
+  'CreatedOn',
+  'IsSynced',
+  'DateOfPunch',
+  'AttendanceStatus',
+  'ModuleID',
+  'TripType',
+  'PassengerID',
+  'AllowanceData',
+  'IsCheckoutQrScan',
+  'TravelerName',
+  'PhoneNumber',
+  'lastSyncedAt',
+  'lastUpdatedAt',
+  'server_Timestamp',
+] as const;
+
 // 🔹 Update Attendance Record (for merge logic)
-export const updateAttendanceRecord = (
+export const updateAttendanceRecord = async (
   timestamp: string | number,
   updates: Partial<AttendanceHistoryItem>,
   userID: string,
 ): Promise<void> => {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.transaction((tx: SQLite.Transaction) => {
-      // First check if record exists and is synced (we don't update unsynced records)
-      tx.executeSql(
-        'SELECT IsSynced FROM attendance WHERE Timestamp=? AND UserID=?',
-        [timestamp, userID],
-        (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-          if (result.rows.length === 0) {
-            // Record doesn't exist, nothing to update
-            resolve();
-            return;
-          }
-
-          const record = result.rows.item(0);
-          if (record.IsSynced === 'N') {
-            // Don't overwrite unsynced records
-            log('Skipping update - record is unsynced:', timestamp);
-            resolve();
-            return;
-          }
-
-          // Build update query dynamically
-          const updateFields: string[] = [];
-          const updateValues: any[] = [];
-
-          if (updates.OrgID !== undefined) {
-            updateFields.push('OrgID=?');
-            updateValues.push(updates.OrgID);
-          }
-          if (updates.PunchType !== undefined) {
-            updateFields.push('PunchType=?');
-            updateValues.push(updates.PunchType);
-          }
-          if (updates.PunchDirection !== undefined) {
-            updateFields.push('PunchDirection=?');
-            updateValues.push(updates.PunchDirection);
-          }
-          if (updates.LatLon !== undefined) {
-            updateFields.push('LatLon=?');
-            updateValues.push(updates.LatLon);
-          }
-          if (updates.Address !== undefined) {
-            updateFields.push('Address=?');
-            updateValues.push(updates.Address);
-          }
-          if (updates.CreatedOn !== undefined) {
-            updateFields.push('CreatedOn=?');
-            updateValues.push(updates.CreatedOn);
-          }
-          if (updates.IsSynced !== undefined) {
-            updateFields.push('IsSynced=?');
-            updateValues.push(updates.IsSynced);
-          }
-          if (updates.DateOfPunch !== undefined) {
-            updateFields.push('DateOfPunch=?');
-            updateValues.push(updates.DateOfPunch);
-          }
-          if (updates.AttendanceStatus !== undefined) {
-            updateFields.push('AttendanceStatus=?');
-            updateValues.push(updates.AttendanceStatus);
-          }
-          if (updates.ModuleID !== undefined) {
-            updateFields.push('ModuleID=?');
-            updateValues.push(updates.ModuleID);
-          }
-          if (updates.TripType !== undefined) {
-            updateFields.push('TripType=?');
-            updateValues.push(updates.TripType);
-          }
-          if (updates.PassengerID !== undefined) {
-            updateFields.push('PassengerID=?');
-            updateValues.push(updates.PassengerID);
-          }
-          if (updates.AllowanceData !== undefined) {
-            updateFields.push('AllowanceData=?');
-            updateValues.push(typeof updates.AllowanceData === 'string' 
-              ? updates.AllowanceData 
-              : JSON.stringify(updates.AllowanceData));
-          }
-          if (updates.IsCheckoutQrScan !== undefined) {
-            updateFields.push('IsCheckoutQrScan=?');
-            updateValues.push(updates.IsCheckoutQrScan);
-          }
-          if (updates.TravelerName !== undefined) {
-            updateFields.push('TravelerName=?');
-            updateValues.push(updates.TravelerName);
-          }
-          if (updates.PhoneNumber !== undefined) {
-            updateFields.push('PhoneNumber=?');
-            updateValues.push(updates.PhoneNumber);
-          }
-          if (updates.lastSyncedAt !== undefined) {
-            updateFields.push('lastSyncedAt=?');
-            updateValues.push(updates.lastSyncedAt);
-          }
-          if (updates.lastUpdatedAt !== undefined) {
-            updateFields.push('lastUpdatedAt=?');
-            updateValues.push(updates.lastUpdatedAt);
-          }
-          if (updates.server_Timestamp !== undefined) {
-            updateFields.push('server_Timestamp=?');
-            updateValues.push(updates.server_Timestamp);
-          }
-
-          if (updateFields.length === 0) {
-            resolve();
-            return;
-          }
-
-          updateValues.push(timestamp);
-          updateValues.push(userID);
-
-          const updateSQL = `UPDATE attendance SET ${updateFields.join(', ')} WHERE Timestamp=? AND UserID=?`;
-
-          tx.executeSql(
-            updateSQL,
-            updateValues,
-            () => {
-              log('Updated attendance record:', timestamp);
-              getAttendanceData(userID);
-              resolve();
-            },
-            (_tx2: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Error updating attendance record', error, undefined, {
-                timestamp,
-                operation: 'update_record',
-              });
-              reject(error);
-            },
-          );
-        },
-        (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-          logger.error('Error checking record for update', error, undefined, {
-            timestamp,
-            operation: 'check_for_update',
-          });
-          reject(error);
-        },
+  const updated = await transaction(async (tx) => {
+    // First check if record exists and is synced (we don't update unsynced records)
+    const record = await tx.queryFirst<Pick<AttendanceRow, 'IsSynced'>>(
+      'SELECT IsSynced FROM attendance WHERE Timestamp=? AND UserID=?',
+      [timestamp, userID],
+    );
+    if (!record) {
+      // Record doesn't exist, nothing to update
+      return false;
+    }
+    if (record.IsSynced === 'N') {
+      // Don't overwrite unsynced records
+      log('Skipping update - record is unsynced:', timestamp);
+      return false;
+    }
+
+    // Build update query dynamically
+    const updateFields: string[] = [];
+    const updateValues: SqlParam[] = [];
+    UPDATABLE_ATTENDANCE_FIELDS.forEach((field) => {
+      const value = updates[field];
+      if (value === undefined) {
+        return;
+      }
+      updateFields.push(`${field}=?`);
+      updateValues.push(
+        field === 'AllowanceData' && typeof value !== 'string' ? JSON.stringify(value) : value,
       );
-    }, (error: SQLite.SQLError) => {
-      logger.error('Update attendance record transaction error', error, undefined, {
-        timestamp,
-        operation: 'update_record_transaction',
-      });
-      reject(error);
     });
+
+    if (updateFields.length === 0) {
+      return false;
+    }
+
+    await tx.execute(
+      `UPDATE attendance SET ${updateFields.join(', ')} WHERE Timestamp=? AND UserID=?`,
+      [...updateValues, timestamp, userID],
+    );
+    return true;
+  });
+
+  if (updated) {
+    log('Updated attendance record:', timestamp);
+    getAttendanceData(userID).catch((error) =>
+      logger.error('Error refreshing attendance data after update', error),
+    );
+  }
+};
+
+// Punch removed on the server; punches created before PunchID existed are matched by timestamp
+export interface DeletedPunch {
+  punchID?: string;
+  timestamp?: number;
+}
+
+export interface ServerChangesResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  skipped: number; // Unsynced local punches left as they are - local changes are pushed first
+}
+
+// Approval workflow fields are decided on the server (e.g. a manager approving a
+// FORGOT_TO_CHECKOUT correction): the server copy wins even over unsynced local rows
+export const SERVER_AUTHORITATIVE_ATTENDANCE_FIELDS: readonly string[] = [
+  'ApprovalRequired',
+  'AttendanceStatus',
+  'CorrectedCheckoutTime',
+  'CorrectionType',
+  'Reason',
+  'WorkedHours',
+];
+
+type ServerColumnValues = Partial<Record<keyof typeof ATTENDANCE_COLUMNS, SqlParam | undefined>>;
+
+// Server columns of a punch; fields the server leaves out keep their local value
+const toServerColumnValues = (record: AttendanceRecord, timestamp: number): ServerColumnValues => ({
+  Timestamp: timestamp,
+  OrgID: record.orgID,
+  PunchType: record.punchType,
+  PunchDirection: record.punchDirection,
+  LatLon: record.latLon,
+  Address: record.address,
+  DateOfPunch: record.dateOfPunch,
+  AttendanceStatus: record.attendanceStatus,
+  ModuleID: record.moduleID,
+  TripType: record.tripType,
+  PassengerID: record.passengerID,
+  AllowanceData:
+    record.allowanceData === undefined || typeof record.allowanceData === 'string'
+      ? record.allowanceData
+      : JSON.stringify(record.allowanceData),
+  IsCheckoutQrScan: record.isCheckoutQrScan,
+  TravelerName: record.travelerName,
+  PhoneNumber: record.phoneNumber,
+  ApprovalRequired: record.ApprovalRequired,
+  Reason: record.Reason,
+  OriginalCheckoutTime: record.OriginalCheckoutTime,
+  CorrectedCheckoutTime: record.CorrectedCheckoutTime,
+  WorkedHours: record.WorkedHours,
+  MinimumHoursRequired: record.MinimumHoursRequired,
+  LinkedEntryDate: record.LinkedEntryDate,
+  CorrectionType: record.CorrectionType,
+  ManualCheckoutTime: record.ManualCheckoutTime,
+  ShiftStartTime: record.ShiftStartTime,
+  ShiftEndTime: record.ShiftEndTime,
+  GeofenceStatus: record.GeofenceStatus,
+  GeofenceID: record.GeofenceID,
+  GeofenceDistance: record.GeofenceDistance,
+  GpsAccuracy: record.GpsAccuracy,
+  LocationRiskFlags: record.LocationRiskFlags,
+  BreakType: record.BreakType,
+  DeviceTimestamp: record.DeviceTimestamp,
+  TrustedTimestamp: record.TrustedTimestamp,
+  TimeConfidence: record.TimeConfidence,
+});
+
+const isEmptyValue = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/**
+ * Field-level conflict rules for the server copy of a local punch
+ * - Server-authoritative fields always take the server value
+ * - Other fields take the server value only when serverEditsWin, otherwise the local value is kept
+ * Overwritten local values and kept unsynced local values go to the conflict log
+ * (a local value that was empty is simply filled in)
+ */
+const resolveServerPunchFields = (
+  local: AttendanceRow,
+  serverValues: ServerColumnValues,
+  serverEditsWin: boolean,
+): { updates: ServerColumnValues; conflicts: NewSyncConflict[] } => {
+  const updates: ServerColumnValues = {};
+  const conflicts: NewSyncConflict[] = [];
+  (Object.keys(serverValues) as (keyof ServerColumnValues)[]).forEach((field) => {
+    const serverValue = serverValues[field];
+    const localValue = local[field as keyof AttendanceRow];
+    if (isEmptyValue(serverValue) || String(serverValue) === String(localValue ?? '')) {
+      return;
+    }
+
+    const serverWins = serverEditsWin || SERVER_AUTHORITATIVE_ATTENDANCE_FIELDS.includes(field);
+    if (serverWins) {
+      updates[field] = serverValue;
+    }
+    // Synced fields kept by the month merge are display copies, not conflicts
+    if (!isEmptyValue(localValue) && (serverWins || local.IsSynced === 'N')) {
+      conflicts.push({
+        entityType: 'attendance',
+        entityId: local.PunchID,
+        field,
+        localValue: String(localValue),
+        serverValue: String(serverValue),
+        resolution: serverWins ? 'server_wins' : 'local_kept',
+      });
+    }
+  });
+  return { updates, conflicts };
+};
+
+const updatePunchColumns = async (
+  tx: SqlExecutor,
+  punchID: string,
+  columns: Record<string, SqlParam | undefined>,
+): Promise<boolean> => {
+  const fields = Object.keys(columns).filter((field) => columns[field] !== undefined);
+  if (fields.length === 0) {
+    return false;
+  }
+  await tx.execute(
+    `UPDATE attendance SET ${fields.map((field) => `${field}=?`).join(', ')} WHERE PunchID=?`,
+    [...fields.map((field) => columns[field] as SqlParam), punchID],
+  );
+  return true;
+};
+
+// 🔹 Reconcile Server Copy (month merge)
+// Local data is kept except for server-authoritative fields
+export const reconcileServerAttendanceRecord = async (
+  punchID: string,
+  record: AttendanceRecord,
+): Promise<boolean> => {
+  const timestamp = typeof record.timestamp === 'string'
+    ? parseInt(record.timestamp, 10)
+    : record.timestamp;
+  const updated = await transaction(async (tx) => {
+    const local = await tx.queryFirst<AttendanceRow>('SELECT * FROM attendance WHERE PunchID=?', [punchID]);
+    if (!local) {
+      return false;
+    }
+    const { updates, conflicts } = resolveServerPunchFields(
+      local,
+      toServerColumnValues(record, timestamp),
+      false,
+    );
+    const changed = await updatePunchColumns(tx, punchID, updates);
+    await syncConflictService.recordConflicts(conflicts, tx);
+    return changed;
   });
+
+  if (updated) {
+    log('Applied server-authoritative fields to attendance record:', punchID);
+  }
+  return updated;
 };
 
+// 🔹 Apply Server Changes (incremental pull)
+// Unlike the month merge, the server wins for synced punches: edits overwrite the local
+// copy and deleted punches are removed (punches chained on this device leave a tombstone).
+// Unsynced punches only take server-authoritative fields.
+export const applyServerAttendanceChanges = async (
+  userID: string,
+  records: AttendanceRecord[],
+  deletedPunches: DeletedPunch[],
+): Promise<ServerChangesResult> => {
+  const now = Date.now();
+  const result = await transaction(async (tx) => {
+    const counts: ServerChangesResult = { inserted: 0, updated: 0, deleted: 0, skipped: 0 };
+    const findLocal = (punchID: string | undefined, timestamp: number | undefined) =>
+      tx.queryFirst<AttendanceRow>(
+        'SELECT * FROM attendance WHERE PunchID = ? OR (UserID = ? AND Timestamp = ?)',
+        [punchID || null, userID, timestamp ?? null],
+      );
+
+    for (const record of records) {
+      const timestamp = typeof record.timestamp === 'string'
+        ? parseInt(record.timestamp, 10)
+        : record.timestamp;
+      const local = await findLocal(record.punchID, timestamp);
+
+      if (!local) {
+        const punchID = record.punchID || generateUUID();
+        const dateOfPunch = record.dateOfPunch || moment.utc(timestamp).format('YYYY-MM-DD');
+        await insertPunchRow(tx, punchID, timestamp, dateOfPunch, { ...record, userID, isSynced: 'Y' });
+        counts.inserted++;
+        continue;
+      }
+
+      const serverEditsWin = local.IsSynced !== 'N';
+      const { updates, conflicts } = resolveServerPunchFields(
+        local,
+        toServerColumnValues(record, timestamp),
+        serverEditsWin,
+      );
+      const columns: Record<string, SqlParam | undefined> = { ...updates };
+      if (serverEditsWin) {
+        Object.assign(columns, { IsSynced: 'Y', lastSyncedAt: now, server_Timestamp: timestamp });
+        if (record.punchID && record.punchID !== local.PunchID) {
+          // Adopt the server key for punches matched by timestamp
+          columns.PunchID = record.punchID;
+        }
+      }
+
+      try {
+        const changed = await updatePunchColumns(tx, local.PunchID, columns);
+        await syncConflictService.recordConflicts(conflicts, tx);
+        counts[changed ? 'updated' : 'skipped']++;
+      } catch (error: any) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+        // Moved onto the timestamp of another local punch - left for the next month pull to resolve
+        logger.warn('Server change conflicts with another local punch, skipping', error, {
+          punchID: local.PunchID,
+          timestamp,
+          userID,
+        });
+        counts.skipped++;
+      }
+    }
+
+    for (const deleted of deletedPunches) {
+      const local = await findLocal(deleted.punchID, deleted.timestamp);
+      if (!local) {
+        continue;
+      }
+      if (local.IsSynced === 'N') {
+        counts.skipped++;
+        continue;
+      }
+      await punchChainService.recordServerDeletion(tx, local);
+      await tx.execute('DELETE FROM attendance WHERE PunchID=?', [local.PunchID]);
+      counts.deleted++;
+    }
+    return counts;
+  });
+
+  logger.debug('Applied server attendance changes', {
+    userID,
+    ...result,
+    operation: 'apply_server_changes',
+  });
+  if (result.inserted + result.updated + result.deleted > 0) {
+    await getAttendanceData(userID);
+  }
+  return result;
+};
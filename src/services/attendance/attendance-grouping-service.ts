@@ -3,6 +3,8 @@ import { AttendanceRecord } from '../../redux/types/userTypes';
 import { AttendanceDay, AttendanceDayRecord } from './attendance-service';
 import { logger } from '../logger';
 import { calculateWorkedHours } from './attendance-status-service';
+import { calculateBreaks, type BreakAllowance, type BreakSummary } from './break-service';
+import { getShiftForDate, type ShiftRoster } from '../../utils/shift-roster-utils';
 
 /**
  * ATTENDANCE GROUPING SERVICE - Core business logic for attendance calculations
@@ -112,8 +114,13 @@ function linkOvernightCheckouts(
  * Returns true if:
  * - The date is today (UTC)
  * - Current time is before shift end time (for overnight shifts, checks if before shift end or after shift start)
+ * Uses the shift captured at check-in, otherwise the roster's shift of the date (never on a weekly off)
  */
-function isTodayWithinShiftWindow(dateOfPunch: string, records: AttendanceRecord[]): boolean {
+function isTodayWithinShiftWindow(
+  dateOfPunch: string,
+  records: AttendanceRecord[],
+  roster: ShiftRoster
+): boolean {
   try {
     // Check if date is today (check both UTC and IST to handle timezone edge cases)
     const todayUTC = moment.utc().format('YYYY-MM-DD');
@@ -129,23 +136,19 @@ function isTodayWithinShiftWindow(dateOfPunch: string, records: AttendanceRecord
       return false; // Not today
     }
 
-    // Get shift times from first check-in record
+    // Get shift times from first check-in record, otherwise from the roster
     const firstCheckIn = records.find(r => r.PunchDirection === 'IN');
-    if (!firstCheckIn) {
-      return false; // No check-in record to get shift times
-    }
-
-    const shiftStartTime = (firstCheckIn as any)?.ShiftStartTime;
-    const shiftEndTime = (firstCheckIn as any)?.ShiftEndTime;
+    const rosterShift = getShiftForDate(roster, dateOfPunch);
+    const shiftStartTime = (firstCheckIn as any)?.ShiftStartTime || rosterShift.startTime;
+    const shiftEndTime = (firstCheckIn as any)?.ShiftEndTime || rosterShift.endTime;
 
     if (!shiftStartTime || !shiftEndTime) {
-      // If shift times aren't available but it's today and there's a check-in,
-      // return true as a safe default (show green for today's check-in)
-      logger.debug('[isTodayWithinShiftWindow] No shift times available, but today with check-in - showing green', {
+      // Weekly off - a check-in is overtime (show green), no check-in is not an absence
+      logger.debug('[isTodayWithinShiftWindow] No shift on this date', {
         dateOfPunch,
         hasCheckIn: !!firstCheckIn,
       });
-      return true; // Show green for today's check-in even if shift times aren't available
+      return !!firstCheckIn;
     }
 
     // Parse shift times (HH:mm format)
@@ -218,11 +221,12 @@ function isTodayWithinShiftWindow(dateOfPunch: string, records: AttendanceRecord
  */
 function calculateAttendanceStatus(
   records: AttendanceRecord[],
+  roster: ShiftRoster,
   dateOfPunch?: string
 ): 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' {
   if (!records || records.length === 0) {
     // Check if today is within shift window - if yes, don't show ABSENT yet
-    if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records)) {
+    if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records, roster)) {
       // Today is within shift window, no records yet - return PARTIAL (will be handled as "in progress")
       return 'PARTIAL';
     }
@@ -234,7 +238,7 @@ function calculateAttendanceStatus(
 
   if (!hasInPunch) {
     // Check if today is within shift window - if yes, don't show ABSENT yet
-    if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records)) {
+    if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records, roster)) {
       return 'PARTIAL'; // Will be shown as "in progress" not ABSENT
     }
     return 'ABSENT';
@@ -266,9 +270,11 @@ function calculateAttendanceStatus(
     const minutes = parseInt(durationParts[1] || '0', 10);
     const totalMinutes = hours * 60 + minutes;
 
-    // Get minimum hours required from the first check-in record (stored at check-in)
+    // Get minimum hours required from the first check-in record (stored at check-in),
+    // otherwise the roster's minimum for the day
     const firstCheckIn = records.find(r => r.PunchDirection === 'IN');
-    const minimumHours = firstCheckIn?.MinimumHoursRequired || 8; // Default to 8 hours if not set
+    const entryDate = dateOfPunch || firstCheckIn?.DateOfPunch || moment.utc(toNumericTimestamp(firstCheckIn?.Timestamp)).format('YYYY-MM-DD');
+    const minimumHours = firstCheckIn?.MinimumHoursRequired || getShiftForDate(roster, entryDate).minimumWorkingHours;
     const minimumMinutes = minimumHours * 60;
 
     logger.debug('[calculateAttendanceStatus] Checking hours', {
@@ -304,7 +310,7 @@ function calculateAttendanceStatus(
 
   // If last record is IN (not checked out)
   // Special case: If today is within shift window and has check-in → Show PRESENT (green) instead of PARTIAL
-  if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records)) {
+  if (dateOfPunch && isTodayWithinShiftWindow(dateOfPunch, records, roster)) {
     logger.debug('[calculateAttendanceStatus] Today within shift window with check-in - showing PRESENT', {
       dateOfPunch,
       lastRecordDirection: lastRecord.PunchDirection,
@@ -325,13 +331,17 @@ function calculateAttendanceStatus(
 /**
  * Calculate total duration and break duration from records
  * RULE: Total Duration = Last Checkout - First Checkin
+ * RULE: Break Duration = sum of the day's breaks (break start → next check-in), see calculateBreaks
+ * @param breakAllowance - Allowed break minutes of the day's shift, for the overrun flags
  */
-function calculateDurations(records: AttendanceRecord[]): {
+function calculateDurations(records: AttendanceRecord[], breakAllowance?: BreakAllowance | null): {
   totalDuration: string;
   breakDuration: string;
+  breakSummary: BreakSummary;
 } {
+  const breakSummary = calculateBreaks(records, breakAllowance);
   if (!records || records.length === 0) {
-    return { totalDuration: '00:00', breakDuration: '00:00' };
+    return { totalDuration: '00:00', breakDuration: '00:00', breakSummary };
   }
 
   // Find first CHECK-IN
@@ -347,7 +357,6 @@ function calculateDurations(records: AttendanceRecord[]): {
   }
 
   let totalMinutes = 0;
-  let breakMinutes = 0;
 
   // Calculate total duration: Last Checkout - First Checkin
   if (firstCheckIn && lastCheckOut) {
@@ -359,23 +368,6 @@ function calculateDurations(records: AttendanceRecord[]): {
     totalMinutes = Math.max(0, Math.floor(durationMs / (1000 * 60)));
   }
 
-  // Calculate break duration (time between OUT and next IN for break records)
-  for (let i = 0; i < records.length - 1; i++) {
-    const currentRecord = records[i];
-    const nextRecord = records[i + 1];
-
-    // If current is OUT with a break status and next is IN, calculate break duration
-    if (currentRecord.PunchDirection === 'OUT' &&
-        nextRecord.PunchDirection === 'IN' &&
-        currentRecord.AttendanceStatus &&
-        currentRecord.AttendanceStatus.trim() !== '') {
-      const outTime = toNumericTimestamp(currentRecord.Timestamp);
-      const inTime = toNumericTimestamp(nextRecord.Timestamp);
-      const breakDuration = Math.max(0, Math.floor((inTime - outTime) / (1000 * 60)));
-      breakMinutes += breakDuration;
-    }
-  }
-
   // Format durations as HH:mm
   const formatDuration = (minutes: number): string => {
     const hours = Math.floor(Math.max(0, minutes) / 60);
@@ -385,16 +377,19 @@ function calculateDurations(records: AttendanceRecord[]): {
 
   return {
     totalDuration: formatDuration(totalMinutes),
-    breakDuration: formatDuration(breakMinutes),
+    breakDuration: formatDuration(breakSummary.totalMinutes),
+    breakSummary,
   };
 }
 
 /**
  * Group attendance records by date and calculate durations
  * This transforms database records into the grouped format used by UI
+ * @param roster - Shift roster of the user (see getShiftRoster), for shift windows and minimum hours
  */
 export function groupAttendanceByDate(
-  records: AttendanceRecord[]
+  records: AttendanceRecord[],
+  roster: ShiftRoster
 ): AttendanceDay[] {
   if (!records || records.length === 0) {
     logger.debug('[groupAttendanceByDate] No records provided');
@@ -479,6 +474,7 @@ export function groupAttendanceByDate(
       Timestamp: toNumericTimestamp(record.Timestamp),
       PunchDirection: record.PunchDirection || 'IN',
       AttendanceStatus: record.AttendanceStatus || null,
+      BreakType: record.BreakType || null,
       LatLon: record.LatLon,
       Address: record.Address,
       DateOfPunch: dateOfPunch,
@@ -487,10 +483,13 @@ export function groupAttendanceByDate(
     }));
 
     // Calculate attendance status (pass dateOfPunch to check if today is within shift window)
-    const attendanceStatus = calculateAttendanceStatus(sortedRecords, dateOfPunch);
+    const attendanceStatus = calculateAttendanceStatus(sortedRecords, roster, dateOfPunch);
 
     // Calculate durations
-    const { totalDuration, breakDuration } = calculateDurations(sortedRecords);
+    const { totalDuration, breakDuration, breakSummary } = calculateDurations(
+      sortedRecords,
+      getShiftForDate(roster, dateOfPunch).breakAllowance,
+    );
 
     // Calculate worked hours (decimal format)
     const workedHours = calculateWorkedHours(sortedRecords);
@@ -503,6 +502,7 @@ export function groupAttendanceByDate(
       attendanceStatus,
       totalDuration,
       breakDuration,
+      breakSummary,
       records: transformedRecords,
       workedHours,
       requiresApproval,
@@ -22,6 +22,7 @@
  * │ attendance-sync-service.ts                                  │
  * │ ✅ ALL API CALLS HERE (axios.get, axios.post)              │
  * │ - syncAttendanceFromServer() → GET /api/attendance/days    │
+ * │   (current month: GET /api/attendance/changes since cursor)│
  * │ - syncAttendanceRecordToServer() → POST /api/attendance/*  │
  * │ - Used by: UI (via this file) AND Sync Coordinator (direct)│
  * └──────────────────────┬──────────────────────────────────────┘
@@ -42,7 +43,7 @@
  * ✅ SYNC COORDINATOR (background sync):
  *    → import { attendanceSyncService } from 'attendance-sync-service'
  *    → await attendanceSyncService.syncAttendanceFromServer(userID, month?)
- *    → await attendanceSyncService.syncAllUnsyncedAttendance(userID)
+ *    → Punches are pushed from sync_queue by syncQueueProcessor.processQueue(userID)
  * 
  * ✅ CHECK-IN/CHECKOUT FLOWS:
  *    → import { attendanceSyncService } from 'attendance-sync-service'
@@ -55,10 +56,14 @@
 // TYPE DEFINITIONS (for API responses)
 // ============================================================================
 
+import type { BreakSummary } from './break-service';
+import type { CalendarDayStatus } from './attendance-status-service';
+
 export interface AttendanceDayRecord {
   Timestamp: number;
   PunchDirection: 'IN' | 'OUT';
   AttendanceStatus?: string | null;
+  BreakType?: string | null; // Break started (OUT) or ended (IN) by this punch
   LatLon?: string;
   Address?: string;
   DateOfPunch?: string;
@@ -68,9 +73,11 @@ export interface AttendanceDayRecord {
 
 export interface AttendanceDay {
   dateOfPunch: string;
-  attendanceStatus: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT';
+  attendanceStatus: 'PRESENT' | 'ABSENT' | 'PARTIAL' | 'HOURS_DEFICIT' | CalendarDayStatus;
+  calendarLabel?: string | null; // Holiday name or leave type (HOLIDAY / ON_LEAVE)
   totalDuration: string; // Format: "HH:mm"
   breakDuration: string; // Format: "HH:mm"
+  breakSummary?: BreakSummary; // Breaks by type with overrun flags
   records: AttendanceDayRecord[];
   // Fields for status tracking
   workedHours?: number; // Decimal hours (e.g., 8.5)
@@ -8,7 +8,7 @@
 import moment from 'moment';
 import { AttendanceRecord } from '../../redux/types/userTypes';
 import { logger } from '../logger';
-import { getShiftEndTimestamp } from '../../utils/shift-utils';
+import { getShiftForDate, getShiftWindow, type ShiftRoster } from '../../utils/shift-roster-utils';
 
 /**
  * Calculate worked hours from first CHECK_IN to last CHECK_OUT
@@ -196,33 +196,24 @@ export function isStaleCheckIn(lastCheckInTime: number): boolean {
  * 
  * @param lastCheckInTime - Timestamp of last check-in (milliseconds)
  * @param checkInDate - Date of check-in (YYYY-MM-DD format)
- * @param shiftEndTime - Shift end time in HH:mm format (e.g., "17:00")
+ * @param roster - Shift roster of the user; the shift of the check-in date is used
  * @param bufferHours - Hours to add after shift end before considering missed (default: 2)
- * @returns true if checkout was missed, false otherwise
+ * @returns true if checkout was missed, false otherwise (also on a weekly off)
  */
 export function isMissedCheckout(
   lastCheckInTime: number,
   checkInDate: string,
-  shiftEndTime: string,
+  roster: ShiftRoster,
   bufferHours: number = 2
 ): boolean {
-  if (!lastCheckInTime || !checkInDate || !shiftEndTime) {
+  if (!lastCheckInTime || !checkInDate) {
     return false;
   }
 
-
   // Get shift end timestamp for check-in date
-  const shiftEndTimestamp = getShiftEndTimestamp(checkInDate, shiftEndTime);
+  const shiftEndTimestamp = getShiftWindow(getShiftForDate(roster, checkInDate))?.end;
   if (!shiftEndTimestamp) {
-    logger.warn('isMissedCheckout: Invalid shift end time', {
-      _context: { 
-        service: 'attendance', 
-        fileName: 'attendance-status-service.ts', 
-        methodName: 'isMissedCheckout' 
-      },
-      checkInDate,
-      shiftEndTime,
-    });
+    // Weekly off - no shift end to miss
     return false;
   }
 
@@ -244,7 +235,7 @@ export function isMissedCheckout(
       },
       lastCheckInTime,
       checkInDate,
-      shiftEndTime,
+      shiftEndTime: shiftEndMoment.format('YYYY-MM-DD HH:mm'),
       autoCheckoutTime: autoCheckoutTime.format('YYYY-MM-DD HH:mm'),
       now: now.format('YYYY-MM-DD HH:mm'),
     });
@@ -277,13 +268,25 @@ export function getRecordStatusColor(
  * - ABSENT: No check-in
  * - HOURS_DEFICIT: Complete check-in/out AND hours < minimum (NEVER requires approval)
  * - PENDING_APPROVAL: Forgot checkout OR manual time correction
+ * - HOLIDAY / WEEK_OFF / ON_LEAVE: No check-in on a non-working day (see calendar-service)
  */
 export type AttendanceStatus = 
   | 'PRESENT'           // Complete + hours >= minimum
   | 'ABSENT'            // No check-in
   | 'HOURS_DEFICIT'     // Complete + hours < minimum (NEVER approval)
   | 'PENDING_APPROVAL'  // Forgot checkout OR manual time
-  | 'PARTIAL';          // Temporary status for backward compatibility
+  | 'PARTIAL'           // Temporary status for backward compatibility
+  | CalendarDayStatus;
+
+/**
+ * Status of a date without check-in that is not an absence
+ */
+export type CalendarDayStatus =
+  | 'HOLIDAY'           // Organization holiday
+  | 'WEEK_OFF'          // Weekly off (organization or shift roster)
+  | 'ON_LEAVE';         // Approved leave
+
+export type StatusColor = 'GREEN' | 'RED' | 'YELLOW' | 'BLUE' | 'GREY' | 'PURPLE';
 
 /**
  * Calculate attendance status based on records and business rules
@@ -295,13 +298,16 @@ export type AttendanceStatus =
  * 4. Check-in + check-out AND hours < minimum -> HOURS_DEFICIT (NEVER approval)
  * 5. Check-in without check-out -> PENDING_APPROVAL
  * 
+ * Minimum hours are the ones captured at check-in (MinimumHoursRequired), otherwise
+ * the roster's minimum for the records' date
+ * 
  * @param records - Array of attendance records for a specific date
- * @param minimumHours - Minimum hours required for valid attendance
+ * @param roster - Shift roster of the user
  * @returns Attendance status
  */
 export function calculateAttendanceStatus(
   records: AttendanceRecord[],
-  minimumHours: number
+  roster: ShiftRoster
 ): AttendanceStatus {
   const logContext = { 
     _context: { 
@@ -329,7 +335,8 @@ export function calculateAttendanceStatus(
   // Rule 2: Check if pending approval due to correction
   const hasCorrectionType = records.some(r => 
     r.CorrectionType === 'FORGOT_CHECKOUT' || 
-    r.CorrectionType === 'MANUAL_TIME'
+    r.CorrectionType === 'MANUAL_TIME' ||
+    r.CorrectionType === 'AUTO_CHECKOUT'
   );
   
   if (hasCorrectionType) {
@@ -345,6 +352,11 @@ export function calculateAttendanceStatus(
   
   if (hasCheckOut) {
     const hours = calculateWorkedHours(records);
+    const firstCheckIn = records.find(r => r.PunchDirection === 'IN');
+    const entryDate = firstCheckIn?.DateOfPunch
+      || moment.utc(Number(firstCheckIn?.Timestamp)).format('YYYY-MM-DD');
+    const minimumHours = firstCheckIn?.MinimumHoursRequired
+      || getShiftForDate(roster, entryDate).minimumWorkingHours;
     
     if (hours >= minimumHours) {
       logger.debug('calculateAttendanceStatus: PRESENT', {
@@ -376,11 +388,11 @@ export function calculateAttendanceStatus(
  * Map attendance status to color for UI display
  * 
  * @param status - Attendance status
- * @returns Color: 'GREEN' | 'RED' | 'YELLOW'
+ * @returns Color: 'GREEN' | 'RED' | 'YELLOW', or 'BLUE' | 'GREY' | 'PURPLE' for non-working days
  */
 export function getStatusColorFromStatus(
   status: AttendanceStatus
-): 'GREEN' | 'RED' | 'YELLOW' {
+): StatusColor {
   switch (status) {
     case 'PRESENT':
       return 'GREEN';
@@ -390,6 +402,12 @@ export function getStatusColorFromStatus(
       return 'RED';
     case 'PENDING_APPROVAL':
       return 'YELLOW';
+    case 'HOLIDAY':
+      return 'BLUE';
+    case 'WEEK_OFF':
+      return 'GREY';
+    case 'ON_LEAVE':
+      return 'PURPLE';
     default:
       return 'RED';
   }
@@ -1,22 +1,29 @@
 import moment from 'moment';
 import { AttendanceDay } from './attendance-service';
+import { getCalendarDay, type AttendanceCalendar } from './calendar-service';
+import type { ShiftRoster } from '../../utils/shift-roster-utils';
 
 /**
  * Fill missing dates in a month with ABSENT entries
  * 
  * This ensures every day in the month has an attendance entry,
- * even if the user didn't check in. Missing days are marked as ABSENT (RED).
+ * even if the user didn't check in. Missing days are marked as ABSENT (RED),
+ * unless the calendar makes them a HOLIDAY, WEEK_OFF or ON_LEAVE day.
  * 
  * @param attendanceDays - Existing attendance data (already sorted by date desc)
  * @param month - Optional moment object for the month to fill (defaults to current month)
+ * @param calendar - Optional holidays, weekly offs and leaves of the month
+ * @param roster - Optional shift roster of the user (its weekly offs)
  * @returns AttendanceDay[] with all dates in the month filled
  */
 export function fillMissingDatesInMonth(
   attendanceDays: AttendanceDay[],
-  month?: moment.Moment
+  month?: moment.Moment,
+  calendar?: AttendanceCalendar,
+  roster?: ShiftRoster
 ): AttendanceDay[] {
-  if (!attendanceDays || attendanceDays.length === 0) {
-    // If no records at all, return empty (or could fill entire month with ABSENT)
+  if (!month && (!attendanceDays || attendanceDays.length === 0)) {
+    // No records and no month to fill - nothing to show
     return attendanceDays;
   }
 
@@ -48,10 +55,12 @@ export function fillMissingDatesInMonth(
       // Date exists, use existing data
       result.push(existingDatesMap.get(dateKey)!);
     } else {
-      // Date missing, create ABSENT entry
+      // Date missing, create ABSENT entry (or the non-working day from the calendar)
+      const calendarDay = calendar ? getCalendarDay(calendar, dateKey, roster) : null;
       result.push({
         dateOfPunch: dateKey,
-        attendanceStatus: 'ABSENT',
+        attendanceStatus: calendarDay?.status || 'ABSENT',
+        calendarLabel: calendarDay?.label,
         totalDuration: '0:00',
         breakDuration: '0:00',
         workedHours: 0,
@@ -0,0 +1,231 @@
+import { AppState, type AppStateStatus, type NativeEventSubscription } from 'react-native';
+import BackgroundFetch, { type HeadlessEvent } from 'react-native-background-fetch';
+import { store, persistor } from '../../redux';
+import { logger } from '../logger';
+import { queryFirst } from '../database/sql-client';
+import { insertAttendancePunchRecord, type AttendanceHistoryItem } from './attendance-db-service';
+import { onNotificationDelivered } from '../notifications/notification-service';
+import {
+  AUTO_CHECKOUT_NOTIFICATION_ID,
+  shiftNotificationService,
+} from '../notifications/shift-notification-service';
+import { syncCoordinator } from '../sync/sync-coordinator';
+import { toPunchTimeFields, trustedClockService } from '../time/trusted-clock-service';
+import { PUNCH_DIRECTIONS } from '../../constants/location';
+import { getShiftRoster, type ShiftRoster } from '../../utils/shift-roster-utils';
+import { getAutoCheckout, type AutoCheckout } from '../../utils/shift-utils';
+
+const DEBUG = true;
+const log = (...args: any[]) => DEBUG && logger.debug('[AutoCheckout]', ...args);
+
+// Checks while the app is in the foreground
+const AUTO_CHECKOUT_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+// Background fetch, Android and iOS - the OS does not wake the app more often than this
+const BACKGROUND_FETCH_INTERVAL_MINUTES = 15;
+
+export type AutoCheckoutTrigger = 'foreground' | 'timer' | 'background';
+
+type LastPunch = Pick<AttendanceHistoryItem, 'PunchDirection' | 'Timestamp' | 'DateOfPunch'>;
+
+/**
+ * Auto-checkout due for the user's last punch, or null while it is not a check-in
+ * or not past the shift end + buffer yet
+ */
+export function getDueAutoCheckout(
+  lastPunch: LastPunch | null | undefined,
+  roster: ShiftRoster,
+  now: number = Date.now(),
+): AutoCheckout | null {
+  if (!lastPunch || lastPunch.PunchDirection !== PUNCH_DIRECTIONS.in) {
+    return null;
+  }
+  const autoCheckout = getAutoCheckout(Number(lastPunch.Timestamp), lastPunch.DateOfPunch || undefined, roster);
+  return now >= autoCheckout.dueAt ? autoCheckout : null;
+}
+
+/**
+ * Auto Checkout Service
+ * Closes check-ins that were never checked out, so the user does not show as checked in for days
+ *
+ * - Runs on app foreground, every 5 minutes while in the foreground, when the scheduled
+ *   auto-checkout notice is delivered (Android, also in the background) and on background
+ *   fetch (Android and iOS, also after the app is closed on Android)
+ * - Background fetch runs when the OS allows it, at most every 15 minutes. The punch carries
+ *   the shift end time either way, only writing and pushing it can come later
+ * - Due times are checked against the trusted clock, so setting the phone clock forward
+ *   does not close a check-in early
+ * - Writes a system-generated OUT punch at the shift end (CorrectionType AUTO_CHECKOUT,
+ *   ApprovalRequired), shows the notice and pushes the punch
+ * - The user contests the time from the notice: CheckInScreen files a forgot checkout
+ *   correction for the auto-checkout punch
+ */
+class AutoCheckoutService {
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<AutoCheckout | null> | null = null;
+
+  /**
+   * Start the foreground checks (HomeScreen, once signed in)
+   */
+  start(): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.interval = setInterval(() => {
+      if (AppState.currentState === 'active') {
+        this.run('timer');
+      }
+    }, AUTO_CHECKOUT_INTERVAL_MS);
+    this.run('foreground');
+  }
+
+  /**
+   * Stop the foreground checks (logout)
+   */
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Register the background triggers (index.js)
+   * - Background fetch: Android and iOS, with a headless task for a closed app on Android
+   * - The auto-checkout notice delivered: Android only, on iOS the delivered event is not
+   *   sent while the app is suspended
+   */
+  registerBackgroundTrigger(): void {
+    onNotificationDelivered(async (notification) => {
+      if (notification?.id === AUTO_CHECKOUT_NOTIFICATION_ID) {
+        await this.run('background');
+      }
+    });
+
+    BackgroundFetch.configure(
+      {
+        minimumFetchInterval: BACKGROUND_FETCH_INTERVAL_MINUTES,
+        stopOnTerminate: false,
+        startOnBoot: true,
+        enableHeadless: true,
+        requiredNetworkType: BackgroundFetch.NETWORK_TYPE_NONE, // The punch is written offline too
+      },
+      this.handleBackgroundFetch,
+      (taskId) => BackgroundFetch.finish(taskId),
+    ).catch((error) => logger.error('Background fetch configure error', error));
+    BackgroundFetch.registerHeadlessTask(async ({ taskId, timeout }: HeadlessEvent) => {
+      if (timeout) {
+        BackgroundFetch.finish(taskId);
+        return;
+      }
+      await this.handleBackgroundFetch(taskId);
+    });
+  }
+
+  /**
+   * Check out the signed-in user if their check-in is past its auto-checkout time
+   * Runs one at a time; a run while one is in progress gets its result
+   * @returns The auto-checkout written, or null
+   */
+  run(trigger: AutoCheckoutTrigger): Promise<AutoCheckout | null> {
+    if (!this.running) {
+      this.running = this.checkOut(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // The OS throttles an app that does not finish its fetch tasks
+  private handleBackgroundFetch = async (taskId: string): Promise<void> => {
+    await this.run('background');
+    BackgroundFetch.finish(taskId);
+  };
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    if (nextAppState === 'active') {
+      this.run('foreground');
+    }
+  };
+
+  private async checkOut(trigger: AutoCheckoutTrigger): Promise<AutoCheckout | null> {
+    try {
+      // Started from the background the persisted state may not be loaded yet
+      await this.waitForRehydration();
+      const userData = store.getState().userState?.userData;
+      const email = userData?.email;
+      if (!email) {
+        return null;
+      }
+
+      // The table, not Redux - it is current in the background too
+      const lastPunch = await queryFirst<LastPunch & { PunchID: string }>(
+        `SELECT PunchID, PunchDirection, Timestamp, DateOfPunch FROM attendance
+          WHERE UserID = ? ORDER BY Timestamp DESC LIMIT 1`,
+        [email],
+      );
+      // Read once: the due check and the punch's time fields use the same trusted time
+      const trustedNow = trustedClockService.now();
+      const now = trustedNow.timestamp;
+      const autoCheckout = getDueAutoCheckout(lastPunch, getShiftRoster(userData), now);
+      if (!autoCheckout) {
+        return null;
+      }
+
+      log(`Checking out ${lastPunch?.PunchID} (${trigger})`, autoCheckout);
+      await insertAttendancePunchRecord({
+        timestamp: autoCheckout.checkoutTime,
+        orgID: '123',
+        userID: email,
+        punchType: 'CHECK',
+        punchDirection: PUNCH_DIRECTIONS.out,
+        latLon: '', // System-generated, no location
+        address: '',
+        createdOn: now,
+        isSynced: 'N',
+        dateOfPunch: autoCheckout.dateOfPunch,
+        attendanceStatus: '',
+        moduleID: '',
+        tripType: '',
+        passengerID: '',
+        allowanceData: JSON.stringify([]),
+        isCheckoutQrScan: 0,
+        travelerName: '',
+        phoneNumber: '',
+        ApprovalRequired: 'Y',
+        Reason: 'AUTO_CHECKOUT',
+        CorrectionType: 'AUTO_CHECKOUT',
+        CorrectedCheckoutTime: autoCheckout.checkoutTime,
+        LinkedEntryDate: autoCheckout.linkedEntryDate,
+        ...toPunchTimeFields(trustedNow),
+      });
+
+      await shiftNotificationService.showAutoCheckoutNotice(autoCheckout.checkoutTime);
+      // Awaited so a background run is not cut short before the punch is pushed
+      await syncCoordinator.syncPushOnly(email, userData.id?.toString() || email);
+      return autoCheckout;
+    } catch (error) {
+      logger.error('Auto-checkout error', error, undefined, { trigger });
+      return null;
+    }
+  }
+
+  private waitForRehydration(): Promise<void> {
+    if (persistor.getState().bootstrapped) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const unsubscribe = persistor.subscribe(() => {
+        if (persistor.getState().bootstrapped) {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+export const autoCheckoutService = new AutoCheckoutService();
@@ -0,0 +1,141 @@
+import { AttendanceRecord } from '../../redux/types/userTypes';
+
+/**
+ * BREAK SERVICE - Break accounting for a day's punches
+ *
+ * A break is a pair of punches with PunchType BREAK:
+ * - Start: OUT punch with BreakType (e.g., LUNCH), chosen in the early checkout modal
+ * - End: the next IN punch, which carries the same BreakType
+ *
+ * Punches recorded before break punches existed only have the break in AttendanceStatus
+ * on the OUT punch; they are read the same way.
+ */
+
+export type BreakType = 'LUNCH' | 'SHORTBREAK' | 'COMMUTING' | 'PERSONALTIMEOUT' | 'OUTFORDINNER';
+
+export const BREAK_TYPES: BreakType[] = ['LUNCH', 'SHORTBREAK', 'COMMUTING', 'PERSONALTIMEOUT', 'OUTFORDINNER'];
+
+// PunchType of break start / end punches (work punches are CHECK)
+export const BREAK_PUNCH_TYPE = 'BREAK';
+
+/**
+ * Allowed break minutes of a shift (from the shift roster)
+ * Types without a limit are never flagged
+ */
+export interface BreakAllowance {
+  total?: number; // All breaks together
+  byType?: Partial<Record<BreakType, number>>;
+}
+
+/**
+ * One break of the day
+ */
+export interface BreakPeriod {
+  breakType: BreakType;
+  startTime: number; // UTC ticks
+  endTime: number | null; // null while the break is still going on
+  minutes: number;
+}
+
+/**
+ * Breaks of a day with per-type totals and overrun flags
+ */
+export interface BreakSummary {
+  breaks: BreakPeriod[];
+  minutesByType: Partial<Record<BreakType, number>>;
+  totalMinutes: number;
+  overrunByType: Partial<Record<BreakType, number>>; // Minutes over the type's allowance
+  totalOverrunMinutes: number; // Minutes over the total allowance
+  hasOverrun: boolean;
+}
+
+type BreakPunch = Pick<AttendanceRecord, 'PunchDirection'> & {
+  Timestamp: string | number; // UTC ticks (strings from history records)
+  AttendanceStatus?: string | null;
+  BreakType?: string | null;
+};
+
+const toBreakType = (value?: string | null): BreakType | null => {
+  const type = value?.trim().toUpperCase();
+  return type && BREAK_TYPES.includes(type as BreakType) ? (type as BreakType) : null;
+};
+
+const toTicks = (timestamp: string | number): number =>
+  typeof timestamp === 'string' ? parseInt(timestamp, 10) : timestamp;
+
+/**
+ * Break type started by a punch, or null for a work punch
+ * Only OUT punches start a break (legacy punches: break status in AttendanceStatus)
+ */
+export function getBreakType(record: Omit<BreakPunch, 'Timestamp'>): BreakType | null {
+  if (record.PunchDirection !== 'OUT') {
+    return null;
+  }
+  return toBreakType(record.BreakType) ?? toBreakType(record.AttendanceStatus);
+}
+
+/**
+ * Check if a punch starts a break
+ */
+export function isBreakStart(record?: Omit<BreakPunch, 'Timestamp'> | null): boolean {
+  return !!record && getBreakType(record) !== null;
+}
+
+/**
+ * Collect the breaks of a day and check them against the shift's allowance
+ * @param records - Punches of the day (any order)
+ * @param allowance - Allowed break minutes of the day's shift
+ * @param now - Counts a break without end up to this time (only pass it for a break that can still be going on)
+ */
+export function calculateBreaks(
+  records: BreakPunch[],
+  allowance?: BreakAllowance | null,
+  now?: number,
+): BreakSummary {
+  const sorted = [...(records || [])].sort((a, b) => toTicks(a.Timestamp) - toTicks(b.Timestamp));
+  const breaks: BreakPeriod[] = [];
+
+  sorted.forEach((record, index) => {
+    const breakType = getBreakType(record);
+    if (!breakType) {
+      return;
+    }
+    const startTime = toTicks(record.Timestamp);
+    const next = sorted[index + 1];
+    // A break ends with the next check-in; only the day's last punch can be a break still going on
+    const endTime = next?.PunchDirection === 'IN' ? toTicks(next.Timestamp) : null;
+    const until = endTime ?? (next ? null : now);
+    breaks.push({
+      breakType,
+      startTime,
+      endTime,
+      minutes: until ? Math.max(0, Math.floor((until - startTime) / 60000)) : 0,
+    });
+  });
+
+  const minutesByType: Partial<Record<BreakType, number>> = {};
+  breaks.forEach((item) => {
+    minutesByType[item.breakType] = (minutesByType[item.breakType] || 0) + item.minutes;
+  });
+  const totalMinutes = breaks.reduce((sum, item) => sum + item.minutes, 0);
+
+  const overrunByType: Partial<Record<BreakType, number>> = {};
+  BREAK_TYPES.forEach((type) => {
+    const allowed = allowance?.byType?.[type];
+    const used = minutesByType[type] || 0;
+    if (allowed != null && used > allowed) {
+      overrunByType[type] = used - allowed;
+    }
+  });
+  const totalOverrunMinutes =
+    allowance?.total != null ? Math.max(0, totalMinutes - allowance.total) : 0;
+
+  return {
+    breaks,
+    minutesByType,
+    totalMinutes,
+    overrunByType,
+    totalOverrunMinutes,
+    hasOverrun: totalOverrunMinutes > 0 || Object.keys(overrunByType).length > 0,
+  };
+}
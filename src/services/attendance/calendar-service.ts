@@ -0,0 +1,216 @@
+import moment from 'moment';
+import apiClient from '../api/api-client';
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import { query, transaction } from '../database/sql-client';
+import type { CalendarDayStatus } from './attendance-status-service';
+import { toLeaveStatus, type Leave } from './leave-service';
+import { getShiftForDate, WEEKDAYS, type ShiftRoster, type Weekday } from '../../utils/shift-roster-utils';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[Calendar]', ...args);
+  }
+};
+
+const CALENDAR_ENDPOINT = '/api/attendance/calendar';
+
+/**
+ * Organization holiday, as stored in the holidays table
+ */
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/**
+ * Holidays, weekly offs and leaves of a date range
+ */
+export interface AttendanceCalendar {
+  holidays: Holiday[];
+  weeklyOffs: Weekday[]; // Organization weekly offs (e.g., ["SUN"])
+  leaves: Leave[];
+}
+
+/**
+ * Non-working day resolved from the calendar
+ */
+export interface CalendarDay {
+  status: CalendarDayStatus;
+  label: string | null; // Holiday name or leave type
+}
+
+export const EMPTY_CALENDAR: AttendanceCalendar = { holidays: [], weeklyOffs: [], leaves: [] };
+
+/**
+ * Resolve whether a date is a non-working day
+ * Precedence: holiday, then weekly off (organization or roster), then approved leave
+ * @param roster - Shift roster of the user, its weekly offs count too
+ * @returns null for a working day
+ */
+export function getCalendarDay(
+  calendar: AttendanceCalendar,
+  date: string,
+  roster?: ShiftRoster,
+): CalendarDay | null {
+  const holiday = calendar.holidays.find((item) => item.date === date);
+  if (holiday) {
+    return { status: 'HOLIDAY', label: holiday.name };
+  }
+
+  const weekday = WEEKDAYS[moment.utc(date, 'YYYY-MM-DD').day()];
+  if (calendar.weeklyOffs.includes(weekday) || (roster && getShiftForDate(roster, date).isWeeklyOff)) {
+    return { status: 'WEEK_OFF', label: null };
+  }
+
+  const leave = calendar.leaves.find(
+    (item) => item.status === 'approved' && item.startDate <= date && item.endDate >= date,
+  );
+  if (leave) {
+    return { status: 'ON_LEAVE', label: leave.leaveType };
+  }
+  return null;
+}
+
+/**
+ * Calendar Service
+ * Organization holidays, weekly offs and the user's leaves for the attendance views
+ *
+ * - refreshCalendar() replaces the cached range with the server's; the cache is kept when offline
+ * - Dates without check-in on these days are shown as HOLIDAY / WEEK_OFF / ON_LEAVE instead of ABSENT
+ *
+ * API:
+ * - GET /api/attendance/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *   → { holidays: [{ date, name }], weeklyOffs: ["SUN"], leaves: [{ leaveId, leaveType, startDate, endDate, status }] }
+ */
+class CalendarService {
+  /**
+   * Cached calendar of a date range (inclusive)
+   */
+  async getCalendar(ownerId: string, from: string, to: string): Promise<AttendanceCalendar> {
+    const holidays = await query<Holiday>(
+      `SELECT date, name FROM holidays WHERE ownerId = ? AND date >= ? AND date <= ? ORDER BY date ASC`,
+      [ownerId, from, to],
+    );
+    const weeklyOffs = await query<{ weekday: Weekday }>(
+      `SELECT weekday FROM weekly_offs WHERE ownerId = ?`,
+      [ownerId],
+    );
+    const leaves = await query<Leave>(
+      `SELECT * FROM leaves WHERE userId = ? AND startDate <= ? AND endDate >= ? ORDER BY startDate ASC`,
+      [ownerId, to, from],
+    );
+    return { holidays, weeklyOffs: weeklyOffs.map((row) => row.weekday), leaves };
+  }
+
+  /**
+   * Cached calendar of a month (UTC)
+   */
+  async getMonthCalendar(ownerId: string, month: moment.Moment): Promise<AttendanceCalendar> {
+    const { from, to } = this.getMonthRange(month);
+    return this.getCalendar(ownerId, from, to);
+  }
+
+  /**
+   * Pull the calendar of a date range from the server (Server → Local)
+   * @returns false when offline or the request failed - the cached calendar is kept
+   */
+  async refreshCalendar(ownerId: string, from: string, to: string): Promise<boolean> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - keeping cached calendar');
+        return false;
+      }
+
+      const response = await apiClient.get(`${CALENDAR_ENDPOINT}?from=${from}&to=${to}`, { timeout: 30000 });
+      const data = response.data?.data || response.data || {};
+      const holidays: any[] = data.holidays || [];
+      const weeklyOffs: any[] = data.weeklyOffs || [];
+      const leaves: any[] = data.leaves || [];
+      const updatedAt = Date.now();
+
+      await transaction(async (tx) => {
+        await tx.execute(`DELETE FROM holidays WHERE ownerId = ? AND date >= ? AND date <= ?`, [ownerId, from, to]);
+        for (const holiday of holidays) {
+          if (!holiday.date) {
+            continue;
+          }
+          await tx.execute(
+            `INSERT OR REPLACE INTO holidays (ownerId, date, name) VALUES (?, ?, ?)`,
+            [ownerId, holiday.date, holiday.name || holiday.title || ''],
+          );
+        }
+
+        await tx.execute(`DELETE FROM weekly_offs WHERE ownerId = ?`, [ownerId]);
+        for (const weekday of weeklyOffs) {
+          const value = String(weekday).slice(0, 3).toUpperCase();
+          if (WEEKDAYS.includes(value as Weekday)) {
+            await tx.execute(`INSERT OR IGNORE INTO weekly_offs (ownerId, weekday) VALUES (?, ?)`, [ownerId, value]);
+          }
+        }
+
+        // Leaves applied or cancelled on this device that were not pushed yet keep their local state
+        const leaveIds = leaves.map((leave) => String(leave.leaveId || leave.id)).filter(Boolean);
+        await tx.execute(
+          `DELETE FROM leaves WHERE userId = ? AND startDate <= ? AND endDate >= ? AND isSynced = 1
+            AND leaveId NOT IN (${leaveIds.map(() => '?').join(', ')})`,
+          [ownerId, to, from, ...leaveIds],
+        );
+        for (const leave of leaves) {
+          const leaveId = leave.leaveId || leave.id;
+          if (!leaveId || !leave.startDate) {
+            continue;
+          }
+          const values = [
+            leave.leaveType || leave.type || 'LEAVE',
+            leave.startDate,
+            leave.endDate || leave.startDate,
+            toLeaveStatus(leave.status),
+            updatedAt,
+          ];
+          // Update in place so the details pulled by the leave service (reason, days, ...) are kept
+          const result = await tx.execute(
+            `UPDATE leaves SET leaveType = ?, startDate = ?, endDate = ?, status = ?, updatedAt = ?
+              WHERE leaveId = ? AND isSynced = 1`,
+            [...values, String(leaveId)],
+          );
+          if (result.rowsAffected === 0) {
+            await tx.execute(
+              `INSERT OR IGNORE INTO leaves (leaveType, startDate, endDate, status, updatedAt, leaveId, userId)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+              [...values, String(leaveId), ownerId],
+            );
+          }
+        }
+      });
+      log(`Refreshed calendar ${from} - ${to}:`, {
+        holidays: holidays.length,
+        weeklyOffs: weeklyOffs.length,
+        leaves: leaves.length,
+      });
+      return true;
+    } catch (error: any) {
+      logger.error('refreshCalendar error - keeping cached calendar', error, undefined, { from, to });
+      return false;
+    }
+  }
+
+  /**
+   * Pull the calendar of a month (UTC) from the server
+   */
+  async refreshMonthCalendar(ownerId: string, month: moment.Moment): Promise<boolean> {
+    const { from, to } = this.getMonthRange(month);
+    return this.refreshCalendar(ownerId, from, to);
+  }
+
+  private getMonthRange(month: moment.Moment): { from: string; to: string } {
+    return {
+      from: month.clone().utc().startOf('month').format('YYYY-MM-DD'),
+      to: month.clone().utc().endOf('month').format('YYYY-MM-DD'),
+    };
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -0,0 +1,363 @@
+import apiClient from '../api/api-client';
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import { execute, query, queryFirst, transaction } from '../database/sql-client';
+import { syncQueueService, type SyncQueueItem, type SyncQueuePushResult } from '../sync/sync-queue-service';
+import { getAttendanceRecordByPunchID } from './attendance-db-service';
+import { generateUUID } from '../../utils/uuid-utils';
+import { apiTimestampToTicks } from '../../utils/timestamp-utils';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[Corrections]', ...args);
+  }
+};
+
+const CORRECTIONS_ENDPOINT = '/api/attendance/corrections';
+
+/**
+ * Request state
+ * - pending: Waiting for a manager (also while it is still being sent)
+ * - approved / rejected: Decided by a manager, see reviewerComment
+ * - withdrawn: Taken back by the employee before a decision
+ */
+export type CorrectionRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export type CorrectionType = 'FORGOT_CHECKOUT' | 'MANUAL_TIME';
+
+/**
+ * Correction request, as stored in the correction_requests table
+ */
+export interface CorrectionRequest {
+  requestId: string; // Client-generated UUID, also the idempotency key
+  punchId: string; // Checkout punch the correction applies to
+  userId: string;
+  correctionType: CorrectionType;
+  reason: string | null; // e.g. FORGOT_TO_CHECKOUT
+  originalTime: number | null; // When the checkout was actually recorded (UTC ticks)
+  requestedTime: number; // Checkout time asked for (UTC ticks)
+  note: string | null; // Employee's note to the manager
+  status: CorrectionRequestStatus;
+  reviewerComment: string | null; // Manager's comment (explains a rejection)
+  reviewedBy: string | null;
+  submittedAt: number;
+  decidedAt: number | null;
+  isSynced: number; // 0 while the latest submit / withdraw has not reached the server
+}
+
+export interface SubmitCorrectionInput {
+  punchId: string;
+  userId: string;
+  correctionType: CorrectionType;
+  reason?: string;
+  originalTime?: number;
+  requestedTime: number;
+  note?: string;
+}
+
+const toStatus = (value: any): CorrectionRequestStatus => {
+  const status = String(value || 'pending').toLowerCase();
+  return status === 'approved' || status === 'rejected' || status === 'withdrawn' ? status : 'pending';
+};
+
+const toTicksOrNull = (value: any): number | null =>
+  value === null || value === undefined || value === '' ? null : apiTimestampToTicks(value);
+
+// Server request → local row (server copies are always synced)
+const fromServerRequest = (request: any, userId: string): CorrectionRequest => ({
+  requestId: request.requestId || request.id,
+  punchId: request.punchId,
+  userId,
+  correctionType: request.correctionType,
+  reason: request.reason ?? null,
+  originalTime: toTicksOrNull(request.originalTime),
+  requestedTime: apiTimestampToTicks(request.requestedTime),
+  note: request.note ?? null,
+  status: toStatus(request.status),
+  reviewerComment: request.reviewerComment ?? null,
+  reviewedBy: request.reviewedBy ?? null,
+  submittedAt: toTicksOrNull(request.submittedAt) ?? Date.now(),
+  decidedAt: toTicksOrNull(request.decidedAt),
+  isSynced: 1,
+});
+
+const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || error?.message || fallback;
+
+/**
+ * Correction Service
+ * Approval requests for forgot-checkout and manual time corrections
+ *
+ * - submit / withdraw are stored locally first and pushed by the sync queue processor,
+ *   so they work offline; a request is only sent once its punch has been synced
+ * - Decisions (approved / rejected with comment) arrive through refreshMyRequests(),
+ *   which the sync coordinator calls on every pull
+ *
+ * API:
+ * - POST /api/attendance/corrections → submit (Idempotency-Key: requestId)
+ * - GET /api/attendance/corrections → list the signed-in user's requests
+ * - POST /api/attendance/corrections/{requestId}/withdraw → withdraw a pending request
+ */
+class CorrectionService {
+  /**
+   * Submit a correction request for a punch
+   * Returns the existing request when the punch already has one waiting for a decision
+   */
+  async submitCorrection(input: SubmitCorrectionInput): Promise<CorrectionRequest> {
+    const request: CorrectionRequest = {
+      requestId: generateUUID(),
+      punchId: input.punchId,
+      userId: input.userId,
+      correctionType: input.correctionType,
+      reason: input.reason ?? null,
+      originalTime: input.originalTime ?? null,
+      requestedTime: input.requestedTime,
+      note: input.note ?? null,
+      status: 'pending',
+      reviewerComment: null,
+      reviewedBy: null,
+      submittedAt: Date.now(),
+      decidedAt: null,
+      isSynced: 0,
+    };
+
+    return transaction(async (tx) => {
+      const existing = await tx.queryFirst<CorrectionRequest>(
+        `SELECT * FROM correction_requests WHERE punchId = ? AND status = 'pending'`,
+        [input.punchId],
+      );
+      if (existing) {
+        log('Punch already has a pending request:', existing.requestId);
+        return existing;
+      }
+
+      await tx.execute(
+        `INSERT INTO correction_requests
+          (requestId, punchId, userId, correctionType, reason, originalTime, requestedTime, note, status, submittedAt, isSynced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, 0)`,
+        [
+          request.requestId,
+          request.punchId,
+          request.userId,
+          request.correctionType,
+          request.reason,
+          request.originalTime,
+          request.requestedTime,
+          request.note,
+          request.submittedAt,
+        ],
+      );
+      await syncQueueService.addToQueue(
+        {
+          type: 'correction',
+          entityId: request.requestId,
+          operation: 'create',
+          data: null,
+          timestamp: request.submittedAt,
+        },
+        tx,
+      );
+      log('Submitted correction request:', request.requestId);
+      return request;
+    });
+  }
+
+  /**
+   * Requests of a user from the local table, newest first
+   */
+  async getMyRequests(userId: string): Promise<CorrectionRequest[]> {
+    return query<CorrectionRequest>(
+      `SELECT * FROM correction_requests WHERE userId = ? ORDER BY submittedAt DESC`,
+      [userId],
+    );
+  }
+
+  /**
+   * Withdraw a request that is still waiting for a decision
+   * @returns false when the request is not pending anymore
+   */
+  async withdrawCorrection(requestId: string): Promise<boolean> {
+    const withdrawn = await transaction(async (tx) => {
+      const request = await tx.queryFirst<Pick<CorrectionRequest, 'status'>>(
+        `SELECT status FROM correction_requests WHERE requestId = ?`,
+        [requestId],
+      );
+      if (request?.status !== 'pending') {
+        return false;
+      }
+
+      await tx.execute(
+        `UPDATE correction_requests SET status = 'withdrawn', isSynced = 0 WHERE requestId = ?`,
+        [requestId],
+      );
+      await syncQueueService.addToQueue(
+        {
+          type: 'correction',
+          entityId: requestId,
+          property: 'status', // Keeps the item apart from a submit queued in the same millisecond
+          operation: 'delete',
+          data: null,
+          timestamp: Date.now(),
+        },
+        tx,
+      );
+      return true;
+    });
+
+    if (withdrawn) {
+      log('Withdrew correction request:', requestId);
+    }
+    return withdrawn;
+  }
+
+  /**
+   * Pull the user's requests from the server (Server → Local)
+   * The server copy wins, except for requests with a local change that was not pushed yet
+   * @returns The local list after the merge
+   */
+  async refreshMyRequests(userId: string): Promise<CorrectionRequest[]> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - showing local requests');
+        return this.getMyRequests(userId);
+      }
+
+      const response = await apiClient.get(CORRECTIONS_ENDPOINT, { timeout: 30000 });
+      const serverRequests: any[] = Array.isArray(response.data)
+        ? response.data
+        : response.data?.data || response.data?.requests || [];
+
+      await transaction(async (tx) => {
+        for (const serverRequest of serverRequests) {
+          const request = fromServerRequest(serverRequest, userId);
+          if (!request.requestId) {
+            continue;
+          }
+          await tx.execute(
+            `INSERT OR REPLACE INTO correction_requests
+              (requestId, punchId, userId, correctionType, reason, originalTime, requestedTime, note, status,
+               reviewerComment, reviewedBy, submittedAt, decidedAt, isSynced)
+              SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1
+              WHERE NOT EXISTS (SELECT 1 FROM correction_requests WHERE requestId = ? AND isSynced = 0)`,
+            [
+              request.requestId,
+              request.punchId,
+              request.userId,
+              request.correctionType,
+              request.reason,
+              request.originalTime,
+              request.requestedTime,
+              request.note,
+              request.status,
+              request.reviewerComment,
+              request.reviewedBy,
+              request.submittedAt,
+              request.decidedAt,
+              request.requestId,
+            ],
+          );
+        }
+      });
+      log(`Refreshed ${serverRequests.length} correction requests from server`);
+    } catch (error: any) {
+      logger.error('refreshMyRequests error - showing local requests', error);
+    }
+    return this.getMyRequests(userId);
+  }
+
+  /**
+   * Push a queued submit (create) or withdraw (delete) to the server - called by the sync queue processor
+   * @param email Signed-in user - requests of other users are deferred
+   */
+  async pushQueuedRequest(item: SyncQueueItem, email: string): Promise<SyncQueuePushResult> {
+    const request = await queryFirst<CorrectionRequest>(
+      `SELECT * FROM correction_requests WHERE requestId = ?`,
+      [item.entityId],
+    );
+    if (!request) {
+      return { outcome: 'synced' }; // Nothing left to push
+    }
+    if (request.userId !== email) {
+      return { outcome: 'deferred' };
+    }
+
+    return item.operation === 'delete' ? this.pushWithdrawal(request) : this.pushSubmission(request);
+  }
+
+  private async pushSubmission(request: CorrectionRequest): Promise<SyncQueuePushResult> {
+    if (request.status === 'withdrawn') {
+      // Withdrawn before it was sent - the queued withdraw has nothing to undo on the server either
+      return { outcome: 'synced' };
+    }
+    const punch = await getAttendanceRecordByPunchID(request.punchId);
+    if (punch?.IsSynced === 'N') {
+      return { outcome: 'deferred' }; // The server has to know the punch first
+    }
+
+    try {
+      await apiClient.post(
+        CORRECTIONS_ENDPOINT,
+        {
+          requestId: request.requestId,
+          punchId: request.punchId,
+          correctionType: request.correctionType,
+          reason: request.reason,
+          originalTime: request.originalTime,
+          requestedTime: request.requestedTime,
+          note: request.note,
+        },
+        {
+          timeout: 30000,
+          headers: { 'Idempotency-Key': request.requestId },
+        },
+      );
+      await this.markSynced(request.requestId, 'pending');
+      return { outcome: 'synced' };
+    } catch (error: any) {
+      logger.error('Correction request submit error', error, undefined, { requestId: request.requestId });
+      const status = error?.response?.status;
+      return {
+        outcome: status === 400 || status === 422 ? 'rejected' : 'failed',
+        error: errorMessage(error, 'Submit failed'),
+      };
+    }
+  }
+
+  private async pushWithdrawal(request: CorrectionRequest): Promise<SyncQueuePushResult> {
+    try {
+      await apiClient.post(`${CORRECTIONS_ENDPOINT}/${request.requestId}/withdraw`, undefined, {
+        timeout: 30000,
+      });
+      await this.markSynced(request.requestId, 'withdrawn');
+      return { outcome: 'synced' };
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 404) {
+        // Never reached the server
+        await this.markSynced(request.requestId, 'withdrawn');
+        return { outcome: 'synced' };
+      }
+      logger.error('Correction request withdraw error', error, undefined, { requestId: request.requestId });
+      // 409: already decided - the next refresh brings back the decision
+      if (status === 409) {
+        await this.markSynced(request.requestId, 'withdrawn');
+      }
+      return {
+        outcome: status === 409 || status === 422 ? 'rejected' : 'failed',
+        error: errorMessage(error, 'Withdraw failed'),
+      };
+    }
+  }
+
+  // Mark pushed, unless the request changed again while the push was in flight
+  private async markSynced(requestId: string, pushedStatus: CorrectionRequestStatus): Promise<void> {
+    await execute(
+      `UPDATE correction_requests SET isSynced = 1 WHERE requestId = ? AND status = ?`,
+      [requestId, pushedStatus],
+    );
+  }
+}
+
+export const correctionService = new CorrectionService();
@@ -5,4 +5,11 @@ export * from './attendance-grouping-service';
 export * from './attendance-status-service';
 export * from './shift-detection-service';
 export * from './overnight-shift-service';
+export * from './break-service';
+export * from './auto-checkout-service';
 
+export * from './correction-service';
+export * from './team-approval-service';
+export * from './calendar-service';
+export * from './leave-service';
+export * from './punch-chain-service';
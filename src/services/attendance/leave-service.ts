@@ -0,0 +1,420 @@
+import moment from 'moment';
+import apiClient from '../api/api-client';
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import { execute, query, queryFirst, transaction } from '../database/sql-client';
+import { syncQueueService, type SyncQueueItem, type SyncQueuePushResult } from '../sync/sync-queue-service';
+import { generateUUID } from '../../utils/uuid-utils';
+import { apiTimestampToTicks } from '../../utils/timestamp-utils';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[Leaves]', ...args);
+  }
+};
+
+const LEAVES_ENDPOINT = '/api/leaves';
+const LEAVE_BALANCE_ENDPOINT = '/api/leaves/balance';
+
+// Offered on the apply screen until the balance has been pulled once
+export const DEFAULT_LEAVE_TYPES = ['CASUAL', 'SICK', 'EARNED'];
+
+/**
+ * Leave state
+ * - pending: Waiting for a manager (also while it is still being sent)
+ * - approved / rejected: Decided by a manager, see reviewerComment
+ * - cancelled: Taken back by the employee before a decision
+ */
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type HalfDaySession = 'FIRST_HALF' | 'SECOND_HALF';
+
+/**
+ * Leave of the user, as stored in the leaves table
+ * Holds both the user's applications and leaves pulled with the attendance calendar
+ */
+export interface Leave {
+  leaveId: string; // Client-generated UUID for applications, also the idempotency key
+  userId: string;
+  leaveType: string; // e.g., CASUAL, SICK, EARNED
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD (inclusive)
+  halfDaySession: HalfDaySession | null; // Single-day leave for half of the day
+  days: number | null; // Leave days (0.5 for a half day)
+  reason: string | null;
+  status: LeaveStatus;
+  reviewerComment: string | null; // Manager's comment (explains a rejection)
+  submittedAt: number | null;
+  updatedAt: number;
+  isSynced: number; // 0 while the latest apply / cancel has not reached the server
+}
+
+/**
+ * Leave balance of one type, as stored in the leave_balances table
+ */
+export interface LeaveBalance {
+  leaveType: string;
+  name: string | null; // Display name (e.g., "Casual Leave")
+  total: number | null;
+  used: number | null;
+  available: number | null;
+}
+
+export interface ApplyLeaveInput {
+  userId: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  halfDaySession?: HalfDaySession | null;
+  reason: string;
+}
+
+export const toLeaveStatus = (value: any): LeaveStatus => {
+  const status = String(value || 'pending').toLowerCase();
+  return status === 'approved' || status === 'rejected' || status === 'cancelled' ? status : 'pending';
+};
+
+const toNumberOrNull = (value: any): number | null =>
+  value === null || value === undefined || value === '' || isNaN(Number(value)) ? null : Number(value);
+
+const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || error?.message || fallback;
+
+/**
+ * Number of leave days of a date range (inclusive), 0.5 for a half day
+ */
+export function countLeaveDays(startDate: string, endDate: string, halfDaySession?: HalfDaySession | null): number {
+  if (halfDaySession) {
+    return 0.5;
+  }
+  return moment.utc(endDate, 'YYYY-MM-DD').diff(moment.utc(startDate, 'YYYY-MM-DD'), 'days') + 1;
+}
+
+/**
+ * Leave Service
+ * Leave applications with balance and history
+ *
+ * - apply / cancel are stored locally first and pushed by the sync queue processor, so they work offline
+ * - Decisions (approved / rejected with comment) and balances arrive through refreshMyLeaves() and
+ *   refreshBalances(), which the sync coordinator calls on every pull
+ * - Approved leave shows on the Days tab through the attendance calendar (ON_LEAVE)
+ *
+ * API:
+ * - POST /api/leaves → apply (Idempotency-Key: leaveId)
+ * - GET /api/leaves → list the signed-in user's leaves
+ * - POST /api/leaves/{leaveId}/cancel → cancel a pending leave
+ * - GET /api/leaves/balance → { balances: [{ leaveType, name, total, used, available }] }
+ */
+class LeaveService {
+  /**
+   * Apply for leave
+   * The caller validates the range (see findOverlappingLeave) - half days are single-day only
+   */
+  async applyLeave(input: ApplyLeaveInput): Promise<Leave> {
+    const halfDaySession = input.startDate === input.endDate ? input.halfDaySession ?? null : null;
+    const now = Date.now();
+    const leave: Leave = {
+      leaveId: generateUUID(),
+      userId: input.userId,
+      leaveType: input.leaveType,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      halfDaySession,
+      days: countLeaveDays(input.startDate, input.endDate, halfDaySession),
+      reason: input.reason.trim() || null,
+      status: 'pending',
+      reviewerComment: null,
+      submittedAt: now,
+      updatedAt: now,
+      isSynced: 0,
+    };
+
+    await transaction(async (tx) => {
+      await tx.execute(
+        `INSERT INTO leaves
+          (leaveId, userId, leaveType, startDate, endDate, halfDaySession, days, reason, status, submittedAt,
+           updatedAt, isSynced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, 0)`,
+        [
+          leave.leaveId,
+          leave.userId,
+          leave.leaveType,
+          leave.startDate,
+          leave.endDate,
+          leave.halfDaySession,
+          leave.days,
+          leave.reason,
+          leave.submittedAt,
+          leave.updatedAt,
+        ],
+      );
+      await syncQueueService.addToQueue(
+        {
+          type: 'leave',
+          entityId: leave.leaveId,
+          operation: 'create',
+          data: null,
+          timestamp: now,
+        },
+        tx,
+      );
+    });
+    log('Applied for leave:', leave.leaveId);
+    return leave;
+  }
+
+  /**
+   * Pending or approved leave of the user that overlaps a date range
+   */
+  async findOverlappingLeave(userId: string, startDate: string, endDate: string): Promise<Leave | null> {
+    return queryFirst<Leave>(
+      `SELECT * FROM leaves WHERE userId = ? AND status IN ('pending', 'approved') AND startDate <= ? AND endDate >= ?
+        ORDER BY startDate ASC LIMIT 1`,
+      [userId, endDate, startDate],
+    );
+  }
+
+  /**
+   * Leaves of a user from the local table, latest first
+   */
+  async getMyLeaves(userId: string): Promise<Leave[]> {
+    return query<Leave>(
+      `SELECT * FROM leaves WHERE userId = ? ORDER BY startDate DESC, submittedAt DESC`,
+      [userId],
+    );
+  }
+
+  /**
+   * Cancel a leave that is still waiting for a decision
+   * @returns false when the leave is not pending anymore
+   */
+  async cancelLeave(leaveId: string): Promise<boolean> {
+    const cancelled = await transaction(async (tx) => {
+      const leave = await tx.queryFirst<Pick<Leave, 'status'>>(
+        `SELECT status FROM leaves WHERE leaveId = ?`,
+        [leaveId],
+      );
+      if (leave?.status !== 'pending') {
+        return false;
+      }
+
+      await tx.execute(
+        `UPDATE leaves SET status = 'cancelled', updatedAt = ?, isSynced = 0 WHERE leaveId = ?`,
+        [Date.now(), leaveId],
+      );
+      await syncQueueService.addToQueue(
+        {
+          type: 'leave',
+          entityId: leaveId,
+          property: 'status', // Keeps the item apart from an apply queued in the same millisecond
+          operation: 'delete',
+          data: null,
+          timestamp: Date.now(),
+        },
+        tx,
+      );
+      return true;
+    });
+
+    if (cancelled) {
+      log('Cancelled leave:', leaveId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Pull the user's leaves from the server (Server → Local)
+   * The server copy wins, except for leaves with a local change that was not pushed yet
+   * @returns The local list after the merge
+   */
+  async refreshMyLeaves(userId: string): Promise<Leave[]> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - showing local leaves');
+        return this.getMyLeaves(userId);
+      }
+
+      const response = await apiClient.get(LEAVES_ENDPOINT, { timeout: 30000 });
+      const serverLeaves: any[] = Array.isArray(response.data)
+        ? response.data
+        : response.data?.data || response.data?.leaves || [];
+      const updatedAt = Date.now();
+
+      await transaction(async (tx) => {
+        for (const serverLeave of serverLeaves) {
+          const leaveId = serverLeave.leaveId || serverLeave.id;
+          if (!leaveId || !serverLeave.startDate) {
+            continue;
+          }
+          const endDate = serverLeave.endDate || serverLeave.startDate;
+          const halfDaySession = serverLeave.halfDaySession ?? null;
+          await tx.execute(
+            `INSERT OR REPLACE INTO leaves
+              (leaveId, userId, leaveType, startDate, endDate, halfDaySession, days, reason, status, reviewerComment,
+               submittedAt, updatedAt, isSynced)
+              SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1
+              WHERE NOT EXISTS (SELECT 1 FROM leaves WHERE leaveId = ? AND isSynced = 0)`,
+            [
+              String(leaveId),
+              userId,
+              serverLeave.leaveType || serverLeave.type || 'LEAVE',
+              serverLeave.startDate,
+              endDate,
+              halfDaySession,
+              toNumberOrNull(serverLeave.days) ?? countLeaveDays(serverLeave.startDate, endDate, halfDaySession),
+              serverLeave.reason ?? null,
+              toLeaveStatus(serverLeave.status),
+              serverLeave.reviewerComment ?? null,
+              serverLeave.submittedAt ? apiTimestampToTicks(serverLeave.submittedAt) : null,
+              updatedAt,
+              String(leaveId),
+            ],
+          );
+        }
+      });
+      log(`Refreshed ${serverLeaves.length} leaves from server`);
+    } catch (error: any) {
+      logger.error('refreshMyLeaves error - showing local leaves', error);
+    }
+    return this.getMyLeaves(userId);
+  }
+
+  /**
+   * Cached leave balances of a user, by leave type
+   */
+  async getBalances(userId: string): Promise<LeaveBalance[]> {
+    return query<LeaveBalance>(
+      `SELECT leaveType, name, total, used, available FROM leave_balances WHERE userId = ? ORDER BY leaveType ASC`,
+      [userId],
+    );
+  }
+
+  /**
+   * Pull the leave balances from the server (Server → Local)
+   * @returns The cached balances after the refresh (unchanged when offline or the request failed)
+   */
+  async refreshBalances(userId: string): Promise<LeaveBalance[]> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - showing cached balances');
+        return this.getBalances(userId);
+      }
+
+      const response = await apiClient.get(LEAVE_BALANCE_ENDPOINT, { timeout: 30000 });
+      const balances: any[] = Array.isArray(response.data)
+        ? response.data
+        : response.data?.balances || response.data?.data || [];
+      const updatedAt = Date.now();
+
+      await transaction(async (tx) => {
+        await tx.execute(`DELETE FROM leave_balances WHERE userId = ?`, [userId]);
+        for (const balance of balances) {
+          if (!balance.leaveType) {
+            continue;
+          }
+          await tx.execute(
+            `INSERT OR REPLACE INTO leave_balances (userId, leaveType, name, total, used, available, updatedAt)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+              userId,
+              balance.leaveType,
+              balance.name ?? null,
+              toNumberOrNull(balance.total),
+              toNumberOrNull(balance.used),
+              toNumberOrNull(balance.available),
+              updatedAt,
+            ],
+          );
+        }
+      });
+      log(`Refreshed ${balances.length} leave balances from server`);
+    } catch (error: any) {
+      logger.error('refreshBalances error - showing cached balances', error);
+    }
+    return this.getBalances(userId);
+  }
+
+  /**
+   * Push a queued apply (create) or cancel (delete) to the server - called by the sync queue processor
+   * @param email Signed-in user - leaves of other users are deferred
+   */
+  async pushQueuedLeave(item: SyncQueueItem, email: string): Promise<SyncQueuePushResult> {
+    const leave = await queryFirst<Leave>(`SELECT * FROM leaves WHERE leaveId = ?`, [item.entityId]);
+    if (!leave) {
+      return { outcome: 'synced' }; // Nothing left to push
+    }
+    if (leave.userId !== email) {
+      return { outcome: 'deferred' };
+    }
+
+    return item.operation === 'delete' ? this.pushCancellation(leave) : this.pushApplication(leave);
+  }
+
+  private async pushApplication(leave: Leave): Promise<SyncQueuePushResult> {
+    if (leave.status === 'cancelled') {
+      // Cancelled before it was sent - the queued cancel has nothing to undo on the server either
+      return { outcome: 'synced' };
+    }
+
+    try {
+      await apiClient.post(
+        LEAVES_ENDPOINT,
+        {
+          leaveId: leave.leaveId,
+          leaveType: leave.leaveType,
+          startDate: leave.startDate,
+          endDate: leave.endDate,
+          halfDaySession: leave.halfDaySession,
+          reason: leave.reason,
+        },
+        {
+          timeout: 30000,
+          headers: { 'Idempotency-Key': leave.leaveId },
+        },
+      );
+      await this.markSynced(leave.leaveId, 'pending');
+      return { outcome: 'synced' };
+    } catch (error: any) {
+      logger.error('Leave apply error', error, undefined, { leaveId: leave.leaveId });
+      const status = error?.response?.status;
+      return {
+        outcome: status === 400 || status === 409 || status === 422 ? 'rejected' : 'failed',
+        error: errorMessage(error, 'Leave application failed'),
+      };
+    }
+  }
+
+  private async pushCancellation(leave: Leave): Promise<SyncQueuePushResult> {
+    try {
+      await apiClient.post(`${LEAVES_ENDPOINT}/${leave.leaveId}/cancel`, undefined, { timeout: 30000 });
+      await this.markSynced(leave.leaveId, 'cancelled');
+      return { outcome: 'synced' };
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 404) {
+        // Never reached the server
+        await this.markSynced(leave.leaveId, 'cancelled');
+        return { outcome: 'synced' };
+      }
+      logger.error('Leave cancel error', error, undefined, { leaveId: leave.leaveId });
+      // 409: already decided - the next refresh brings back the decision
+      if (status === 409) {
+        await this.markSynced(leave.leaveId, 'cancelled');
+      }
+      return {
+        outcome: status === 409 || status === 422 ? 'rejected' : 'failed',
+        error: errorMessage(error, 'Cancel failed'),
+      };
+    }
+  }
+
+  // Mark pushed, unless the leave changed again while the push was in flight
+  private async markSynced(leaveId: string, pushedStatus: LeaveStatus): Promise<void> {
+    await execute(`UPDATE leaves SET isSynced = 1 WHERE leaveId = ? AND status = ?`, [leaveId, pushedStatus]);
+  }
+}
+
+export const leaveService = new LeaveService();
@@ -1,5 +1,6 @@
 import moment from 'moment';
 import {logger} from '../logger';
+import { isOvernightSegment, type DayShift } from '../../utils/shift-roster-utils';
 
 /**
  * Overnight Shift Service
@@ -11,7 +12,8 @@ import {logger} from '../logger';
 /**
  * Detect if a shift crosses midnight
  * 
- * @param shiftStart - Shift start time in "HH:mm" format (e.g., "18:00")
+ * @param shiftStart - Shift start time in "HH:mm" format (e.g., "18:00"), or a day's shift
+ *   from the roster (see getShiftForDate) - overnight if any of its segments crosses midnight
  * @param shiftEnd - Shift end time in "HH:mm" format (e.g., "03:00")
  * @returns true if shift crosses midnight, false otherwise
  * 
@@ -19,14 +21,21 @@ import {logger} from '../logger';
  * isOvernightShift("18:00", "03:00") // true - overnight shift
  * isOvernightShift("09:00", "18:00") // false - same day shift
  * isOvernightShift("23:00", "01:00") // true - crosses midnight
+ * isOvernightShift(getShiftForDate(roster, "2025-12-22")) // true in a night week
  */
+export function isOvernightShift(shift: DayShift): boolean;
+export function isOvernightShift(shiftStart: string, shiftEnd: string): boolean;
 export function isOvernightShift(
-  shiftStart: string,
-  shiftEnd: string
+  shiftStart: string | DayShift,
+  shiftEnd?: string
 ): boolean {
+  if (typeof shiftStart !== 'string') {
+    return shiftStart.segments.some(isOvernightSegment);
+  }
+
   try {
     const [startHour, startMinute] = shiftStart.split(':').map(Number);
-    const [endHour, endMinute] = shiftEnd.split(':').map(Number);
+    const [endHour, endMinute] = (shiftEnd || '').split(':').map(Number);
     
     const startMinutes = startHour * 60 + startMinute;
     const endMinutes = endHour * 60 + endMinute;
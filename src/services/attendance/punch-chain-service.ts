@@ -0,0 +1,224 @@
+import { logger } from '../logger';
+import { query, queryFirst, type SqlExecutor } from '../database/sql-client';
+import { getDeviceUniqueIdentifier } from '../device/device-identifier-service';
+import { getDeviceSigningKey, signWithDeviceKey } from '../device/device-key-service';
+import { sha256Hex } from '../../utils/hash-utils';
+
+// prevHash of the first punch in a user's chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Fields of a punch covered by its hash (as stored in the attendance table)
+ */
+export interface ChainedPunch {
+  PunchID: string;
+  UserID: string;
+  Timestamp: number;
+  LatLon: string;
+  PunchDirection: string;
+  DeviceID: string;
+  ChainSeq: number;
+  PrevHash: string;
+}
+
+/**
+ * Chain fields persisted on every punch written on the device
+ */
+export interface PunchChainFields {
+  DeviceID: string;
+  ChainSeq: number; // Position in the user's chain on this device, from 1
+  PrevHash: string; // RecordHash of the previous punch in the chain
+  RecordHash: string;
+  Signature: string;
+}
+
+/**
+ * Break found by verifyChain
+ * - ALTERED: The punch no longer matches its hash or signature
+ * - MISSING: A punch before this position was removed
+ */
+export interface PunchChainBreak {
+  reason: 'ALTERED' | 'MISSING';
+  chainSeq: number;
+  punchID?: string;
+}
+
+/**
+ * Signing context, loaded before the insert transaction (Keychain and device id are async)
+ */
+export interface PunchSigner {
+  deviceID: string;
+  key: string | null;
+}
+
+type ChainRow = ChainedPunch & { RecordHash: string; Signature: string | null; IsSynced: string };
+
+// Chained punch deleted by the server: only its place in the chain is kept
+type ChainTombstone = Pick<ChainRow, 'PunchID' | 'ChainSeq' | 'RecordHash'>;
+
+/**
+ * Hash of a punch: SHA-256 of the JSON array of its fields (the server recomputes it the same way)
+ */
+export const hashPunch = (punch: ChainedPunch): string =>
+  sha256Hex(
+    JSON.stringify([
+      punch.PunchID,
+      punch.UserID,
+      Number(punch.Timestamp),
+      punch.LatLon || '',
+      punch.PunchDirection,
+      punch.DeviceID,
+      Number(punch.ChainSeq),
+      punch.PrevHash,
+    ]),
+  );
+
+/**
+ * Punch Chain Service
+ * Makes the punches written on the device tamper-evident before they are synced
+ *
+ * - Each punch is hashed (punch id, user, timestamp, LatLon, direction, device id) together with
+ *   the hash of the user's previous punch, and the hash is signed with the device key (Keychain)
+ * - The chain head (last sequence number and hash) is kept per user in punch_chain, written in
+ *   the same transaction as the punch
+ * - The chain fields are sent with every punch, so the server can reject altered or missing history
+ * - verifyChain() checks the punches not synced yet at startup and reports breaks
+ * - Punches the server deletes leave a tombstone (sequence number and hash), so the chain
+ *   still links across them
+ */
+class PunchChainService {
+  async prepareSigner(): Promise<PunchSigner> {
+    const [deviceID, key] = await Promise.all([getDeviceUniqueIdentifier(), getDeviceSigningKey()]);
+    return { deviceID, key };
+  }
+
+  /**
+   * Chain a new punch after the user's current chain head
+   * Runs inside the insert transaction so the head cannot move in between
+   * Throws when the signing key is not available: an unsigned punch could be rewritten without a trace
+   */
+  async appendToChain(
+    tx: SqlExecutor,
+    signer: PunchSigner,
+    punch: Pick<ChainedPunch, 'PunchID' | 'UserID' | 'Timestamp' | 'LatLon' | 'PunchDirection'>,
+  ): Promise<PunchChainFields> {
+    if (!signer.key) {
+      throw new Error('Device signing key not available - punch not written');
+    }
+    const head = await tx.queryFirst<{ seq: number; headHash: string }>(
+      'SELECT seq, headHash FROM punch_chain WHERE userId = ?',
+      [punch.UserID],
+    );
+    const chained: ChainedPunch = {
+      ...punch,
+      DeviceID: signer.deviceID,
+      ChainSeq: (head?.seq ?? 0) + 1,
+      PrevHash: head?.headHash ?? GENESIS_HASH,
+    };
+    const recordHash = hashPunch(chained);
+
+    await tx.execute(
+      'INSERT OR REPLACE INTO punch_chain (userId, seq, headHash) VALUES (?, ?, ?)',
+      [punch.UserID, chained.ChainSeq, recordHash],
+    );
+
+    return {
+      DeviceID: chained.DeviceID,
+      ChainSeq: chained.ChainSeq,
+      PrevHash: chained.PrevHash,
+      RecordHash: recordHash,
+      Signature: signWithDeviceKey(signer.key, recordHash),
+    };
+  }
+
+  /**
+   * Keep the place of a synced punch the server deleted, in the transaction that deletes it
+   */
+  async recordServerDeletion(
+    tx: SqlExecutor,
+    punch: Pick<ChainRow, 'PunchID' | 'UserID'> & Partial<Pick<ChainRow, 'ChainSeq' | 'RecordHash'>>,
+  ): Promise<void> {
+    if (punch.ChainSeq == null || !punch.RecordHash) {
+      return; // Not written on this device
+    }
+    await tx.execute(
+      `INSERT OR REPLACE INTO punch_chain_tombstone (userId, chainSeq, recordHash, punchId, deletedAt)
+        VALUES (?, ?, ?, ?, ?)`,
+      [punch.UserID, punch.ChainSeq, punch.RecordHash, punch.PunchID, Date.now()],
+    );
+  }
+
+  /**
+   * Verify the part of the user's chain the server has not received yet: the punches after
+   * the last synced one must be intact, signed by this device and follow each other up to the head
+   * Breaks are reported through the logger
+   */
+  async verifyChain(userID: string): Promise<PunchChainBreak[]> {
+    const breaks: PunchChainBreak[] = [];
+    try {
+      const [punches, tombstones, head, key] = await Promise.all([
+        query<ChainRow>(
+          `SELECT PunchID, UserID, Timestamp, LatLon, PunchDirection, DeviceID, ChainSeq, PrevHash, RecordHash, Signature, IsSynced
+            FROM attendance WHERE UserID = ? AND ChainSeq IS NOT NULL ORDER BY ChainSeq`,
+          [userID],
+        ),
+        query<ChainTombstone>(
+          'SELECT punchId AS PunchID, chainSeq AS ChainSeq, recordHash AS RecordHash FROM punch_chain_tombstone WHERE userId = ?',
+          [userID],
+        ),
+        queryFirst<{ seq: number; headHash: string }>('SELECT seq, headHash FROM punch_chain WHERE userId = ?', [userID]),
+        getDeviceSigningKey(),
+      ]);
+      // Deleted by the server, so synced: only linked to, never checked
+      const rows: ChainRow[] = [
+        ...punches,
+        ...tombstones.map((tombstone) => ({ ...tombstone, IsSynced: 'Y' }) as ChainRow),
+      ].sort((a, b) => a.ChainSeq - b.ChainSeq);
+
+      // Everything up to the last synced punch is on the server already
+      let lastSynced = -1;
+      rows.forEach((row, index) => {
+        if (row.IsSynced !== 'N') {
+          lastSynced = index;
+        }
+      });
+
+      if (!key) {
+        logger.warn('Device signing key not available - punch signatures not verified', undefined, { userID });
+      }
+
+      let previous: ChainRow | undefined = rows[lastSynced];
+      for (const row of rows.slice(lastSynced + 1)) {
+        // Every punch is signed when it is written: a missing signature was removed
+        // (the hash alone can be recomputed after an edit)
+        const intact =
+          hashPunch(row) === row.RecordHash &&
+          (!key || (!!row.Signature && signWithDeviceKey(key, row.RecordHash) === row.Signature));
+        if (!intact) {
+          breaks.push({ reason: 'ALTERED', chainSeq: row.ChainSeq, punchID: row.PunchID });
+        }
+        if (previous && (row.ChainSeq !== previous.ChainSeq + 1 || row.PrevHash !== previous.RecordHash)) {
+          breaks.push({ reason: 'MISSING', chainSeq: row.ChainSeq, punchID: row.PunchID });
+        }
+        previous = row;
+      }
+
+      // The latest punches removed (or the head rewritten)
+      if (head && (!previous || previous.ChainSeq !== head.seq || previous.RecordHash !== head.headHash)) {
+        breaks.push({ reason: 'MISSING', chainSeq: head.seq });
+      }
+
+      if (breaks.length > 0) {
+        logger.error('Punch chain broken - local attendance records were altered or removed', undefined, undefined, {
+          userID,
+          breaks,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to verify punch chain', error as Error, undefined, { userID });
+    }
+    return breaks;
+  }
+}
+
+export const punchChainService = new PunchChainService();
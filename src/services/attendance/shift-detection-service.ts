@@ -3,32 +3,36 @@
  * 
  * Provides utility functions for detecting overlapping shifts and determining
  * when to create new attendance entries vs. continuing existing ones
+ * 
+ * Shifts come from the user's roster (see getShiftRoster), so each date can have
+ * its own shift, a split shift or a weekly off
  */
 
 import moment from 'moment';
 import { AttendanceRecord } from '../../redux/types/userTypes';
 import { logger } from '../logger';
-import { getShiftEndTimestamp } from '../../utils/shift-utils';
 import { getCurrentUTCDate } from '../../utils/time-utils';
+import { getShiftForDate, getShiftWindow, type ShiftRoster } from '../../utils/shift-roster-utils';
+import { isOvernightShift } from './overnight-shift-service';
 
 /**
  * Determine if a new attendance entry should be created
  * 
  * Rules:
- * 1. Create new entry if check-in occurs after shift end time
+ * 1. Create new entry if check-in occurs after the shift end time of the last checkout's date
  * 2. Create new entry if check-in occurs after previous checkout + buffer (1 hour)
  * 3. Otherwise, continue existing shift
  * 
  * @param lastCheckout - Last checkout record (null if no previous checkout)
  * @param checkInTime - Timestamp of new check-in (milliseconds)
- * @param shiftEndTime - Shift end time in HH:mm format (e.g., "17:00")
+ * @param roster - Shift roster of the user
  * @param bufferHours - Hours to add after checkout before new entry (default: 1)
  * @returns true if new entry should be created, false to continue existing
  */
 export function shouldCreateNewEntry(
   lastCheckout: AttendanceRecord | null,
   checkInTime: number,
-  shiftEndTime: string,
+  roster: ShiftRoster,
   bufferHours: number = 1
 ): boolean {
   const logContext = { 
@@ -58,7 +62,7 @@ export function shouldCreateNewEntry(
   const lastCheckoutDate = lastCheckout.DateOfPunch || lastCheckoutMoment.format('YYYY-MM-DD');
 
   // Rule 1: Check if check-in occurs after shift end time
-  const shiftEndTimestamp = getShiftEndTimestamp(lastCheckoutDate, shiftEndTime);
+  const shiftEndTimestamp = getShiftWindow(getShiftForDate(roster, lastCheckoutDate))?.end;
   if (shiftEndTimestamp) {
     const shiftEndMoment = moment.utc(shiftEndTimestamp);
     
@@ -97,24 +101,28 @@ export function shouldCreateNewEntry(
 }
 
 /**
- * Calculate the correct date for a new check-in based on shift and checkout logic
+ * Calculate the correct date for a new check-in based on the roster and checkout logic
+ * 
+ * Overnight shifts are dated by the day they end on, so a check-in can belong to tomorrow.
  * 
  * Rules:
- * 1. If no previous attendance or last was OUT, use current date or calculated date
- * 2. For overlapping shifts (spans midnight), keep entry under check-in date
- * 3. If check-in after shift end OR after checkout + buffer, use next appropriate date
+ * 1. A check-in shortly after the last checkout (within the last checkout's shift) continues that entry
+ * 2. If tomorrow's shift is overnight and today's shift is over (or today is a weekly off),
+ *    the check-in is for tomorrow's shift
+ * 3. Otherwise, use the check-in date
+ * 
+ * Rule 2 is evaluated per date, so rotations between morning and night weeks get the right date
+ * on the first day of each week.
  * 
  * @param lastCheckout - Last checkout record (null if no previous checkout)
  * @param checkInTime - Timestamp of new check-in (milliseconds)
- * @param shiftStartTime - Shift start time in HH:mm format (e.g., "09:00")
- * @param shiftEndTime - Shift end time in HH:mm format (e.g., "17:00")
+ * @param roster - Shift roster of the user
  * @returns Date string in YYYY-MM-DD format for the new check-in
  */
 export function getCheckInEntryDate(
   lastCheckout: AttendanceRecord | null,
   checkInTime: number,
-  shiftStartTime: string,
-  shiftEndTime: string
+  roster: ShiftRoster
 ): string {
   const logContext = { 
     _context: { 
@@ -125,55 +133,12 @@ export function getCheckInEntryDate(
   };
 
   const checkInMoment = moment.utc(checkInTime);
-  const today = getCurrentUTCDate();
-
-  // If no last checkout, use today
-  if (!lastCheckout) {
-    logger.debug('getCheckInEntryDate: No previous checkout, using today', {
-      ...logContext,
-      date: today,
-    });
-    return today;
-  }
-
-  const lastCheckoutTime = typeof lastCheckout.Timestamp === 'string'
-    ? parseInt(lastCheckout.Timestamp, 10)
-    : lastCheckout.Timestamp;
-  const lastCheckoutMoment = moment.utc(lastCheckoutTime);
-  const lastCheckoutDate = lastCheckout.DateOfPunch || lastCheckoutMoment.format('YYYY-MM-DD');
+  const checkInDate = checkInMoment.format('YYYY-MM-DD');
 
-  // Check if shift spans 2 days
-  const [startHour, startMin] = shiftStartTime.split(':').map(Number);
-  const [endHour, endMin] = shiftEndTime.split(':').map(Number);
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
-  const doesShiftSpanTwoDays = endMinutes < startMinutes;
-
-  // If normal shift (doesn't span midnight)
-  if (!doesShiftSpanTwoDays) {
-    // Check if current check-in is on a different calendar date
-    const checkInDate = checkInMoment.format('YYYY-MM-DD');
-    
-    if (checkInDate !== lastCheckoutDate) {
-      logger.debug('getCheckInEntryDate: Different day from checkout, using check-in date', {
-        ...logContext,
-        checkInDate,
-        lastCheckoutDate,
-      });
-      return checkInDate;
-    }
-    
-    // Same day - check if new entry should be created
-    if (shouldCreateNewEntry(lastCheckout, checkInTime, shiftEndTime)) {
-      // New entry on same calendar day (e.g., evening shift after morning shift)
-      logger.debug('getCheckInEntryDate: New entry on same day', {
-        ...logContext,
-        date: checkInDate,
-      });
-      return checkInDate;
-    }
-    
-    // Continue same shift
+  // Rule 1: Continue the entry of the last checkout (e.g., back from a break)
+  if (lastCheckout && !shouldCreateNewEntry(lastCheckout, checkInTime, roster)) {
+    const lastCheckoutDate = lastCheckout.DateOfPunch
+      || moment.utc(Number(lastCheckout.Timestamp)).format('YYYY-MM-DD');
     logger.debug('getCheckInEntryDate: Continue same shift, using checkout date', {
       ...logContext,
       date: lastCheckoutDate,
@@ -181,53 +146,28 @@ export function getCheckInEntryDate(
     return lastCheckoutDate;
   }
 
-  // 2-day shift logic
-  const shiftEndTimestamp = getShiftEndTimestamp(lastCheckoutDate, shiftEndTime);
-  if (!shiftEndTimestamp) {
-    logger.warn('getCheckInEntryDate: Invalid shift end time, using today', {
-      ...logContext,
-      date: today,
-    });
-    return today;
-  }
-
-  const shiftEndMoment = moment.utc(shiftEndTimestamp);
-
-  // Check if checkout was on/after shift end time
-  if (lastCheckoutMoment.isSameOrAfter(shiftEndMoment)) {
-    // Checkout was on/after shift end, next check-in should be next day
-    const nextDay = moment.utc(today).add(1, 'day').format('YYYY-MM-DD');
-    logger.debug('getCheckInEntryDate: 2-day shift, checkout after shift end, using next day', {
-      ...logContext,
-      nextDay,
-      lastCheckoutTime: lastCheckoutMoment.format('YYYY-MM-DD HH:mm'),
-      shiftEndTime: shiftEndMoment.format('YYYY-MM-DD HH:mm'),
-    });
-    return nextDay;
-  }
-
-  // Check if current check-in is on/after shift start time
-  const [currentHour, currentMin] = [checkInMoment.hour(), checkInMoment.minute()];
-  const currentMinutes = currentHour * 60 + currentMin;
-
-  if (currentMinutes >= startMinutes) {
-    // Check-in at/after shift start, it's next day's check-in
-    const nextDay = moment.utc(today).add(1, 'day').format('YYYY-MM-DD');
-    logger.debug('getCheckInEntryDate: 2-day shift, check-in at/after shift start, using next day', {
-      ...logContext,
-      nextDay,
-      currentMinutes,
-      startMinutes,
-    });
-    return nextDay;
+  // Rule 2: Early arrival for (or during) tomorrow's overnight shift
+  const nextDay = checkInMoment.clone().add(1, 'day').format('YYYY-MM-DD');
+  const nextDayShift = getShiftForDate(roster, nextDay);
+  if (isOvernightShift(nextDayShift)) {
+    const todayShiftWindow = getShiftWindow(getShiftForDate(roster, checkInDate));
+    const isTodayShiftOver = !todayShiftWindow || checkInTime > todayShiftWindow.end;
+    if (isTodayShiftOver) {
+      logger.debug('getCheckInEntryDate: Today\'s shift is over and tomorrow\'s is overnight, using next day', {
+        ...logContext,
+        nextDay,
+        nextDayShiftStart: nextDayShift.startTime,
+      });
+      return nextDay;
+    }
   }
 
-  // Check-in before shift start, use today
-  logger.debug('getCheckInEntryDate: 2-day shift, check-in before shift start, using today', {
+  // Rule 3: Check-in date
+  logger.debug('getCheckInEntryDate: Using check-in date', {
     ...logContext,
-    date: today,
+    date: checkInDate,
   });
-  return today;
+  return checkInDate;
 }
 
 /**
@@ -248,13 +188,13 @@ export function isAttendanceEntryComplete(records: AttendanceRecord[]): boolean
 /**
  * Check if shift has ended based on current time
  * 
- * @param shiftEndTime - Shift end time in HH:mm format (e.g., "17:00")
+ * @param roster - Shift roster of the user
  * @param date - Date to check (YYYY-MM-DD format), defaults to today
- * @returns true if shift has ended, false otherwise
+ * @returns true if shift has ended, false otherwise (also on a weekly off)
  */
-export function hasShiftEnded(shiftEndTime: string, date?: string): boolean {
+export function hasShiftEnded(roster: ShiftRoster, date?: string): boolean {
   const targetDate = date || getCurrentUTCDate();
-  const shiftEndTimestamp = getShiftEndTimestamp(targetDate, shiftEndTime);
+  const shiftEndTimestamp = getShiftWindow(getShiftForDate(roster, targetDate))?.end;
   
   if (!shiftEndTimestamp) {
     return false;
@@ -265,4 +205,3 @@ export function hasShiftEnded(shiftEndTime: string, date?: string): boolean {
   
   return now.isAfter(shiftEndMoment);
 }
-
@@ -0,0 +1,258 @@
+import apiClient from '../api/api-client';
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import { query, queryFirst, execute, transaction } from '../database/sql-client';
+import { syncQueueService, type SyncQueueItem, type SyncQueuePushResult } from '../sync/sync-queue-service';
+import type { CorrectionType } from './correction-service';
+import { apiTimestampToTicks } from '../../utils/timestamp-utils';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[TeamApprovals]', ...args);
+  }
+};
+
+const CORRECTIONS_ENDPOINT = '/api/attendance/corrections';
+const TEAM_CORRECTIONS_ENDPOINT = '/api/attendance/corrections/team?status=pending';
+
+export type TeamCorrectionDecision = 'approved' | 'rejected';
+
+/**
+ * Pending correction of one of the manager's reports, as stored in the team_corrections table
+ */
+export interface TeamCorrection {
+  requestId: string;
+  managerId: string; // Signed-in manager the inbox belongs to
+  punchId: string;
+  employeeId: string; // Report's email
+  employeeName: string | null;
+  correctionType: CorrectionType;
+  reason: string | null;
+  originalTime: number | null; // When the checkout was actually recorded (UTC ticks)
+  requestedTime: number; // Corrected checkout time (UTC ticks)
+  note: string | null;
+  dateOfPunch: string | null;
+  latLon: string | null; // Where the checkout was recorded
+  address: string | null;
+  workedHours: number | null; // With the corrected checkout time
+  records: any[]; // The report's punches of that day, for DayAttendanceItem / AttendanceDetailModal
+  submittedAt: number;
+  decision: TeamCorrectionDecision | null; // Set locally until the server has it
+  decisionComment: string | null;
+  decidedAt: number | null;
+  isSynced: number; // 0 while the decision has not reached the server
+}
+
+type TeamCorrectionRow = Omit<TeamCorrection, 'records'> & { records: string | null };
+
+const toTeamCorrection = (row: TeamCorrectionRow): TeamCorrection => {
+  let records: any[] = [];
+  try {
+    records = row.records ? JSON.parse(row.records) : [];
+  } catch {
+    records = [];
+  }
+  return { ...row, records };
+};
+
+const toTicksOrNull = (value: any): number | null =>
+  value === null || value === undefined || value === '' ? null : apiTimestampToTicks(value);
+
+const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || error?.message || fallback;
+
+/**
+ * Team Approval Service
+ * Manager inbox for the pending attendance corrections of their reports
+ *
+ * - refreshInbox() caches the server's pending list; decisions made on this device
+ *   (approve / reject with comment) are kept until the sync queue processor has pushed them
+ * - Decided requests leave the inbox right away and are dropped after the push; a decision
+ *   the server refuses (400, 403, 422) puts the request back in the inbox
+ *
+ * API:
+ * - GET /api/attendance/corrections/team?status=pending → reports' pending requests
+ * - POST /api/attendance/corrections/{requestId}/approve → approve (optional comment)
+ * - POST /api/attendance/corrections/{requestId}/reject → reject with comment
+ */
+class TeamApprovalService {
+  /**
+   * Pending requests in the manager's inbox, oldest first
+   */
+  async getInbox(managerId: string): Promise<TeamCorrection[]> {
+    const rows = await query<TeamCorrectionRow>(
+      `SELECT * FROM team_corrections WHERE managerId = ? AND decision IS NULL ORDER BY submittedAt ASC`,
+      [managerId],
+    );
+    return rows.map(toTeamCorrection);
+  }
+
+  /**
+   * Pull the pending requests from the server (Server → Local)
+   * Requests decided elsewhere disappear; decisions not pushed yet are kept
+   * @returns The inbox after the merge
+   */
+  async refreshInbox(managerId: string): Promise<TeamCorrection[]> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - showing cached inbox');
+        return this.getInbox(managerId);
+      }
+
+      const response = await apiClient.get(TEAM_CORRECTIONS_ENDPOINT, { timeout: 30000 });
+      const serverRequests: any[] = Array.isArray(response.data)
+        ? response.data
+        : response.data?.data || response.data?.requests || [];
+
+      await transaction(async (tx) => {
+        await tx.execute(`DELETE FROM team_corrections WHERE managerId = ? AND isSynced = 1`, [managerId]);
+        for (const request of serverRequests) {
+          const requestId = request.requestId || request.id;
+          if (!requestId) {
+            continue;
+          }
+          const employee = request.employee || {};
+          await tx.execute(
+            `INSERT OR IGNORE INTO team_corrections
+              (requestId, managerId, punchId, employeeId, employeeName, correctionType, reason, originalTime,
+               requestedTime, note, dateOfPunch, latLon, address, workedHours, records, submittedAt, isSynced)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`,
+            [
+              requestId,
+              managerId,
+              request.punchId,
+              request.employeeId || employee.email || '',
+              request.employeeName || employee.name || null,
+              request.correctionType,
+              request.reason ?? null,
+              toTicksOrNull(request.originalTime),
+              apiTimestampToTicks(request.requestedTime),
+              request.note ?? null,
+              request.dateOfPunch ?? null,
+              request.latLon ?? null,
+              request.address ?? null,
+              request.workedHours ?? null,
+              JSON.stringify(request.records || []),
+              toTicksOrNull(request.submittedAt) ?? Date.now(),
+            ],
+          );
+        }
+      });
+      log(`Refreshed ${serverRequests.length} pending team corrections`);
+    } catch (error: any) {
+      logger.error('refreshInbox error - showing cached inbox', error);
+    }
+    return this.getInbox(managerId);
+  }
+
+  /**
+   * Approve or reject a request - stored locally and queued for the server
+   * @param comment Required by the server for rejections
+   * @returns false when the request is no longer in the inbox
+   */
+  async decide(requestId: string, decision: TeamCorrectionDecision, comment?: string): Promise<boolean> {
+    return (await this.decideMany([requestId], decision, comment)) === 1;
+  }
+
+  /**
+   * Approve all given requests in one go (bulk approve)
+   * @returns Number of requests that were decided
+   */
+  async approveMany(requestIds: string[], comment?: string): Promise<number> {
+    return this.decideMany(requestIds, 'approved', comment);
+  }
+
+  private async decideMany(
+    requestIds: string[],
+    decision: TeamCorrectionDecision,
+    comment?: string,
+  ): Promise<number> {
+    const decidedAt = Date.now();
+    const decided = await transaction(async (tx) => {
+      let count = 0;
+      for (const requestId of requestIds) {
+        const result = await tx.execute(
+          `UPDATE team_corrections SET decision = ?, decisionComment = ?, decidedAt = ?, isSynced = 0
+            WHERE requestId = ? AND decision IS NULL`,
+          [decision, comment?.trim() || null, decidedAt, requestId],
+        );
+        if (result.rowsAffected === 0) {
+          continue;
+        }
+        await syncQueueService.addToQueue(
+          {
+            type: 'approval',
+            entityId: requestId,
+            operation: 'update',
+            data: null,
+            timestamp: decidedAt,
+          },
+          tx,
+        );
+        count++;
+      }
+      return count;
+    });
+    log(`Decided ${decided} of ${requestIds.length} requests:`, decision);
+    return decided;
+  }
+
+  /**
+   * Push a queued decision to the server - called by the sync queue processor
+   * @param email Signed-in user - decisions made by another manager on this device are deferred
+   */
+  async pushQueuedDecision(item: SyncQueueItem, email: string): Promise<SyncQueuePushResult> {
+    const request = await queryFirst<TeamCorrectionRow>(
+      `SELECT * FROM team_corrections WHERE requestId = ?`,
+      [item.entityId],
+    );
+    if (!request?.decision) {
+      return { outcome: 'synced' }; // Nothing left to push
+    }
+    if (request.managerId !== email) {
+      return { outcome: 'deferred' };
+    }
+
+    const action = request.decision === 'approved' ? 'approve' : 'reject';
+    try {
+      await apiClient.post(
+        `${CORRECTIONS_ENDPOINT}/${request.requestId}/${action}`,
+        { comment: request.decisionComment },
+        { timeout: 30000 },
+      );
+      await this.removeDecided(request.requestId);
+      return { outcome: 'synced' };
+    } catch (error: any) {
+      const status = error?.response?.status;
+      logger.error('Team correction decision error', error, undefined, { requestId: request.requestId, action });
+      const rejected = status === 400 || status === 403 || status === 404 || status === 409 || status === 422;
+      if (status === 404 || status === 409) {
+        // Withdrawn or decided by someone else - the decision no longer applies
+        await this.removeDecided(request.requestId);
+      } else if (rejected) {
+        // The server refused this decision - back to the inbox so it can be decided again
+        await this.reopenRequest(request.requestId);
+      }
+      return {
+        outcome: rejected ? 'rejected' : 'failed',
+        error: errorMessage(error, 'Decision was not accepted'),
+      };
+    }
+  }
+
+  private async reopenRequest(requestId: string): Promise<void> {
+    await execute(
+      `UPDATE team_corrections SET decision = NULL, decisionComment = NULL, decidedAt = NULL, isSynced = 1
+        WHERE requestId = ?`,
+      [requestId],
+    );
+  }
+
+  private async removeDecided(requestId: string): Promise<void> {
+    await execute(`DELETE FROM team_corrections WHERE requestId = ? AND decision IS NOT NULL`, [requestId]);
+  }
+}
+
+export const teamApprovalService = new TeamApprovalService();
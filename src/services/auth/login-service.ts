@@ -1,16 +1,27 @@
 import * as Keychain from 'react-native-keychain';
+import { MMKV } from 'react-native-mmkv';
 import { Configs } from '../../constants/configs';
 import { store, persistor } from '../../redux';
 import { resetUserState } from '../../redux/reducers/userReducer';
 import { logger, resetCorrelationId } from '../logger';
 import apiClient from '../api/api-client';
 import { clearJWTToken } from './token-service';
+import { cancelBreakReminderNotifications } from '../notifications/notification-service';
+import { shiftNotificationService } from '../notifications/shift-notification-service';
+import { deleteLocalDatabase } from '../database/database-service';
+import { getUnsyncedAttendanceRecords } from '../attendance/attendance-db-service';
+import { syncQueueProcessor } from '../sync/sync-queue-processor';
+import { syncQueueService } from '../sync/sync-queue-service';
 
 // Re-export token functions for backward compatibility
 export { storeJWTToken, getJWTToken, getRefreshToken, clearJWTToken } from './token-service';
 
 const API_BASE_URL = Configs.apiBaseUrl;
 
+// Set when a logout kept the local database for changes that could not be pushed
+const storage = new MMKV({ id: 'logout' });
+const KEPT_DATABASE_OWNER_KEY = 'keptDatabaseOwner';
+
 // Login API Types
 export interface LoginRequest {
   email: string;
@@ -97,9 +108,54 @@ export const loginUser = async (credentials: LoginRequest): Promise<LoginRespons
 };
 
 
-export const logoutUser = async (): Promise<void> => {
-  // Clear Aadhaar data from Keychain before logout
+export interface LogoutOptions {
+  // The session expired or could not be refreshed: nothing can be pushed
+  sessionExpired?: boolean;
+  // The user confirmed that changes not on the server yet are deleted
+  discardUnsynced?: boolean;
+}
+
+export interface LogoutResult {
+  loggedOut: boolean;
+  unsyncedCount: number; // Sync queue items not on the server at logout
+}
+
+// Push the sync queue, then count what is still not on the server
+const countUnsyncedAfterPush = async (email: string | undefined, push: boolean): Promise<number> => {
+  if (!email) {
+    return 0;
+  }
+  if (push) {
+    try {
+      await syncQueueProcessor.processQueue(email);
+    } catch (error) {
+      logger.error('Failed to push changes before logout', error as Error);
+    }
+  }
+  return syncQueueService.getQueueSize().catch(() => 0);
+};
+
+/**
+ * Logout user: clears the session, reminders and persisted state, and deletes the local
+ * database with its encryption key
+ * - The sync queue is pushed first. Changes still not on the server stop the logout
+ *   (nothing is cleared) unless discardUnsynced: the UI asks the user before discarding them
+ * - sessionExpired: nothing can be pushed, so a database with unsynced changes is kept with its
+ *   key. They are pushed when the same user logs in again (see claimLocalDatabase)
+ */
+export const logoutUser = async ({
+  sessionExpired = false,
+  discardUnsynced = false,
+}: LogoutOptions = {}): Promise<LogoutResult> => {
+  const logContext = { _context: { service: 'auth', fileName: 'login-service.ts', methodName: 'logoutUser' } };
   const userData = store.getState().userState?.userData;
+  const unsyncedCount = await countUnsyncedAfterPush(userData?.email, !sessionExpired);
+  if (unsyncedCount > 0 && !sessionExpired && !discardUnsynced) {
+    logger.warn('Logout stopped - changes not synced yet', undefined, { ...logContext, unsyncedCount });
+    return { loggedOut: false, unsyncedCount };
+  }
+
+  // Clear Aadhaar data from Keychain before logout
   if (userData?.email) {
     try {
       // Clear JWT token
@@ -116,6 +172,31 @@ export const logoutUser = async (): Promise<void> => {
     }
   }
 
+  // Break and shift reminders belong to the signed-out user
+  await cancelBreakReminderNotifications();
+  await shiftNotificationService.cancelAll();
+
+  // Local data and its encryption key belong to the signed-out user
+  if (userData?.email && unsyncedCount > 0 && sessionExpired) {
+    storage.set(KEPT_DATABASE_OWNER_KEY, userData.email);
+    logger.warn('Local database kept on logout for unsynced changes', undefined, {
+      ...logContext,
+      email: userData.email,
+      unsyncedCount,
+    });
+  } else {
+    if (userData?.email && unsyncedCount > 0) {
+      const unsynced = await getUnsyncedAttendanceRecords(userData.email).catch(() => []);
+      logger.error('Unsynced changes deleted on logout', undefined, undefined, {
+        ...logContext,
+        email: userData.email,
+        unsyncedCount,
+        punchIds: unsynced.map((punch) => punch.PunchID),
+      });
+    }
+    await deleteLocalDatabase();
+  }
+
   // Clear persisted Redux data
   await persistor.purge();
   
@@ -124,5 +205,27 @@ export const logoutUser = async (): Promise<void> => {
   
   // Reset in-memory Redux state (including Aadhaar validated flag)
   store.dispatch(resetUserState());
+  return { loggedOut: true, unsyncedCount };
+};
+
+/**
+ * Call once a user has signed in, before their data is loaded
+ * A database kept by a logout with an expired session stays for the same user (its queue is
+ * pushed by the next sync); anyone else starts with a new database
+ */
+export const claimLocalDatabase = async (email: string): Promise<void> => {
+  const owner = storage.getString(KEPT_DATABASE_OWNER_KEY);
+  if (!owner) {
+    return;
+  }
+  if (owner.toLowerCase() !== email.toLowerCase()) {
+    logger.error('Unsynced changes of another user deleted on login', undefined, undefined, {
+      _context: { service: 'auth', fileName: 'login-service.ts', methodName: 'claimLocalDatabase' },
+      email: owner,
+      unsyncedCount: await syncQueueService.getQueueSize().catch(() => 0),
+    });
+    await deleteLocalDatabase();
+  }
+  storage.delete(KEPT_DATABASE_OWNER_KEY);
 };
 
@@ -6,6 +6,10 @@ import { profileSyncService } from '../sync/profile-sync-service';
 import { networkService } from '../network/network-service';
 import { apiQueueService, RequestPriority } from '../api';
 import apiClient from '../api/api-client';
+import type { ShiftRoster } from '../../utils/shift-roster-utils';
+import type { LocationSpoofPolicy } from '../location/location-spoof-service';
+import type { GeofenceUnverifiedPolicy } from '../location/geofence-service';
+import type { DeviceIntegrityPolicy } from '../device/device-integrity-service';
 
 // FormData is available globally in React Native
 declare const FormData: any;
@@ -47,8 +51,12 @@ export interface ProfileResponse {
   shiftStartTime?: string; // Shift start time in HH:mm format (e.g., "09:00")
   shiftEndTime?: string; // Shift end time in HH:mm format (e.g., "18:00")
   minimumWorkingHours?: number; // Minimum working hours required per day (e.g., 9)
+  shiftRoster?: ShiftRoster | null; // Per-weekday / rotating shifts, overrides shiftStartTime / shiftEndTime
   // Geofencing data for check-in validation
   allowedGeofenceAreas?: GeofenceArea[]; // List of allowed geofence areas for check-in
+  locationSpoofPolicy?: LocationSpoofPolicy; // Punches with a spoofed location: BLOCK, WARN or FLAG (default)
+  geofenceUnverifiedPolicy?: GeofenceUnverifiedPolicy; // Punches near an area edge or with a poor fix: BLOCK, WARN (default) or FLAG
+  deviceIntegrityPolicy?: DeviceIntegrityPolicy; // Rooted / emulated / tampered devices: BLOCK, WARN or REPORT (default)
   // Timezone and time data
   timezone?: string; // User's timezone (e.g., "Asia/Kolkata")
   timezoneOffset?: number; // Offset in minutes from UTC
@@ -92,6 +100,8 @@ export interface UpdateProfileResponse {
   lastSyncedAt?: string; // ISO 8601 timestamp from server
   shiftStartTime?: string; // Shift start time in HH:mm format (e.g., "09:00")
   shiftEndTime?: string; // Shift end time in HH:mm format (e.g., "18:00")
+  minimumWorkingHours?: number;
+  shiftRoster?: ShiftRoster | null;
   aadhaarVerification?: {
     isVerified: boolean;
     verificationMethod?: string;
@@ -190,6 +200,8 @@ export const getProfile = async (): Promise<ProfileResponse> => {
         finalProfile.designation = localProfile.designation || response.data.designation;
         finalProfile.shiftStartTime = response.data.shiftStartTime; // Always use server shift times (read-only)
         finalProfile.shiftEndTime = response.data.shiftEndTime; // Always use server shift times (read-only)
+        finalProfile.minimumWorkingHours = response.data.minimumWorkingHours;
+        finalProfile.shiftRoster = response.data.shiftRoster;
       }
     } else if (response.data) {
       // No local data - use server data and save to local
@@ -217,7 +229,7 @@ export const getProfile = async (): Promise<ProfileResponse> => {
         await profileSyncService.saveProfileProperty(userData.email, 'designation', response.data.designation);
         await profileSyncService.markPropertyAsSynced(userData.email, 'designation');
       }
-      // Note: shiftStartTime and shiftEndTime are read-only from server, stored only in Redux, not in DB
+      // Note: shiftStartTime, shiftEndTime and shiftRoster are read-only from server, stored only in Redux, not in DB
     }
 
     // Update server_lastSyncedAt in database (for tracking, but doesn't affect property comparison)
@@ -252,9 +264,14 @@ export const getProfile = async (): Promise<ProfileResponse> => {
         timezoneOffset: finalDbProfile.timezoneOffset,
         currentTime: finalDbProfile.currentTime,
         allowedGeofenceAreas: finalDbProfile.allowedGeofenceAreas,
+        locationSpoofPolicy: finalDbProfile.locationSpoofPolicy,
+        geofenceUnverifiedPolicy: finalDbProfile.geofenceUnverifiedPolicy,
+        deviceIntegrityPolicy: finalDbProfile.deviceIntegrityPolicy,
         aadhaarVerification: finalDbProfile.aadhaarVerification,
         shiftStartTime: finalDbProfile.shiftStartTime, // Shift start time from profile API
         shiftEndTime: finalDbProfile.shiftEndTime, // Shift end time from profile API
+        minimumWorkingHours: finalDbProfile.minimumWorkingHours,
+        shiftRoster: finalDbProfile.shiftRoster, // Shift roster from profile API
       }));
 
       // Sync Aadhaar/PAN verification status from profile data to Redux state
@@ -494,9 +511,14 @@ export const updateProfile = async (data: UpdateProfileRequest): Promise<UpdateP
             timezoneOffset: (finalProfile as any).timezoneOffset,
             currentTime: (finalProfile as any).currentTime,
             allowedGeofenceAreas: (finalProfile as any).allowedGeofenceAreas,
+            locationSpoofPolicy: (finalProfile as any).locationSpoofPolicy,
+            geofenceUnverifiedPolicy: (finalProfile as any).geofenceUnverifiedPolicy,
+            deviceIntegrityPolicy: (finalProfile as any).deviceIntegrityPolicy,
             aadhaarVerification: finalProfile.aadhaarVerification,
             shiftStartTime: (finalProfile as any).shiftStartTime, // Shift start time from profile API
             shiftEndTime: (finalProfile as any).shiftEndTime, // Shift end time from profile API
+            minimumWorkingHours: (finalProfile as any).minimumWorkingHours,
+            shiftRoster: (finalProfile as any).shiftRoster, // Shift roster from profile API
           }));
         }
 
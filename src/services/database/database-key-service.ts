@@ -0,0 +1,69 @@
+import { NativeModules } from 'react-native';
+import * as Keychain from 'react-native-keychain';
+import { logger } from '../logger';
+
+const { SecurityUtils } = NativeModules as {
+  SecurityUtils?: {
+    getSecureRandomBytes?: (length: number) => string;
+  };
+};
+
+// Kept in Keychain next to the JWTs (token-service), but not per user: the database is shared
+const DATABASE_KEY_SERVICE = 'database_key';
+const DATABASE_KEY_BYTES = 32;
+
+let databaseKeyPromise: Promise<string> | null = null;
+
+// Only the platform's secure random (SecRandomCopyBytes / SecureRandom), never Math.random
+const generateDatabaseKey = (): string => {
+  const key = SecurityUtils?.getSecureRandomBytes?.(DATABASE_KEY_BYTES);
+  if (!key || key.length !== DATABASE_KEY_BYTES * 2) {
+    throw new Error('Secure random not available from native module');
+  }
+  return key;
+};
+
+const loadOrCreateDatabaseKey = async (): Promise<string> => {
+  const credentials = await Keychain.getGenericPassword({ service: DATABASE_KEY_SERVICE });
+  if (credentials) {
+    return credentials.password;
+  }
+
+  const key = generateDatabaseKey();
+  // Readable after the first unlock so background sync can open the database;
+  // never restored to another device from a backup
+  await Keychain.setGenericPassword('database_key', key, {
+    service: DATABASE_KEY_SERVICE,
+    accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+  logger.info('Database key created');
+  return key;
+};
+
+/**
+ * Get the database encryption key (hex) from Keychain, created on first run
+ * Throws when Keychain or the secure random is not available: the database must never be
+ * opened without its key, or with a key that can be guessed
+ */
+export const getDatabaseKey = (): Promise<string> => {
+  if (!databaseKeyPromise) {
+    databaseKeyPromise = loadOrCreateDatabaseKey().catch((error) => {
+      databaseKeyPromise = null; // Retry on the next call
+      logger.error('Failed to load database key', error as Error);
+      throw error;
+    });
+  }
+  return databaseKeyPromise;
+};
+
+/**
+ * Remove the database key from Keychain (the encrypted database cannot be read afterwards)
+ */
+export const clearDatabaseKey = async (): Promise<void> => {
+  databaseKeyPromise = null;
+  try {
+    await Keychain.resetGenericPassword({ service: DATABASE_KEY_SERVICE });
+  } catch (error) {
+    logger.error('Error clearing database key', error);
+  }
+};
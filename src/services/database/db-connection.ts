@@ -0,0 +1,194 @@
+import SQLite from 'react-native-sqlite-storage';
+import { MMKV } from 'react-native-mmkv';
+import { logger } from '../logger';
+import { clearDatabaseKey, getDatabaseKey } from './database-key-service';
+
+// Encrypted with SQLCipher (see patches/react-native-sqlite-storage+6.0.1.patch)
+const DB_NAME = 'RadiumSecureDB';
+// Plaintext database of earlier versions, moved into the encrypted database once
+const LEGACY_DB_NAME = 'RadiumDB';
+const DB_LOCATION = 'default';
+
+const storage = new MMKV({ id: 'database' });
+const LEGACY_MIGRATED_KEY = 'legacyDatabaseMigrated';
+
+// 🔹 Singleton DB
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const openDatabase = (name: string, key?: string): Promise<SQLite.SQLiteDatabase> => {
+  return new Promise((resolve, reject) => {
+    SQLite.openDatabase(
+      key ? { name, location: DB_LOCATION, key } : { name, location: DB_LOCATION },
+      (database: SQLite.SQLiteDatabase) => resolve(database),
+      (error: any) => reject(error),
+    );
+  });
+};
+
+const closeDatabase = (database: SQLite.SQLiteDatabase): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    database.close(
+      () => resolve(),
+      (error: any) => reject(error),
+    );
+  });
+};
+
+// Close before deleting: iOS only removes the file and would leave the connection open
+const deleteDatabaseFile = (name: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    SQLite.deleteDatabase(
+      { name, location: DB_LOCATION },
+      () => resolve(),
+      (error: any) => reject(error),
+    );
+  });
+};
+
+const readRows = (database: SQLite.SQLiteDatabase, sql: string): Promise<any[]> => {
+  return new Promise((resolve, reject) => {
+    database.executeSql(
+      sql,
+      [],
+      (result: any) => {
+        const rows: any[] = [];
+        for (let i = 0; i < result.rows.length; i++) {
+          rows.push(result.rows.item(i));
+        }
+        resolve(rows);
+      },
+      (error: any) => reject(error),
+    );
+  });
+};
+
+interface SchemaEntry {
+  type: 'table' | 'index' | 'trigger' | 'view';
+  name: string;
+  sql: string;
+}
+
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Copy schema, rows and schema version (PRAGMA user_version) from the plaintext database
+ * into the empty encrypted database, in one transaction
+ */
+const copyLegacyDatabase = async (
+  legacy: SQLite.SQLiteDatabase,
+  target: SQLite.SQLiteDatabase,
+): Promise<number> => {
+  const schema: SchemaEntry[] = await readRows(
+    legacy,
+    `SELECT type, name, sql FROM sqlite_master
+     WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+     ORDER BY CASE type WHEN 'table' THEN 0 ELSE 1 END, rowid`,
+  );
+  const tables = schema.filter((entry) => entry.type === 'table');
+  const tableRows: Record<string, any[]> = {};
+  for (const table of tables) {
+    tableRows[table.name] = await readRows(legacy, `SELECT * FROM ${quoteIdentifier(table.name)}`);
+  }
+  const versionRows = await readRows(legacy, 'PRAGMA user_version;');
+  const version = Number(versionRows[0]?.user_version) || 0;
+
+  await new Promise<void>((resolve, reject) => {
+    target.transaction(
+      (tx: any) => {
+        tables.forEach((table) => {
+          tx.executeSql(table.sql);
+          tableRows[table.name].forEach((row) => {
+            const columns = Object.keys(row);
+            tx.executeSql(
+              `INSERT INTO ${quoteIdentifier(table.name)} (${columns.map(quoteIdentifier).join(', ')})
+               VALUES (${columns.map(() => '?').join(', ')})`,
+              columns.map((column) => row[column]),
+            );
+          });
+        });
+        schema
+          .filter((entry) => entry.type !== 'table')
+          .forEach((entry) => tx.executeSql(entry.sql));
+        tx.executeSql(`PRAGMA user_version = ${version};`);
+      },
+      (error: any) => reject(error),
+      () => resolve(),
+    );
+  });
+
+  return tables.reduce((count, table) => count + tableRows[table.name].length, 0);
+};
+
+/**
+ * One-time move of the plaintext database into the encrypted database
+ * The plaintext file is deleted only once its data is committed to the encrypted database
+ */
+const migrateLegacyDatabase = async (target: SQLite.SQLiteDatabase): Promise<void> => {
+  if (storage.getBoolean(LEGACY_MIGRATED_KEY)) {
+    return;
+  }
+
+  const legacy = await openDatabase(LEGACY_DB_NAME);
+  const existing = await readRows(
+    target,
+    `SELECT COUNT(*) AS count FROM sqlite_master WHERE name NOT LIKE 'sqlite_%'`,
+  );
+  // Already copied when the app stopped before the plaintext file was deleted
+  const copiedRows = Number(existing[0]?.count) > 0 ? 0 : await copyLegacyDatabase(legacy, target);
+
+  await closeDatabase(legacy);
+  await deleteDatabaseFile(LEGACY_DB_NAME);
+  storage.set(LEGACY_MIGRATED_KEY, true);
+  logger.info('Plaintext database migrated to the encrypted database', {
+    _context: { service: 'database', fileName: 'db-connection.ts', methodName: 'migrateLegacyDatabase' },
+    copiedRows,
+  });
+};
+
+const openEncryptedDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const key = await getDatabaseKey();
+  const database = await openDatabase(DB_NAME, key);
+  logger.debug('Database opened');
+  await migrateLegacyDatabase(database);
+  return database;
+};
+
+/**
+ * Get the encrypted database, opened on first use with the key from Keychain
+ * The first open after an update also moves the plaintext database of earlier versions into it
+ * A failed open is retried on the next call
+ */
+export const getDB = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openEncryptedDatabase().catch((error) => {
+      dbPromise = null;
+      logger.error('DB open error', error as Error, undefined, {
+        operation: 'open_database',
+      });
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Delete the encrypted database and its key (logout)
+ * The next getDB call creates a new key and an empty database
+ */
+export const deleteDB = async (): Promise<void> => {
+  const pending = dbPromise;
+  dbPromise = null;
+  const database = pending ? await pending.catch(() => null) : null;
+
+  try {
+    if (database) {
+      await closeDatabase(database);
+    }
+    await deleteDatabaseFile(DB_NAME);
+  } catch (error) {
+    logger.warn('DB delete error', error as Error, {
+      operation: 'delete_database',
+    });
+  }
+  await clearDatabaseKey();
+};
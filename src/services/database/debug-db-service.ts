@@ -1,17 +1,18 @@
-import { getDB } from '../attendance/attendance-db-service';
-import SQLite from 'react-native-sqlite-storage';
 import { logger } from '../logger';
+import { query, queryFirst, transaction } from './sql-client';
 
 export interface DatabaseView {
   attendance: any[];
   profile: any[];
   settings: any[];
   syncQueue: any[];
+  syncConflicts: any[];
   stats: {
     attendanceCount: number;
     profileCount: number;
     settingsCount: number;
     syncQueueCount: number;
+    syncConflictCount: number;
     unsyncedAttendance: number;
     unsyncedProfile: number;
     unsyncedSettings: number;
@@ -20,187 +21,71 @@ export interface DatabaseView {
 
 /**
  * Get all database data for real-time viewing
+ * Each table is read independently, so one failing table doesn't hide the others
  */
 export const getAllDatabaseData = async (): Promise<DatabaseView> => {
-  const db = getDB();
-  
-  return new Promise((resolve, reject) => {
-    const result: DatabaseView = {
-      attendance: [],
-      profile: [],
-      settings: [],
-      syncQueue: [],
-      stats: {
-        attendanceCount: 0,
-        profileCount: 0,
-        settingsCount: 0,
-        syncQueueCount: 0,
-        unsyncedAttendance: 0,
-        unsyncedProfile: 0,
-        unsyncedSettings: 0,
-      },
-    };
-
-    let completed = 0;
-    const totalQueries = 4;
-
-    const checkComplete = () => {
-      completed++;
-      if (completed === totalQueries) {
-        resolve(result);
-      }
-    };
+  const result: DatabaseView = {
+    attendance: [],
+    profile: [],
+    settings: [],
+    syncQueue: [],
+    syncConflicts: [],
+    stats: {
+      attendanceCount: 0,
+      profileCount: 0,
+      settingsCount: 0,
+      syncQueueCount: 0,
+      syncConflictCount: 0,
+      unsyncedAttendance: 0,
+      unsyncedProfile: 0,
+      unsyncedSettings: 0,
+    },
+  };
 
-    // Get attendance records
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        // Get total count first
-        tx.executeSql(
-          'SELECT COUNT(*) as count FROM attendance',
-          [],
-          (_tx: SQLite.Transaction, countResults: SQLite.ResultSet) => {
-            if (countResults.rows.length > 0) {
-              result.stats.attendanceCount = countResults.rows.item(0).count || 0;
-            }
-            
-            // Count unsynced
-            tx.executeSql(
-              "SELECT COUNT(*) as count FROM attendance WHERE IsSynced = 'N'",
-              [],
-              (_tx2: SQLite.Transaction, unsyncedResults: SQLite.ResultSet) => {
-                if (unsyncedResults.rows.length > 0) {
-                  result.stats.unsyncedAttendance = unsyncedResults.rows.item(0).count || 0;
-                }
-                
-                // Get attendance records (limited for display)
-                tx.executeSql(
-                  'SELECT * FROM attendance ORDER BY Timestamp DESC LIMIT 100',
-                  [],
-                  (_tx3: SQLite.Transaction, attendanceResults: SQLite.ResultSet) => {
-                    for (let i = 0; i < attendanceResults.rows.length; i++) {
-                      result.attendance.push(attendanceResults.rows.item(i));
-                    }
-                    checkComplete();
-                  },
-                  () => checkComplete(),
-                );
-              },
-              () => checkComplete(),
-            );
-          },
-          () => checkComplete(),
-        );
-      },
-      () => checkComplete(),
-    );
+  const count = async (sql: string): Promise<number> =>
+    (await queryFirst<{ count: number }>(sql))?.count || 0;
 
-    // Get profile data
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        tx.executeSql(
-          'SELECT * FROM profile',
-          [],
-          (_tx: SQLite.Transaction, profileResults: SQLite.ResultSet) => {
-            for (let i = 0; i < profileResults.rows.length; i++) {
-              result.profile.push(profileResults.rows.item(i));
-            }
-            result.stats.profileCount = profileResults.rows.length;
-            
-            // Count unsynced profile (using single isSynced flag)
-            tx.executeSql(
-              `SELECT COUNT(*) as count FROM profile WHERE isSynced = 0`,
-              [],
-              (_tx2: SQLite.Transaction, unsyncedResults: SQLite.ResultSet) => {
-                if (unsyncedResults.rows.length > 0) {
-                  result.stats.unsyncedProfile = unsyncedResults.rows.item(0).count || 0;
-                }
-                checkComplete();
-              },
-              () => checkComplete(),
-            );
-          },
-          () => checkComplete(),
-        );
-      },
-      () => checkComplete(),
-    );
+  const readTable = async (table: string, read: () => Promise<void>): Promise<void> => {
+    try {
+      await read();
+    } catch (error) {
+      logger.error(`Error reading ${table} for database view`, error as Error);
+    }
+  };
 
-    // Get settings
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        tx.executeSql(
-          'SELECT * FROM settings',
-          [],
-          (_tx: SQLite.Transaction, settingsResults: SQLite.ResultSet) => {
-            for (let i = 0; i < settingsResults.rows.length; i++) {
-              result.settings.push(settingsResults.rows.item(i));
-            }
-            result.stats.settingsCount = settingsResults.rows.length;
-            
-            // Count unsynced settings
-            tx.executeSql(
-              "SELECT COUNT(*) as count FROM settings WHERE isSynced = 0",
-              [],
-              (_tx2: SQLite.Transaction, unsyncedResults: SQLite.ResultSet) => {
-                if (unsyncedResults.rows.length > 0) {
-                  result.stats.unsyncedSettings = unsyncedResults.rows.item(0).count || 0;
-                }
-                checkComplete();
-              },
-              () => checkComplete(),
-            );
-          },
-          () => checkComplete(),
-        );
-      },
-      () => checkComplete(),
-    );
+  await Promise.all([
+    // Attendance records (limited for display)
+    readTable('attendance', async () => {
+      result.stats.attendanceCount = await count('SELECT COUNT(*) as count FROM attendance');
+      result.stats.unsyncedAttendance = await count(
+        "SELECT COUNT(*) as count FROM attendance WHERE IsSynced = 'N'",
+      );
+      result.attendance = await query('SELECT * FROM attendance ORDER BY Timestamp DESC LIMIT 100');
+    }),
+    // Profile data (using single isSynced flag)
+    readTable('profile', async () => {
+      result.profile = await query('SELECT * FROM profile');
+      result.stats.profileCount = result.profile.length;
+      result.stats.unsyncedProfile = await count('SELECT COUNT(*) as count FROM profile WHERE isSynced = 0');
+    }),
+    readTable('settings', async () => {
+      result.settings = await query('SELECT * FROM settings');
+      result.stats.settingsCount = result.settings.length;
+      result.stats.unsyncedSettings = await count('SELECT COUNT(*) as count FROM settings WHERE isSynced = 0');
+    }),
+    // All sync queue items
+    readTable('sync_queue', async () => {
+      result.syncQueue = await query('SELECT * FROM sync_queue ORDER BY createdAt DESC');
+      result.stats.syncQueueCount = result.syncQueue.length;
+    }),
+    // Conflict log of server merges (limited for display)
+    readTable('sync_conflicts', async () => {
+      result.stats.syncConflictCount = await count('SELECT COUNT(*) as count FROM sync_conflicts');
+      result.syncConflicts = await query('SELECT * FROM sync_conflicts ORDER BY id DESC LIMIT 100');
+    }),
+  ]);
 
-    // Get sync queue
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        // Get total count first
-        tx.executeSql(
-          'SELECT COUNT(*) as count FROM sync_queue',
-          [],
-          (_tx: SQLite.Transaction, countResults: SQLite.ResultSet) => {
-            if (countResults.rows.length > 0) {
-              result.stats.syncQueueCount = countResults.rows.item(0).count || 0;
-            }
-            
-            // Get all sync queue items (removed limit to show all items)
-            tx.executeSql(
-              'SELECT * FROM sync_queue ORDER BY createdAt DESC',
-              [],
-              (_tx2: SQLite.Transaction, queueResults: SQLite.ResultSet) => {
-                for (let i = 0; i < queueResults.rows.length; i++) {
-                  result.syncQueue.push(queueResults.rows.item(i));
-                }
-                checkComplete();
-              },
-              () => checkComplete(),
-            );
-          },
-          () => {
-            // Fallback: get items without count if count query fails
-            tx.executeSql(
-              'SELECT * FROM sync_queue ORDER BY createdAt DESC',
-              [],
-              (_tx2: SQLite.Transaction, queueResults: SQLite.ResultSet) => {
-                for (let i = 0; i < queueResults.rows.length; i++) {
-                  result.syncQueue.push(queueResults.rows.item(i));
-                }
-                result.stats.syncQueueCount = queueResults.rows.length;
-                checkComplete();
-              },
-              () => checkComplete(),
-            );
-          },
-        );
-      },
-      () => checkComplete(),
-    );
-  });
+  return result;
 };
 
 /**
@@ -218,6 +103,7 @@ export const logDatabaseData = async (): Promise<void> => {
   logger.debug('\n👤 PROFILE DATA:', { profile: data.profile });
   logger.debug('\n⚙️ SETTINGS:', { settings: data.settings });
   logger.debug('\n🔄 SYNC QUEUE:', { syncQueue: data.syncQueue });
+  logger.debug('\n⚔️ SYNC CONFLICTS:', { syncConflicts: data.syncConflicts });
   logger.debug('\n===================================\n');
   
   return data;
@@ -225,42 +111,38 @@ export const logDatabaseData = async (): Promise<void> => {
 
 /**
  * Clear all data from database tables
- * WARNING: This will delete all data from attendance, profile, settings, and sync_queue tables
+ * WARNING: This will delete all data from attendance, profile, settings, sync_queue,
+ * sync_cursors, sync_conflicts, correction_requests, team_corrections, teams, team_members, holidays,
+ * weekly_offs, leaves and leave_balances tables
  */
 export const clearAllDatabaseData = async (): Promise<void> => {
-  const db = getDB();
-  
-  return new Promise((resolve, reject) => {
-    db.transaction(
-      (tx: SQLite.Transaction) => {
-        // Clear all tables
-        tx.executeSql('DELETE FROM attendance', [], () => {
-          logger.debug('Cleared attendance table');
-        });
-        
-        tx.executeSql('DELETE FROM profile', [], () => {
-          logger.debug('Cleared profile table');
-        });
-        
-        tx.executeSql('DELETE FROM settings', [], () => {
-          logger.debug('Cleared settings table');
-        });
-        
-        tx.executeSql('DELETE FROM sync_queue', [], () => {
-          logger.debug('Cleared sync_queue table');
-        });
-        
-        resolve();
-      },
-      (error: SQLite.SQLError) => {
-        logger.error('Error clearing database', error);
-        reject(error);
-      },
-      () => {
-        logger.debug('Database cleared successfully');
-        resolve();
-      },
-    );
-  });
+  try {
+    await transaction(async (tx) => {
+      const tables = [
+        'attendance',
+        'profile',
+        'settings',
+        'sync_queue',
+        'sync_cursors',
+        'sync_conflicts',
+        'correction_requests',
+        'team_corrections',
+        'teams',
+        'team_members',
+        'holidays',
+        'weekly_offs',
+        'leaves',
+        'leave_balances',
+        'punch_chain',
+      ];
+      for (const table of tables) {
+        await tx.execute(`DELETE FROM ${table}`);
+        logger.debug(`Cleared ${table} table`);
+      }
+    });
+    logger.debug('Database cleared successfully');
+  } catch (error) {
+    logger.error('Error clearing database', error as Error);
+    throw error;
+  }
 };
-
@@ -1,3 +1,3 @@
 export * from './database-service';
 export * from './debug-db-service';
-
+export * from './sql-client';
@@ -0,0 +1,183 @@
+import { logger } from '../../logger';
+
+const log = (...args: any[]): void => {
+  logger.debug(args.join(' '));
+};
+
+/**
+ * Subset of the react-native-sqlite-storage API used by migrations
+ * Kept structural so the same migrations run against the Jest SQLite stand-in
+ */
+export interface SQLResultSet {
+  rows: {
+    length: number;
+    item: (index: number) => any;
+  };
+  rowsAffected: number;
+  insertId?: number;
+}
+
+export interface SQLTransaction {
+  executeSql: (
+    sql: string,
+    params?: any[],
+    success?: (tx: SQLTransaction, result: SQLResultSet) => void,
+    error?: (tx: SQLTransaction, error: any) => boolean | void,
+  ) => void;
+}
+
+export interface SQLDatabase {
+  transaction: (
+    scope: (tx: SQLTransaction) => void,
+    error?: (error: any) => void,
+    success?: () => void,
+  ) => void;
+}
+
+/**
+ * A numbered schema migration
+ * - version: Consecutive, starting at 1. Stored in PRAGMA user_version once applied
+ * - up: Queues the statements of the migration on the given transaction
+ *
+ * Statements queued from success callbacks run in the same transaction. Do not pass
+ * error callbacks: any failing statement must abort the transaction so it rolls back.
+ * Migrations are frozen once released - change the schema by adding a new one.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: SQLTransaction) => void;
+}
+
+/**
+ * Read the schema version stored in PRAGMA user_version (0 for a fresh or pre-migration database)
+ */
+export const getSchemaVersion = (db: SQLDatabase): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    let version = 0;
+    db.transaction(
+      (tx: SQLTransaction) => {
+        tx.executeSql('PRAGMA user_version;', [], (_tx: SQLTransaction, result: SQLResultSet) => {
+          version = result.rows.length > 0 ? Number(result.rows.item(0).user_version) || 0 : 0;
+        });
+      },
+      (error: any) => {
+        logger.error('Error reading schema version', error);
+        reject(error);
+      },
+      () => resolve(version),
+    );
+  });
+};
+
+/**
+ * Read the column names of a table and continue in the same transaction
+ */
+export const getTableColumns = (
+  tx: SQLTransaction,
+  table: string,
+  callback: (tx: SQLTransaction, columns: Set<string>) => void,
+): void => {
+  tx.executeSql(`PRAGMA table_info(${table});`, [], (innerTx: SQLTransaction, result: SQLResultSet) => {
+    const columns = new Set<string>();
+    for (let i = 0; i < result.rows.length; i++) {
+      columns.add(result.rows.item(i).name);
+    }
+    callback(innerTx, columns);
+  });
+};
+
+/**
+ * Add the columns a table is missing (ALTER TABLE ... ADD COLUMN)
+ * onComplete runs after the ALTER statements, in the same transaction
+ */
+export const addMissingColumns = (
+  tx: SQLTransaction,
+  table: string,
+  columns: Record<string, string>,
+  onComplete?: (tx: SQLTransaction, addedColumns: string[]) => void,
+): void => {
+  getTableColumns(tx, table, (innerTx, existing) => {
+    const addedColumns = Object.keys(columns).filter((column) => !existing.has(column));
+    addedColumns.forEach((column) => {
+      innerTx.executeSql(`ALTER TABLE ${table} ADD COLUMN ${column} ${columns[column]};`);
+    });
+    if (addedColumns.length > 0) {
+      log(`Adding columns to ${table}:`, addedColumns.join(', '));
+    }
+    onComplete?.(innerTx, addedColumns);
+  });
+};
+
+/**
+ * Apply a single migration and bump user_version in one transaction
+ * user_version is part of the database header, so it rolls back together with the schema
+ */
+const applyMigration = (db: SQLDatabase, migration: Migration): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    db.transaction(
+      (tx: SQLTransaction) => {
+        migration.up(tx);
+        tx.executeSql(`PRAGMA user_version = ${migration.version};`);
+      },
+      (error: any) => {
+        logger.error(`Migration ${migration.version} (${migration.name}) failed, rolled back`, error, undefined, {
+          operation: 'migration',
+          version: migration.version,
+          name: migration.name,
+        });
+        reject(error);
+      },
+      () => {
+        log(`Migration ${migration.version} (${migration.name}) applied`);
+        resolve();
+      },
+    );
+  });
+};
+
+/**
+ * Bring the database schema up to the latest migration
+ * Pending migrations are applied in order; the first failure stops the run and is rethrown
+ * @returns Schema version after the run
+ */
+export const runMigrations = async (
+  db: SQLDatabase,
+  migrations: Migration[],
+): Promise<number> => {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  ordered.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration versions must be consecutive starting at 1 (found ${migration.version} for "${migration.name}")`,
+      );
+    }
+  });
+
+  const latestVersion = ordered.length;
+  let currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > latestVersion) {
+    // Database was migrated by a newer build (e.g. after a downgrade) - leave it untouched
+    logger.warn('Database schema is newer than this app version', undefined, {
+      currentVersion,
+      latestVersion,
+    });
+    return currentVersion;
+  }
+
+  if (currentVersion === latestVersion) {
+    log(`Database schema up to date (version ${currentVersion})`);
+    return currentVersion;
+  }
+
+  log(`Migrating database schema from version ${currentVersion} to ${latestVersion}`);
+  for (const migration of ordered) {
+    if (migration.version > currentVersion) {
+      await applyMigration(db, migration);
+      currentVersion = migration.version;
+    }
+  }
+
+  return currentVersion;
+};
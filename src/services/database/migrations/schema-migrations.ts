@@ -0,0 +1,635 @@
+import {
+  addMissingColumns,
+  getTableColumns,
+  type Migration,
+  type SQLTransaction,
+} from './migration-runner';
+
+/**
+ * Schema Migrations
+ * Numbered, append-only list of schema changes applied by runMigrations.
+ * Released migrations must never be edited - add a new version instead.
+ */
+
+// Attendance columns at the time versioned migrations were introduced
+const BASELINE_ATTENDANCE_COLUMNS: Record<string, string> = {
+  Timestamp: 'BIGINT PRIMARY KEY',
+  OrgID: 'TEXT',
+  UserID: 'TEXT',
+  PunchType: 'TEXT',
+  PunchDirection: 'TEXT',
+  LatLon: 'TEXT',
+  Address: 'TEXT',
+  CreatedOn: 'BIGINT',
+  IsSynced: 'TEXT',
+  DateOfPunch: 'TEXT',
+  AttendanceStatus: 'TEXT',
+  ModuleID: 'TEXT',
+  TripType: 'TEXT',
+  PassengerID: 'TEXT',
+  AllowanceData: 'TEXT',
+  IsCheckoutQrScan: 'INTEGER',
+  TravelerName: 'TEXT',
+  PhoneNumber: 'TEXT',
+  ApprovalRequired: 'TEXT',
+  Reason: 'TEXT',
+  OriginalCheckoutTime: 'BIGINT',
+  CorrectedCheckoutTime: 'BIGINT',
+  WorkedHours: 'REAL',
+  MinimumHoursRequired: 'REAL',
+  LinkedEntryDate: 'TEXT',
+  CorrectionType: 'TEXT',
+  ManualCheckoutTime: 'BIGINT',
+  ShiftStartTime: 'TEXT',
+  ShiftEndTime: 'TEXT',
+  GeofenceStatus: 'TEXT',
+  GeofenceID: 'TEXT',
+  GeofenceDistance: 'REAL',
+  GpsAccuracy: 'REAL',
+};
+
+const BASELINE_PROFILE_PROPERTIES = [
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'employmentType',
+  'designation',
+  'profilePhoto',
+];
+
+const BASELINE_PROFILE_METADATA_COLUMNS: Record<string, string> = {
+  lastUpdatedAt: 'INTEGER',
+  server_lastSyncedAt: 'INTEGER',
+  isSynced: 'INTEGER DEFAULT 1',
+  createdAt: 'INTEGER',
+  updatedAt: 'INTEGER',
+};
+
+const createBaselineProfileTable = (tx: SQLTransaction, tableName: string): void => {
+  const columnDefs = [
+    'email TEXT PRIMARY KEY',
+    ...BASELINE_PROFILE_PROPERTIES.map((prop) => `${prop} TEXT`),
+    ...Object.entries(BASELINE_PROFILE_METADATA_COLUMNS).map(([col, type]) => `${col} ${type}`),
+  ].join(', ');
+  tx.executeSql(`CREATE TABLE IF NOT EXISTS ${tableName} (${columnDefs});`);
+};
+
+/**
+ * Profile tables created before the single isSynced flag kept per-property
+ * `${prop}_synced` / `${prop}_lastUpdatedAt` columns. SQLite cannot drop columns,
+ * so the table is rebuilt without them.
+ */
+const removeLegacyProfileColumns = (tx: SQLTransaction, existing: Set<string>): void => {
+  const hasLegacyColumns = BASELINE_PROFILE_PROPERTIES.some(
+    (prop) => existing.has(`${prop}_synced`) || existing.has(`${prop}_lastUpdatedAt`),
+  );
+  if (!hasLegacyColumns) {
+    return;
+  }
+
+  const propertyList = BASELINE_PROFILE_PROPERTIES.join(', ');
+  tx.executeSql('DROP TABLE IF EXISTS profile_new;');
+  createBaselineProfileTable(tx, 'profile_new');
+  tx.executeSql(
+    `INSERT INTO profile_new (email, ${propertyList}, lastUpdatedAt, server_lastSyncedAt, isSynced, createdAt, updatedAt)
+     SELECT email, ${propertyList}, lastUpdatedAt, server_lastSyncedAt, COALESCE(isSynced, 1), createdAt, updatedAt
+     FROM profile;`,
+  );
+  tx.executeSql('DROP TABLE profile;');
+  tx.executeSql('ALTER TABLE profile_new RENAME TO profile;');
+  tx.executeSql('CREATE INDEX IF NOT EXISTS idx_profile_email ON profile(email);');
+};
+
+// Attendance columns after version 2, other than the key columns rebuilt by version 3
+const V2_ATTENDANCE_DATA_COLUMNS: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(BASELINE_ATTENDANCE_COLUMNS).filter(([col]) => col !== 'Timestamp'),
+  ),
+  server_Timestamp: 'BIGINT',
+  lastSyncedAt: 'BIGINT',
+  lastUpdatedAt: 'BIGINT',
+};
+
+// Random version 4 UUID generated by SQLite (used to key punches recorded before PunchID existed)
+const SQL_UUID_V4 = `lower(
+  hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' ||
+  substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6))
+)`;
+
+// Profile and settings values are stored as strings, JSON-encoded when they are not strings
+const parseStoredValue = (value: string | null): any => {
+  try {
+    return value ? JSON.parse(value) : value;
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Queue a pending push unless the entity already has a queue item (for the same property)
+ * Ids follow SyncQueueService.addToQueue: `${type}_${entityId}_${property || 'all'}_${timestamp}`
+ */
+const queuePendingPush = (
+  tx: SQLTransaction,
+  type: string,
+  entityId: string,
+  property: string | null,
+  data: any,
+  timestamp: number,
+  now: number,
+): void => {
+  tx.executeSql(
+    `INSERT INTO sync_queue (id, type, entityId, property, operation, data, timestamp, attempts, nextRetryAt, createdAt, status)
+     SELECT ?, ?, ?, ?, 'update', ?, ?, 0, ?, ?, 'pending'
+     WHERE NOT EXISTS (SELECT 1 FROM sync_queue WHERE type = ? AND entityId = ? AND property IS ?);`,
+    [
+      `${type}_${entityId}_${property || 'all'}_${timestamp}`,
+      type,
+      entityId,
+      property,
+      JSON.stringify(data),
+      timestamp,
+      now,
+      now,
+      type,
+      entityId,
+      property,
+    ],
+  );
+};
+
+export const SCHEMA_MIGRATIONS: Migration[] = [
+  {
+    // Tables as they existed before versioning. Idempotent, so it also upgrades
+    // installs whose tables were created by the old ad hoc PRAGMA/ALTER code.
+    version: 1,
+    name: 'baseline',
+    up: (tx) => {
+      const attendanceColumnDefs = Object.entries(BASELINE_ATTENDANCE_COLUMNS)
+        .map(([col, type]) => `${col} ${type}`)
+        .join(', ');
+      tx.executeSql(`CREATE TABLE IF NOT EXISTS attendance (${attendanceColumnDefs});`);
+      // Primary key cannot be added with ALTER TABLE
+      addMissingColumns(
+        tx,
+        'attendance',
+        Object.fromEntries(
+          Object.entries(BASELINE_ATTENDANCE_COLUMNS).filter(([col]) => col !== 'Timestamp'),
+        ),
+      );
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_userid ON attendance(UserID);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_synced ON attendance(IsSynced);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_timestamp ON attendance(Timestamp);');
+
+      createBaselineProfileTable(tx, 'profile');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_profile_email ON profile(email);');
+      addMissingColumns(
+        tx,
+        'profile',
+        {
+          ...Object.fromEntries(BASELINE_PROFILE_PROPERTIES.map((prop) => [prop, 'TEXT'])),
+          ...BASELINE_PROFILE_METADATA_COLUMNS,
+        },
+        (innerTx) => getTableColumns(innerTx, 'profile', removeLegacyProfileColumns),
+      );
+
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          isSynced INTEGER DEFAULT 1,
+          lastUpdatedAt INTEGER,
+          server_lastUpdatedAt INTEGER,
+          createdAt INTEGER,
+          updatedAt INTEGER
+        );`,
+      );
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_settings_synced ON settings(isSynced);');
+
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_queue (
+          id TEXT PRIMARY KEY,
+          type TEXT,
+          entityId TEXT,
+          property TEXT,
+          operation TEXT,
+          data TEXT,
+          timestamp INTEGER,
+          attempts INTEGER DEFAULT 0,
+          nextRetryAt INTEGER,
+          createdAt INTEGER
+        );`,
+      );
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_queue_type ON sync_queue(type);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_queue_entityId ON sync_queue(entityId);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_queue_nextRetryAt ON sync_queue(nextRetryAt);');
+    },
+  },
+  {
+    // Sync metadata written by updateAttendanceRecord / attendance sync
+    version: 2,
+    name: 'attendance_sync_metadata',
+    up: (tx) => {
+      addMissingColumns(
+        tx,
+        'attendance',
+        {
+          server_Timestamp: 'BIGINT',
+          lastSyncedAt: 'BIGINT',
+          lastUpdatedAt: 'BIGINT',
+        },
+        (innerTx) => {
+          innerTx.executeSql(
+            'UPDATE attendance SET lastUpdatedAt = COALESCE(CreatedOn, ?) WHERE lastUpdatedAt IS NULL;',
+            [Date.now()],
+          );
+        },
+      );
+    },
+  },
+  {
+    // Punches are keyed by a client-generated UUID instead of the millisecond timestamp,
+    // which collided for same-millisecond punches and for several users on a shared device.
+    // SQLite cannot change a primary key in place, so the table is rebuilt.
+    version: 3,
+    name: 'attendance_punch_id',
+    up: (tx) => {
+      const dataColumnDefs = Object.entries(V2_ATTENDANCE_DATA_COLUMNS)
+        .map(([col, type]) => `${col} ${type}`)
+        .join(', ');
+      const dataColumnList = Object.keys(V2_ATTENDANCE_DATA_COLUMNS).join(', ');
+
+      tx.executeSql('DROP TABLE IF EXISTS attendance_new;');
+      tx.executeSql(
+        `CREATE TABLE attendance_new (
+          PunchID TEXT PRIMARY KEY,
+          Timestamp BIGINT NOT NULL,
+          ${dataColumnDefs},
+          UNIQUE (UserID, Timestamp)
+        );`,
+      );
+      tx.executeSql(
+        `INSERT INTO attendance_new (PunchID, Timestamp, ${dataColumnList})
+         SELECT ${SQL_UUID_V4}, Timestamp, ${dataColumnList} FROM attendance;`,
+      );
+      tx.executeSql('DROP TABLE attendance;');
+      tx.executeSql('ALTER TABLE attendance_new RENAME TO attendance;');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_userid ON attendance(UserID);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_synced ON attendance(IsSynced);');
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_timestamp ON attendance(Timestamp);');
+    },
+  },
+  {
+    // The sync queue becomes the only source of outbound work: items that exhaust their
+    // retries are kept in a dead letter state, and unsynced rows that were pushed by
+    // rescanning the tables (never queued) get a queue item.
+    version: 4,
+    name: 'sync_queue_dead_letter',
+    up: (tx) => {
+      addMissingColumns(
+        tx,
+        'sync_queue',
+        {
+          status: "TEXT NOT NULL DEFAULT 'pending'",
+          lastError: 'TEXT',
+          lastAttemptAt: 'INTEGER',
+        },
+        (innerTx) => {
+          const now = Date.now();
+          innerTx.executeSql(
+            'CREATE INDEX IF NOT EXISTS idx_sync_queue_status ON sync_queue(status, nextRetryAt);',
+          );
+          innerTx.executeSql(
+            `INSERT OR IGNORE INTO sync_queue (id, type, entityId, property, operation, data, timestamp, attempts, nextRetryAt, createdAt, status)
+             SELECT 'attendance_' || PunchID || '_all_' || Timestamp, 'attendance', PunchID, NULL, 'create', 'null', Timestamp, 0, ?, COALESCE(CreatedOn, Timestamp), 'pending'
+             FROM attendance WHERE IsSynced = 'N';`,
+            [now],
+          );
+          innerTx.executeSql('SELECT * FROM profile WHERE isSynced = 0;', [], (profileTx, result) => {
+            for (let i = 0; i < result.rows.length; i++) {
+              const row = result.rows.item(i);
+              BASELINE_PROFILE_PROPERTIES.filter((prop) => row[prop] !== null).forEach((prop) => {
+                queuePendingPush(
+                  profileTx,
+                  'profile',
+                  row.email,
+                  prop,
+                  { [prop]: parseStoredValue(row[prop]) },
+                  row.lastUpdatedAt || now,
+                  now,
+                );
+              });
+            }
+          });
+          innerTx.executeSql('SELECT * FROM settings WHERE isSynced = 0;', [], (settingsTx, result) => {
+            for (let i = 0; i < result.rows.length; i++) {
+              const row = result.rows.item(i);
+              queuePendingPush(
+                settingsTx,
+                'settings',
+                row.key,
+                null,
+                { [row.key]: parseStoredValue(row.value) },
+                row.lastUpdatedAt || now,
+                now,
+              );
+            }
+          });
+        },
+      );
+    },
+  },
+  {
+    // Server change feed position per user and resource, so pulls only fetch rows that
+    // changed since the last one instead of re-reading whole months.
+    version: 5,
+    name: 'sync_cursors',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_cursors (
+          userID TEXT NOT NULL,
+          resource TEXT NOT NULL,
+          cursor TEXT,
+          updatedSince INTEGER,
+          updatedAt INTEGER NOT NULL,
+          PRIMARY KEY (userID, resource)
+        );`,
+      );
+    },
+  },
+  {
+    // Log of fields where the server and the local copy disagreed during a pull,
+    // with the value that was kept (shown in the database viewer).
+    version: 6,
+    name: 'sync_conflicts',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id INTEGER PRIMARY KEY,
+          entityType TEXT NOT NULL,
+          entityId TEXT NOT NULL,
+          field TEXT NOT NULL,
+          localValue TEXT,
+          serverValue TEXT,
+          resolution TEXT NOT NULL,
+          createdAt INTEGER NOT NULL
+        );`,
+      );
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_conflicts_entity ON sync_conflicts(entityType, entityId);');
+    },
+  },
+  {
+    // Approval requests for forgot-checkout and manual time corrections, pushed through the
+    // sync queue and updated with the manager's decision on pull.
+    version: 7,
+    name: 'correction_requests',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS correction_requests (
+          requestId TEXT PRIMARY KEY,
+          punchId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          correctionType TEXT NOT NULL,
+          reason TEXT,
+          originalTime INTEGER,
+          requestedTime INTEGER NOT NULL,
+          note TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          reviewerComment TEXT,
+          reviewedBy TEXT,
+          submittedAt INTEGER NOT NULL,
+          decidedAt INTEGER,
+          isSynced INTEGER NOT NULL DEFAULT 0
+        );`,
+      );
+      tx.executeSql(
+        'CREATE INDEX IF NOT EXISTS idx_correction_requests_user ON correction_requests(userId, submittedAt);',
+      );
+    },
+  },
+  {
+    // Manager inbox: pending corrections of the manager's reports, cached so decisions can be
+    // made offline and pushed through the sync queue.
+    version: 8,
+    name: 'team_corrections',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS team_corrections (
+          requestId TEXT PRIMARY KEY,
+          managerId TEXT NOT NULL,
+          punchId TEXT NOT NULL,
+          employeeId TEXT NOT NULL,
+          employeeName TEXT,
+          correctionType TEXT NOT NULL,
+          reason TEXT,
+          originalTime INTEGER,
+          requestedTime INTEGER NOT NULL,
+          note TEXT,
+          dateOfPunch TEXT,
+          latLon TEXT,
+          address TEXT,
+          workedHours REAL,
+          records TEXT,
+          submittedAt INTEGER NOT NULL,
+          decision TEXT,
+          decisionComment TEXT,
+          decidedAt INTEGER,
+          isSynced INTEGER NOT NULL DEFAULT 1
+        );`,
+      );
+      tx.executeSql(
+        'CREATE INDEX IF NOT EXISTS idx_team_corrections_manager ON team_corrections(managerId, submittedAt);',
+      );
+    },
+  },
+  {
+    // Team roster shown on the home screen: the signed-in user's teams and their members
+    // with each member's last punch, cached so the roster is available offline.
+    version: 9,
+    name: 'team_roster',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS teams (
+          ownerId TEXT NOT NULL,
+          teamId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          updatedAt INTEGER NOT NULL,
+          PRIMARY KEY (ownerId, teamId)
+        );`,
+      );
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS team_members (
+          ownerId TEXT NOT NULL,
+          teamId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          name TEXT,
+          designation TEXT,
+          photoUrl TEXT,
+          lastPunchDirection TEXT,
+          lastPunchStatus TEXT,
+          lastPunchAt INTEGER,
+          lastPunchAddress TEXT,
+          PRIMARY KEY (ownerId, teamId, userId)
+        );`,
+      );
+    },
+  },
+  {
+    // Attendance calendar: organization holidays, weekly offs and the user's leaves, cached so
+    // the monthly view can tell them apart from absences offline.
+    version: 10,
+    name: 'holiday_leave_calendar',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS holidays (
+          ownerId TEXT NOT NULL,
+          date TEXT NOT NULL,
+          name TEXT NOT NULL,
+          PRIMARY KEY (ownerId, date)
+        );`,
+      );
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS weekly_offs (
+          ownerId TEXT NOT NULL,
+          weekday TEXT NOT NULL,
+          PRIMARY KEY (ownerId, weekday)
+        );`,
+      );
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS leaves (
+          leaveId TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          leaveType TEXT NOT NULL,
+          startDate TEXT NOT NULL,
+          endDate TEXT NOT NULL,
+          status TEXT NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );`,
+      );
+      tx.executeSql('CREATE INDEX IF NOT EXISTS idx_leaves_user ON leaves(userId, startDate);');
+    },
+  },
+  {
+    // Leave applications: the user's own requests live in the leaves table and are pushed through
+    // the sync queue; the balance per leave type is cached for the apply screen.
+    version: 11,
+    name: 'leave_applications',
+    up: (tx) => {
+      addMissingColumns(tx, 'leaves', {
+        halfDaySession: 'TEXT',
+        days: 'REAL',
+        reason: 'TEXT',
+        reviewerComment: 'TEXT',
+        submittedAt: 'INTEGER',
+        isSynced: 'INTEGER NOT NULL DEFAULT 1',
+      });
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS leave_balances (
+          userId TEXT NOT NULL,
+          leaveType TEXT NOT NULL,
+          name TEXT,
+          total REAL,
+          used REAL,
+          available REAL,
+          updatedAt INTEGER NOT NULL,
+          PRIMARY KEY (userId, leaveType)
+        );`,
+      );
+    },
+  },
+  {
+    // Breaks become their own punches: the OUT that starts a break and the IN that ends it get
+    // PunchType BREAK and the BreakType. Earlier breaks (status on the OUT punch only) are backfilled.
+    version: 12,
+    name: 'attendance_break_punches',
+    up: (tx) => {
+      addMissingColumns(tx, 'attendance', { BreakType: 'TEXT' }, (innerTx) => {
+        innerTx.executeSql(
+          `UPDATE attendance SET PunchType = 'BREAK', BreakType = UPPER(TRIM(AttendanceStatus))
+            WHERE PunchDirection = 'OUT'
+              AND UPPER(TRIM(AttendanceStatus)) IN ('LUNCH', 'SHORTBREAK', 'COMMUTING', 'PERSONALTIMEOUT', 'OUTFORDINNER');`,
+        );
+        // The check-in right after a break start, on the same day, ends that break. Only OUT
+        // punches are read, so the result does not depend on the IN rows this statement rewrites.
+        innerTx.executeSql(
+          `UPDATE attendance SET PunchType = 'BREAK', BreakType = (
+              SELECT CASE WHEN previous.PunchDirection = 'OUT' AND previous.DateOfPunch IS attendance.DateOfPunch
+                THEN previous.BreakType END
+              FROM attendance previous
+              WHERE previous.UserID = attendance.UserID AND previous.Timestamp < attendance.Timestamp
+              ORDER BY previous.Timestamp DESC LIMIT 1
+            )
+            WHERE PunchDirection = 'IN' AND (
+              SELECT CASE WHEN previous.PunchDirection = 'OUT' AND previous.DateOfPunch IS attendance.DateOfPunch
+                THEN previous.BreakType END
+              FROM attendance previous
+              WHERE previous.UserID = attendance.UserID AND previous.Timestamp < attendance.Timestamp
+              ORDER BY previous.Timestamp DESC LIMIT 1
+            ) IS NOT NULL;`,
+        );
+      });
+    },
+  },
+  {
+    // Punches written on the device keep both clocks: the device clock and the trusted
+    // (server anchored) clock, with how the trusted time was derived.
+    version: 13,
+    name: 'attendance_trusted_time',
+    up: (tx) => {
+      addMissingColumns(tx, 'attendance', {
+        DeviceTimestamp: 'BIGINT',
+        TrustedTimestamp: 'BIGINT',
+        TimeConfidence: 'TEXT',
+      });
+    },
+  },
+  {
+    // Tamper-evident punches: punches written on the device are hash-chained per user and
+    // signed with the device key; punch_chain keeps each user's chain head.
+    version: 14,
+    name: 'attendance_punch_chain',
+    up: (tx) => {
+      addMissingColumns(tx, 'attendance', {
+        DeviceID: 'TEXT',
+        ChainSeq: 'INTEGER',
+        PrevHash: 'TEXT',
+        RecordHash: 'TEXT',
+        Signature: 'TEXT',
+      });
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS punch_chain (
+          userId TEXT PRIMARY KEY,
+          seq INTEGER NOT NULL,
+          headHash TEXT NOT NULL
+        );`,
+      );
+    },
+  },
+  {
+    // Spoofed location signals (mock provider, impossible speed, ...) found when the punch was made.
+    version: 15,
+    name: 'attendance_location_risk',
+    up: (tx) => {
+      addMissingColumns(tx, 'attendance', { LocationRiskFlags: 'TEXT' });
+    },
+  },
+  {
+    // Chained punches deleted by the server leave their place in the chain behind, so the
+    // chain still links across them.
+    version: 16,
+    name: 'punch_chain_tombstones',
+    up: (tx) => {
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS punch_chain_tombstone (
+          userId TEXT NOT NULL,
+          chainSeq INTEGER NOT NULL,
+          recordHash TEXT NOT NULL,
+          punchId TEXT NOT NULL,
+          deletedAt BIGINT NOT NULL,
+          PRIMARY KEY (userId, chainSeq)
+        );`,
+      );
+    },
+  },
+];
@@ -0,0 +1,122 @@
+import { logger } from '../logger';
+import { getDB } from './db-connection';
+
+/**
+ * SQL Client
+ * Promise-based, typed helpers over react-native-sqlite-storage
+ *
+ * - query<T> / queryFirst<T>: SELECT statements, rows typed as T
+ * - execute: INSERT / UPDATE / DELETE, returns rowsAffected and insertId
+ * - transaction(async tx => ...): runs tx.query / tx.execute between BEGIN and COMMIT,
+ *   rolls back when the callback throws
+ *
+ * Statements are run one at a time in call order, so a transaction is never interleaved
+ * with statements from other callers. Inside transaction() only use the tx argument:
+ * the top-level helpers would wait for the transaction to finish and never resolve.
+ */
+
+export type SqlParam = string | number | boolean | null | undefined;
+
+export interface ExecuteResult {
+  rowsAffected: number;
+  insertId?: number;
+}
+
+export interface SqlExecutor {
+  query<T>(sql: string, params?: SqlParam[]): Promise<T[]>;
+  queryFirst<T>(sql: string, params?: SqlParam[]): Promise<T | null>;
+  execute(sql: string, params?: SqlParam[]): Promise<ExecuteResult>;
+}
+
+interface StatementResult extends ExecuteResult {
+  rows: any[];
+}
+
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run work once all previously scheduled database work has finished
+ * Used for raw driver access (e.g. migrations) that must not interleave with a transaction
+ */
+export const runExclusive = <T>(work: () => Promise<T>): Promise<T> => {
+  const result = pending.then(work);
+  pending = result.catch(() => undefined);
+  return result;
+};
+
+const runStatement = async (sql: string, params: SqlParam[] = []): Promise<StatementResult> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    db.executeSql(
+      sql,
+      params,
+      (result: any) => {
+        const rows: any[] = [];
+        for (let i = 0; i < result.rows.length; i++) {
+          rows.push(result.rows.item(i));
+        }
+        resolve({
+          rows,
+          rowsAffected: result.rowsAffected || 0,
+          insertId: result.insertId,
+        });
+      },
+      (error: any) => {
+        logger.error('SQL statement error', error, undefined, {
+          operation: 'execute_sql',
+          sql: sql.replace(/\s+/g, ' ').trim(),
+        });
+        reject(error);
+      },
+    );
+  });
+};
+
+const createExecutor = (
+  run: (sql: string, params?: SqlParam[]) => Promise<StatementResult>,
+): SqlExecutor => ({
+  query: async <T>(sql: string, params?: SqlParam[]): Promise<T[]> => {
+    const result = await run(sql, params);
+    return result.rows as T[];
+  },
+  queryFirst: async <T>(sql: string, params?: SqlParam[]): Promise<T | null> => {
+    const result = await run(sql, params);
+    return result.rows.length > 0 ? (result.rows[0] as T) : null;
+  },
+  execute: async (sql: string, params?: SqlParam[]): Promise<ExecuteResult> => {
+    const { rowsAffected, insertId } = await run(sql, params);
+    return { rowsAffected, insertId };
+  },
+});
+
+const sqlClient = createExecutor((sql, params) => runExclusive(() => runStatement(sql, params)));
+
+export const query = sqlClient.query;
+export const queryFirst = sqlClient.queryFirst;
+export const execute = sqlClient.execute;
+
+/**
+ * Run several statements atomically
+ * @example
+ * await transaction(async tx => {
+ *   const row = await tx.queryFirst<{ attempts: number }>('SELECT attempts FROM sync_queue WHERE id = ?', [id]);
+ *   await tx.execute('UPDATE sync_queue SET attempts = ? WHERE id = ?', [(row?.attempts ?? 0) + 1, id]);
+ * });
+ */
+export const transaction = <T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> => {
+  return runExclusive(async () => {
+    await runStatement('BEGIN TRANSACTION;');
+    try {
+      const result = await work(createExecutor(runStatement));
+      await runStatement('COMMIT;');
+      return result;
+    } catch (error) {
+      try {
+        await runStatement('ROLLBACK;');
+      } catch (rollbackError) {
+        logger.error('Transaction rollback error', rollbackError as Error);
+      }
+      throw error;
+    }
+  });
+};
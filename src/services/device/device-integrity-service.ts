@@ -0,0 +1,157 @@
+import { NativeModules } from 'react-native';
+import Config from 'react-native-config';
+import { logger } from '../logger';
+import { getDeviceUniqueIdentifier } from './device-identifier-service';
+
+interface NativeDeviceIntegrity {
+  rooted: boolean; // Rooted (Android) or jailbroken (iOS)
+  emulator: boolean;
+  hookingFramework: boolean;
+  signatureSha256?: string; // Android: signing certificate
+  signatureTampered?: boolean; // iOS: re-signed app
+  indicators: string[];
+}
+
+const { SecurityUtils } = NativeModules as {
+  SecurityUtils?: {
+    getDeviceIntegrity?: (
+      callback: (error: Error | null, integrity: NativeDeviceIntegrity | null) => void,
+    ) => void;
+  };
+};
+
+/**
+ * Why a device is not trusted
+ * - ROOTED: Rooted (Android) or jailbroken (iOS)
+ * - EMULATOR: Emulator or simulator
+ * - HOOKING_FRAMEWORK: Frida, Xposed, Substrate or similar loaded or installed
+ * - SIGNATURE_TAMPERED: App re-signed with a certificate other than the release certificate
+ */
+export type DeviceIntegrityReason = 'ROOTED' | 'EMULATOR' | 'HOOKING_FRAMEWORK' | 'SIGNATURE_TAMPERED';
+
+/**
+ * What the app does on a device that fails the integrity check (deviceIntegrityPolicy in the profile,
+ * set per organization)
+ * - BLOCK: The app cannot be used
+ * - WARN: The user is warned and can continue
+ * - REPORT: Reported only (default)
+ * Detections are reported in every mode
+ */
+export type DeviceIntegrityPolicy = 'BLOCK' | 'WARN' | 'REPORT';
+
+export const DEFAULT_DEVICE_INTEGRITY_POLICY: DeviceIntegrityPolicy = 'REPORT';
+
+export interface DeviceIntegrityResult {
+  reasons: DeviceIntegrityReason[];
+  indicators: string[]; // What the native check found (paths, packages, libraries)
+}
+
+// Reasons already reported in this app session (the check runs every time the app comes to the foreground)
+const reportedReasons = new Set<DeviceIntegrityReason>();
+
+const normalizeFingerprint = (fingerprint: string): string => fingerprint.replace(/:/g, '').toLowerCase();
+
+const toIntegrityReasons = (integrity: NativeDeviceIntegrity): DeviceIntegrityReason[] => {
+  const reasons: DeviceIntegrityReason[] = [];
+  if (integrity.rooted) {
+    reasons.push('ROOTED');
+  }
+  if (integrity.emulator) {
+    reasons.push('EMULATOR');
+  }
+  if (integrity.hookingFramework) {
+    reasons.push('HOOKING_FRAMEWORK');
+  }
+  // Android reports the certificate; it only counts when the release certificate is configured
+  const releaseSignature = Config.APP_SIGNATURE_SHA256;
+  const signatureMismatch =
+    !!releaseSignature &&
+    !!integrity.signatureSha256 &&
+    normalizeFingerprint(integrity.signatureSha256) !== normalizeFingerprint(releaseSignature);
+  if (integrity.signatureTampered || signatureMismatch) {
+    reasons.push('SIGNATURE_TAMPERED');
+  }
+  return reasons;
+};
+
+const readNativeIntegrity = (): Promise<NativeDeviceIntegrity | null> => {
+  return new Promise((resolve) => {
+    if (!SecurityUtils?.getDeviceIntegrity) {
+      logger.warn('SecurityUtils device integrity check not available');
+      // If module is not available, allow access (fail open)
+      resolve(null);
+      return;
+    }
+
+    SecurityUtils.getDeviceIntegrity((error, integrity) => {
+      if (error) {
+        logger.error('Error checking device integrity', error);
+        resolve(null);
+        return;
+      }
+      resolve(integrity);
+    });
+  });
+};
+
+/**
+ * Check the device for root / jailbreak, emulators, hooking frameworks and app signature tampering
+ * Each detection is reported once per app session through the logger (shipped to the server for the
+ * compliance report of compromised devices)
+ */
+export const checkDeviceIntegrity = async (
+  policy: DeviceIntegrityPolicy = DEFAULT_DEVICE_INTEGRITY_POLICY,
+): Promise<DeviceIntegrityResult> => {
+  const integrity = await readNativeIntegrity();
+  if (!integrity) {
+    return { reasons: [], indicators: [] };
+  }
+
+  const result: DeviceIntegrityResult = {
+    reasons: toIntegrityReasons(integrity),
+    indicators: integrity.indicators ?? [],
+  };
+
+  const newReasons = result.reasons.filter((reason) => !reportedReasons.has(reason));
+  if (newReasons.length > 0) {
+    newReasons.forEach((reason) => reportedReasons.add(reason));
+    const deviceId = await getDeviceUniqueIdentifier();
+    newReasons.forEach((reason) => {
+      logger.error('Device integrity check failed', undefined, undefined, {
+        _context: { service: 'security', fileName: 'device-integrity-service.ts', methodName: 'checkDeviceIntegrity' },
+        reason,
+        policy,
+        deviceId,
+        indicators: result.indicators,
+      });
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Policy from the profile (deviceIntegrityPolicy), REPORT when missing or unknown
+ */
+export const getDeviceIntegrityPolicy = (policy: unknown): DeviceIntegrityPolicy => {
+  const value = typeof policy === 'string' ? policy.toUpperCase() : '';
+  return value === 'BLOCK' || value === 'WARN' || value === 'REPORT'
+    ? value
+    : DEFAULT_DEVICE_INTEGRITY_POLICY;
+};
+
+/**
+ * Whether the app must be blocked on this device
+ */
+export const isDeviceBlockedByIntegrity = (
+  result: DeviceIntegrityResult,
+  policy: DeviceIntegrityPolicy,
+): boolean => policy === 'BLOCK' && result.reasons.length > 0;
+
+/**
+ * Whether the user must be warned about this device before continuing
+ */
+export const isDeviceWarnedByIntegrity = (
+  result: DeviceIntegrityResult,
+  policy: DeviceIntegrityPolicy,
+): boolean => policy === 'WARN' && result.reasons.length > 0;
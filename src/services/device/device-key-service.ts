@@ -0,0 +1,82 @@
+import { NativeModules } from 'react-native';
+import * as Keychain from 'react-native-keychain';
+import { logger } from '../logger';
+import { hmacSha256Hex } from '../../utils/hash-utils';
+
+const { SecurityUtils } = NativeModules as {
+  SecurityUtils?: {
+    getSecureRandomBytes?: (length: number) => string;
+  };
+};
+
+const SIGNING_KEY_SERVICE = 'device_signing_key';
+const SIGNING_KEY_BYTES = 32;
+
+let signingKeyPromise: Promise<string | null> | null = null;
+
+// Only the platform's secure random (SecRandomCopyBytes / SecureRandom): a key that can be
+// guessed would let anyone sign punches for this device
+const generateSigningKey = (): string => {
+  const key = SecurityUtils?.getSecureRandomBytes?.(SIGNING_KEY_BYTES);
+  if (!key || key.length !== SIGNING_KEY_BYTES * 2) {
+    throw new Error('Secure random not available from native module');
+  }
+  return key;
+};
+
+const loadOrCreateSigningKey = async (): Promise<string | null> => {
+  try {
+    const credentials = await Keychain.getGenericPassword({ service: SIGNING_KEY_SERVICE });
+    if (credentials) {
+      return credentials.password;
+    }
+
+    const key = generateSigningKey();
+    // Readable after the first unlock so punches written in the background are signed too;
+    // never restored to another device from a backup
+    await Keychain.setGenericPassword('signing_key', key, {
+      service: SIGNING_KEY_SERVICE,
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+    logger.info('Device signing key created');
+    return key;
+  } catch (error) {
+    logger.error('Failed to load device signing key', error as Error);
+    return null;
+  }
+};
+
+/**
+ * Get the device signing key (hex) from Keychain, created on first use
+ * Registered with the server by registerDevice so it can verify signed punches
+ * @returns The key, or null when Keychain is not available
+ */
+export const getDeviceSigningKey = (): Promise<string | null> => {
+  if (!signingKeyPromise) {
+    signingKeyPromise = loadOrCreateSigningKey().then((key) => {
+      if (!key) {
+        signingKeyPromise = null; // Retry on the next call
+      }
+      return key;
+    });
+  }
+  return signingKeyPromise;
+};
+
+/**
+ * Sign a message with the device signing key (HMAC-SHA256, hex)
+ */
+export const signWithDeviceKey = (key: string, message: string): string => hmacSha256Hex(key, message);
+
+/**
+ * Remove the device signing key from Keychain, with the punch chain it signed (local database deleted)
+ * The next key starts a new chain, which the server accepts once registerDevice has sent the new key
+ */
+export const clearDeviceSigningKey = async (): Promise<void> => {
+  signingKeyPromise = null;
+  try {
+    await Keychain.resetGenericPassword({ service: SIGNING_KEY_SERVICE });
+  } catch (error) {
+    logger.error('Error clearing device signing key', error);
+  }
+};
@@ -2,6 +2,7 @@ import { Platform } from 'react-native';
 import apiClient from '../api/api-client';
 import { logger } from '../logger';
 import { getDeviceUniqueIdentifier } from './device-identifier-service';
+import { getDeviceSigningKey } from './device-key-service';
 
 export interface DeviceRegistrationRequest {
   deviceId: string;
@@ -10,6 +11,7 @@ export interface DeviceRegistrationRequest {
   appVersion?: string;
   deviceModel?: string;
   deviceManufacturer?: string;
+  signingKey?: string; // Key the device signs its punches with (hex), so the server can verify them
 }
 
 export interface DeviceRegistrationResponse {
@@ -25,11 +27,13 @@ export interface DeviceRegistrationResponse {
 export const registerDevice = async (): Promise<DeviceRegistrationResponse> => {
   try {
     const deviceId = await getDeviceUniqueIdentifier();
+    const signingKey = await getDeviceSigningKey();
     
     const request: DeviceRegistrationRequest = {
       deviceId,
       platform: Platform.OS,
       platformVersion: Platform.Version?.toString() || 'unknown',
+      signingKey: signingKey || undefined,
       // Add more device info if available
     };
 
@@ -2,3 +2,5 @@ export * from './device-identifier-service';
 export * from './device-registration-service';
 
 
+export * from './device-key-service';
+export * from './device-integrity-service';
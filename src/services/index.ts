@@ -7,6 +7,9 @@ export * from './aadhaar';
 // Attendance services
 export * from './attendance';
 
+// Team services (roster, colleague status)
+export * from './team';
+
 // Auth services (login, OTP, first-time login)
 export * from './auth';
 
@@ -0,0 +1,258 @@
+import { MINIMUM_ACCURACY_REQUIRED } from '../../constants/location';
+import type { GeofenceArea } from '../auth/profile-service';
+import { logger } from '../logger';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Result of evaluating a location fix against the allowed geofence areas
+ * - INSIDE: Fix lies within the radius of at least one active area
+ * - UNCERTAIN: Fix is outside every radius, but the accuracy circle overlaps an area
+ * - OUTSIDE: Fix (including its accuracy circle) is outside every active area
+ * - LOW_ACCURACY: Fix is less accurate than MINIMUM_ACCURACY_REQUIRED
+ * - NO_FIX: No location fix yet
+ * - NOT_CONFIGURED: User has no active geofence areas, nothing to enforce
+ */
+export type GeofenceStatus =
+  | 'INSIDE'
+  | 'UNCERTAIN'
+  | 'OUTSIDE'
+  | 'LOW_ACCURACY'
+  | 'NO_FIX'
+  | 'NOT_CONFIGURED';
+
+/**
+ * What happens to a punch whose location cannot be verified, UNCERTAIN or LOW_ACCURACY
+ * (geofenceUnverifiedPolicy in the profile)
+ * - BLOCK: The punch is refused
+ * - WARN: The user is warned and can still punch; the punch is flagged (default)
+ * - FLAG: The punch is allowed and flagged for review
+ */
+export type GeofenceUnverifiedPolicy = 'BLOCK' | 'WARN' | 'FLAG';
+
+export const DEFAULT_GEOFENCE_UNVERIFIED_POLICY: GeofenceUnverifiedPolicy = 'WARN';
+
+export interface GeofenceFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+export interface GeofenceEvaluation {
+  status: GeofenceStatus;
+  matchedArea: GeofenceArea | null; // Area containing the fix (only when INSIDE)
+  nearestArea: GeofenceArea | null; // Closest active area, regardless of status
+  distanceToNearest: number | null; // Meters from fix to the edge of the nearest area (0 when inside)
+  accuracy: number | null; // Accuracy of the evaluated fix in meters
+}
+
+/**
+ * Great-circle distance between two coordinates (haversine formula)
+ * @returns Distance in meters
+ */
+export const calculateDistanceInMeters = (
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number,
+): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+  const dLat = toRadians(toLatitude - fromLatitude);
+  const dLon = toRadians(toLongitude - fromLongitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(fromLatitude)) *
+      Math.cos(toRadians(toLatitude)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Areas that should be enforced (isActive defaults to true when not sent by server)
+ */
+export const getActiveGeofenceAreas = (
+  areas: GeofenceArea[] | null | undefined,
+): GeofenceArea[] => {
+  if (!Array.isArray(areas)) {
+    return [];
+  }
+  return areas.filter(
+    area =>
+      area &&
+      area.isActive !== false &&
+      typeof area.latitude === 'number' &&
+      typeof area.longitude === 'number' &&
+      typeof area.radius === 'number' &&
+      area.radius > 0,
+  );
+};
+
+/**
+ * Evaluate a location fix (from getCurrentPositionOfUser / watchUserLocation)
+ * against the user's allowed geofence areas
+ *
+ * The fix's accuracy radius is taken into account:
+ * - A fix worse than MINIMUM_ACCURACY_REQUIRED cannot be trusted either way (LOW_ACCURACY)
+ * - A fix outside every radius whose accuracy circle still reaches an area is UNCERTAIN
+ */
+export const evaluateGeofence = (
+  fix: GeofenceFix | null | undefined,
+  areas: GeofenceArea[] | null | undefined,
+): GeofenceEvaluation => {
+  const activeAreas = getActiveGeofenceAreas(areas);
+  const accuracy =
+    typeof fix?.accuracy === 'number' && fix.accuracy >= 0 ? fix.accuracy : null;
+
+  if (activeAreas.length === 0) {
+    return {
+      status: 'NOT_CONFIGURED',
+      matchedArea: null,
+      nearestArea: null,
+      distanceToNearest: null,
+      accuracy,
+    };
+  }
+
+  if (!fix || typeof fix.latitude !== 'number' || typeof fix.longitude !== 'number') {
+    return {
+      status: 'NO_FIX',
+      matchedArea: null,
+      nearestArea: null,
+      distanceToNearest: null,
+      accuracy,
+    };
+  }
+
+  let nearestArea: GeofenceArea | null = null;
+  let distanceToNearest = Number.POSITIVE_INFINITY;
+  let matchedArea: GeofenceArea | null = null;
+  let closestCenterDistance = Number.POSITIVE_INFINITY;
+
+  for (const area of activeAreas) {
+    const distanceToCenter = calculateDistanceInMeters(
+      fix.latitude,
+      fix.longitude,
+      area.latitude,
+      area.longitude,
+    );
+    const distanceToEdge = Math.max(0, distanceToCenter - area.radius);
+
+    if (distanceToEdge < distanceToNearest) {
+      distanceToNearest = distanceToEdge;
+      nearestArea = area;
+    }
+
+    // When areas overlap, prefer the one whose center is closest
+    if (distanceToCenter <= area.radius && distanceToCenter < closestCenterDistance) {
+      closestCenterDistance = distanceToCenter;
+      matchedArea = area;
+    }
+  }
+
+  let status: GeofenceStatus;
+  if (accuracy === null || accuracy > MINIMUM_ACCURACY_REQUIRED) {
+    status = 'LOW_ACCURACY';
+    matchedArea = null;
+  } else if (matchedArea) {
+    status = 'INSIDE';
+  } else if (distanceToNearest <= accuracy) {
+    status = 'UNCERTAIN';
+  } else {
+    status = 'OUTSIDE';
+  }
+
+  const evaluation: GeofenceEvaluation = {
+    status,
+    matchedArea,
+    nearestArea,
+    distanceToNearest: Math.round(distanceToNearest),
+    accuracy,
+  };
+
+  logger.debug('Geofence evaluated', {
+    _context: { service: 'location', fileName: 'geofence-service.ts', methodName: 'evaluateGeofence' },
+    status,
+    matchedAreaId: matchedArea?.id,
+    nearestAreaId: nearestArea?.id,
+    distanceToNearest: evaluation.distanceToNearest,
+    accuracy,
+  });
+
+  return evaluation;
+};
+
+/**
+ * Policy from the profile (geofenceUnverifiedPolicy), WARN when missing or unknown
+ */
+export const getGeofenceUnverifiedPolicy = (policy: unknown): GeofenceUnverifiedPolicy => {
+  const value = typeof policy === 'string' ? policy.toUpperCase() : '';
+  return value === 'BLOCK' || value === 'WARN' || value === 'FLAG'
+    ? value
+    : DEFAULT_GEOFENCE_UNVERIFIED_POLICY;
+};
+
+/**
+ * Whether a punch with this evaluation should be flagged for review
+ */
+export const isPunchFlaggedByGeofence = (evaluation: GeofenceEvaluation): boolean =>
+  evaluation.status === 'UNCERTAIN' || evaluation.status === 'LOW_ACCURACY';
+
+/**
+ * Whether a punch with this evaluation must be blocked
+ * OUTSIDE and NO_FIX always block, UNCERTAIN and LOW_ACCURACY only under the BLOCK policy
+ */
+export const isPunchBlockedByGeofence = (
+  evaluation: GeofenceEvaluation,
+  policy: GeofenceUnverifiedPolicy,
+): boolean =>
+  evaluation.status === 'OUTSIDE' ||
+  evaluation.status === 'NO_FIX' ||
+  (policy === 'BLOCK' && isPunchFlaggedByGeofence(evaluation));
+
+/**
+ * Whether the user must confirm a punch with this evaluation
+ */
+export const isPunchWarnedByGeofence = (
+  evaluation: GeofenceEvaluation,
+  policy: GeofenceUnverifiedPolicy,
+): boolean => policy === 'WARN' && isPunchFlaggedByGeofence(evaluation);
+
+/**
+ * Geofence fields persisted on every attendance row as proof of where the punch was made
+ */
+export interface PunchGeofenceFields {
+  GeofenceStatus: GeofenceStatus;
+  GeofenceID?: string; // Matched area id (only when INSIDE)
+  GeofenceDistance?: number; // Meters to the edge of the nearest area
+  GpsAccuracy?: number; // Accuracy of the fix in meters
+}
+
+export const toPunchGeofenceFields = (
+  evaluation: GeofenceEvaluation,
+): PunchGeofenceFields => ({
+  GeofenceStatus: evaluation.status,
+  GeofenceID: evaluation.matchedArea?.id,
+  GeofenceDistance: evaluation.distanceToNearest ?? undefined,
+  GpsAccuracy:
+    evaluation.accuracy !== null ? Math.round(evaluation.accuracy) : undefined,
+});
+
+/**
+ * Resolve a stored geofence id to the area name from the user's profile
+ * Falls back to the id itself when the area is no longer assigned
+ */
+export const getGeofenceAreaName = (
+  geofenceId: string | null | undefined,
+  areas: GeofenceArea[] | null | undefined,
+): string | null => {
+  if (!geofenceId) {
+    return null;
+  }
+  const area = Array.isArray(areas)
+    ? areas.find(item => String(item.id) === String(geofenceId))
+    : undefined;
+  return area?.name || String(geofenceId);
+};
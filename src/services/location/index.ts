@@ -1,2 +1,3 @@
 export * from './location-service';
-
+export * from './geofence-service';
+export * from './location-spoof-service';
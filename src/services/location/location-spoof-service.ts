@@ -0,0 +1,192 @@
+import { logger } from '../logger';
+import { calculateDistanceInMeters, type GeofenceFix } from './geofence-service';
+
+// Faster than any ground travel (250 km/h), once both accuracy circles are allowed for
+const MAX_PLAUSIBLE_SPEED_MPS = 70;
+// A jump this far (beyond both accuracy circles) is a teleport when it returns or takes no time
+const TELEPORT_DISTANCE_METERS = 1000;
+// Real GPS accuracy changes from fix to fix; mock apps tend to report one fixed value
+const CONSTANT_ACCURACY_MIN_FIXES = 4;
+// Fixes kept per screen session
+const MAX_FIX_HISTORY = 20;
+
+/**
+ * Signs that a location fix was spoofed (fake GPS apps)
+ * - MOCK_PROVIDER: Android reported the fix as coming from a mock location provider
+ * - IMPOSSIBLE_SPEED: Consecutive fixes imply faster travel than is possible on the ground
+ * - TELEPORT: The location jumped a long way and back, or without any time passing
+ * - CONSTANT_ACCURACY: Every fix reported exactly the same accuracy
+ */
+export type LocationRiskFlag =
+  | 'MOCK_PROVIDER'
+  | 'IMPOSSIBLE_SPEED'
+  | 'TELEPORT'
+  | 'CONSTANT_ACCURACY';
+
+/**
+ * What happens to a punch with location risk flags (locationSpoofPolicy in the profile)
+ * - BLOCK: The punch is refused
+ * - WARN: The user is warned and can still punch; the punch is flagged
+ * - FLAG: The punch is allowed and flagged for review (default)
+ */
+export type LocationSpoofPolicy = 'BLOCK' | 'WARN' | 'FLAG';
+
+export const DEFAULT_LOCATION_SPOOF_POLICY: LocationSpoofPolicy = 'FLAG';
+
+export interface LocationFix extends GeofenceFix {
+  timestamp: number; // Time of the fix (position.timestamp)
+  mocked?: boolean; // Android isFromMockProvider (position.mocked), not reported on iOS
+}
+
+export interface LocationRiskEvaluation {
+  flags: LocationRiskFlag[];
+  maxSpeed: number | null; // Fastest speed between consecutive fixes in m/s
+}
+
+/**
+ * Add a fix to the session's fix history, kept in timestamp order (oldest fixes are dropped)
+ * Fixes can arrive out of order (a cached getCurrentPosition fix after a watchPosition update),
+ * and the same fix can be delivered twice; a repeated fix is ignored
+ */
+export const recordLocationFix = (history: LocationFix[], fix: LocationFix): LocationFix[] => {
+  const isRepeated = history.some(
+    recorded =>
+      recorded.timestamp === fix.timestamp &&
+      recorded.latitude === fix.latitude &&
+      recorded.longitude === fix.longitude,
+  );
+  if (isRepeated) {
+    return history;
+  }
+  const index = history.findIndex(recorded => recorded.timestamp > fix.timestamp);
+  const ordered =
+    index === -1 ? [...history, fix] : [...history.slice(0, index), fix, ...history.slice(index)];
+  return ordered.slice(-MAX_FIX_HISTORY);
+};
+
+const accuracyOf = (fix: LocationFix): number =>
+  typeof fix.accuracy === 'number' && fix.accuracy >= 0 ? fix.accuracy : 0;
+
+// Distance between two fixes that cannot be explained by their accuracy
+const distanceBeyondAccuracy = (from: LocationFix, to: LocationFix): number =>
+  Math.max(
+    0,
+    calculateDistanceInMeters(from.latitude, from.longitude, to.latitude, to.longitude) -
+      accuracyOf(from) -
+      accuracyOf(to),
+  );
+
+const hasConstantAccuracy = (fixes: LocationFix[]): boolean => {
+  const accuracies = fixes
+    .map(fix => fix.accuracy)
+    .filter((accuracy): accuracy is number => typeof accuracy === 'number');
+  return (
+    accuracies.length >= CONSTANT_ACCURACY_MIN_FIXES &&
+    accuracies.every(accuracy => accuracy === accuracies[0])
+  );
+};
+
+/**
+ * Evaluate the fixes of a screen session (oldest first) for signs of a spoofed location
+ * @param fixes - Fix history from recordLocationFix
+ * @param mockLocationDetected - Mock location reported by the SecurityUtils native module
+ */
+export const evaluateLocationRisk = (
+  fixes: LocationFix[],
+  mockLocationDetected = false,
+): LocationRiskEvaluation => {
+  const flags = new Set<LocationRiskFlag>();
+  let maxSpeed: number | null = null;
+
+  if (mockLocationDetected || fixes.some(fix => fix.mocked === true)) {
+    flags.add('MOCK_PROVIDER');
+  }
+
+  for (let i = 1; i < fixes.length; i++) {
+    const previous = fixes[i - 1];
+    const current = fixes[i];
+    const distance = distanceBeyondAccuracy(previous, current);
+    const elapsedSeconds = (current.timestamp - previous.timestamp) / 1000;
+
+    if (elapsedSeconds <= 0) {
+      if (distance >= TELEPORT_DISTANCE_METERS) {
+        flags.add('TELEPORT');
+      }
+      continue;
+    }
+
+    const speed = distance / elapsedSeconds;
+    maxSpeed = Math.max(maxSpeed ?? 0, speed);
+    if (speed > MAX_PLAUSIBLE_SPEED_MPS) {
+      flags.add('IMPOSSIBLE_SPEED');
+    }
+
+    // Jumped away and came back to where it was
+    const next = fixes[i + 1];
+    if (
+      next &&
+      distance >= TELEPORT_DISTANCE_METERS &&
+      distanceBeyondAccuracy(current, next) >= TELEPORT_DISTANCE_METERS &&
+      distanceBeyondAccuracy(previous, next) < TELEPORT_DISTANCE_METERS / 10
+    ) {
+      flags.add('TELEPORT');
+    }
+  }
+
+  if (hasConstantAccuracy(fixes)) {
+    flags.add('CONSTANT_ACCURACY');
+  }
+
+  const evaluation: LocationRiskEvaluation = {
+    flags: Array.from(flags),
+    maxSpeed: maxSpeed !== null ? Math.round(maxSpeed) : null,
+  };
+
+  logger.debug('Location risk evaluated', {
+    _context: { service: 'location', fileName: 'location-spoof-service.ts', methodName: 'evaluateLocationRisk' },
+    fixCount: fixes.length,
+    flags: evaluation.flags,
+    maxSpeed: evaluation.maxSpeed,
+  });
+
+  return evaluation;
+};
+
+/**
+ * Policy from the profile (locationSpoofPolicy), FLAG when missing or unknown
+ */
+export const getLocationSpoofPolicy = (policy: unknown): LocationSpoofPolicy => {
+  const value = typeof policy === 'string' ? policy.toUpperCase() : '';
+  return value === 'BLOCK' || value === 'WARN' || value === 'FLAG'
+    ? value
+    : DEFAULT_LOCATION_SPOOF_POLICY;
+};
+
+/**
+ * Whether a punch with this evaluation must be refused
+ */
+export const isPunchBlockedByLocationRisk = (
+  evaluation: LocationRiskEvaluation,
+  policy: LocationSpoofPolicy,
+): boolean => policy === 'BLOCK' && evaluation.flags.length > 0;
+
+/**
+ * Whether the user must confirm a punch with this evaluation
+ */
+export const isPunchWarnedByLocationRisk = (
+  evaluation: LocationRiskEvaluation,
+  policy: LocationSpoofPolicy,
+): boolean => policy === 'WARN' && evaluation.flags.length > 0;
+
+/**
+ * Location risk persisted on every attendance row (comma-separated flags, empty when none)
+ */
+export interface PunchLocationRiskFields {
+  LocationRiskFlags?: string;
+}
+
+export const toPunchLocationRiskFields = (
+  evaluation: LocationRiskEvaluation,
+): PunchLocationRiskFields => ({
+  LocationRiskFlags: evaluation.flags.length > 0 ? evaluation.flags.join(',') : undefined,
+});
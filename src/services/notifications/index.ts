@@ -1,2 +1,3 @@
 export * from './notification-service';
 
+export * from './shift-notification-service';
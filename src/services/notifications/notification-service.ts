@@ -1,28 +1,129 @@
 import { Platform } from 'react-native';
 import { logger } from '../logger';
+import { getBreakType, isBreakStart, type BreakAllowance, type BreakType } from '../attendance/break-service';
 
 // Dynamically import notifee to handle cases where native module isn't linked
 let notifee: any = null;
 let AndroidImportance: any = null;
 let TriggerType: any = null;
+let EventType: any = null;
 
 try {
   const notifeeModule = require('@notifee/react-native');
   notifee = notifeeModule.default || notifeeModule;
   AndroidImportance = notifeeModule.AndroidImportance;
   TriggerType = notifeeModule.TriggerType;
+  EventType = notifeeModule.EventType;
 } catch (error) {
   // Notifee not available - will be handled gracefully
 }
 
 const BREAK_NOTIFICATION_ID = 'break-reminder';
-const NOTIFICATION_INTERVAL_MINUTES = 30;
+const BREAK_CHANNEL_ID = 'break-reminders';
+const BREAK_OVERRUN_CHANNEL_ID = 'break-overrun';
+const BREAK_CATEGORY_ID = 'break-reminder';
+// Reminders scheduled ahead per break (notifee has no repeating trigger for custom intervals)
+const MAX_BREAK_REMINDERS = 12;
+
+export const DEEP_LINK_PREFIX = 'colabclient://';
+export const CHECK_IN_LINK = `${DEEP_LINK_PREFIX}check-in`;
+// "Resume work" action on break reminders - opens CheckInScreen, which punches IN
+export const RESUME_WORK_ACTION_ID = 'resume-work';
+export const RESUME_WORK_LINK = `${CHECK_IN_LINK}?resumeWork=true`;
+// Opens CheckInScreen (shift reminders) - to check in, or to check out / file a forgot checkout
+export const OPEN_CHECK_IN_ACTION_ID = 'open-check-in';
+// Auto-checkout notice - opens CheckInScreen to correct the checkout time (forgot checkout)
+export const AUTO_CHECKOUT_LINK = `${CHECK_IN_LINK}?autoCheckout=true`;
+export const SHIFT_CATEGORY_ID = 'shift-reminder';
+
+// Presses that open the notification's deep link (data.link)
+const LINK_PRESS_ACTION_IDS = [RESUME_WORK_ACTION_ID, OPEN_CHECK_IN_ACTION_ID];
 
 export interface BreakStatus {
   status: string;
   startTime: string | number;
 }
 
+/**
+ * Reminder timing of a break type
+ */
+export interface BreakReminderSetting {
+  intervalMinutes: number; // Reminder every N minutes while within the allowed length
+  maxMinutes: number; // Allowed break length - reminders escalate after this
+  escalationIntervalMinutes: number; // Reminder every N minutes once over the allowed length
+}
+
+export type BreakReminderSettings = Partial<Record<BreakType, Partial<BreakReminderSetting>>>;
+
+export const DEFAULT_BREAK_REMINDER_SETTINGS: Record<BreakType, BreakReminderSetting> = {
+  LUNCH: { intervalMinutes: 15, maxMinutes: 45, escalationIntervalMinutes: 5 },
+  SHORTBREAK: { intervalMinutes: 5, maxMinutes: 15, escalationIntervalMinutes: 5 },
+  COMMUTING: { intervalMinutes: 30, maxMinutes: 120, escalationIntervalMinutes: 15 },
+  PERSONALTIMEOUT: { intervalMinutes: 10, maxMinutes: 30, escalationIntervalMinutes: 5 },
+  OUTFORDINNER: { intervalMinutes: 15, maxMinutes: 60, escalationIntervalMinutes: 5 },
+};
+
+/**
+ * One scheduled break reminder
+ */
+export interface BreakReminder {
+  id: string;
+  timestamp: number; // UTC ticks
+  minutesIntoBreak: number;
+  minutesOver: number; // Minutes over the allowed length
+  isEscalated: boolean; // At or past the allowed length
+}
+
+/**
+ * Reminder timing of a break type
+ * @param overrides - Per-type settings from the profile (userData.breakReminders)
+ * @param allowance - Allowed break minutes of the shift; the type's allowance is its maximum length
+ */
+export function getBreakReminderSetting(
+  breakType: BreakType,
+  overrides?: BreakReminderSettings | null,
+  allowance?: BreakAllowance | null,
+): BreakReminderSetting {
+  const setting = { ...DEFAULT_BREAK_REMINDER_SETTINGS[breakType], ...overrides?.[breakType] };
+  const allowed = allowance?.byType?.[breakType];
+  return {
+    intervalMinutes: Math.max(1, setting.intervalMinutes),
+    maxMinutes: Math.max(0, allowed ?? setting.maxMinutes),
+    escalationIntervalMinutes: Math.max(1, setting.escalationIntervalMinutes),
+  };
+}
+
+/**
+ * Upcoming reminders of a break: every intervalMinutes up to the allowed length, then every
+ * escalationIntervalMinutes. Ids follow the position in the break so rescheduling replaces them.
+ */
+export function planBreakReminders(
+  breakStartTime: number,
+  setting: BreakReminderSetting,
+  now: number = Date.now(),
+): BreakReminder[] {
+  const reminders: BreakReminder[] = [];
+  // Regular reminders fall before the allowed length, escalations start right at it
+  const regularCount = Math.max(0, Math.ceil(setting.maxMinutes / setting.intervalMinutes) - 1);
+  for (let index = 0; reminders.length < MAX_BREAK_REMINDERS; index++) {
+    const isEscalated = index >= regularCount;
+    const minutesIntoBreak = isEscalated
+      ? setting.maxMinutes + (index - regularCount) * setting.escalationIntervalMinutes
+      : (index + 1) * setting.intervalMinutes;
+    const timestamp = breakStartTime + minutesIntoBreak * 60 * 1000;
+    if (timestamp > now) {
+      reminders.push({
+        id: `${BREAK_NOTIFICATION_ID}-${index}`,
+        timestamp,
+        minutesIntoBreak,
+        minutesOver: minutesIntoBreak - Math.min(minutesIntoBreak, setting.maxMinutes),
+        isEscalated,
+      });
+    }
+  }
+  return reminders;
+}
+
 /**
  * Request notification permissions
  */
@@ -45,104 +146,250 @@ export async function requestNotificationPermission(): Promise<boolean> {
   }
 }
 
+// Scheduling and cancelling run one after another, so a cancel on punch IN is never
+// overtaken by a schedule that was still waiting for the permission prompt
+let breakReminderQueue: Promise<void> = Promise.resolve();
+
+const enqueueBreakReminderTask = (task: () => Promise<void>): Promise<void> => {
+  breakReminderQueue = breakReminderQueue.then(task, task);
+  return breakReminderQueue;
+};
+
+const createBreakReminderChannels = async (): Promise<void> => {
+  if (Platform.OS === 'android') {
+    await notifee.createChannel({
+      id: BREAK_CHANNEL_ID,
+      name: 'Break Reminders',
+      importance: AndroidImportance.HIGH,
+      sound: 'default',
+      vibration: true,
+    });
+    await notifee.createChannel({
+      id: BREAK_OVERRUN_CHANNEL_ID,
+      name: 'Break Overrun',
+      importance: AndroidImportance.HIGH,
+      sound: 'default',
+      vibration: true,
+      vibrationPattern: [300, 500, 300, 500],
+    });
+  } else {
+    await setNotificationCategories();
+  }
+};
+
 /**
- * Schedule recurring notifications every 30 minutes when user is on break
+ * Register the iOS notification categories (action buttons) - replaces all categories, so every
+ * category of the app is set here
  */
-export async function scheduleBreakReminderNotifications(
-  breakStatus: string,
-): Promise<void> {
-  if (!notifee || !AndroidImportance || !TriggerType) {
-    logger.warn('Notifee not available. Cannot schedule notifications.');
+export async function setNotificationCategories(): Promise<void> {
+  if (!notifee || Platform.OS !== 'ios') {
     return;
   }
-  try {
-    // Cancel any existing break notifications
-    await cancelBreakReminderNotifications();
+  await notifee.setNotificationCategories([
+    {
+      id: BREAK_CATEGORY_ID,
+      actions: [{ id: RESUME_WORK_ACTION_ID, title: 'Resume work', foreground: true }],
+    },
+    {
+      id: SHIFT_CATEGORY_ID,
+      actions: [{ id: OPEN_CHECK_IN_ACTION_ID, title: 'Open check-in', foreground: true }],
+    },
+  ]);
+}
 
-    // Request permission first
-    const hasPermission = await requestNotificationPermission();
-    if (!hasPermission) {
-      logger.debug('Notification permission not granted');
+const toBreakReminderNotification = (reminder: BreakReminder, breakStatusLabel: string, maxMinutes: number) => {
+  let body = `Don't forget to check in when you return from ${breakStatusLabel}`;
+  if (reminder.isEscalated) {
+    body = reminder.minutesOver > 0
+      ? `${breakStatusLabel} is ${reminder.minutesOver} min over the allowed ${maxMinutes} min. Please resume work now.`
+      : `${breakStatusLabel} has reached the allowed ${maxMinutes} min. Please resume work now.`;
+  }
+  return {
+    id: reminder.id,
+    title: reminder.isEscalated ? 'Break Overrun' : 'Break Reminder',
+    body,
+    data: { link: RESUME_WORK_LINK },
+    android: {
+      channelId: reminder.isEscalated ? BREAK_OVERRUN_CHANNEL_ID : BREAK_CHANNEL_ID,
+      importance: AndroidImportance.HIGH,
+      pressAction: {
+        id: 'default',
+      },
+      actions: [
+        {
+          title: 'Resume work',
+          pressAction: { id: RESUME_WORK_ACTION_ID, launchActivity: 'default' },
+        },
+      ],
+      ongoing: false,
+      autoCancel: true,
+    },
+    ios: {
+      sound: 'default',
+      categoryId: BREAK_CATEGORY_ID,
+      interruptionLevel: reminder.isEscalated ? 'timeSensitive' : 'active',
+    },
+  };
+};
+
+/**
+ * Schedule reminders for the ongoing break, escalating once it is longer than allowed
+ * @param breakStatus - Break type of the break start punch
+ * @param breakStartTime - Time of the break start punch (UTC ticks), so rescheduling keeps the timing
+ * @param setting - Reminder timing of the break type (see getBreakReminderSetting)
+ */
+export function scheduleBreakReminderNotifications(
+  breakStatus: string,
+  breakStartTime: number = Date.now(),
+  setting?: BreakReminderSetting,
+): Promise<void> {
+  return enqueueBreakReminderTask(async () => {
+    if (!notifee || !AndroidImportance || !TriggerType) {
+      logger.warn('Notifee not available. Cannot schedule notifications.');
       return;
     }
+    try {
+      // Cancel any existing break notifications
+      await cancelAllBreakReminders();
 
-    // Create a channel for Android
-    if (Platform.OS === 'android') {
-      await notifee.createChannel({
-        id: 'break-reminders',
-        name: 'Break Reminders',
-        importance: AndroidImportance.HIGH,
-        sound: 'default',
-        vibration: true,
-      });
+      // Request permission first
+      const hasPermission = await requestNotificationPermission();
+      if (!hasPermission) {
+        logger.debug('Notification permission not granted');
+        return;
+      }
+
+      await createBreakReminderChannels();
+
+      const breakType = getBreakType({ PunchDirection: 'OUT', BreakType: breakStatus });
+      const reminderSetting = setting || getBreakReminderSetting(breakType || 'SHORTBREAK');
+      const breakStatusLabel = getBreakStatusLabel(breakStatus);
+
+      const reminders = planBreakReminders(breakStartTime, reminderSetting);
+      for (const reminder of reminders) {
+        await notifee.createTriggerNotification(
+          toBreakReminderNotification(reminder, breakStatusLabel, reminderSetting.maxMinutes),
+          { type: TriggerType.TIMESTAMP, timestamp: reminder.timestamp },
+        );
+      }
+      logger.debug('Break reminders scheduled', { breakStatus, count: reminders.length, ...reminderSetting });
+    } catch (error) {
+      logger.error('Error scheduling break reminder notifications', error);
     }
+  });
+}
 
-    // Get break status label
-    const breakStatusLabel = getBreakStatusLabel(breakStatus);
-
-    // Schedule first notification in 30 minutes
-    const firstTrigger = {
-      type: TriggerType.TIMESTAMP,
-      timestamp: Date.now() + NOTIFICATION_INTERVAL_MINUTES * 60 * 1000,
-    };
-
-    await notifee.createTriggerNotification(
-      {
-        id: BREAK_NOTIFICATION_ID,
-        title: 'Break Reminder',
-        body: `Don't forget to check in when you return from ${breakStatusLabel}`,
-        android: {
-          channelId: 'break-reminders',
-          importance: AndroidImportance.HIGH,
-          pressAction: {
-            id: 'default',
-          },
-          ongoing: false,
-          autoCancel: true,
-        },
-        ios: {
-          sound: 'default',
-        },
-      },
-      firstTrigger,
-    );
+// Cancel scheduled and already shown break reminders
+const cancelAllBreakReminders = async (): Promise<void> => {
+  const ids = new Set<string>([BREAK_NOTIFICATION_ID]);
+  for (let i = 0; i <= MAX_BREAK_REMINDERS; i++) {
+    ids.add(`${BREAK_NOTIFICATION_ID}-${i}`);
+  }
+  const triggerIds: string[] = await notifee.getTriggerNotificationIds();
+  triggerIds.filter((id) => id.startsWith(BREAK_NOTIFICATION_ID)).forEach((id) => ids.add(id));
+  const displayed: any[] = await notifee.getDisplayedNotifications();
+  displayed
+    .map((item) => item.notification?.id || item.id)
+    .filter((id): id is string => !!id && id.startsWith(BREAK_NOTIFICATION_ID))
+    .forEach((id) => ids.add(id));
+  await notifee.cancelAllNotifications([...ids]);
+};
 
-    // Schedule recurring notifications using a workaround
-    // Since notifee doesn't support true recurring triggers, we'll schedule multiple notifications
-    // scheduleRecurringNotifications(breakStatusLabel, 5); // Schedule 5 notifications (2.5 hours)
-  } catch (error) {
-    logger.error('Error scheduling break reminder notifications', error);
+/**
+ * Cancel all break reminder notifications
+ */
+export function cancelBreakReminderNotifications(): Promise<void> {
+  return enqueueBreakReminderTask(async () => {
+    if (!notifee) {
+      logger.warn('Notifee not available. Cannot cancel notifications.');
+      return;
+    }
+    try {
+      await cancelAllBreakReminders();
+    } catch (error) {
+      logger.warn('Error canceling break reminder notifications', error);
+    }
+  });
+}
+
+const linkListeners = new Set<(link: string) => void>();
+
+const isLinkPress = (type: any, detail: any): boolean =>
+  !!EventType &&
+  (type === EventType.PRESS || type === EventType.ACTION_PRESS) &&
+  LINK_PRESS_ACTION_IDS.includes(detail?.pressAction?.id);
+
+const deliveredListeners = new Set<(notification: any) => Promise<void> | void>();
+
+/**
+ * Handle a notification event - forwards presses that open a deep link ("Resume work" on
+ * break reminders, shift reminders) and deliveries to the subscribers
+ * Also registered as the background event handler (see registerNotificationBackgroundHandler)
+ */
+export async function handleNotificationEvent({ type, detail }: { type: any; detail: any }): Promise<void> {
+  if (EventType && type === EventType.DELIVERED) {
+    // Background deliveries keep the headless task alive until the subscribers are done
+    await Promise.all([...deliveredListeners].map((listener) => listener(detail?.notification)));
+    return;
+  }
+  if (!isLinkPress(type, detail)) {
+    return;
   }
+  const link = detail.notification?.data?.link ||
+    (detail.pressAction.id === RESUME_WORK_ACTION_ID ? RESUME_WORK_LINK : CHECK_IN_LINK);
+  logger.debug('Notification link pressed', { link, listeners: linkListeners.size });
+  linkListeners.forEach((listener) => listener(link));
 }
 
+/**
+ * Subscribe to notifications being delivered (Android also while the app is in the background)
+ * @returns Unsubscribe function
+ */
+export function onNotificationDelivered(listener: (notification: any) => Promise<void> | void): () => void {
+  deliveredListeners.add(listener);
+  return () => {
+    deliveredListeners.delete(listener);
+  };
+}
 
+/**
+ * Register the background event handler (index.js) - presses while the app is in the background
+ * reach the navigation subscriber once the app opens; a killed app gets them as the initial link
+ */
+export function registerNotificationBackgroundHandler(): void {
+  notifee?.onBackgroundEvent(handleNotificationEvent);
+}
 
 /**
- * Cancel all break reminder notifications
+ * Subscribe to notification presses that open a deep link
+ * @returns Unsubscribe function
  */
-export async function cancelBreakReminderNotifications(): Promise<void> {
+export function onNotificationLinkPress(listener: (link: string) => void): () => void {
+  linkListeners.add(listener);
+  const unsubscribeForeground = notifee?.onForegroundEvent(handleNotificationEvent);
+  return () => {
+    linkListeners.delete(listener);
+    unsubscribeForeground?.();
+  };
+}
+
+/**
+ * Deep link of the notification press that opened the app, if any
+ */
+export async function getInitialNotificationLink(): Promise<string | null> {
   if (!notifee) {
-    logger.warn('Notifee not available. Cannot cancel notifications.');
-    return;
+    return null;
   }
   try {
-    // Cancel main notification
-    await notifee.cancelNotification(BREAK_NOTIFICATION_ID);
-
-    // Cancel all recurring notifications
-    for (let i = 1; i <= 10; i++) {
-      await notifee.cancelNotification(`${BREAK_NOTIFICATION_ID}-${i}`);
+    const initial = await notifee.getInitialNotification();
+    const actionId = initial?.pressAction?.id;
+    if (!LINK_PRESS_ACTION_IDS.includes(actionId)) {
+      return null;
     }
-
-    // Also cancel all notifications with the break reminder prefix
-    const notifications = await notifee.getTriggerNotifications();
-    notifications.forEach((notification: any) => {
-      if (notification.notification.id?.startsWith(BREAK_NOTIFICATION_ID)) {
-        notifee.cancelNotification(notification.notification.id);
-      }
-    });
+    return initial.notification?.data?.link || (actionId === RESUME_WORK_ACTION_ID ? RESUME_WORK_LINK : CHECK_IN_LINK);
   } catch (error) {
-    logger.warn('Error canceling break reminder notifications', error);
+    logger.warn('Error reading initial notification', error);
+    return null;
   }
 }
 
@@ -164,26 +411,17 @@ function getBreakStatusLabel(status: string): string {
 
 /**
  * Check if user is currently on break
+ * @param breakType - BreakType of the last punch (older punches only have the break in attendanceStatus)
  */
 export function isUserOnBreak(
   attendanceStatus?: string,
   punchDirection?: string,
+  breakType?: string,
 ): boolean {
-  if (!attendanceStatus || !punchDirection) {
+  if (!punchDirection || punchDirection.toUpperCase() !== 'OUT') {
     return false;
   }
 
-  const breakStatuses = [
-    'LUNCH',
-    'SHORTBREAK',
-    'COMMUTING',
-    'PERSONALTIMEOUT',
-    'OUTFORDINNER',
-  ];
-
-  const isBreakStatus = breakStatuses.includes(attendanceStatus.toUpperCase());
-  const isCheckedOut = punchDirection.toUpperCase() === 'OUT';
-
-  return isBreakStatus && isCheckedOut;
+  return isBreakStart({ PunchDirection: 'OUT', AttendanceStatus: attendanceStatus, BreakType: breakType });
 }
 
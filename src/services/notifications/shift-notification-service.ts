@@ -0,0 +1,380 @@
+import moment from 'moment';
+import { Platform } from 'react-native';
+import { logger } from '../logger';
+import { AttendanceRecord, UserData } from '../../redux/types/userTypes';
+import { calendarService, getCalendarDay, type AttendanceCalendar } from '../attendance/calendar-service';
+import { isBreakStart } from '../attendance/break-service';
+import { settingsSyncService } from '../sync/settings-sync-service';
+import { getShiftForDate, getShiftRoster, getShiftWindow, type ShiftRoster } from '../../utils/shift-roster-utils';
+import { getAutoCheckout } from '../../utils/shift-utils';
+import { formatUTCForDisplay } from '../../utils/time-utils';
+import {
+  AUTO_CHECKOUT_LINK,
+  CHECK_IN_LINK,
+  OPEN_CHECK_IN_ACTION_ID,
+  SHIFT_CATEGORY_ID,
+  requestNotificationPermission,
+  setNotificationCategories,
+} from './notification-service';
+
+// Dynamically import notifee to handle cases where native module isn't linked
+let notifee: any = null;
+let AndroidImportance: any = null;
+let TriggerType: any = null;
+
+try {
+  const notifeeModule = require('@notifee/react-native');
+  notifee = notifeeModule.default || notifeeModule;
+  AndroidImportance = notifeeModule.AndroidImportance;
+  TriggerType = notifeeModule.TriggerType;
+} catch (error) {
+  // Notifee not available - will be handled gracefully
+}
+
+const DEBUG = true;
+const log = (...args: any[]) => DEBUG && logger.debug('[ShiftNotifications]', ...args);
+
+// User preference (settings table, synced through settingsSyncService) - on unless turned off
+export const SHIFT_REMINDERS_SETTING_KEY = 'shiftReminders';
+
+const SHIFT_NOTIFICATION_PREFIX = 'shift-';
+// Notice of the auto-checkout of an open entry, at the time it is due (see autoCheckoutService)
+export const AUTO_CHECKOUT_NOTIFICATION_ID = `${SHIFT_NOTIFICATION_PREFIX}auto-checkout`;
+const SHIFT_CHANNEL_ID = 'shift-reminders';
+const SHIFT_START_LEAD_MINUTES = 15; // "Shift starting soon" this long before the shift
+const SHIFT_END_GRACE_MINUTES = 15; // "Shift ended" this long after the shift
+const SHIFT_START_DAYS_AHEAD = 7; // Shift starts scheduled ahead (the next sync or punch extends them)
+
+export type ShiftNotificationKind = 'SHIFT_START' | 'SHIFT_END' | 'AUTO_CHECKOUT';
+
+/**
+ * One shift reminder to schedule
+ */
+export interface ShiftNotification {
+  id: string;
+  kind: ShiftNotificationKind;
+  timestamp: number; // UTC ticks
+  shiftTime: number; // Shift start (SHIFT_START), shift end or auto-checkout time the reminder is about, UTC ticks
+}
+
+type LastPunch = Pick<AttendanceRecord, 'PunchDirection' | 'Timestamp' | 'DateOfPunch'> & {
+  AttendanceStatus?: string | null;
+  BreakType?: string | null;
+};
+
+/**
+ * Check if the last punch leaves an entry open (checked in, or on a break)
+ */
+const isEntryOpen = (lastPunch?: LastPunch | null): boolean =>
+  lastPunch?.PunchDirection === 'IN' || isBreakStart(lastPunch);
+
+const getEntryDate = (lastPunch: LastPunch): string =>
+  lastPunch.DateOfPunch || moment.utc(Number(lastPunch.Timestamp)).format('YYYY-MM-DD');
+
+/**
+ * Shift reminders due after now
+ * - SHIFT_START: before each working day's shift (not on holidays, weekly offs or approved leave)
+ *   that has no punch yet
+ * - SHIFT_END / AUTO_CHECKOUT: while an entry is open - after its shift ends, and when it is
+ *   checked out automatically (see getAutoCheckout)
+ */
+export function planShiftNotifications(
+  roster: ShiftRoster,
+  lastPunch: LastPunch | null | undefined,
+  calendar: AttendanceCalendar,
+  now: number = Date.now(),
+): ShiftNotification[] {
+  const notifications: ShiftNotification[] = [];
+  const lastEntryDate = lastPunch ? getEntryDate(lastPunch) : null;
+  const entryOpen = isEntryOpen(lastPunch);
+  let openShiftEnd: number | null = null;
+
+  if (lastPunch && lastEntryDate && entryOpen) {
+    const window = getShiftWindow(getShiftForDate(roster, lastEntryDate));
+    openShiftEnd = window?.end ?? null;
+    if (window) {
+      notifications.push({
+        id: `${SHIFT_NOTIFICATION_PREFIX}end`,
+        kind: 'SHIFT_END',
+        timestamp: window.end + SHIFT_END_GRACE_MINUTES * 60 * 1000,
+        shiftTime: window.end,
+      });
+    }
+    // Breaks are closed by their own punches, only a check-in is checked out automatically
+    if (lastPunch.PunchDirection === 'IN') {
+      const autoCheckout = getAutoCheckout(Number(lastPunch.Timestamp), lastEntryDate, roster);
+      notifications.push({
+        id: AUTO_CHECKOUT_NOTIFICATION_ID,
+        kind: 'AUTO_CHECKOUT',
+        timestamp: autoCheckout.dueAt,
+        shiftTime: autoCheckout.checkoutTime,
+      });
+    }
+  }
+
+  for (let day = 0; day <= SHIFT_START_DAYS_AHEAD; day++) {
+    const date = moment.utc(now).add(day, 'days').format('YYYY-MM-DD');
+    const window = getShiftWindow(getShiftForDate(roster, date));
+    // Already punched for this shift, or still in the open entry's shift
+    if (!window || date === lastEntryDate || (openShiftEnd !== null && window.start < openShiftEnd)) {
+      continue;
+    }
+    if (getCalendarDay(calendar, date, roster)) {
+      continue;
+    }
+    notifications.push({
+      id: `${SHIFT_NOTIFICATION_PREFIX}start-${date}`,
+      kind: 'SHIFT_START',
+      timestamp: window.start - SHIFT_START_LEAD_MINUTES * 60 * 1000,
+      shiftTime: window.start,
+    });
+  }
+
+  return notifications.filter((notification) => notification.timestamp > now);
+}
+
+const toNotificationContent = (notification: ShiftNotification) => {
+  const time = formatUTCForDisplay(notification.shiftTime, 'hh:mm A');
+  switch (notification.kind) {
+    case 'SHIFT_START':
+      return {
+        title: 'Shift starting soon',
+        body: `Your shift starts at ${time}. Don't forget to check in.`,
+        action: 'Check in',
+      };
+    case 'SHIFT_END':
+      return {
+        title: 'Shift ended',
+        body: `Your shift ended at ${time} and you are still checked in. Check out if you are done for the day.`,
+        action: 'Check out',
+      };
+    default:
+      return {
+        title: 'Checked out automatically',
+        body: `You did not check out, so you were checked out at ${time}. If you left at another time, tap to correct it.`,
+        action: 'Correct time',
+      };
+  }
+};
+
+const toNotifeeNotification = (notification: ShiftNotification) => {
+  const content = toNotificationContent(notification);
+  const pressAction = { id: OPEN_CHECK_IN_ACTION_ID, launchActivity: 'default' };
+  const isAutoCheckout = notification.kind === 'AUTO_CHECKOUT';
+  return {
+    id: notification.id,
+    title: content.title,
+    body: content.body,
+    data: { link: isAutoCheckout ? AUTO_CHECKOUT_LINK : CHECK_IN_LINK, kind: notification.kind },
+    android: {
+      channelId: SHIFT_CHANNEL_ID,
+      importance: AndroidImportance.HIGH,
+      pressAction,
+      actions: [{ title: content.action, pressAction }],
+      autoCancel: true,
+    },
+    ios: {
+      sound: 'default',
+      categoryId: SHIFT_CATEGORY_ID,
+      interruptionLevel: isAutoCheckout ? 'timeSensitive' : 'active',
+    },
+  };
+};
+
+/**
+ * Shift Notification Service
+ * Local reminders around the user's shifts - forgotten checkouts are the biggest source of corrections
+ *
+ * - reschedule() replaces the scheduled reminders from the latest profile (shift roster) and punch;
+ *   called when either changes (HomeScreen) and after sync pulls
+ * - Reminders open CheckInScreen; the auto-checkout notice opens it to correct the checkout time
+ * - Off when the user turns shift reminders off (SHIFT_REMINDERS_SETTING_KEY), except for the
+ *   auto-checkout notice - the checkout is written for the user either way
+ */
+class ShiftNotificationService {
+  // Reschedules run one after another, so the latest state always wins
+  private queue: Promise<void> = Promise.resolve();
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task, task);
+    return this.queue;
+  }
+
+  /**
+   * Check if the user wants shift reminders
+   */
+  async isEnabled(): Promise<boolean> {
+    try {
+      const value = await settingsSyncService.loadSettingFromDB(SHIFT_REMINDERS_SETTING_KEY);
+      return value !== false && value !== 'false';
+    } catch (error) {
+      logger.warn('[ShiftNotifications] Error loading preference', error);
+      return true;
+    }
+  }
+
+  /**
+   * Turn shift reminders on or off (synced like other settings) and apply it right away
+   */
+  async setEnabled(
+    enabled: boolean,
+    userData: UserData | null | undefined,
+    lastPunch: LastPunch | null | undefined,
+  ): Promise<void> {
+    await settingsSyncService.saveSetting(SHIFT_REMINDERS_SETTING_KEY, enabled);
+    await this.reschedule(userData, lastPunch);
+  }
+
+  /**
+   * Replace the scheduled shift reminders
+   */
+  reschedule(userData: UserData | null | undefined, lastPunch: LastPunch | null | undefined): Promise<void> {
+    return this.enqueue(async () => {
+      if (!notifee || !AndroidImportance || !TriggerType) {
+        logger.warn('Notifee not available. Cannot schedule shift notifications.');
+        return;
+      }
+      try {
+        const enabled = await this.isEnabled();
+        const now = Date.now();
+        let planned: ShiftNotification[] = [];
+        if (userData?.email) {
+          const calendar = await calendarService.getCalendar(
+            userData.email,
+            moment.utc(now).format('YYYY-MM-DD'),
+            moment.utc(now).add(SHIFT_START_DAYS_AHEAD, 'days').format('YYYY-MM-DD'),
+          );
+          planned = planShiftNotifications(getShiftRoster(userData), lastPunch, calendar, now)
+            .filter((notification) => enabled || notification.kind === 'AUTO_CHECKOUT');
+        }
+
+        await this.cancelScheduled(planned, isEntryOpen(lastPunch), lastPunch ? getEntryDate(lastPunch) : null);
+        if (planned.length === 0) {
+          log('No shift reminders to schedule', { enabled });
+          return;
+        }
+
+        if (!(await this.prepare())) {
+          return;
+        }
+        for (const notification of planned) {
+          await notifee.createTriggerNotification(toNotifeeNotification(notification), {
+            type: TriggerType.TIMESTAMP,
+            timestamp: notification.timestamp,
+          });
+        }
+        log('Shift reminders scheduled', planned.map(({ id, timestamp }) => ({ id, timestamp })));
+      } catch (error) {
+        logger.error('[ShiftNotifications] Error scheduling shift reminders', error);
+      }
+    });
+  }
+
+  /**
+   * Show the auto-checkout notice now - for an auto-checkout whose scheduled notice was not shown
+   * (app closed at the time on iOS, reminders scheduled after it was due)
+   */
+  showAutoCheckoutNotice(checkoutTime: number): Promise<void> {
+    return this.enqueue(async () => {
+      if (!notifee || !AndroidImportance) {
+        return;
+      }
+      try {
+        const displayed: any[] = await notifee.getDisplayedNotifications();
+        if (displayed.some((item) => (item.notification?.id || item.id) === AUTO_CHECKOUT_NOTIFICATION_ID)) {
+          return;
+        }
+        if (!(await this.prepare())) {
+          return;
+        }
+        await notifee.displayNotification(
+          toNotifeeNotification({
+            id: AUTO_CHECKOUT_NOTIFICATION_ID,
+            kind: 'AUTO_CHECKOUT',
+            timestamp: Date.now(),
+            shiftTime: checkoutTime,
+          }),
+        );
+      } catch (error) {
+        logger.error('[ShiftNotifications] Error showing auto-checkout notice', error);
+      }
+    });
+  }
+
+  /**
+   * Cancel all shift reminders (e.g., on logout)
+   */
+  cancelAll(): Promise<void> {
+    return this.enqueue(async () => {
+      if (!notifee) {
+        return;
+      }
+      try {
+        const triggerIds: string[] = await notifee.getTriggerNotificationIds();
+        const displayed: any[] = await notifee.getDisplayedNotifications();
+        const ids = [...triggerIds, ...displayed.map((item) => item.notification?.id || item.id)]
+          .filter((id): id is string => !!id && id.startsWith(SHIFT_NOTIFICATION_PREFIX));
+        if (ids.length > 0) {
+          await notifee.cancelAllNotifications(ids);
+        }
+      } catch (error) {
+        logger.warn('[ShiftNotifications] Error cancelling shift reminders', error);
+      }
+    });
+  }
+
+  /**
+   * Permission and channel (Android) / categories (iOS) for shift notifications
+   * @returns false without notification permission
+   */
+  private async prepare(): Promise<boolean> {
+    const hasPermission = await requestNotificationPermission();
+    if (!hasPermission) {
+      log('Notification permission not granted');
+      return false;
+    }
+    if (Platform.OS === 'android') {
+      await notifee.createChannel({
+        id: SHIFT_CHANNEL_ID,
+        name: 'Shift Reminders',
+        importance: AndroidImportance.HIGH,
+        sound: 'default',
+      });
+    } else {
+      await setNotificationCategories();
+    }
+    return true;
+  }
+
+  /**
+   * Cancel the scheduled reminders, and shown ones that no longer apply: the shift start once
+   * its shift has a punch, the shift end once the entry is closed (the auto-checkout notice stays)
+   */
+  private async cancelScheduled(planned: ShiftNotification[], entryOpen: boolean, lastEntryDate: string | null): Promise<void> {
+    const plannedIds = new Set(planned.map((notification) => notification.id));
+    const triggerIds: string[] = await notifee.getTriggerNotificationIds();
+    const ids = triggerIds.filter((id) => id.startsWith(SHIFT_NOTIFICATION_PREFIX));
+
+    const displayed: any[] = await notifee.getDisplayedNotifications();
+    displayed
+      .map((item) => item.notification?.id || item.id)
+      .filter((id): id is string => !!id && id.startsWith(SHIFT_NOTIFICATION_PREFIX))
+      .forEach((id) => {
+        const shiftDate = id.startsWith(`${SHIFT_NOTIFICATION_PREFIX}start-`)
+          ? id.slice(`${SHIFT_NOTIFICATION_PREFIX}start-`.length)
+          : null;
+        const resolved = shiftDate !== null
+          ? entryOpen || (lastEntryDate !== null && lastEntryDate >= shiftDate)
+          : !entryOpen && id !== AUTO_CHECKOUT_NOTIFICATION_ID;
+        if (resolved || plannedIds.has(id)) {
+          ids.push(id);
+        }
+      });
+
+    if (ids.length > 0) {
+      await notifee.cancelAllNotifications(ids);
+    }
+  }
+}
+
+export const shiftNotificationService = new ShiftNotificationService();
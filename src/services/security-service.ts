@@ -9,6 +9,9 @@ const { SecurityUtils } = NativeModules as {
     isDeveloperModeEnabled: (
       callback: (error: Error | null, isEnabled: boolean) => void,
     ) => void;
+    isMockLocationActive?: (
+      callback: (error: Error | null, isActive: boolean) => void,
+    ) => void;
   };
 };
 
@@ -70,3 +73,31 @@ export const checkDeveloperModeStatus = (): Promise<boolean> => {
   });
 };
 
+
+/**
+ * Check if the device location comes from a mock location provider (fake GPS apps)
+ * @returns Promise<boolean> true if a mock location is active, false otherwise
+ */
+export const checkMockLocationStatus = (): Promise<boolean> => {
+  return new Promise((resolve) => {
+    if (Platform.OS !== 'android') {
+      // iOS has no mock location providers
+      resolve(false);
+      return;
+    }
+
+    if (!SecurityUtils?.isMockLocationActive) {
+      resolve(false);
+      return;
+    }
+
+    SecurityUtils.isMockLocationActive((error, isActive) => {
+      if (error) {
+        logger.error('Error checking mock location status', error);
+        resolve(false);
+        return;
+      }
+      resolve(isActive);
+    });
+  });
+};
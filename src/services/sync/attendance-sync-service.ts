@@ -3,7 +3,13 @@ import {
   markAttendanceRecordAsSynced, 
   insertAttendancePunchRecord, 
   getAttendanceData, 
-  getAllAttendanceRecords 
+  getAllAttendanceRecords,
+  getAttendanceRecordByPunchID,
+  applyServerAttendanceChanges,
+  reconcileServerAttendanceRecord,
+  type AttendanceHistoryItem,
+  type AttendanceRecord as LocalAttendanceRecord,
+  type DeletedPunch,
 } from '../attendance/attendance-db-service';
 import { AttendanceRecord } from '../../redux/types/userTypes';
 import { store } from '../../redux';
@@ -13,9 +19,184 @@ import { Configs } from '../../constants/configs';
 import apiClient from '../api/api-client';
 import moment from 'moment';
 import { apiTimestampToTicks } from '../../utils/timestamp-utils';
+import type { SyncQueuePushResult } from './sync-queue-service';
+import { syncCursorService } from './sync-cursor-service';
 
 const API_BASE_URL = Configs.apiBaseUrl;
 
+// Database row → record shape sent by syncAttendanceRecordToServer
+const toAttendanceRecord = (record: AttendanceHistoryItem): AttendanceRecord => ({
+  PunchID: record.PunchID,
+  Timestamp: typeof record.Timestamp === 'string' ? parseInt(record.Timestamp, 10) : record.Timestamp,
+  OrgID: record.OrgID,
+  UserID: record.UserID,
+  PunchType: record.PunchType,
+  PunchDirection: record.PunchDirection as 'IN' | 'OUT',
+  LatLon: record.LatLon,
+  Address: record.Address,
+  CreatedOn: typeof record.CreatedOn === 'string' ? parseInt(record.CreatedOn, 10) : record.CreatedOn,
+  IsSynced: record.IsSynced as 'Y' | 'N',
+  DateOfPunch: record.DateOfPunch,
+  AttendanceStatus: record.AttendanceStatus,
+  ModuleID: record.ModuleID,
+  TripType: record.TripType,
+  PassengerID: record.PassengerID,
+  AllowanceData: record.AllowanceData,
+  IsCheckoutQrScan: record.IsCheckoutQrScan,
+  TravelerName: record.TravelerName,
+  PhoneNumber: record.PhoneNumber,
+  GeofenceStatus: record.GeofenceStatus,
+  GeofenceID: record.GeofenceID,
+  GeofenceDistance: record.GeofenceDistance,
+  GpsAccuracy: record.GpsAccuracy,
+  LocationRiskFlags: record.LocationRiskFlags,
+  BreakType: record.BreakType,
+  DeviceTimestamp: record.DeviceTimestamp,
+  TrustedTimestamp: record.TrustedTimestamp,
+  TimeConfidence: record.TimeConfidence,
+  DeviceID: record.DeviceID,
+  ChainSeq: record.ChainSeq,
+  PrevHash: record.PrevHash,
+  RecordHash: record.RecordHash,
+  Signature: record.Signature,
+});
+
+// Server punch (days response or change feed) → local record
+// Day-level fields (shift times, linked entry) come from the days response only
+const toLocalPunch = (serverRecord: any, userID: string, day: any = {}): LocalAttendanceRecord => {
+  // Convert API timestamp (datetime string or ticks) to UTC ticks for storage
+  const timestamp = apiTimestampToTicks(serverRecord.Timestamp || serverRecord.timestamp);
+  const serverCreatedOn = serverRecord.CreatedOn || serverRecord.createdOn;
+  // Extract shift times from day-level object (shiftStart, shiftEnd, minimumHours)
+  // Only store shift times for IN records (same as CheckInScreen logic)
+  const punchDirection = serverRecord.PunchDirection || serverRecord.punchDirection || 'IN';
+  const isInRecord = punchDirection === 'IN';
+
+  return {
+    punchID: serverRecord.PunchID || serverRecord.punchId || undefined,
+    timestamp,
+    orgID: serverRecord.OrgID || serverRecord.orgID || '',
+    userID: userID,
+    punchType: serverRecord.PunchType || serverRecord.punchType || '',
+    punchDirection,
+    latLon: serverRecord.LatLon || serverRecord.latLon || '',
+    address: serverRecord.Address || serverRecord.address || '',
+    createdOn: serverCreatedOn ? apiTimestampToTicks(serverCreatedOn) : timestamp,
+    isSynced: 'Y', // Server record is already synced
+    dateOfPunch: serverRecord.DateOfPunch || serverRecord.dateOfPunch || day.dateOfPunch,
+    attendanceStatus: serverRecord.AttendanceStatus || serverRecord.attendanceStatus,
+    moduleID: serverRecord.ModuleID || serverRecord.moduleID,
+    tripType: serverRecord.TripType || serverRecord.tripType,
+    passengerID: serverRecord.PassengerID || serverRecord.passengerID,
+    allowanceData: serverRecord.AllowanceData || serverRecord.allowanceData,
+    isCheckoutQrScan: serverRecord.IsCheckoutQrScan || serverRecord.isCheckoutQrScan || 0,
+    travelerName: serverRecord.TravelerName || serverRecord.travelerName,
+    phoneNumber: serverRecord.PhoneNumber || serverRecord.phoneNumber,
+    // Extract shift times from day-level object (only for IN records)
+    ShiftStartTime: isInRecord ? (day.shiftStart || day.ShiftStartTime) : undefined,
+    ShiftEndTime: isInRecord ? (day.shiftEnd || day.ShiftEndTime) : undefined,
+    MinimumHoursRequired: isInRecord ? (day.minimumHours || day.MinimumHoursRequired) : undefined,
+    // Approval / correction state (changes when a correction is approved on the server)
+    // A day the server no longer flags for approval has no punch waiting for one
+    ApprovalRequired: serverRecord.ApprovalRequired || serverRecord.approvalRequired
+      || (day.requiresApproval === false ? 'N' : undefined),
+    Reason: serverRecord.Reason || serverRecord.reason,
+    OriginalCheckoutTime: serverRecord.OriginalCheckoutTime ?? serverRecord.originalCheckoutTime,
+    CorrectedCheckoutTime: serverRecord.CorrectedCheckoutTime ?? serverRecord.correctedCheckoutTime,
+    WorkedHours: serverRecord.WorkedHours ?? serverRecord.workedHours,
+    CorrectionType: serverRecord.CorrectionType || serverRecord.correctionType,
+    ManualCheckoutTime: serverRecord.ManualCheckoutTime ?? serverRecord.manualCheckoutTime,
+    // Extract LinkedEntryDate from day-level object if present
+    LinkedEntryDate: day.linkedEntryDate || day.LinkedEntryDate || serverRecord.LinkedEntryDate || serverRecord.linkedEntryDate,
+    GeofenceStatus: serverRecord.GeofenceStatus || serverRecord.geofenceStatus,
+    GeofenceID: serverRecord.GeofenceID || serverRecord.geofenceId,
+    GeofenceDistance: serverRecord.GeofenceDistance ?? serverRecord.geofenceDistance,
+    GpsAccuracy: serverRecord.GpsAccuracy ?? serverRecord.gpsAccuracy,
+    LocationRiskFlags: serverRecord.LocationRiskFlags || serverRecord.locationRiskFlags,
+    BreakType: serverRecord.BreakType || serverRecord.breakType,
+    DeviceTimestamp: serverRecord.DeviceTimestamp ?? serverRecord.deviceTimestamp,
+    TrustedTimestamp: serverRecord.TrustedTimestamp ?? serverRecord.trustedTimestamp,
+    TimeConfidence: serverRecord.TimeConfidence || serverRecord.timeConfidence,
+  };
+};
+
+// Request body of punch-in / punch-out and of each punch in a batch upload
+const toPunchPayload = (record: AttendanceRecord, punchID: string) => ({
+  punchId: punchID,
+  // Convert timestamp to UTC ticks (milliseconds since epoch) - backend always expects UTC
+  timestamp: moment.utc(record.Timestamp).valueOf(),
+  punchDirection: record.PunchDirection,
+  latLon: record.LatLon,
+  address: record.Address,
+  punchType: record.PunchType,
+  moduleID: record.ModuleID,
+  tripType: record.TripType,
+  passengerID: record.PassengerID,
+  allowanceData: record.AllowanceData,
+  isCheckoutQrScan: record.IsCheckoutQrScan,
+  travelerName: record.TravelerName,
+  phoneNumber: record.PhoneNumber,
+  // Geofence match result captured at punch time
+  geofenceStatus: record.GeofenceStatus,
+  geofenceId: record.GeofenceID,
+  geofenceDistance: record.GeofenceDistance,
+  gpsAccuracy: record.GpsAccuracy,
+  // Signs of a spoofed location (mock provider, impossible speed, teleport, constant accuracy),
+  // comma-separated - set whatever the locationSpoofPolicy, so flagged punches can be reviewed
+  locationRiskFlags: record.LocationRiskFlags,
+  // Break start / end punches (punchType BREAK) - lets payroll separate lunch from personal time
+  breakType: record.BreakType,
+  // Device clock and trusted clock when the punch was written - a set-back device clock shows as
+  // a gap between the two (timeConfidence CLOCK_ROLLBACK when it was caught offline)
+  deviceTimestamp: record.DeviceTimestamp,
+  trustedTimestamp: record.TrustedTimestamp,
+  timeConfidence: record.TimeConfidence,
+  // Hash chain of the punches written on this device: recordHash covers the punch and prevHash,
+  // signature is the HMAC of recordHash with the key sent at device registration (see punch-chain-service)
+  deviceId: record.DeviceID,
+  chainSeq: record.ChainSeq,
+  prevHash: record.PrevHash,
+  recordHash: record.RecordHash,
+  signature: record.Signature,
+});
+
+const PUNCH_BATCH_ENDPOINT = '/api/attendance/punches/batch';
+const PUNCH_BATCH_SIZE = 25;
+
+const ATTENDANCE_CHANGES_ENDPOINT = '/api/attendance/changes';
+const CHANGE_FEED_MAX_PAGES = 20; // Per pull - the rest is fetched by the next one
+// updatedSince watermarks are moved back by this much to cover clock skew between
+// device and server and rows committed while the previous pull was running
+const CHANGE_FEED_SKEW_MS = 5 * 60 * 1000;
+
+// Deleted entry of the change feed: a PunchID, or an object for punches without one
+const toDeletedPunch = (deleted: any): DeletedPunch =>
+  typeof deleted === 'string'
+    ? { punchID: deleted }
+    : {
+        punchID: deleted?.PunchID || deleted?.punchId || undefined,
+        timestamp: deleted?.Timestamp || deleted?.timestamp
+          ? apiTimestampToTicks(deleted.Timestamp || deleted.timestamp)
+          : undefined,
+      };
+
+/**
+ * Per-punch result of a batch upload
+ * - accepted: Stored by this request
+ * - duplicate: Already stored (same PunchID) - treated as synced
+ * - rejected: Refused (validation, closed period, ...) with the reason in error
+ */
+export interface BatchPunchResult {
+  punchId: string;
+  status: 'accepted' | 'duplicate' | 'rejected';
+  timestamp?: string | number;
+  error?: string;
+}
+
+export interface PunchUploadResult extends SyncQueuePushResult {
+  outcome: 'synced' | 'failed' | 'rejected';
+}
+
 /**
  * ATTENDANCE SYNC SERVICE - ALL API calls and sync operations
  * 
@@ -30,7 +211,7 @@ const API_BASE_URL = Configs.apiBaseUrl;
  * 
  * 2. SYNC COORDINATOR (background sync):
  *    → Direct call: syncAttendanceFromServer(userID, month?)
- *    → Direct call: syncAllUnsyncedAttendance(userID)
+ *    → Via sync-queue-processor.ts: syncQueuedPunchesToServer(punchIDs, userID)
  *    → Reason: Coordinator needs direct control over sync operations
  * 
  * 3. CHECK-IN/CHECKOUT FLOWS:
@@ -40,22 +221,32 @@ const API_BASE_URL = Configs.apiBaseUrl;
  * 🔌 API ENDPOINTS (ALL HERE):
  * 
  * PULL (Server → Local):
+ * - GET /api/attendance/changes?cursor= | ?updatedSince= → syncAttendanceChangesFromServer()
+ *   → Incremental pull of the current month: only punches changed since the stored cursor
+ *   → Server edits and deletions win over synced local punches (unsynced ones are kept)
+ *   → Cursor per user in sync_cursors (sync-cursor-service.ts)
  * - GET /api/attendance/days → syncAttendanceFromServer()
- *   → Fetches attendance records from server
+ *   → Fetches a month of attendance records from server (cold history, or to start the feed)
  *   → Merges with local DB (preserves local data)
  *   → Updates Redux state
  * 
  * PUSH (Local → Server):
  * - POST /api/attendance/punch-in → syncAttendanceRecordToServer() (when PunchDirection='IN')
  * - POST /api/attendance/punch-out → syncAttendanceRecordToServer() (when PunchDirection='OUT')
+ * - POST /api/attendance/punches/batch → uploadPunches() (up to 25 punches per request)
+ *   → Server answers per punch: accepted / duplicate (both marked synced) or rejected with a reason
+ *   → Falls back to punch-in / punch-out per record when the batch request fails
  *   → Sends single attendance record to server
+ *   → PunchID is sent as punchId and as the Idempotency-Key header, so retries never duplicate a punch
  *   → Marks as synced after successful upload
  * 
  * 📊 OPERATIONS:
  * 
- * - syncAttendanceFromServer(): Pull from server, merge with local DB
+ * - syncAttendanceFromServer(): Pull from server, merge with local DB (change feed for the current month)
+ * - syncAttendanceChangesFromServer(): Pull changes since the stored cursor
  * - syncAttendanceRecordToServer(): Push single record to server
  * - syncAllUnsyncedAttendance(): Push all unsynced records (batch)
+ * - syncQueuedPunchesToServer(): Push punches queued in sync_queue (batch)
  * - mergeAttendanceData(): Merge server data with local (preserves local records)
  * - getUnsyncedAttendanceRecords(): Query unsynced records from local DB
  * 
@@ -65,6 +256,9 @@ const API_BASE_URL = Configs.apiBaseUrl;
  * - attendance-service.ts delegates here (no API calls in attendance-service.ts)
  */
 class AttendanceSyncService {
+  private batchUploadUnsupported = false;
+  private changeFeedUnsupported = false;
+
   /**
    * Get all unsynced attendance records for a user
    * Used to identify which local records need to be pushed to server
@@ -72,26 +266,7 @@ class AttendanceSyncService {
   async getUnsyncedAttendanceRecords(userID: string): Promise<AttendanceRecord[]> {
     try {
       const records = await getUnsyncedAttendanceRecords(userID);
-      return records.map((record) => ({
-        Timestamp: typeof record.Timestamp === 'string' ? parseInt(record.Timestamp, 10) : record.Timestamp,
-        OrgID: record.OrgID,
-        UserID: record.UserID,
-        PunchType: record.PunchType,
-        PunchDirection: record.PunchDirection as 'IN' | 'OUT',
-        LatLon: record.LatLon,
-        Address: record.Address,
-        CreatedOn: typeof record.CreatedOn === 'string' ? parseInt(record.CreatedOn, 10) : record.CreatedOn,
-        IsSynced: record.IsSynced as 'Y' | 'N',
-        DateOfPunch: record.DateOfPunch,
-        AttendanceStatus: record.AttendanceStatus,
-        ModuleID: record.ModuleID,
-        TripType: record.TripType,
-        PassengerID: record.PassengerID,
-        AllowanceData: record.AllowanceData,
-        IsCheckoutQrScan: record.IsCheckoutQrScan,
-        TravelerName: record.TravelerName,
-        PhoneNumber: record.PhoneNumber,
-      }));
+      return records.map(toAttendanceRecord);
     } catch (error) {
       logger.error('Error getting unsynced attendance records', error);
       return [];
@@ -103,18 +278,30 @@ class AttendanceSyncService {
    * Marks the record as synced after successful upload
    */
   async syncAttendanceRecordToServer(record: AttendanceRecord): Promise<boolean> {
+    const result = await this.uploadPunch(record);
+    return result.outcome === 'synced';
+  }
+
+  private async uploadPunch(record: AttendanceRecord): Promise<PunchUploadResult> {
     try {
       const isOnline = await networkService.isConnected();
       if (!isOnline) {
         logger.debug('[AttendanceSync] Offline - cannot sync attendance record');
-        return false;
+        return { outcome: 'failed', error: 'No network connection' };
       }
 
       // Get user email from Redux store or record
       const userEmail = record.UserID || store.getState().userState?.userData?.email;
       if (!userEmail) {
         logger.debug('[AttendanceSync] No user email - cannot sync attendance record');
-        return false;
+        return { outcome: 'failed', error: 'No user email' };
+      }
+
+      if (!record.PunchID) {
+        logger.warn('[AttendanceSync] Record has no PunchID - cannot sync attendance record', undefined, {
+          timestamp: record.Timestamp,
+        });
+        return { outcome: 'failed', error: 'Record has no PunchID' };
       }
 
       // Determine API endpoint based on punch direction
@@ -122,27 +309,14 @@ class AttendanceSyncService {
         ? `/api/attendance/punch-in`
         : `/api/attendance/punch-out`;
 
-      // Convert timestamp to UTC ticks (milliseconds since epoch) - backend always expects UTC
-      // Ensure we're sending UTC timestamp even if local timestamp was stored
-      const utcTimestamp = moment.utc(record.Timestamp).valueOf();
-      
+      const payload = toPunchPayload(record, record.PunchID);
       const response = await apiClient.post(
         endpoint,
-        {
-          timestamp: utcTimestamp, // UTC ticks (milliseconds since epoch)
-          latLon: record.LatLon,
-          address: record.Address,
-          punchType: record.PunchType,
-          moduleID: record.ModuleID,
-          tripType: record.TripType,
-          passengerID: record.PassengerID,
-          allowanceData: record.AllowanceData,
-          isCheckoutQrScan: record.IsCheckoutQrScan,
-          travelerName: record.TravelerName,
-          phoneNumber: record.PhoneNumber,
-        },
+        payload,
         {
           timeout: 30000,
+          // Server returns the stored punch instead of creating a second one when a retry repeats the key
+          headers: { 'Idempotency-Key': record.PunchID },
         }
       );
 
@@ -150,34 +324,185 @@ class AttendanceSyncService {
       // Handle both formats: datetime string (e.g., "2026-01-15T09:00:00Z") or ticks
       const serverTimestampRaw = response.data?.timestamp || response.data?.Timestamp || 
                                  response.data?.punchInTime || response.data?.punchOutTime || 
-                                 utcTimestamp;
+                                 payload.timestamp;
       // Convert to UTC ticks if it's a datetime string, or use as-is if already ticks
       const serverTimestampUTC = apiTimestampToTicks(serverTimestampRaw);
-      await markAttendanceRecordAsSynced(record.Timestamp, serverTimestampUTC);
-      return true;
+      await markAttendanceRecordAsSynced(record.PunchID, serverTimestampUTC);
+      return { outcome: 'synced' };
     } catch (error: any) {
       logger.error('syncAttendanceRecordToServer error', error);
-      return false;
+      const status = error?.response?.status;
+      return {
+        // Validation errors will fail the same way on every retry
+        outcome: status === 400 || status === 422 ? 'rejected' : 'failed',
+        error: error?.response?.data?.message || error?.message || 'Upload failed',
+      };
+    }
+  }
+
+  /**
+   * Push a chunk of attendance records in one request (Local → Server)
+   * The server answers per punch: accepted and duplicate punches are marked as synced,
+   * rejected ones are reported with the server's reason.
+   * @returns Result per PunchID, or null when the batch request itself failed
+   *          (the caller falls back to one request per record)
+   */
+  private async uploadPunchBatch(
+    records: (AttendanceRecord & { PunchID: string })[],
+  ): Promise<Map<string, PunchUploadResult> | null> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        logger.debug('[AttendanceSync] Offline - cannot upload attendance batch');
+        return null;
+      }
+
+      const payloads = records.map((record) => toPunchPayload(record, record.PunchID));
+      const response = await apiClient.post(
+        PUNCH_BATCH_ENDPOINT,
+        { punches: payloads },
+        { timeout: 60000 },
+      );
+
+      const serverResults: BatchPunchResult[] = response.data?.results || response.data?.data?.results || [];
+      const resultsByPunchId = new Map(serverResults.map((result) => [result.punchId, result]));
+      const results = new Map<string, PunchUploadResult>();
+      let accepted = 0;
+      let duplicates = 0;
+      let rejected = 0;
+
+      for (const payload of payloads) {
+        const serverResult = resultsByPunchId.get(payload.punchId);
+        if (!serverResult) {
+          // Not processed by the server - retried on the next sync
+          results.set(payload.punchId, { outcome: 'failed', error: 'Missing from batch response' });
+          continue;
+        }
+
+        if (serverResult.status === 'accepted' || serverResult.status === 'duplicate') {
+          // Duplicate: the punch was stored by an earlier request (same PunchID) - it is synced
+          const serverTimestampUTC = apiTimestampToTicks(serverResult.timestamp ?? payload.timestamp);
+          await markAttendanceRecordAsSynced(payload.punchId, serverTimestampUTC);
+          results.set(payload.punchId, { outcome: 'synced' });
+          if (serverResult.status === 'accepted') {
+            accepted++;
+          } else {
+            duplicates++;
+          }
+        } else {
+          results.set(payload.punchId, {
+            outcome: 'rejected',
+            error: serverResult.error || 'Rejected by server',
+          });
+          rejected++;
+        }
+      }
+
+      logger.debug('[AttendanceSync] Uploaded attendance batch', {
+        total: records.length,
+        accepted,
+        duplicates,
+        rejected,
+        missing: records.length - accepted - duplicates - rejected,
+      });
+      return results;
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 404 || status === 405 || status === 501) {
+        // Server without the batch endpoint - stop trying it for this session
+        this.batchUploadUnsupported = true;
+        logger.warn('[AttendanceSync] Batch punch upload not supported by server, using per-record upload', undefined, {
+          status,
+        });
+      } else {
+        logger.error('uploadPunchBatch error', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Upload punches in chunks of PUNCH_BATCH_SIZE through the batch endpoint,
+   * falling back to one request per record when a batch request fails.
+   * Retried punches are never duplicated: the PunchID is the idempotency key on both paths.
+   * @returns Result per PunchID
+   */
+  async uploadPunches(records: AttendanceRecord[]): Promise<Map<string, PunchUploadResult>> {
+    const results = new Map<string, PunchUploadResult>();
+    const uploadable = records.filter((record): record is AttendanceRecord & { PunchID: string } => {
+      if (!record.PunchID) {
+        logger.warn('[AttendanceSync] Record has no PunchID - cannot sync attendance record', undefined, {
+          timestamp: record.Timestamp,
+        });
+        return false;
+      }
+      return true;
+    });
+
+    for (let start = 0; start < uploadable.length; start += PUNCH_BATCH_SIZE) {
+      const chunk = uploadable.slice(start, start + PUNCH_BATCH_SIZE);
+      const batchResults = chunk.length > 1 && !this.batchUploadUnsupported
+        ? await this.uploadPunchBatch(chunk)
+        : null;
+
+      if (batchResults) {
+        batchResults.forEach((result, punchID) => results.set(punchID, result));
+        continue;
+      }
+
+      for (const record of chunk) {
+        results.set(record.PunchID, await this.uploadPunch(record));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Push queued punches to server (sync queue processor)
+   * Records are read again so the latest local state is sent
+   * @returns Result per PunchID - 'synced' when there is nothing left to push,
+   *          'deferred' for punches of another user signed in on this device
+   */
+  async syncQueuedPunchesToServer(
+    punchIDs: string[],
+    userID: string,
+  ): Promise<Map<string, SyncQueuePushResult>> {
+    const results = new Map<string, SyncQueuePushResult>();
+    const toUpload: AttendanceRecord[] = [];
+
+    for (const punchID of punchIDs) {
+      const record = await getAttendanceRecordByPunchID(punchID);
+      if (!record || record.IsSynced === 'Y') {
+        // Deleted locally, or already pushed directly / matched by a pull
+        results.set(punchID, { outcome: 'synced' });
+      } else if (record.UserID !== userID) {
+        // Pushed when that user syncs
+        results.set(punchID, { outcome: 'deferred' });
+      } else {
+        toUpload.push(toAttendanceRecord(record));
+      }
     }
+
+    const uploaded = await this.uploadPunches(toUpload);
+    uploaded.forEach((result, punchID) => results.set(punchID, result));
+    return results;
   }
 
   /**
    * Push all unsynced attendance records to server (Local → Server)
-   * Processes records one by one and marks each as synced after successful upload
+   * Uploads in batches (see uploadPunches) and marks each accepted record as synced
    */
   async syncAllUnsyncedAttendance(userID: string): Promise<{ success: number; failed: number }> {
     const unsynced = await this.getUnsyncedAttendanceRecords(userID);
+    const results = await this.uploadPunches(unsynced);
     let success = 0;
-    let failed = 0;
-
-    for (const record of unsynced) {
-      const result = await this.syncAttendanceRecordToServer(record);
-      if (result) {
+    results.forEach((result) => {
+      if (result.outcome === 'synced') {
         success++;
-      } else {
-        failed++;
       }
-    }
+    });
+    const failed = unsynced.length - success;
 
     logger.debug('[AttendanceSync] Synced attendance records', { success, failed });
     return { success, failed };
@@ -189,16 +514,19 @@ class AttendanceSyncService {
    * COMPLETE FLOW:
    * 1. ✅ Check network connectivity (returns early if offline)
    * 2. ✅ Get JWT token (returns early if no token)
+   * 2b. ✅ Current month (or no month): pull through syncAttendanceChangesFromServer() and
+   *    stop there; falls through to the month pull when the feed is not started yet or fails
    * 3. ✅ Build API URL (with optional month filter: ?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD)
    * 4. ✅ Fetch data from server API: GET /api/attendance/days
    * 5. ✅ Call mergeAttendanceData() which:
    *    - Gets all local records from DB
-   *    - Compares each server record with local (by timestamp - primary key)
+   *    - Compares each server record with local (by PunchID, falling back to timestamp)
    *    - Updates DB:
-   *      • If local record exists with same timestamp: Mark as synced (IsSynced='Y') but KEEP local data
+   *      • If the matching local record exists: Mark as synced (IsSynced='Y') but KEEP local data
    *      • If server record doesn't exist locally: Insert it as new record (IsSynced='Y')
    *      • If local record doesn't exist on server: Preserve it (never deleted)
    *    - Calls getAttendanceData() to refresh Redux state
+   * 5b. ✅ Current month: start the change feed (updatedSince watermark) if not started
    * 6. ✅ UI automatically updates (via Redux selectors)
    * 
  * CALLED BY:
@@ -218,6 +546,14 @@ class AttendanceSyncService {
         return;
       }
 
+      // The current month is kept up to date through the change feed;
+      // month windows are only fetched for cold history or to start the feed
+      const isCurrentMonth = !month || month.isSame(moment(), 'month');
+      if (isCurrentMonth && (await this.syncAttendanceChangesFromServer(userID))) {
+        return;
+      }
+      const fetchStartedAt = Date.now();
+
       // Build API URL with optional month parameter
       let url = `/api/attendance/days`;
       if (month) {
@@ -252,6 +588,10 @@ class AttendanceSyncService {
       // If server has different records, keep both
       // Never overwrite local records that don't exist on server
       await this.mergeAttendanceData(userID, serverData);
+
+      if (isCurrentMonth) {
+        await this.startChangeFeed(userID, fetchStartedAt);
+      }
     } catch (error: any) {
       logger.error('syncAttendanceFromServer error - using DB data', error);
       // CRITICAL: Even if server sync fails, load from DB (offline-first)
@@ -265,19 +605,117 @@ class AttendanceSyncService {
     }
   }
 
+  /**
+   * Pull only the punches that changed since the stored cursor / updatedSince watermark
+   * Server edits (e.g. approved corrections) overwrite synced local punches and server
+   * deletions remove them; unsynced local punches are never touched
+   *
+   * @returns false when the feed cannot be used (never started, cursor expired, endpoint
+   *   missing, request failed) - the caller falls back to a month window pull
+   */
+  async syncAttendanceChangesFromServer(userID: string): Promise<boolean> {
+    if (this.changeFeedUnsupported) {
+      return false;
+    }
+    const position = await syncCursorService.getCursor(userID, 'attendance');
+    if (!position) {
+      return false;
+    }
+
+    let { cursor, updatedSince } = position;
+    try {
+      for (let page = 0; page < CHANGE_FEED_MAX_PAGES; page++) {
+        const requestStartedAt = Date.now();
+        const query = cursor
+          ? `cursor=${encodeURIComponent(cursor)}`
+          : `updatedSince=${updatedSince}`;
+        const response = await apiClient.get(`${ATTENDANCE_CHANGES_ENDPOINT}?${query}`, {
+          timeout: 30000,
+        });
+        const data = response.data?.data || response.data || {};
+        const records: any[] = Array.isArray(data.records) ? data.records : [];
+        const deleted: any[] = Array.isArray(data.deleted) ? data.deleted : [];
+
+        const result = await applyServerAttendanceChanges(
+          userID,
+          records.map((record) => toLocalPunch(record, userID)),
+          deleted.map(toDeletedPunch),
+        );
+        logger.debug(`[AttendanceSync] Applied change feed page ${page + 1}`, {
+          userID,
+          ...result,
+          hasMore: !!data.hasMore,
+        });
+
+        // Servers that do not hand out cursors are followed by watermark
+        if (data.cursor) {
+          cursor = data.cursor;
+          updatedSince = null;
+        } else {
+          cursor = null;
+          updatedSince = requestStartedAt - CHANGE_FEED_SKEW_MS;
+        }
+        await syncCursorService.setCursor(userID, 'attendance', { cursor, updatedSince });
+
+        if (!data.hasMore) {
+          return true;
+        }
+      }
+      logger.debug('[AttendanceSync] Change feed page limit reached, continuing on next pull', { userID });
+      return true;
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 410) {
+        // Cursor expired on the server - start over from a month pull
+        logger.warn('[AttendanceSync] Attendance change cursor expired', error, { userID });
+        await syncCursorService.clearCursor(userID, 'attendance');
+      } else if (status === 404 || status === 405 || status === 501) {
+        logger.warn('[AttendanceSync] Change feed not available, pulling month windows', error);
+        this.changeFeedUnsupported = true;
+      } else {
+        logger.error('[AttendanceSync] Change feed pull error', error, undefined, { userID });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Start following the change feed after a full month pull, unless already following it
+   * The watermark is taken before the month request so nothing committed during it is missed
+   */
+  private async startChangeFeed(userID: string, fetchStartedAt: number): Promise<void> {
+    if (this.changeFeedUnsupported) {
+      return;
+    }
+    const position = await syncCursorService.getCursor(userID, 'attendance');
+    if (!position) {
+      await syncCursorService.setCursor(userID, 'attendance', {
+        cursor: null,
+        updatedSince: fetchStartedAt - CHANGE_FEED_SKEW_MS,
+      });
+    }
+  }
+
   /**
    * Merge server attendance data with local data
    * 
-   * CRITICAL: This function NEVER overwrites local records. It preserves ALL local records.
+   * CRITICAL: This function NEVER overwrites local data. It preserves ALL local records.
+   * The only exception are server-authoritative fields (SERVER_AUTHORITATIVE_ATTENDANCE_FIELDS:
+   * approval / correction state), which always take the server value - see
+   * reconcileServerAttendanceRecord(). Every overwritten value is written to the conflict log.
    * 
    * Strategy:
-   * 1. Check records individually by timestamp (primary key in DB - each timestamp is unique)
-   * 2. If local record exists with same timestamp as server:
+   * 1. Match records individually by PunchID (client-generated UUID echoed by the server).
+   *    Server records without a PunchID (created before it existed) fall back to the timestamp,
+   *    which is unique per user.
+   * 2. If a matching local record exists:
    *    - Mark local record as synced (IsSynced='Y') but KEEP the local data
    *    - Local location data and other fields are preserved, not overwritten
+   *    - Server-authoritative fields (ApprovalRequired, AttendanceStatus, CorrectedCheckoutTime, ...)
+   *      are overwritten, so approved corrections stop showing PENDING_APPROVAL
    * 3. If server record doesn't exist locally:
    *    - Insert the server record as a new record
-   * 4. Local records with timestamps NOT present on server:
+   * 4. Local records NOT present on server:
    *    - Are automatically preserved (never deleted or modified)
    * 
    * Examples:
@@ -286,7 +724,7 @@ class AttendanceSyncService {
    * 
    * - Server has 2 check-in + 1 checkout for today, Local has 2 check-in + 2 checkout
    *   -> Result: All 4 local records preserved + server's 3 records inserted (if timestamps differ)
-   *   -> If timestamps match: Local records marked as synced, no duplicates created
+   *   -> If records match: Local records marked as synced, no duplicates created
    * 
    * - If today's checkout exists locally but not on server, it is NEVER overwritten
    */
@@ -296,21 +734,24 @@ class AttendanceSyncService {
       // This ensures we never overwrite any local record
       const allLocalRecords = await getAllAttendanceRecords(userID);
       
-      // Create a map of local records by timestamp (primary key) for O(1) lookup
-      // Since timestamp is the primary key, each timestamp can only have one record
-      // This map ensures we can quickly check if a local record exists for any server timestamp
-      const localRecordsMap = new Map<number, any>();
+      // Index local records by PunchID and by timestamp (unique per user) for O(1) lookup
+      const localRecordsByPunchId = new Map<string, any>();
+      const localRecordsByTimestamp = new Map<number, any>();
       for (const record of allLocalRecords) {
         const timestamp = typeof record.Timestamp === 'string' 
           ? parseInt(record.Timestamp, 10) 
           : record.Timestamp;
-        localRecordsMap.set(timestamp, record);
+        localRecordsByPunchId.set(record.PunchID, record);
+        localRecordsByTimestamp.set(timestamp, record);
       }
+      const findLocalRecord = (punchId: string | undefined, timestamp: number) =>
+        (punchId && localRecordsByPunchId.get(punchId)) || localRecordsByTimestamp.get(timestamp);
 
-      // Track server record timestamps to calculate preserved records
-      const serverRecordKeys = new Set<number>();
+      // Track matched local records to calculate preserved records
+      const matchedLocalPunchIds = new Set<string>();
       let insertedCount = 0;
       let syncedCount = 0;
+      let reconciledCount = 0;
       let totalServerRecords = 0;
 
       // Process each day's records from server
@@ -321,24 +762,23 @@ class AttendanceSyncService {
             // Convert API timestamp (datetime string or ticks) to UTC ticks for storage
             const serverTimestampRaw = serverRecord.Timestamp || serverRecord.timestamp;
             const serverTimestamp = apiTimestampToTicks(serverTimestampRaw);
-            serverRecordKeys.add(serverTimestamp);
+            const serverPunchId: string | undefined = serverRecord.PunchID || serverRecord.punchId || undefined;
             
-            // Convert CreatedOn if present
-            const serverCreatedOn = serverRecord.CreatedOn || serverRecord.createdOn;
-            const createdOnTicks = serverCreatedOn ? apiTimestampToTicks(serverCreatedOn) : serverTimestamp;
-
-            // Check if local has a record with this EXACT timestamp
-            // This is the critical check - we compare by timestamp (primary key)
-            const localRecord = localRecordsMap.get(serverTimestamp);
+            // Check if local has this punch - the critical check that prevents duplicates
+            const localRecord = findLocalRecord(serverPunchId, serverTimestamp);
             
             if (localRecord) {
+              matchedLocalPunchIds.add(localRecord.PunchID);
               // Local record exists with same timestamp - mark it as synced but KEEP local data
               // This preserves local location data, address, and other fields that might differ from server
-              // We NEVER overwrite the local record, only update the IsSynced flag
+              // Only server-authoritative fields (approval / correction state) are taken from the server
+              if (await reconcileServerAttendanceRecord(localRecord.PunchID, toLocalPunch(serverRecord, userID, day))) {
+                reconciledCount++;
+              }
               if (localRecord.IsSynced !== 'Y') {
-                await markAttendanceRecordAsSynced(serverTimestamp, serverTimestamp);
+                await markAttendanceRecordAsSynced(localRecord.PunchID, serverTimestamp);
                 syncedCount++;
-                logger.debug(`[AttendanceSync] Marked local record as synced (preserved): ${serverTimestamp}, direction: ${localRecord.PunchDirection}`);
+                logger.debug(`[AttendanceSync] Marked local record as synced (preserved): ${localRecord.PunchID}, direction: ${localRecord.PunchDirection}`);
               }
             } else {
               // Server has a record that doesn't exist locally - insert it as a new record
@@ -346,37 +786,7 @@ class AttendanceSyncService {
               try {
                 logger.debug(`[AttendanceSync] Attempting to insert server record: ${serverTimestamp}, direction: ${serverRecord.PunchDirection || serverRecord.punchDirection}`);
                 
-                // Extract shift times from day-level object (shiftStart, shiftEnd, minimumHours)
-                // Only store shift times for IN records (same as CheckInScreen logic)
-                const punchDirection = serverRecord.PunchDirection || serverRecord.punchDirection || 'IN';
-                const isInRecord = punchDirection === 'IN';
-                
-                await insertAttendancePunchRecord({
-                  timestamp: serverTimestamp,
-                  orgID: serverRecord.OrgID || serverRecord.orgID || '',
-                  userID: userID,
-                  punchType: serverRecord.PunchType || serverRecord.punchType || '',
-                  punchDirection: punchDirection,
-                  latLon: serverRecord.LatLon || serverRecord.latLon || '',
-                  address: serverRecord.Address || serverRecord.address || '',
-                  createdOn: createdOnTicks,
-                  isSynced: 'Y', // Server record is already synced
-                  dateOfPunch: serverRecord.DateOfPunch || serverRecord.dateOfPunch || day.dateOfPunch,
-                  attendanceStatus: serverRecord.AttendanceStatus || serverRecord.attendanceStatus,
-                  moduleID: serverRecord.ModuleID || serverRecord.moduleID,
-                  tripType: serverRecord.TripType || serverRecord.tripType,
-                  passengerID: serverRecord.PassengerID || serverRecord.passengerID,
-                  allowanceData: serverRecord.AllowanceData || serverRecord.allowanceData,
-                  isCheckoutQrScan: serverRecord.IsCheckoutQrScan || serverRecord.isCheckoutQrScan || 0,
-                  travelerName: serverRecord.TravelerName || serverRecord.travelerName,
-                  phoneNumber: serverRecord.PhoneNumber || serverRecord.phoneNumber,
-                  // Extract shift times from day-level object (only for IN records)
-                  shiftStartTime: isInRecord ? (day.shiftStart || day.ShiftStartTime) : undefined,
-                  shiftEndTime: isInRecord ? (day.shiftEnd || day.ShiftEndTime) : undefined,
-                  minimumHoursRequired: isInRecord ? (day.minimumHours || day.MinimumHoursRequired) : undefined,
-                  // Extract LinkedEntryDate from day-level object if present
-                  LinkedEntryDate: day.linkedEntryDate || day.LinkedEntryDate || serverRecord.LinkedEntryDate || serverRecord.linkedEntryDate,
-                });
+                await insertAttendancePunchRecord(toLocalPunch(serverRecord, userID, day));
                 insertedCount++;
                 logger.debug(`[AttendanceSync] Successfully inserted server record: ${serverTimestamp}, direction: ${serverRecord.PunchDirection || serverRecord.punchDirection}, total inserted: ${insertedCount}`);
               } catch (insertError: any) {
@@ -385,9 +795,9 @@ class AttendanceSyncService {
                 if (insertError?.code === 19 || insertError?.message?.includes('UNIQUE constraint') || insertError?.message?.includes('already exists') || insertError?.message?.includes('PRIMARY KEY')) {
                   logger.debug(`[AttendanceSync] Server record already exists locally (race condition): ${serverTimestamp}`);
                   // Try to mark as synced if it exists
-                  const existingRecord = localRecordsMap.get(serverTimestamp);
+                  const existingRecord = findLocalRecord(serverPunchId, serverTimestamp);
                   if (existingRecord && existingRecord.IsSynced !== 'Y') {
-                    await markAttendanceRecordAsSynced(serverTimestamp, serverTimestamp);
+                    await markAttendanceRecordAsSynced(existingRecord.PunchID, serverTimestamp);
                     syncedCount++;
                   }
                 } else {
@@ -409,11 +819,11 @@ class AttendanceSyncService {
 
       // Calculate preserved records (local records not present in server data)
       // These are records that exist locally but not on server - they are NEVER deleted or modified
-      const preservedCount = allLocalRecords.length - Array.from(serverRecordKeys).filter(key => localRecordsMap.has(key)).length;
+      const preservedCount = allLocalRecords.length - matchedLocalPunchIds.size;
 
       // Local records not present on server are automatically preserved (never deleted or overwritten)
       // This ensures local data (like additional checkouts, location data) that's not on server is kept
-      logger.debug(`[AttendanceSync] Merge complete: Processed=${totalServerRecords} server records, Inserted=${insertedCount} new records, Synced=${syncedCount} local records, Preserved=${preservedCount} local-only records, Total local before=${allLocalRecords.length}`);
+      logger.debug(`[AttendanceSync] Merge complete: Processed=${totalServerRecords} server records, Inserted=${insertedCount} new records, Synced=${syncedCount} local records, Reconciled=${reconciledCount} server-authoritative updates, Preserved=${preservedCount} local-only records, Total local before=${allLocalRecords.length}`);
       
       // Refresh attendance data to update Redux after sync
       // This ensures UI shows the merged data (server + local records)
@@ -1,5 +1,8 @@
 export * from './retry-service';
 export * from './sync-queue-service';
+export * from './sync-queue-processor';
+export * from './sync-cursor-service';
+export * from './sync-conflict-service';
 export * from './profile-sync-service';
 export * from './attendance-sync-service';
 export * from './settings-sync-service';
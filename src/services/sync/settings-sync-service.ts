@@ -1,6 +1,5 @@
-import SQLite from 'react-native-sqlite-storage';
 import { logger } from '../logger';
-import { getDB } from '../attendance/attendance-db-service';
+import { execute, query, queryFirst, transaction } from '../database/sql-client';
 import { syncQueueService } from './sync-queue-service';
 import { networkService } from '../network/network-service';
 
@@ -21,6 +20,19 @@ export interface SettingSyncStatus {
   serverLastUpdatedAt: number | null;
 }
 
+/**
+ * Row as stored in the settings table
+ */
+export interface SettingRow {
+  key: string;
+  value: string;
+  isSynced: number;
+  lastUpdatedAt: number | null;
+  server_lastUpdatedAt: number | null;
+  createdAt: number | null;
+  updatedAt: number | null;
+}
+
 /**
  * Settings Sync Service
  * Handles syncing user preferences with per-key sync tracking
@@ -30,68 +42,37 @@ class SettingsSyncService {
    * Save setting to SQLite and mark as unsynced
    */
   async saveSetting(key: string, value: any): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          const now = Date.now();
-          const valueString = typeof value === 'string' ? value : JSON.stringify(value);
+    const now = Date.now();
+    const valueString = typeof value === 'string' ? value : JSON.stringify(value);
 
-          // Check if setting exists
-          tx.executeSql(
-            `SELECT key FROM settings WHERE key = ?`,
-            [key],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              if (result.rows.length === 0) {
-                // Insert new setting
-                tx.executeSql(
-                  `INSERT INTO settings (key, value, isSynced, lastUpdatedAt, createdAt, updatedAt)
-                    VALUES (?, ?, 0, ?, ?, ?)`,
-                  [key, valueString, now, now, now],
-                  () => {
-                    logger.debug(`[SettingsSync] Saved new setting: ${key}`);
-                    this.queueForSync(key, value, now);
-                    resolve();
-                  },
-                  (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-                    logger.error('Insert setting error', error);
-                    reject(error);
-                  },
-                );
-              } else {
-                // Update existing setting
-                tx.executeSql(
-                  `UPDATE settings 
-                    SET value = ?, 
-                        isSynced = 0, 
-                        lastUpdatedAt = ?,
-                        updatedAt = ?
-                    WHERE key = ?`,
-                  [valueString, now, now, key],
-                  () => {
-                    logger.debug(`[SettingsSync] Updated setting: ${key}`);
-                    this.queueForSync(key, value, now);
-                    resolve();
-                  },
-                  (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-                    logger.error('Update setting error', error);
-                    reject(error);
-                  },
-                );
-              }
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Check setting exists error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Save setting transaction error', error);
-          reject(error);
-        },
+    const inserted = await transaction(async (tx) => {
+      const existing = await tx.queryFirst<Pick<SettingRow, 'key'>>(
+        `SELECT key FROM settings WHERE key = ?`,
+        [key],
       );
+      if (!existing) {
+        await tx.execute(
+          `INSERT INTO settings (key, value, isSynced, lastUpdatedAt, createdAt, updatedAt)
+            VALUES (?, ?, 0, ?, ?, ?)`,
+          [key, valueString, now, now, now],
+        );
+        return true;
+      }
+
+      await tx.execute(
+        `UPDATE settings 
+          SET value = ?, 
+              isSynced = 0, 
+              lastUpdatedAt = ?,
+              updatedAt = ?
+          WHERE key = ?`,
+        [valueString, now, now, key],
+      );
+      return false;
     });
+
+    logger.debug(`[SettingsSync] ${inserted ? 'Saved new' : 'Updated'} setting: ${key}`);
+    this.queueForSync(key, value, now);
   }
 
   /**
@@ -116,37 +97,12 @@ class SettingsSyncService {
    * Get all unsynced settings
    */
   async getUnsyncedSettings(): Promise<UnsyncedSetting[]> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `SELECT * FROM settings WHERE isSynced = 0`,
-            [],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              const unsynced: UnsyncedSetting[] = [];
-              for (let i = 0; i < result.rows.length; i++) {
-                const row = result.rows.item(i);
-                unsynced.push({
-                  key: row.key,
-                  value: this.safeParseJSON(row.value),
-                  lastUpdatedAt: row.lastUpdatedAt || Date.now(),
-                });
-              }
-              resolve(unsynced);
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get unsynced settings error', error);
-              reject(error);
-            },
-          );
-        },
-          (error: SQLite.SQLError) => {
-            logger.error('Get unsynced settings transaction error', error);
-            reject(error);
-          },
-      );
-    });
+    const rows = await query<SettingRow>(`SELECT * FROM settings WHERE isSynced = 0`);
+    return rows.map((row) => ({
+      key: row.key,
+      value: this.safeParseJSON(row.value),
+      lastUpdatedAt: row.lastUpdatedAt || Date.now(),
+    }));
   }
 
   /**
@@ -220,176 +176,84 @@ class SettingsSyncService {
    * Merge server settings with local settings using timestamp-based conflict resolution
    */
   private async mergeSettingsData(serverSettings: Record<string, any>): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          const now = Date.now();
+    const now = Date.now();
 
-          Object.entries(serverSettings).forEach(([key, serverValue]) => {
-            // Get local setting
-            tx.executeSql(
-              `SELECT * FROM settings WHERE key = ?`,
-              [key],
-              (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-                const valueString = typeof serverValue === 'string' ? serverValue : JSON.stringify(serverValue);
+    await transaction(async (tx) => {
+      for (const [key, serverValue] of Object.entries(serverSettings)) {
+        const valueString = typeof serverValue === 'string' ? serverValue : JSON.stringify(serverValue);
+        const row = await tx.queryFirst<SettingRow>(`SELECT * FROM settings WHERE key = ?`, [key]);
 
-                if (result.rows.length === 0) {
-                  // Insert new setting from server
-                  tx.executeSql(
-                    `INSERT INTO settings (key, value, isSynced, lastUpdatedAt, server_lastUpdatedAt, createdAt, updatedAt)
-                      VALUES (?, ?, 1, ?, ?, ?, ?)`,
-                    [key, valueString, now, now, now, now],
-                     () => logger.debug(`[SettingsSync] Inserted setting from server: ${key}`),
-                    (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-                      logger.error(`Error inserting setting ${key}`, error),
-                  );
-                } else {
-                  const row = result.rows.item(0);
-                  const localLastUpdatedAt = row.lastUpdatedAt;
-                  const localSynced = row.isSynced;
+        if (!row) {
+          // Insert new setting from server
+          await tx.execute(
+            `INSERT INTO settings (key, value, isSynced, lastUpdatedAt, server_lastUpdatedAt, createdAt, updatedAt)
+              VALUES (?, ?, 1, ?, ?, ?, ?)`,
+            [key, valueString, now, now, now, now],
+          );
+          logger.debug(`[SettingsSync] Inserted setting from server: ${key}`);
+          continue;
+        }
 
-                  // If local is unsynced, keep local (will be pushed later)
-                  if (localSynced === 0 && localLastUpdatedAt) {
-                    return;
-                  }
+        // If local is unsynced, keep local (will be pushed later)
+        if (row.isSynced === 0 && row.lastUpdatedAt) {
+          continue;
+        }
 
-                  // Server is newer or local doesn't exist - update from server
-                  tx.executeSql(
-                    `UPDATE settings 
-                      SET value = ?, 
-                          isSynced = 1, 
-                          lastUpdatedAt = ?,
-                          server_lastUpdatedAt = ?,
-                          updatedAt = ?
-                      WHERE key = ?`,
-                    [valueString, now, now, now, key],
-                     () => logger.debug(`[SettingsSync] Updated setting from server: ${key}`),
-                      (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-                        logger.error(`Error updating setting ${key}`, error),
-                  );
-                }
-              },
-                (_tx: SQLite.Transaction, error: SQLite.SQLError) =>
-                  logger.error(`Error getting setting ${key}`, error),
-            );
-          });
-        },
-          (error: SQLite.SQLError) => {
-            logger.error('Merge settings transaction error', error);
-            reject(error);
-          },
-        () => {
-          logger.debug('Merged settings from server');
-          resolve();
-        },
-      );
+        // Server is newer or local doesn't exist - update from server
+        await tx.execute(
+          `UPDATE settings 
+            SET value = ?, 
+                isSynced = 1, 
+                lastUpdatedAt = ?,
+                server_lastUpdatedAt = ?,
+                updatedAt = ?
+            WHERE key = ?`,
+          [valueString, now, now, now, key],
+        );
+        logger.debug(`[SettingsSync] Updated setting from server: ${key}`);
+      }
     });
+
+    logger.debug('Merged settings from server');
   }
 
   /**
    * Mark setting as synced
    */
   async markSettingAsSynced(key: string): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `UPDATE settings 
-              SET isSynced = 1,
-                  updatedAt = ?
-              WHERE key = ?`,
-            [Date.now(), key],
-            () => {
-               logger.debug(`[SettingsSync] Marked ${key} as synced`);
-              resolve();
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Mark setting as synced error', error);
-              reject(error);
-            },
-          );
-        },
-          (error: SQLite.SQLError) => {
-            logger.error('Mark setting as synced transaction error', error);
-            reject(error);
-          },
-      );
-    });
+    await execute(
+      `UPDATE settings 
+        SET isSynced = 1,
+            updatedAt = ?
+        WHERE key = ?`,
+      [Date.now(), key],
+    );
+    logger.debug(`[SettingsSync] Marked ${key} as synced`);
   }
 
   /**
    * Get sync status for all settings
    */
   async getSettingsSyncStatus(): Promise<SettingSyncStatus[]> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `SELECT * FROM settings`,
-            [],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              const statuses: SettingSyncStatus[] = [];
-              for (let i = 0; i < result.rows.length; i++) {
-                const row = result.rows.item(i);
-                statuses.push({
-                  key: row.key,
-                  value: this.safeParseJSON(row.value),
-                  isSynced: row.isSynced === 1,
-                  lastUpdatedAt: row.lastUpdatedAt || null,
-                  serverLastUpdatedAt: row.server_lastUpdatedAt || null,
-                });
-              }
-              resolve(statuses);
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get settings sync status error', error);
-              reject(error);
-            },
-          );
-        },
-          (error: SQLite.SQLError) => {
-            logger.error('Get settings sync status transaction error', error);
-            reject(error);
-          },
-      );
-    });
+    const rows = await query<SettingRow>(`SELECT * FROM settings`);
+    return rows.map((row) => ({
+      key: row.key,
+      value: this.safeParseJSON(row.value),
+      isSynced: row.isSynced === 1,
+      lastUpdatedAt: row.lastUpdatedAt || null,
+      serverLastUpdatedAt: row.server_lastUpdatedAt || null,
+    }));
   }
 
   /**
    * Load setting from database
    */
   async loadSettingFromDB(key: string): Promise<any> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `SELECT value FROM settings WHERE key = ?`,
-            [key],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              if (result.rows.length === 0) {
-                resolve(null);
-                return;
-              }
-
-              const value = this.safeParseJSON(result.rows.item(0).value);
-              resolve(value);
-            },
-              (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-                logger.error('Load setting from DB error', error);
-                reject(error);
-              },
-          );
-        },
-          (error: SQLite.SQLError) => {
-            logger.error('Load setting from DB transaction error', error);
-            reject(error);
-          },
-      );
-    });
+    const row = await queryFirst<Pick<SettingRow, 'value'>>(
+      `SELECT value FROM settings WHERE key = ?`,
+      [key],
+    );
+    return row ? this.safeParseJSON(row.value) : null;
   }
 
   /**
@@ -0,0 +1,82 @@
+import { logger } from '../logger';
+import { execute, query, type SqlExecutor, type SqlParam } from '../database/sql-client';
+
+const MAX_CONFLICTS = 500; // Oldest entries are pruned beyond this
+
+/**
+ * How a field conflict was resolved
+ * - server_wins: Server value overwrote the local one (server-authoritative field or server edit)
+ * - local_kept: Local value was kept (unsynced local change, pushed later)
+ */
+export type SyncConflictResolution = 'server_wins' | 'local_kept';
+
+export interface SyncConflict {
+  id: number;
+  entityType: 'attendance';
+  entityId: string; // PunchID for attendance
+  field: string;
+  localValue: string | null;
+  serverValue: string | null;
+  resolution: SyncConflictResolution;
+  createdAt: number;
+}
+
+export type NewSyncConflict = Omit<SyncConflict, 'id' | 'createdAt'>;
+
+const toStoredValue = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value);
+
+/**
+ * Sync Conflict Service
+ * Log of field-level conflicts found while merging server data (sync_conflicts table)
+ */
+class SyncConflictService {
+  /**
+   * Record conflicts
+   * Pass tx to record them in the same transaction as the merge that resolved them
+   */
+  async recordConflicts(conflicts: NewSyncConflict[], tx?: SqlExecutor): Promise<void> {
+    if (conflicts.length === 0) {
+      return;
+    }
+    const run = tx ? tx.execute : execute;
+    const createdAt = Date.now();
+    for (const conflict of conflicts) {
+      const params: SqlParam[] = [
+        conflict.entityType,
+        conflict.entityId,
+        conflict.field,
+        toStoredValue(conflict.localValue),
+        toStoredValue(conflict.serverValue),
+        conflict.resolution,
+        createdAt,
+      ];
+      await run(
+        `INSERT INTO sync_conflicts (entityType, entityId, field, localValue, serverValue, resolution, createdAt)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        params,
+      );
+    }
+    await run(
+      `DELETE FROM sync_conflicts WHERE id <= (SELECT MAX(id) FROM sync_conflicts) - ?`,
+      [MAX_CONFLICTS],
+    );
+    logger.debug('[SyncConflict] Recorded conflicts', {
+      count: conflicts.length,
+      entityIds: [...new Set(conflicts.map((conflict) => conflict.entityId))],
+    });
+  }
+
+  /**
+   * Get logged conflicts, newest first
+   */
+  async getConflicts(limit: number = 100): Promise<SyncConflict[]> {
+    return query<SyncConflict>(`SELECT * FROM sync_conflicts ORDER BY id DESC LIMIT ?`, [limit]);
+  }
+
+  async clearConflicts(): Promise<void> {
+    await execute(`DELETE FROM sync_conflicts`);
+  }
+}
+
+export const syncConflictService = new SyncConflictService();
@@ -1,9 +1,17 @@
+import moment from 'moment';
 import { networkService } from '../network/network-service';
 import { profileSyncService } from './profile-sync-service';
 import { attendanceSyncService } from './attendance-sync-service';
 import { settingsSyncService } from './settings-sync-service';
-import { syncQueueService } from './sync-queue-service';
-import { retryService } from './retry-service';
+import { syncQueueProcessor } from './sync-queue-processor';
+import { correctionService } from '../attendance/correction-service';
+import { teamApprovalService } from '../attendance/team-approval-service';
+import { teamRosterService } from '../team/team-roster-service';
+import { calendarService } from '../attendance/calendar-service';
+import { leaveService } from '../attendance/leave-service';
+import { shiftNotificationService } from '../notifications/shift-notification-service';
+import { hasManagerRole } from '../../utils/role-utils';
+import { store } from '../../redux';
 import { logger } from '../logger';
 
 // Removed DEBUG log helper - use logger.debug() directly
@@ -18,7 +26,7 @@ export interface SyncResult {
 
 /**
  * Sync Coordinator
- * Orchestrates push-first (only unsynced items), then pull sync strategy
+ * Orchestrates push-first (drains the sync queue), then pull sync strategy
  * with timestamp-based conflict resolution
  */
 class SyncCoordinator {
@@ -70,7 +78,7 @@ class SyncCoordinator {
   }
 
   /**
-   * Push only: Sync all unsynced items to server
+   * Push only: Drain the sync queue to server
    */
   async syncPushOnly(email: string, userID: string): Promise<SyncResult> {
     const result: SyncResult = {
@@ -91,31 +99,14 @@ class SyncCoordinator {
         return result;
       }
 
-      // Push unsynced profile properties
-      try {
-        result.profile = await profileSyncService.syncAllUnsyncedProperties(email);
-        logger.debug('[SyncCoordinator] Profile sync', { succeeded: result.profile.success, failed: result.profile.failed });
-      } catch (error: any) {
-        result.errors.push(`Profile sync error: ${error.message}`);
-        result.success = false;
-      }
-
-      // Push unsynced attendance records
-      try {
-        result.attendance = await attendanceSyncService.syncAllUnsyncedAttendance(userID);
-        logger.debug('[SyncCoordinator] Attendance sync', { succeeded: result.attendance.success, failed: result.attendance.failed });
-      } catch (error: any) {
-        result.errors.push(`Attendance sync error: ${error.message}`);
-        result.success = false;
-      }
-
-      // Push unsynced settings
-      try {
-        result.settings = await settingsSyncService.syncAllUnsyncedSettings();
-        logger.debug('[SyncCoordinator] Settings sync', { succeeded: result.settings.success, failed: result.settings.failed });
-      } catch (error: any) {
-        result.errors.push(`Settings sync error: ${error.message}`);
-        result.success = false;
+      // Push queued operations (profile properties, attendance punches, settings)
+      const queueResult = await syncQueueProcessor.processQueue(email);
+      result.profile = queueResult.profile;
+      result.attendance = queueResult.attendance;
+      result.settings = queueResult.settings;
+      logger.debug('[SyncCoordinator] Sync queue processed', { queueResult });
+      if (queueResult.deadLettered > 0) {
+        result.errors.push(`${queueResult.deadLettered} item(s) failed permanently and were moved to dead letter`);
       }
 
       return result;
@@ -155,6 +146,29 @@ class SyncCoordinator {
         logger.error('syncPullOnly - attendance error', error, undefined, { userID });
       }
 
+      // Pull correction request decisions (approved / rejected with comment)
+      await correctionService.refreshMyRequests(email);
+      logger.debug('[SyncCoordinator] Correction requests pulled from server');
+
+      // Pull the manager's approval inbox
+      if (hasManagerRole(store.getState().userState?.userData?.roles)) {
+        await teamApprovalService.refreshInbox(email);
+        logger.debug('[SyncCoordinator] Approval inbox pulled from server');
+      }
+
+      // Pull the team roster with colleagues' last punches
+      await teamRosterService.refreshRoster(email);
+      logger.debug('[SyncCoordinator] Team roster pulled from server');
+
+      // Pull this month's holidays, weekly offs and leaves
+      await calendarService.refreshMonthCalendar(email, moment.utc());
+      logger.debug('[SyncCoordinator] Attendance calendar pulled from server');
+
+      // Pull leave decisions and balances
+      await leaveService.refreshMyLeaves(email);
+      await leaveService.refreshBalances(email);
+      logger.debug('[SyncCoordinator] Leaves pulled from server');
+
       // Pull settings from server
       try {
         await settingsSyncService.syncSettingsFromServer();
@@ -162,6 +176,10 @@ class SyncCoordinator {
       } catch (error: any) {
         logger.error('syncPullOnly - settings error', error);
       }
+
+      // Shift reminders follow the pulled shift roster, leaves and reminder preference
+      const { userData, userLastAttendance } = store.getState().userState;
+      await shiftNotificationService.reschedule(userData, userLastAttendance);
     } catch (error: any) {
       logger.error('syncPullOnly error', error, undefined, { email, userID });
     }
@@ -170,52 +188,9 @@ class SyncCoordinator {
   /**
    * Process sync queue (retry failed items)
    */
-  async processSyncQueue(): Promise<void> {
+  async processSyncQueue(email: string): Promise<void> {
     try {
-      const isOnline = await networkService.isConnected();
-      if (!isOnline) {
-        logger.debug('[SyncCoordinator] Offline - cannot process queue');
-        return;
-      }
-
-      const pendingItems = await syncQueueService.getPendingItems();
-      logger.debug('[SyncCoordinator] Processing items from sync queue', { count: pendingItems.length });
-
-      for (const item of pendingItems) {
-        try {
-          // Check if should retry
-          if (!retryService.shouldRetry(item.attempts)) {
-            logger.debug('[SyncCoordinator] Max attempts reached, removing from queue', { itemId: item.id });
-            await syncQueueService.markAsSynced(item.id);
-            continue;
-          }
-
-          // Process based on type
-          let success = false;
-          if (item.type === 'profile' && item.property) {
-            success = await profileSyncService.syncProfilePropertyToServer(
-              item.entityId,
-              item.property as any,
-              item.data[item.property],
-            );
-          } else if (item.type === 'attendance') {
-            success = await attendanceSyncService.syncAttendanceRecordToServer(item.data);
-          } else if (item.type === 'settings') {
-            success = await settingsSyncService.syncSettingToServer(item.entityId, item.data[item.entityId]);
-          }
-
-          if (success) {
-            await syncQueueService.markAsSynced(item.id);
-            logger.debug('[SyncCoordinator] Successfully synced item', { itemId: item.id });
-          } else {
-            await syncQueueService.incrementAttempts(item.id);
-            logger.debug('[SyncCoordinator] Failed to sync item, will retry later', { itemId: item.id });
-          }
-        } catch (error: any) {
-          logger.error('processSyncQueue item error', error, undefined, { itemId: item.id });
-          await syncQueueService.incrementAttempts(item.id);
-        }
-      }
+      await syncQueueProcessor.processQueue(email);
     } catch (error: any) {
       logger.error('processSyncQueue error', error);
     }
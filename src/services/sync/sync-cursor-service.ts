@@ -0,0 +1,71 @@
+import { logger } from '../logger';
+import { execute, queryFirst } from '../database/sql-client';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[SyncCursor]', ...args);
+  }
+};
+
+/**
+ * Resources pulled through a server change feed
+ */
+export type SyncCursorResource = 'attendance';
+
+/**
+ * Position in a server change feed
+ * - cursor: Opaque cursor returned by the server, preferred when present
+ * - updatedSince: UTC ticks watermark, used until the server hands out a cursor
+ */
+export interface SyncCursor {
+  cursor: string | null;
+  updatedSince: number | null;
+  updatedAt: number; // When the position was last stored
+}
+
+/**
+ * Sync Cursor Service
+ * Stores the last pulled position per user and resource (sync_cursors table)
+ */
+class SyncCursorService {
+  /**
+   * Get the stored position, or null when the resource was never pulled incrementally
+   */
+  async getCursor(userID: string, resource: SyncCursorResource): Promise<SyncCursor | null> {
+    const row = await queryFirst<SyncCursor>(
+      `SELECT cursor, updatedSince, updatedAt FROM sync_cursors WHERE userID = ? AND resource = ?`,
+      [userID, resource],
+    );
+    if (!row || (row.cursor === null && row.updatedSince === null)) {
+      return null;
+    }
+    return row;
+  }
+
+  /**
+   * Store the position to continue from on the next pull
+   */
+  async setCursor(
+    userID: string,
+    resource: SyncCursorResource,
+    position: Pick<SyncCursor, 'cursor' | 'updatedSince'>,
+  ): Promise<void> {
+    await execute(
+      `INSERT OR REPLACE INTO sync_cursors (userID, resource, cursor, updatedSince, updatedAt)
+        VALUES (?, ?, ?, ?, ?)`,
+      [userID, resource, position.cursor, position.updatedSince, Date.now()],
+    );
+    log(`Stored ${resource} cursor for ${userID}`, position);
+  }
+
+  /**
+   * Forget the position (e.g. the server expired the cursor) - the next pull starts over
+   */
+  async clearCursor(userID: string, resource: SyncCursorResource): Promise<void> {
+    await execute(`DELETE FROM sync_cursors WHERE userID = ? AND resource = ?`, [userID, resource]);
+    log(`Cleared ${resource} cursor for ${userID}`);
+  }
+}
+
+export const syncCursorService = new SyncCursorService();
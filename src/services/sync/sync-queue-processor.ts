@@ -0,0 +1,238 @@
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import type { ProfileProperty } from '../database/database-service';
+import { retryService } from './retry-service';
+import {
+  syncQueueService,
+  type SyncQueueItem,
+  type SyncQueuePushResult,
+} from './sync-queue-service';
+import { profileSyncService } from './profile-sync-service';
+import { attendanceSyncService } from './attendance-sync-service';
+import { settingsSyncService } from './settings-sync-service';
+import { correctionService } from '../attendance/correction-service';
+import { teamApprovalService } from '../attendance/team-approval-service';
+import { leaveService } from '../attendance/leave-service';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[SyncQueueProcessor]', ...args);
+  }
+};
+
+export interface SyncQueueProcessResult {
+  profile: { success: number; failed: number };
+  attendance: { success: number; failed: number };
+  settings: { success: number; failed: number };
+  correction: { success: number; failed: number };
+  approval: { success: number; failed: number };
+  leave: { success: number; failed: number };
+  deadLettered: number;
+  remaining: number; // Pending items left in the queue (backing off or deferred)
+}
+
+/**
+ * Sync Queue Processor
+ * Pushes the operations persisted in sync_queue - the only source of outbound sync work
+ *
+ * - Items are taken in the order they were queued and only once nextRetryAt has passed
+ * - A failure increments attempts and backs off (retryService); once shouldRetry is
+ *   exhausted the item moves to the dead letter state instead of being retried forever
+ * - Per entity (e.g. one profile, one punch) items are pushed strictly in order: while an
+ *   earlier item is backing off, later items for the same entity wait behind it
+ * - Due attendance punches are uploaded together through the batch endpoint; punches the
+ *   server rejects go straight to dead letter with its reason
+ */
+class SyncQueueProcessor {
+  private running: Promise<SyncQueueProcessResult> | null = null;
+
+  /**
+   * Process all due queue items for the signed-in user
+   * Concurrent calls share the run in progress
+   * @param email Signed-in user - attendance and profile items of other users are left queued
+   */
+  processQueue(email: string): Promise<SyncQueueProcessResult> {
+    if (!this.running) {
+      this.running = this.run(email).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(email: string): Promise<SyncQueueProcessResult> {
+    const result: SyncQueueProcessResult = {
+      profile: { success: 0, failed: 0 },
+      attendance: { success: 0, failed: 0 },
+      settings: { success: 0, failed: 0 },
+      correction: { success: 0, failed: 0 },
+      approval: { success: 0, failed: 0 },
+      leave: { success: 0, failed: 0 },
+      deadLettered: 0,
+      remaining: 0,
+    };
+
+    const isOnline = await networkService.isConnected();
+    if (!isOnline) {
+      // Failures while offline would use up retries
+      log('Offline - not processing queue');
+      result.remaining = await syncQueueService.getQueueSize();
+      return result;
+    }
+
+    const items = await syncQueueService.getQueuedItems();
+    const blockedEntities = new Set<string>();
+    const now = Date.now();
+    log(`Processing ${items.length} queued items`);
+    const attendanceResults = await this.pushDueAttendance(items, now, email);
+
+    for (const item of items) {
+      const entityKey = `${item.type}:${item.entityId}`;
+      if (blockedEntities.has(entityKey)) {
+        result.remaining++;
+        continue;
+      }
+
+      if (!retryService.shouldRetry(item.attempts)) {
+        // Exhausted before dead lettering existed
+        await syncQueueService.moveToDeadLetter(item.id, item.lastError || 'Maximum attempts reached');
+        result.deadLettered++;
+        continue;
+      }
+
+      if (item.nextRetryAt > now) {
+        blockedEntities.add(entityKey);
+        result.remaining++;
+        continue;
+      }
+
+      let pushResult: SyncQueuePushResult;
+      try {
+        pushResult = attendanceResults.get(item.id) ?? (await this.pushItem(item, email));
+      } catch (pushError: any) {
+        logger.error('Sync queue item error', pushError, undefined, { itemId: item.id });
+        pushResult = { outcome: 'failed', error: pushError?.message };
+      }
+      const { outcome } = pushResult;
+      const error = pushResult.error || 'Push was not accepted';
+
+      if (outcome === 'deferred') {
+        blockedEntities.add(entityKey);
+        result.remaining++;
+        continue;
+      }
+
+      if (outcome === 'synced') {
+        await syncQueueService.markAsSynced(item.id);
+        result[item.type].success++;
+        continue;
+      }
+
+      result[item.type].failed++;
+      if (outcome === 'rejected') {
+        await syncQueueService.moveToDeadLetter(item.id, error);
+        result.deadLettered++;
+        continue;
+      }
+
+      const status = await syncQueueService.recordFailure(item.id, error);
+      if (status === 'dead_letter') {
+        result.deadLettered++;
+      } else {
+        blockedEntities.add(entityKey);
+        result.remaining++;
+      }
+    }
+
+    log('Queue processed', result);
+    return result;
+  }
+
+  /**
+   * Upload the first queued item of every punch that is due, in one batch run
+   * @returns Push result per queue item id
+   */
+  private async pushDueAttendance(
+    items: SyncQueueItem[],
+    now: number,
+    email: string,
+  ): Promise<Map<string, SyncQueuePushResult>> {
+    const seenPunches = new Set<string>();
+    const due: SyncQueueItem[] = [];
+    items
+      .filter((item) => item.type === 'attendance')
+      .forEach((item) => {
+        if (seenPunches.has(item.entityId)) {
+          return; // Waits for the earlier item of the same punch
+        }
+        seenPunches.add(item.entityId);
+        if (item.nextRetryAt <= now && retryService.shouldRetry(item.attempts)) {
+          due.push(item);
+        }
+      });
+
+    if (due.length === 0) {
+      return new Map();
+    }
+
+    let resultsByPunch: Map<string, SyncQueuePushResult>;
+    try {
+      resultsByPunch = await attendanceSyncService.syncQueuedPunchesToServer(
+        due.map((item) => item.entityId),
+        email,
+      );
+    } catch (error: any) {
+      logger.error('Sync queue attendance upload error', error, undefined, { count: due.length });
+      resultsByPunch = new Map(due.map((item) => [item.entityId, { outcome: 'failed', error: error?.message }]));
+    }
+
+    return new Map(
+      due.map((item): [string, SyncQueuePushResult] => [
+        item.id,
+        resultsByPunch.get(item.entityId) ?? { outcome: 'failed', error: 'No upload result' },
+      ]),
+    );
+  }
+
+  private async pushItem(item: SyncQueueItem, email: string): Promise<SyncQueuePushResult> {
+    switch (item.type) {
+      case 'attendance': {
+        const results = await attendanceSyncService.syncQueuedPunchesToServer([item.entityId], email);
+        return results.get(item.entityId) ?? { outcome: 'failed', error: 'No upload result' };
+      }
+      case 'profile': {
+        if (item.entityId !== email) {
+          return { outcome: 'deferred' };
+        }
+        if (!item.property) {
+          throw new Error('Profile queue item has no property');
+        }
+        const property = item.property as ProfileProperty;
+        const pushed = await profileSyncService.syncProfilePropertyToServer(
+          item.entityId,
+          property,
+          item.data?.[property],
+        );
+        return { outcome: pushed ? 'synced' : 'failed' };
+      }
+      case 'settings': {
+        const pushed = await settingsSyncService.syncSettingToServer(
+          item.entityId,
+          item.data?.[item.entityId],
+        );
+        return { outcome: pushed ? 'synced' : 'failed' };
+      }
+      case 'correction':
+        return correctionService.pushQueuedRequest(item, email);
+      case 'approval':
+        return teamApprovalService.pushQueuedDecision(item, email);
+      case 'leave':
+        return leaveService.pushQueuedLeave(item, email);
+      default:
+        throw new Error(`Unknown sync queue item type: ${item.type}`);
+    }
+  }
+}
+
+export const syncQueueProcessor = new SyncQueueProcessor();
@@ -1,22 +1,64 @@
-import SQLite from 'react-native-sqlite-storage';
 import { logger } from '../logger';
-import { getDB } from '../attendance/attendance-db-service';
+import { execute, query, queryFirst, transaction, type SqlExecutor } from '../database/sql-client';
 import { retryService } from './retry-service';
 
 const DEBUG = true;
 const log = (...args: any[]): void => DEBUG && logger.debug('[SyncQueue]', ...args);
 
+/**
+ * Queue item state
+ * - pending: Waiting to be pushed (at nextRetryAt)
+ * - dead_letter: Gave up after retryService.shouldRetry was exhausted, kept for inspection
+ */
+export type SyncQueueStatus = 'pending' | 'dead_letter';
+
+/**
+ * Result of pushing one queue item
+ * - synced: Done, remove the item (also when there is nothing left to push)
+ * - failed: Count an attempt and back off
+ * - rejected: Refused by the server - retrying cannot help, move straight to dead letter
+ * - deferred: Not pushable right now (e.g. belongs to another signed-in user), leave untouched
+ */
+export type SyncQueueOutcome = 'synced' | 'failed' | 'rejected' | 'deferred';
+
+export interface SyncQueuePushResult {
+  outcome: SyncQueueOutcome;
+  error?: string; // Reason for failed / rejected, stored as lastError
+}
+
 export interface SyncQueueItem {
   id: string;
-  type: 'profile' | 'attendance' | 'settings';
-  entityId: string; // email for profile, timestamp for attendance, key for settings
-  property?: string; // property name for profile (firstName, lastName, etc.), null for attendance
+  type: 'profile' | 'attendance' | 'settings' | 'correction' | 'approval' | 'leave';
+  entityId: string; // email for profile, PunchID for attendance, key for settings, requestId for correction / approval, leaveId for leave
+  property?: string; // property name for profile (firstName, lastName, etc.), 'status' for a correction withdraw / leave cancel, null for attendance
   operation: 'create' | 'update' | 'delete';
   data: any; // JSON string or object
   timestamp: number;
   attempts: number;
   nextRetryAt: number;
   createdAt: number;
+  status: SyncQueueStatus;
+  lastError?: string;
+  lastAttemptAt?: number;
+}
+
+/**
+ * Row as stored in the sync_queue table
+ */
+export interface SyncQueueRow {
+  id: string;
+  type: SyncQueueItem['type'];
+  entityId: string;
+  property: string | null;
+  operation: SyncQueueItem['operation'];
+  data: string;
+  timestamp: number;
+  attempts: number;
+  nextRetryAt: number;
+  createdAt: number;
+  status: SyncQueueStatus;
+  lastError: string | null;
+  lastAttemptAt: number | null;
 }
 
 /**
@@ -26,277 +68,242 @@ export interface SyncQueueItem {
 class SyncQueueService {
   /**
    * Add operation to sync queue
+   * Pass tx to queue the operation in the same transaction as the change it pushes
    */
-  async addToQueue(item: Omit<SyncQueueItem, 'id' | 'attempts' | 'nextRetryAt' | 'createdAt'>): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          const id = `${item.type}_${item.entityId}_${item.property || 'all'}_${item.timestamp}`;
-          const attempts = 0;
-          const nextRetryAt = retryService.calculateNextRetryAt(attempts);
-          const createdAt = Date.now();
-          const dataString = typeof item.data === 'string' ? item.data : JSON.stringify(item.data);
+  async addToQueue(
+    item: Omit<SyncQueueItem, 'id' | 'attempts' | 'nextRetryAt' | 'createdAt' | 'status'>,
+    tx?: SqlExecutor,
+  ): Promise<void> {
+    const id = `${item.type}_${item.entityId}_${item.property || 'all'}_${item.timestamp}`;
+    const attempts = 0;
+    const createdAt = Date.now();
+    // Due right away: a push straight after queueing must find it; backoff starts after a failed attempt
+    const nextRetryAt = createdAt;
+    const dataString = typeof item.data === 'string' ? item.data : JSON.stringify(item.data);
 
-          tx.executeSql(
-            `INSERT OR REPLACE INTO sync_queue 
-              (id, type, entityId, property, operation, data, timestamp, attempts, nextRetryAt, createdAt)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              id,
-              item.type,
-              item.entityId,
-              item.property || null,
-              item.operation,
-              dataString,
-              item.timestamp,
-              attempts,
-              nextRetryAt,
-              createdAt,
-            ],
-            () => {
-              logger.debug('Added to sync queue:', id);
-              resolve();
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Add to queue error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Sync queue transaction error', error);
-          reject(error);
-        },
-      );
-    });
+    await (tx ? tx.execute : execute)(
+      `INSERT OR REPLACE INTO sync_queue 
+        (id, type, entityId, property, operation, data, timestamp, attempts, nextRetryAt, createdAt, status)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [
+        id,
+        item.type,
+        item.entityId,
+        item.property || null,
+        item.operation,
+        dataString,
+        item.timestamp,
+        attempts,
+        nextRetryAt,
+        createdAt,
+      ],
+    );
+    log('Added to sync queue:', id);
   }
 
   /**
    * Get pending items ready for sync (nextRetryAt <= now)
    */
   async getPendingItems(): Promise<SyncQueueItem[]> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          const now = Date.now();
-          tx.executeSql(
-            `SELECT * FROM sync_queue WHERE nextRetryAt <= ? ORDER BY nextRetryAt ASC`,
-            [now],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              const items: SyncQueueItem[] = [];
-              for (let i = 0; i < result.rows.length; i++) {
-                const row = result.rows.item(i);
-                items.push({
-                  id: row.id,
-                  type: row.type,
-                  entityId: row.entityId,
-                  property: row.property || undefined,
-                  operation: row.operation,
-                  data: this.safeParseJSON(row.data),
-                  timestamp: row.timestamp,
-                  attempts: row.attempts,
-                  nextRetryAt: row.nextRetryAt,
-                  createdAt: row.createdAt,
-                });
-              }
-              logger.debug(`[SettingsSync] Found ${items.length} pending items`);
-              resolve(items);
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get pending items error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Get pending items transaction error', error);
-          reject(error);
-        },
-      );
-    });
+    const rows = await query<SyncQueueRow>(
+      `SELECT * FROM sync_queue WHERE status = 'pending' AND nextRetryAt <= ? ORDER BY nextRetryAt ASC`,
+      [Date.now()],
+    );
+    log(`Found ${rows.length} pending items`);
+    return rows.map((row) => this.toQueueItem(row));
   }
 
   /**
    * Get pending items by type
    */
-  async getPendingItemsByType(type: 'profile' | 'attendance' | 'settings'): Promise<SyncQueueItem[]> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          const now = Date.now();
-          tx.executeSql(
-            `SELECT * FROM sync_queue WHERE type = ? AND nextRetryAt <= ? ORDER BY nextRetryAt ASC`,
-            [type, now],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              const items: SyncQueueItem[] = [];
-              for (let i = 0; i < result.rows.length; i++) {
-                const row = result.rows.item(i);
-                items.push({
-                  id: row.id,
-                  type: row.type,
-                  entityId: row.entityId,
-                  property: row.property || undefined,
-                  operation: row.operation,
-                  data: this.safeParseJSON(row.data),
-                  timestamp: row.timestamp,
-                  attempts: row.attempts,
-                  nextRetryAt: row.nextRetryAt,
-                  createdAt: row.createdAt,
-                });
-              }
-              resolve(items);
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get pending items by type error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Get pending items by type transaction error', error);
-          reject(error);
-        },
-      );
-    });
+  async getPendingItemsByType(type: SyncQueueItem['type']): Promise<SyncQueueItem[]> {
+    const rows = await query<SyncQueueRow>(
+      `SELECT * FROM sync_queue WHERE type = ? AND status = 'pending' AND nextRetryAt <= ? ORDER BY nextRetryAt ASC`,
+      [type, Date.now()],
+    );
+    return rows.map((row) => this.toQueueItem(row));
+  }
+
+  /**
+   * Get all pending items, including those still backing off, in the order they were queued
+   * Used by the queue processor to keep operations on the same entity in order
+   */
+  async getQueuedItems(): Promise<SyncQueueItem[]> {
+    const rows = await query<SyncQueueRow>(
+      `SELECT * FROM sync_queue WHERE status = 'pending' ORDER BY createdAt ASC, timestamp ASC`,
+    );
+    return rows.map((row) => this.toQueueItem(row));
+  }
+
+  /**
+   * Get items that exhausted their retries, newest first
+   */
+  async getDeadLetterItems(): Promise<SyncQueueItem[]> {
+    const rows = await query<SyncQueueRow>(
+      `SELECT * FROM sync_queue WHERE status = 'dead_letter' ORDER BY lastAttemptAt DESC`,
+    );
+    return rows.map((row) => this.toQueueItem(row));
+  }
+
+  /**
+   * Get every queued item (pending and dead letter) for display, oldest first
+   */
+  async getAllItems(): Promise<SyncQueueItem[]> {
+    const rows = await query<SyncQueueRow>(
+      `SELECT * FROM sync_queue ORDER BY createdAt ASC, timestamp ASC`,
+    );
+    return rows.map((row) => this.toQueueItem(row));
   }
 
   /**
    * Mark item as synced (remove from queue)
    */
   async markAsSynced(id: string): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `DELETE FROM sync_queue WHERE id = ?`,
-            [id],
-            () => {
-              logger.debug('Marked as synced:', id);
-              resolve();
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Mark as synced error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Mark as synced transaction error', error);
-          reject(error);
-        },
+    await execute(`DELETE FROM sync_queue WHERE id = ?`, [id]);
+    log('Marked as synced:', id);
+  }
+
+  /**
+   * Record a failed attempt: increment attempts and back off nextRetryAt,
+   * or move the item to the dead letter state once retryService.shouldRetry is exhausted
+   * @returns Status of the item after the failure
+   */
+  async recordFailure(id: string, error: string): Promise<SyncQueueStatus> {
+    const now = Date.now();
+    const { attempts, status } = await transaction(async (tx) => {
+      const row = await tx.queryFirst<Pick<SyncQueueRow, 'attempts'>>(
+        `SELECT attempts FROM sync_queue WHERE id = ?`,
+        [id],
+      );
+      if (!row) {
+        throw new Error('Item not found in queue');
+      }
+
+      const newAttempts = row.attempts + 1;
+      const newStatus: SyncQueueStatus = retryService.shouldRetry(newAttempts) ? 'pending' : 'dead_letter';
+      await tx.execute(
+        `UPDATE sync_queue SET attempts = ?, nextRetryAt = ?, status = ?, lastError = ?, lastAttemptAt = ? WHERE id = ?`,
+        [newAttempts, retryService.calculateNextRetryAt(newAttempts), newStatus, error, now, id],
       );
+      return { attempts: newAttempts, status: newStatus };
     });
+
+    if (status === 'dead_letter') {
+      logger.warn('Sync queue item moved to dead letter', undefined, { id, attempts, error });
+    } else {
+      log(`Incremented attempts for ${id}: ${attempts}`);
+    }
+    return status;
   }
 
   /**
-   * Increment retry attempts and update nextRetryAt
+   * Move an item to the dead letter state without another attempt
    */
-  async incrementAttempts(id: string): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          // Get current attempts
-          tx.executeSql(
-            `SELECT attempts FROM sync_queue WHERE id = ?`,
-            [id],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              if (result.rows.length === 0) {
-                reject(new Error('Item not found in queue'));
-                return;
-              }
+  async moveToDeadLetter(id: string, error: string): Promise<void> {
+    await execute(
+      `UPDATE sync_queue SET status = 'dead_letter', lastError = ?, lastAttemptAt = ? WHERE id = ?`,
+      [error, Date.now(), id],
+    );
+    logger.warn('Sync queue item moved to dead letter', undefined, { id, error });
+  }
 
-              const currentAttempts = result.rows.item(0).attempts;
-              const newAttempts = currentAttempts + 1;
-              const nextRetryAt = retryService.calculateNextRetryAt(newAttempts);
+  /**
+   * Retry an item on the next queue run (manual resolution)
+   * Dead letter items go back to pending with a fresh retry budget; lastError is kept for reference
+   */
+  async retryNow(id: string): Promise<void> {
+    await execute(
+      `UPDATE sync_queue SET status = 'pending', attempts = 0, nextRetryAt = ? WHERE id = ?`,
+      [Date.now(), id],
+    );
+    log('Retry requested:', id);
+  }
 
-              tx.executeSql(
-                `UPDATE sync_queue SET attempts = ?, nextRetryAt = ? WHERE id = ?`,
-                [newAttempts, nextRetryAt, id],
-                () => {
-                  logger.debug(`[SettingsSync] Incremented attempts for ${id}: ${newAttempts}`);
-                  resolve();
-                },
-                (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-                  logger.error('Increment attempts error', error);
-                  reject(error);
-                },
-              );
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get attempts error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Increment attempts transaction error', error);
-          reject(error);
-        },
-      );
+  /**
+   * Drop an item without pushing it (manual resolution)
+   * The local record is kept - only the outbound operation is abandoned
+   */
+  async discard(id: string): Promise<void> {
+    const item = await queryFirst<Pick<SyncQueueRow, 'attempts' | 'lastError'>>(
+      `SELECT attempts, lastError FROM sync_queue WHERE id = ?`,
+      [id],
+    );
+    await execute(`DELETE FROM sync_queue WHERE id = ?`, [id]);
+    logger.warn('Sync queue item discarded', undefined, {
+      id,
+      attempts: item?.attempts,
+      lastError: item?.lastError,
     });
   }
 
+  /**
+   * Serialize queue items for a support ticket
+   * @param ids Items to export (all items when omitted)
+   * @returns Pretty-printed JSON report
+   */
+  async exportForSupport(ids?: string[]): Promise<string> {
+    const items = await this.getAllItems();
+    const selected = ids ? items.filter((item) => ids.includes(item.id)) : items;
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        retryDelaysMs: retryService.getRetryDelays(),
+        items: selected.map((item) => ({
+          ...item,
+          nextRetryAt: new Date(item.nextRetryAt).toISOString(),
+          createdAt: new Date(item.createdAt).toISOString(),
+          lastAttemptAt: item.lastAttemptAt ? new Date(item.lastAttemptAt).toISOString() : undefined,
+        })),
+      },
+      null,
+      2,
+    );
+  }
+
   /**
    * Remove all items from queue (for cleanup)
    */
   async clearQueue(): Promise<void> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `DELETE FROM sync_queue`,
-            [],
-            () => {
-              logger.debug('Queue cleared');
-              resolve();
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Clear queue error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Clear queue transaction error', error);
-          reject(error);
-        },
-      );
-    });
+    await execute(`DELETE FROM sync_queue`);
+    log('Queue cleared');
   }
 
   /**
-   * Get queue size
+   * Get queue size (pending items only)
    */
   async getQueueSize(): Promise<number> {
-    const db = getDB();
-    return new Promise((resolve, reject) => {
-      db.transaction(
-        (tx: SQLite.Transaction) => {
-          tx.executeSql(
-            `SELECT COUNT(*) as count FROM sync_queue`,
-            [],
-            (_tx: SQLite.Transaction, result: SQLite.ResultSet) => {
-              const count = result.rows.item(0).count;
-              resolve(count);
-            },
-            (_tx: SQLite.Transaction, error: SQLite.SQLError) => {
-              logger.error('Get queue size error', error);
-              reject(error);
-            },
-          );
-        },
-        (error: SQLite.SQLError) => {
-          logger.error('Get queue size transaction error', error);
-          reject(error);
-        },
-      );
-    });
+    const row = await queryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sync_queue WHERE status = 'pending'`,
+    );
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Get number of dead letter items
+   */
+  async getDeadLetterCount(): Promise<number> {
+    const row = await queryFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sync_queue WHERE status = 'dead_letter'`,
+    );
+    return row?.count ?? 0;
+  }
+
+  private toQueueItem(row: SyncQueueRow): SyncQueueItem {
+    return {
+      id: row.id,
+      type: row.type,
+      entityId: row.entityId,
+      property: row.property || undefined,
+      operation: row.operation,
+      data: this.safeParseJSON(row.data),
+      timestamp: row.timestamp,
+      attempts: row.attempts,
+      nextRetryAt: row.nextRetryAt,
+      createdAt: row.createdAt,
+      status: row.status,
+      lastError: row.lastError || undefined,
+      lastAttemptAt: row.lastAttemptAt || undefined,
+    };
   }
 
   /**
@@ -3,6 +3,7 @@ import { logger } from '../logger';
 import { attendanceSyncService } from './attendance-sync-service';
 import { settingsSyncService, UnsyncedSetting } from './settings-sync-service';
 import { AttendanceRecord } from '../../redux/types/userTypes';
+import { syncQueueService, SyncQueueItem } from './sync-queue-service';
 
 export interface AllUnsyncedItems {
   profile: UnsyncedProfileProperty[];
@@ -85,6 +86,18 @@ class SyncStatusService {
     }
   }
 
+  /**
+   * Get sync queue items (pending and dead letter) with attempts, next retry and last error
+   */
+  async getSyncQueueItems(): Promise<SyncQueueItem[]> {
+    try {
+      return await syncQueueService.getAllItems();
+    } catch (error) {
+      logger.error('Error getting sync queue items', error);
+      return [];
+    }
+  }
+
   /**
    * Get sync summary (counts and last sync time)
    */
@@ -0,0 +1 @@
+export * from './team-roster-service';
@@ -0,0 +1,217 @@
+import moment from 'moment';
+import apiClient from '../api/api-client';
+import { logger } from '../logger';
+import { networkService } from '../network/network-service';
+import { query, queryFirst, transaction } from '../database/sql-client';
+import { isUserOnBreak } from '../notifications/notification-service';
+import { apiTimestampToTicks } from '../../utils/timestamp-utils';
+
+const DEBUG = true;
+const log = (...args: any[]): void => {
+  if (DEBUG) {
+    logger.debug('[TeamRoster]', ...args);
+  }
+};
+
+const TEAM_ROSTER_ENDPOINT = '/api/team/roster';
+
+export type ColleagueStatus = 'checked_in' | 'on_break' | 'checked_out' | 'absent';
+
+/**
+ * Team of the signed-in user, as stored in the teams table
+ */
+export interface Team {
+  teamId: string;
+  name: string;
+  memberCount: number;
+  checkedInCount: number; // Members currently checked in (not on break)
+}
+
+/**
+ * Member of one of the signed-in user's teams, as stored in the team_members table
+ */
+export interface TeamMember {
+  teamId: string;
+  userId: string; // Colleague's email
+  name: string | null;
+  designation: string | null;
+  photoUrl: string | null;
+  lastPunchDirection: string | null; // IN / OUT
+  lastPunchStatus: string | null; // AttendanceStatus of the last punch (e.g., CHECKIN, LUNCH)
+  lastPunchAt: number | null; // UTC ticks
+  lastPunchAddress: string | null;
+  status: ColleagueStatus;
+}
+
+type TeamMemberRow = Omit<TeamMember, 'status'>;
+
+/**
+ * Derive a colleague's live status from their last punch
+ * - No punch today → absent
+ * - IN → checked in
+ * - OUT with a break status (LUNCH, SHORTBREAK, ...) → on break
+ * - Any other OUT → checked out
+ * @param now - Reference time (UTC ticks), defaults to the current time
+ */
+export function getColleagueStatus(
+  lastPunch: Pick<TeamMember, 'lastPunchDirection' | 'lastPunchStatus' | 'lastPunchAt'>,
+  now: number = Date.now(),
+): ColleagueStatus {
+  if (!lastPunch.lastPunchAt || !moment(lastPunch.lastPunchAt).isSame(moment(now), 'day')) {
+    return 'absent';
+  }
+  if (lastPunch.lastPunchDirection?.toUpperCase() === 'IN') {
+    return 'checked_in';
+  }
+  if (isUserOnBreak(lastPunch.lastPunchStatus || undefined, lastPunch.lastPunchDirection || undefined)) {
+    return 'on_break';
+  }
+  return 'checked_out';
+}
+
+const toTeamMember = (row: TeamMemberRow): TeamMember => ({ ...row, status: getColleagueStatus(row) });
+
+/**
+ * Team Roster Service
+ * The signed-in user's teams and colleagues for the My Team section of the home screen
+ *
+ * - refreshRoster() replaces the cached roster with the server's; the cache is kept when offline
+ * - Colleague status (checked in / on break / checked out / absent) is derived from each member's last punch
+ *
+ * API:
+ * - GET /api/team/roster → { teams: [{ teamId, name, members: [{ email, name, designation, photoUrl, lastPunch }] }] }
+ */
+class TeamRosterService {
+  /**
+   * Teams of the user, by name, with member and checked-in counts
+   */
+  async getTeams(ownerId: string): Promise<Team[]> {
+    const teams = await query<{ teamId: string; name: string }>(
+      `SELECT teamId, name FROM teams WHERE ownerId = ? ORDER BY name COLLATE NOCASE ASC`,
+      [ownerId],
+    );
+    const members = await query<TeamMemberRow>(`SELECT * FROM team_members WHERE ownerId = ?`, [ownerId]);
+    return teams.map((team) => {
+      const teamMembers = members.filter((member) => member.teamId === team.teamId).map(toTeamMember);
+      return {
+        ...team,
+        memberCount: teamMembers.length,
+        checkedInCount: teamMembers.filter((member) => member.status === 'checked_in').length,
+      };
+    });
+  }
+
+  /**
+   * Members of one team, by name
+   */
+  async getTeamMembers(ownerId: string, teamId: string): Promise<TeamMember[]> {
+    const rows = await query<TeamMemberRow>(
+      `SELECT * FROM team_members WHERE ownerId = ? AND teamId = ? ORDER BY name COLLATE NOCASE ASC`,
+      [ownerId, teamId],
+    );
+    return rows.map(toTeamMember);
+  }
+
+  /**
+   * Colleagues across all teams (each once, without the user), by name
+   */
+  async getColleagues(ownerId: string): Promise<TeamMember[]> {
+    const rows = await query<TeamMemberRow>(
+      `SELECT * FROM team_members WHERE ownerId = ? AND userId != ? GROUP BY userId ORDER BY name COLLATE NOCASE ASC`,
+      [ownerId, ownerId],
+    );
+    return rows.map(toTeamMember);
+  }
+
+  /**
+   * One colleague with their latest known punch
+   */
+  async getColleague(ownerId: string, userId: string): Promise<TeamMember | null> {
+    const row = await queryFirst<TeamMemberRow>(
+      `SELECT * FROM team_members WHERE ownerId = ? AND userId = ? ORDER BY lastPunchAt DESC LIMIT 1`,
+      [ownerId, userId],
+    );
+    return row ? toTeamMember(row) : null;
+  }
+
+  /**
+   * Teams one colleague belongs to
+   */
+  async getColleagueTeams(ownerId: string, userId: string): Promise<Team[]> {
+    const teams = await this.getTeams(ownerId);
+    const rows = await query<{ teamId: string }>(
+      `SELECT teamId FROM team_members WHERE ownerId = ? AND userId = ?`,
+      [ownerId, userId],
+    );
+    const teamIds = new Set(rows.map((row) => row.teamId));
+    return teams.filter((team) => teamIds.has(team.teamId));
+  }
+
+  /**
+   * Pull the roster from the server (Server → Local)
+   * @returns false when offline or the request failed - the cached roster is kept
+   */
+  async refreshRoster(ownerId: string): Promise<boolean> {
+    try {
+      const isOnline = await networkService.isConnected();
+      if (!isOnline) {
+        log('Offline - keeping cached roster');
+        return false;
+      }
+
+      const response = await apiClient.get(TEAM_ROSTER_ENDPOINT, { timeout: 30000 });
+      const serverTeams: any[] = Array.isArray(response.data)
+        ? response.data
+        : response.data?.teams || response.data?.data || [];
+      const updatedAt = Date.now();
+
+      await transaction(async (tx) => {
+        await tx.execute(`DELETE FROM team_members WHERE ownerId = ?`, [ownerId]);
+        await tx.execute(`DELETE FROM teams WHERE ownerId = ?`, [ownerId]);
+        for (const team of serverTeams) {
+          const teamId = team.teamId || team.id;
+          if (!teamId) {
+            continue;
+          }
+          await tx.execute(
+            `INSERT OR REPLACE INTO teams (ownerId, teamId, name, updatedAt) VALUES (?, ?, ?, ?)`,
+            [ownerId, String(teamId), team.name || team.teamName || String(teamId), updatedAt],
+          );
+          for (const member of team.members || []) {
+            const userId = member.email || member.userId;
+            if (!userId) {
+              continue;
+            }
+            const lastPunch = member.lastPunch || {};
+            const lastPunchTime = lastPunch.Timestamp ?? lastPunch.timestamp;
+            await tx.execute(
+              `INSERT OR REPLACE INTO team_members
+                (ownerId, teamId, userId, name, designation, photoUrl, lastPunchDirection, lastPunchStatus,
+                 lastPunchAt, lastPunchAddress)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                ownerId,
+                String(teamId),
+                userId,
+                member.name || [member.firstName, member.lastName].filter(Boolean).join(' ') || null,
+                member.designation ?? null,
+                member.photoUrl || member.profilePhoto || null,
+                lastPunch.PunchDirection || lastPunch.punchDirection || null,
+                lastPunch.AttendanceStatus || lastPunch.attendanceStatus || null,
+                lastPunchTime ? apiTimestampToTicks(lastPunchTime) : null,
+                lastPunch.Address || lastPunch.address || null,
+              ],
+            );
+          }
+        }
+      });
+      log(`Refreshed roster with ${serverTeams.length} teams`);
+      return true;
+    } catch (error: any) {
+      logger.error('refreshRoster error - keeping cached roster', error);
+      return false;
+    }
+  }
+}
+
+export const teamRosterService = new TeamRosterService();
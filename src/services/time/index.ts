@@ -1,2 +1,3 @@
 export * from './time-service';
 
+export * from './trusted-clock-service';
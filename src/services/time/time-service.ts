@@ -2,6 +2,7 @@ import { NativeModules, Platform } from 'react-native';
 import apiClient from '../api/api-client';
 import { logger } from '../logger';
 import moment from 'moment';
+import { readMonotonicClock, trustedClockService } from './trusted-clock-service';
 
 const { SecurityUtils } = NativeModules as {
   SecurityUtils?: {
@@ -28,14 +29,17 @@ export interface ClockAccuracyCheck {
 
 /**
  * Get current time and timezone from server
+ * Also anchors the trusted clock used for punch times
  */
 export const getCurrentTimeAndZone = async (): Promise<CurrentTimeResponse> => {
   try {
     logger.debug('Fetching current time and timezone');
 
+    const requestStart = readMonotonicClock();
     const response = await apiClient.get<CurrentTimeResponse>(
       '/api/time/current',
     );
+    trustedClockService.recordServerTime(Number(response.data.timestamp), requestStart);
 
     logger.info('Current time and timezone fetched', { 
       timezone: response.data.timezone,
@@ -89,8 +93,38 @@ export const isAutomaticTimeEnabled = (): Promise<boolean> => {
   });
 };
 
+// Accuracy of a device clock reading against a server (or trusted) time
+const toClockAccuracyCheck = (
+  deviceTime: number,
+  serverTime: number,
+  allowedDifferenceMinutes: number,
+): ClockAccuracyCheck => {
+  // Calculate difference in milliseconds
+  const differenceMs = Math.abs(deviceTime - serverTime);
+  const differenceSeconds = Math.floor(differenceMs / 1000);
+  const differenceMinutes = Math.floor(differenceSeconds / 60);
+
+  return {
+    isAccurate: differenceMinutes <= allowedDifferenceMinutes,
+    deviceTime,
+    serverTime,
+    differenceMinutes,
+    differenceSeconds,
+  };
+};
+
+// Device clock against the trusted clock, or null without a server anchor since the last reboot
+const checkAgainstTrustedClock = (allowedDifferenceMinutes: number): ClockAccuracyCheck | null => {
+  const trustedTime = trustedClockService.now();
+  if (trustedTime.confidence !== 'SERVER_ANCHORED') {
+    return null;
+  }
+  return toClockAccuracyCheck(trustedTime.deviceTimestamp, trustedTime.timestamp, allowedDifferenceMinutes);
+};
+
 /**
  * Check if device clock is accurate by comparing with server time
+ * Without a server call (or when it fails) the device clock is compared with the trusted clock
  * @param allowedDifferenceMinutes Maximum allowed difference in minutes (default: 5 minutes)
  * @param useServerTime If true, uses server time API. If false, only checks if auto-time is enabled.
  * @returns Promise<ClockAccuracyCheck> Object containing accuracy status and time difference
@@ -104,6 +138,15 @@ export const checkClockAccuracy = async (
     const autoTimeEnabled = await isAutomaticTimeEnabled();
     
     if (!useServerTime && autoTimeEnabled) {
+      // Auto-time can still be set back by hand in between - compare with the trusted clock when anchored
+      const trustedCheck = checkAgainstTrustedClock(allowedDifferenceMinutes);
+      if (trustedCheck) {
+        logger.debug('Clock accuracy check: Automatic time enabled, compared with trusted clock', {
+          differenceSeconds: trustedCheck.differenceSeconds,
+          isAccurate: trustedCheck.isAccurate,
+        });
+        return trustedCheck;
+      }
       // If auto-time is enabled, assume clock is accurate (no need for server call)
       logger.debug('Clock accuracy check: Automatic time enabled, assuming accurate');
       const deviceTime = Date.now();
@@ -128,34 +171,29 @@ export const checkClockAccuracy = async (
     // Get device time (UTC milliseconds)
     const deviceTime = Date.now();
 
-    // Calculate difference in milliseconds
-    const differenceMs = Math.abs(deviceTime - serverTime);
-    const differenceSeconds = Math.floor(differenceMs / 1000);
-    const differenceMinutes = Math.floor(differenceSeconds / 60);
-
-    const isAccurate = differenceMinutes <= allowedDifferenceMinutes;
+    const check = toClockAccuracyCheck(deviceTime, serverTime, allowedDifferenceMinutes);
 
     logger.debug('Clock accuracy check', {
       autoTimeEnabled,
       deviceTime: new Date(deviceTime).toISOString(),
       serverTime: new Date(serverTime).toISOString(),
-      differenceMinutes,
-      differenceSeconds,
-      isAccurate,
+      differenceMinutes: check.differenceMinutes,
+      differenceSeconds: check.differenceSeconds,
+      isAccurate: check.isAccurate,
       allowedDifferenceMinutes,
     });
 
-    return {
-      isAccurate,
-      deviceTime,
-      serverTime,
-      differenceMinutes,
-      differenceSeconds,
-    };
+    return check;
   } catch (error: any) {
     logger.error('Failed to check clock accuracy', error);
+    // Offline: the trusted clock still tells a set-back device clock apart
+    const trustedCheck = checkAgainstTrustedClock(allowedDifferenceMinutes);
+    if (trustedCheck) {
+      return trustedCheck;
+    }
     // On error, assume clock is accurate to avoid blocking user
     // This is a "fail open" approach - if we can't check, allow access
+    // (punches still get their time from the trusted clock)
     return {
       isAccurate: true,
       deviceTime: Date.now(),
@@ -165,4 +203,3 @@ export const checkClockAccuracy = async (
     };
   }
 };
-
@@ -0,0 +1,215 @@
+import { NativeModules } from 'react-native';
+import { MMKV } from 'react-native-mmkv';
+import { logger } from '../logger';
+import { generateUUID } from '../../utils/uuid-utils';
+
+const { SecurityUtils } = NativeModules as {
+  SecurityUtils?: {
+    getMonotonicClock?: () => { elapsedRealtime: number; bootCount: number };
+  };
+};
+
+const storage = new MMKV({ id: 'trusted-clock' });
+const ANCHOR_KEY = 'anchor';
+const FLOOR_KEY = 'floor';
+
+// Device clock corrections (NTP adjustments) smaller than this are not a rollback
+const ROLLBACK_TOLERANCE_MS = 60 * 1000; // 1 minute
+
+// Identifies this app process: an anchor on the JS clock is only valid until the app restarts
+const PROCESS_EPOCH = `process-${generateUUID()}`;
+
+/**
+ * How a trusted time was derived, from most to least reliable
+ * - SERVER_ANCHORED: Server time at the last fetch + monotonic time elapsed since (device clock not used)
+ * - SERVER_OFFSET: Device clock corrected by the offset to the server at the last fetch (anchor lost to a reboot)
+ * - DEVICE_CLOCK: Device clock only (never fetched the server time)
+ * - CLOCK_ROLLBACK: Device clock behind a trusted time already seen - set back; the last trusted time is used
+ */
+export type TimeConfidence = 'SERVER_ANCHORED' | 'SERVER_OFFSET' | 'DEVICE_CLOCK' | 'CLOCK_ROLLBACK';
+
+export interface TrustedTime {
+  timestamp: number; // Trusted UTC time in milliseconds
+  deviceTimestamp: number; // Device clock (Date.now()) at the same moment
+  confidence: TimeConfidence;
+}
+
+/**
+ * Time fields persisted on every local attendance row
+ */
+export interface PunchTimeFields {
+  DeviceTimestamp: number;
+  TrustedTimestamp: number;
+  TimeConfidence: TimeConfidence;
+}
+
+export const toPunchTimeFields = (time: TrustedTime): PunchTimeFields => ({
+  DeviceTimestamp: time.deviceTimestamp,
+  TrustedTimestamp: time.timestamp,
+  TimeConfidence: time.confidence,
+});
+
+/**
+ * Reading of a clock that only moves forward at a constant rate
+ * - Android: SystemClock.elapsedRealtime, valid until the next reboot (epoch = boot count)
+ * - iOS: CLOCK_MONOTONIC, valid until the next reboot (epoch = boot time in seconds; setting the
+ *   device clock moves the boot time, which only drops the anchor as a reboot would)
+ * - Otherwise: the JS performance clock, valid until the app restarts (epoch = this process)
+ */
+export interface MonotonicReading {
+  elapsed: number; // Milliseconds
+  epoch: string; // Readings can only be compared within the same epoch
+}
+
+export const readMonotonicClock = (): MonotonicReading => {
+  try {
+    const clock = SecurityUtils?.getMonotonicClock?.();
+    if (clock && clock.bootCount >= 0) {
+      return { elapsed: clock.elapsedRealtime, epoch: `boot-${clock.bootCount}` };
+    }
+  } catch (error) {
+    logger.warn('Monotonic clock not available, using the app process clock', error);
+  }
+  return { elapsed: performance.now(), epoch: PROCESS_EPOCH };
+};
+
+interface ClockAnchor {
+  serverTime: number; // Server time when the anchor was taken
+  deviceTime: number; // Device clock at the same moment
+  elapsed: number; // Monotonic clock at the same moment
+  epoch: string;
+}
+
+/**
+ * Trusted Clock Service
+ * Punch times that do not depend on the device clock, so setting the phone clock back
+ * does not produce an earlier check-in
+ *
+ * - Each successful /api/time/current fetch records an anchor: the server time and the
+ *   monotonic clock at that moment (the midpoint of the request)
+ * - now() is the anchor's server time + monotonic time elapsed since, offline too
+ * - After a reboot the monotonic clock restarts: the device clock is used, corrected by the
+ *   last known offset to the server and never earlier than the latest server derived time issued
+ * - Before the first fetch the device clock is used as is, and never raises that latest time
+ * - The anchor and that latest time are persisted, so both survive an app restart
+ */
+class TrustedClockService {
+  private anchor: ClockAnchor | null | undefined; // undefined until loaded from storage
+  private floor: number | undefined;
+
+  /**
+   * Record a server time fetch
+   * @param serverTimestamp - Server time in milliseconds from the response
+   * @param requestStart - Monotonic clock read just before the request was sent
+   */
+  recordServerTime(serverTimestamp: number, requestStart: MonotonicReading): void {
+    const requestEnd = readMonotonicClock();
+    if (!Number.isFinite(serverTimestamp) || requestEnd.epoch !== requestStart.epoch) {
+      return;
+    }
+    // The server read its clock somewhere during the request - assume halfway
+    const elapsed = (requestStart.elapsed + requestEnd.elapsed) / 2;
+    const roundTrip = requestEnd.elapsed - requestStart.elapsed;
+    const deviceTime = Date.now() - roundTrip / 2;
+
+    this.anchor = { serverTime: serverTimestamp, deviceTime, elapsed, epoch: requestEnd.epoch };
+    const serverNow = serverTimestamp + roundTrip / 2;
+    const floor = this.getFloor();
+    if (floor !== undefined && floor > serverNow + ROLLBACK_TOLERANCE_MS) {
+      // Raised from a device clock set forward (earlier versions did, before the first fetch)
+      logger.warn('Last trusted time ahead of the server time - reset', undefined, {
+        lastTrustedTime: new Date(floor).toISOString(),
+        serverTime: new Date(serverNow).toISOString(),
+      });
+      this.setFloor(serverNow);
+    } else {
+      this.raiseFloor(serverNow);
+    }
+    try {
+      storage.set(ANCHOR_KEY, JSON.stringify(this.anchor));
+    } catch (error) {
+      logger.error('Failed to persist trusted clock anchor', error);
+    }
+    logger.debug('Trusted clock anchored', {
+      offsetMs: Math.round(serverTimestamp - deviceTime),
+      roundTripMs: Math.round(roundTrip),
+      epoch: requestEnd.epoch,
+    });
+  }
+
+  /**
+   * Current trusted time
+   */
+  now(): TrustedTime {
+    const deviceTimestamp = Date.now();
+    const anchor = this.getAnchor();
+    const reading = readMonotonicClock();
+
+    if (anchor && anchor.epoch === reading.epoch && reading.elapsed >= anchor.elapsed) {
+      const timestamp = Math.round(anchor.serverTime + (reading.elapsed - anchor.elapsed));
+      this.raiseFloor(timestamp);
+      return { timestamp, deviceTimestamp, confidence: 'SERVER_ANCHORED' };
+    }
+
+    const estimate = anchor ? Math.round(deviceTimestamp + (anchor.serverTime - anchor.deviceTime)) : deviceTimestamp;
+    const floor = this.getFloor();
+    const isRollback = floor !== undefined && estimate < floor - ROLLBACK_TOLERANCE_MS;
+    if (isRollback) {
+      logger.warn('Device clock is behind the last trusted time - clock set back', undefined, {
+        deviceTime: new Date(deviceTimestamp).toISOString(),
+        lastTrustedTime: new Date(floor).toISOString(),
+      });
+    }
+    // Just after the latest time issued, so punches stay in order (and unique per user)
+    const timestamp = floor !== undefined && estimate <= floor ? floor + 1 : estimate;
+    // Only server derived times raise the floor: a device clock set forward before the first
+    // server fetch would otherwise mark every later punch as set back
+    if (anchor) {
+      this.raiseFloor(timestamp);
+    }
+    return {
+      timestamp,
+      deviceTimestamp,
+      confidence: isRollback ? 'CLOCK_ROLLBACK' : anchor ? 'SERVER_OFFSET' : 'DEVICE_CLOCK',
+    };
+  }
+
+  private getAnchor(): ClockAnchor | null {
+    if (this.anchor === undefined) {
+      try {
+        const stored = storage.getString(ANCHOR_KEY);
+        this.anchor = stored ? (JSON.parse(stored) as ClockAnchor) : null;
+      } catch (error) {
+        logger.error('Failed to load trusted clock anchor', error);
+        this.anchor = null;
+      }
+    }
+    return this.anchor;
+  }
+
+  private getFloor(): number | undefined {
+    if (this.floor === undefined) {
+      this.floor = storage.getNumber(FLOOR_KEY);
+    }
+    return this.floor;
+  }
+
+  // Latest server derived time issued - a later device clock reading below it was set back
+  private raiseFloor(timestamp: number): void {
+    const floor = this.getFloor();
+    if (floor === undefined || floor < timestamp) {
+      this.setFloor(timestamp);
+    }
+  }
+
+  private setFloor(timestamp: number): void {
+    this.floor = timestamp;
+    try {
+      storage.set(FLOOR_KEY, timestamp);
+    } catch (error) {
+      logger.error('Failed to persist last trusted time', error);
+    }
+  }
+}
+
+export const trustedClockService = new TrustedClockService();
@@ -6,10 +6,15 @@ export type RootStackParamList = {
   PermissionsScreen: undefined;
   DashboardScreen: undefined;
   ForgotPasswordScreen: { emailID?: string };
-  CheckInScreen: undefined;
+  CheckInScreen: { resumeWork?: boolean | string; autoCheckout?: boolean | string } | undefined;
   ProfileDrawerScreen: undefined;
   AttendanceLogsScreen: { filterToday?: boolean } | undefined;
   GeoLocationsScreen: { filterToday?: boolean } | undefined;
+  MyRequestsScreen: undefined;
+  LeavesScreen: undefined;
+  ApplyLeaveScreen: undefined;
+  TeamDetailScreen: { teamId: string; teamName?: string };
+  ColleagueDetailScreen: { userId: string };
   ViewProfileScreen: undefined;
   OtpScreen: {
     emailID?: string;
@@ -0,0 +1,21 @@
+import { PUNCH_DIRECTIONS } from '../constants';
+import { DarkThemeColors } from '../themes';
+import type { ColleagueStatus } from '../services/team/team-roster-service';
+
+// Badge colors for a colleague's live status on the home screen and team screens
+export const COLLEAGUE_STATUS_COLORS: Record<ColleagueStatus, string> = {
+  checked_in: DarkThemeColors.primary,
+  on_break: '#F5A623',
+  checked_out: DarkThemeColors.checked_out_indicator,
+  absent: DarkThemeColors.red,
+};
+
+/**
+ * Punch direction for the UserImage status ring
+ * @returns IN (green ring) only while the colleague is checked in
+ */
+export function getPunchDirectionForStatus(
+  status: ColleagueStatus,
+): typeof PUNCH_DIRECTIONS[keyof typeof PUNCH_DIRECTIONS] {
+  return status === 'checked_in' ? PUNCH_DIRECTIONS.in : PUNCH_DIRECTIONS.out;
+}
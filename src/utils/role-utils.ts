@@ -0,0 +1,11 @@
+// Roles (from UserData.roles) that review their reports' attendance corrections
+export const MANAGER_ROLES = ['MANAGER', 'ADMIN'];
+
+/**
+ * Check whether the user has a manager role
+ * @param roles - UserData.roles (e.g., ["ORGUSER", "MANAGER"])
+ * @returns true if any role is a manager role (case-insensitive)
+ */
+export function hasManagerRole(roles?: string[] | null): boolean {
+  return !!roles?.some((role) => MANAGER_ROLES.includes(String(role).toUpperCase()));
+}
@@ -0,0 +1,153 @@
+import moment from 'moment';
+import type { BreakAllowance } from '../services/attendance/break-service';
+
+// Fallbacks when the profile has neither a roster nor shift times (shift times are in UTC)
+export const DEFAULT_SHIFT_START_TIME = '09:00';
+export const DEFAULT_SHIFT_END_TIME = '17:00';
+export const DEFAULT_MINIMUM_WORKING_HOURS = 8;
+
+export type Weekday = 'SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT';
+
+// Indexed by moment's day() (0 = Sunday)
+export const WEEKDAYS: Weekday[] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * One block of work within a day, in HH:mm UTC
+ * A segment whose end is before its start crosses midnight (e.g., 22:00 - 06:00)
+ */
+export interface ShiftSegment {
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Shift of one weekday in the roster
+ * - Several segments make a split shift (e.g., 06:00 - 10:00 and 16:00 - 20:00)
+ * - No segments (or a missing day) is a weekly off
+ */
+export interface RosterDay {
+  segments: ShiftSegment[];
+  minimumWorkingHours?: number; // Overrides the roster's minimumWorkingHours for this day
+  breakAllowance?: BreakAllowance; // Overrides the roster's breakAllowance for this day
+}
+
+export type RosterWeek = Partial<Record<Weekday, RosterDay | null>>;
+
+/**
+ * Shift roster from the profile API (userData.shiftRoster)
+ * - One week: the same shifts every week
+ * - Several weeks: rotating shifts, weeks[0] starting on rotationStartDate, then weeks[1], ...
+ */
+export interface ShiftRoster {
+  weeks: RosterWeek[];
+  rotationStartDate?: string; // YYYY-MM-DD, first day of weeks[0] (required when rotating)
+  minimumWorkingHours?: number;
+  breakAllowance?: BreakAllowance; // Allowed break minutes per shift (e.g., { total: 60, byType: { LUNCH: 30 } })
+}
+
+/**
+ * Shift of one date, resolved from the roster
+ * Overnight shifts belong to the date they end on: the shift of 2025-12-23 with
+ * segment 22:00 - 06:00 starts on 2025-12-22 at 22:00
+ */
+export interface DayShift {
+  date: string; // YYYY-MM-DD (UTC)
+  isWeeklyOff: boolean;
+  segments: ShiftSegment[];
+  startTime: string | null; // Start of the first segment
+  endTime: string | null; // End of the last segment
+  minimumWorkingHours: number;
+  breakAllowance: BreakAllowance | null; // null when breaks are not limited
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check if a segment crosses midnight
+ */
+export function isOvernightSegment(segment: ShiftSegment): boolean {
+  return toMinutes(segment.endTime) < toMinutes(segment.startTime);
+}
+
+/**
+ * Roster of the user - the profile's shiftRoster, or the single shift
+ * (shiftStartTime / shiftEndTime, every day) for profiles without one
+ */
+export function getShiftRoster(userData?: {
+  shiftRoster?: ShiftRoster | null;
+  shiftStartTime?: string;
+  shiftEndTime?: string;
+  minimumWorkingHours?: number;
+  [key: string]: any; // Rest of the profile (UserData)
+} | null): ShiftRoster {
+  if (userData?.shiftRoster?.weeks?.length) {
+    return {
+      ...userData.shiftRoster,
+      minimumWorkingHours: userData.shiftRoster.minimumWorkingHours ?? userData.minimumWorkingHours,
+    };
+  }
+
+  const day: RosterDay = {
+    segments: [{
+      startTime: userData?.shiftStartTime || DEFAULT_SHIFT_START_TIME,
+      endTime: userData?.shiftEndTime || DEFAULT_SHIFT_END_TIME,
+    }],
+  };
+  return {
+    weeks: [Object.fromEntries(WEEKDAYS.map(weekday => [weekday, day])) as RosterWeek],
+    minimumWorkingHours: userData?.minimumWorkingHours,
+  };
+}
+
+/**
+ * Week of the roster that applies to a date
+ */
+function getRosterWeek(roster: ShiftRoster, date: string): RosterWeek | undefined {
+  const { weeks, rotationStartDate } = roster;
+  if (weeks.length <= 1 || !rotationStartDate) {
+    return weeks[0];
+  }
+  const weeksSinceStart = Math.floor(
+    moment.utc(date).diff(moment.utc(rotationStartDate), 'days') / 7,
+  );
+  return weeks[((weeksSinceStart % weeks.length) + weeks.length) % weeks.length];
+}
+
+/**
+ * Resolve the shift of a date from the roster
+ * @param date - Date in YYYY-MM-DD format (UTC)
+ */
+export function getShiftForDate(roster: ShiftRoster, date: string): DayShift {
+  const rosterDay = getRosterWeek(roster, date)?.[WEEKDAYS[moment.utc(date).day()]];
+  const segments = rosterDay?.segments || [];
+  return {
+    date,
+    isWeeklyOff: segments.length === 0,
+    segments,
+    startTime: segments[0]?.startTime ?? null,
+    endTime: segments[segments.length - 1]?.endTime ?? null,
+    minimumWorkingHours:
+      rosterDay?.minimumWorkingHours ?? roster.minimumWorkingHours ?? DEFAULT_MINIMUM_WORKING_HOURS,
+    breakAllowance: rosterDay?.breakAllowance ?? roster.breakAllowance ?? null,
+  };
+}
+
+/**
+ * Start and end of a date's shift (UTC ticks), or null on a weekly off
+ * The start of an overnight shift is on the previous day
+ */
+export function getShiftWindow(shift: DayShift): { start: number; end: number } | null {
+  if (!shift.startTime || !shift.endTime) {
+    return null;
+  }
+  const startsPreviousDay = shift.segments.some(isOvernightSegment);
+  const start = moment.utc(`${shift.date} ${shift.startTime}`, 'YYYY-MM-DD HH:mm');
+  if (startsPreviousDay) {
+    start.subtract(1, 'day');
+  }
+  const end = moment.utc(`${shift.date} ${shift.endTime}`, 'YYYY-MM-DD HH:mm');
+  return { start: start.valueOf(), end: end.valueOf() };
+}
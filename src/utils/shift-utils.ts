@@ -1,9 +1,13 @@
 import moment from 'moment';
 import { logger } from '../services/logger';
 import { createTimestampFromDateTime, getCurrentUTCDate, getDateFromUTCTimestamp } from './time-utils';
-
-// Default shift times (in UTC format from API)
-const DEFAULT_SHIFT_START_TIME = '09:00';
+import {
+  DEFAULT_SHIFT_END_TIME,
+  DEFAULT_SHIFT_START_TIME,
+  getShiftForDate,
+  getShiftWindow,
+  type ShiftRoster,
+} from './shift-roster-utils';
 
 /**
  * Get shift start time with default fallback
@@ -41,7 +45,7 @@ export function getShiftStartTimestamp(shiftStartTime?: string, date?: string):
  * @returns shift end time or default (17:00, which is 8 hours after default start 09:00)
  */
 function getShiftEndTime(shiftEndTime?: string): string {
-  return shiftEndTime || '17:00'; // Default: 8 hours after 09:00 (9am to 5pm UTC)
+  return shiftEndTime || DEFAULT_SHIFT_END_TIME; // Default: 8 hours after 09:00 (9am to 5pm UTC)
 }
 
 /**
@@ -68,49 +72,110 @@ export function getShiftEndTimestamp(
   }
 }
 
+// Hours after the shift end before a still open check-in counts as a missed checkout
+export const AUTO_CHECKOUT_BUFFER_HOURS = 2;
+
+// Hours after a check-in outside the shift (weekly off) before it counts as a missed checkout
+const OFF_SHIFT_AUTO_CHECKOUT_HOURS = 3;
+
+/**
+ * Time from which a check-in without checkout needs auto-checkout
+ * @param checkInTimestamp - Check-in timestamp in milliseconds
+ * @param checkInDate - Date of check-in in YYYY-MM-DD format (optional, will be derived from timestamp if not provided)
+ * @param roster - Shift roster (see getShiftRoster); the shift of the check-in date is used
+ * @param bufferHours - Hours to add after shift end time before auto-checkout (default: 2 hours)
+ * @returns shift end + buffer (UTC ticks), 3 hours after check-in on a weekly off
+ */
+export function getAutoCheckoutTimestamp(
+  checkInTimestamp: number,
+  checkInDate: string | undefined,
+  roster: ShiftRoster,
+  bufferHours: number = AUTO_CHECKOUT_BUFFER_HOURS
+): number {
+  // Get check-in date if not provided (timestamp is UTC)
+  // Shift times are in UTC, so use UTC date
+  const checkInUTC = moment.utc(checkInTimestamp);
+  const date = checkInDate || checkInUTC.format('YYYY-MM-DD');
+
+  // Get shift end timestamp for the check-in date
+  // Shift times are in UTC
+  const shiftEndTimestamp = getShiftWindow(getShiftForDate(roster, date))?.end;
+  if (!shiftEndTimestamp) {
+    // Weekly off (no shift to end) - fall back to old 3-hour logic
+    logger.debug('No shift on check-in date, falling back to 3-hour check', { date });
+    return checkInUTC.clone().add(OFF_SHIFT_AUTO_CHECKOUT_HOURS, 'hours').valueOf();
+  }
+
+  // Calculate auto-checkout time: shift end + buffer hours (all in UTC)
+  return moment.utc(shiftEndTimestamp).add(bufferHours, 'hours').valueOf();
+}
+
+/**
+ * Checkout written for a check-in that was never checked out
+ */
+export interface AutoCheckout {
+  dueAt: number; // From when the check-in needs auto-checkout (UTC ticks)
+  checkoutTime: number; // Time of the checkout punch (UTC ticks)
+  dateOfPunch: string; // Check-in date, the entry the checkout belongs to
+  linkedEntryDate?: string; // Date of the checkout when it is on another day (overnight shifts)
+}
+
+/**
+ * Auto-checkout of a check-in: at the end of the check-in date's shift, once the shift end + buffer
+ * has passed. A check-in outside the shift (weekly off, or after the shift ended) is closed
+ * 3 hours after the check-in, when it becomes due.
+ * @param checkInTimestamp - Check-in timestamp in milliseconds
+ * @param checkInDate - Date of check-in in YYYY-MM-DD format (optional, will be derived from timestamp if not provided)
+ * @param roster - Shift roster (see getShiftRoster); the shift of the check-in date is used
+ */
+export function getAutoCheckout(
+  checkInTimestamp: number,
+  checkInDate: string | undefined,
+  roster: ShiftRoster,
+  bufferHours: number = AUTO_CHECKOUT_BUFFER_HOURS
+): AutoCheckout {
+  const dateOfPunch = checkInDate || moment.utc(checkInTimestamp).format('YYYY-MM-DD');
+  const shiftEnd = getShiftWindow(getShiftForDate(roster, dateOfPunch))?.end;
+
+  const closesShift = !!shiftEnd && shiftEnd > checkInTimestamp;
+  const checkoutTime = closesShift
+    ? (shiftEnd as number)
+    : moment.utc(checkInTimestamp).add(OFF_SHIFT_AUTO_CHECKOUT_HOURS, 'hours').valueOf();
+  const dueAt = closesShift
+    ? getAutoCheckoutTimestamp(checkInTimestamp, dateOfPunch, roster, bufferHours)
+    : checkoutTime;
+
+  const checkoutDate = moment.utc(checkoutTime).format('YYYY-MM-DD');
+  return {
+    dueAt,
+    checkoutTime,
+    dateOfPunch,
+    linkedEntryDate: checkoutDate !== dateOfPunch ? checkoutDate : undefined,
+  };
+}
+
 /**
  * Check if user needs auto-checkout based on shift end time
  * @param checkInTimestamp - Check-in timestamp in milliseconds
  * @param checkInDate - Date of check-in in YYYY-MM-DD format (optional, will be derived from timestamp if not provided)
- * @param shiftEndTime - Shift end time in HH:mm format (e.g., "17:00")
+ * @param roster - Shift roster (see getShiftRoster); the shift of the check-in date is used
  * @param bufferHours - Hours to add after shift end time before auto-checkout (default: 2 hours)
  * @returns true if current time is past shift end time + buffer, false otherwise
  */
 export function needsAutoCheckoutByShiftEnd(
   checkInTimestamp: number | null | undefined,
-  checkInDate?: string,
-  shiftEndTime?: string,
-  bufferHours: number = 2
+  checkInDate: string | undefined,
+  roster: ShiftRoster,
+  bufferHours: number = AUTO_CHECKOUT_BUFFER_HOURS
 ): boolean {
   if (!checkInTimestamp) {
     return false;
   }
 
   try {
-    // Get current time in UTC
-    const now = moment.utc();
-    
-    // Get check-in date if not provided (timestamp is UTC)
-    // Shift times are in UTC, so use UTC date
-    const checkInUTC = moment.utc(checkInTimestamp);
-    const date = checkInDate || checkInUTC.format('YYYY-MM-DD');
-    
-    // Get shift end timestamp for the check-in date
-    // Shift times are in UTC
-    const shiftEndTimestamp = getShiftEndTimestamp(date, shiftEndTime);
-    if (!shiftEndTimestamp) {
-      // Fallback to old 3-hour logic if shift end time is invalid
-      logger.warn('Invalid shift end time, falling back to 3-hour check');
-      const autoCheckoutTime = checkInUTC.clone().add(3, 'hours');
-      return now.isAfter(autoCheckoutTime);
-    }
-    
-    // Calculate auto-checkout time: shift end + buffer hours (all in UTC)
-    const shiftEndUTC = moment.utc(shiftEndTimestamp);
-    const autoCheckoutTime = shiftEndUTC.clone().add(bufferHours, 'hours');
-    
     // Return true if current UTC time is after auto-checkout time
-    return now.isAfter(autoCheckoutTime);
+    const autoCheckoutTime = getAutoCheckoutTimestamp(checkInTimestamp, checkInDate, roster, bufferHours);
+    return moment.utc().isAfter(moment.utc(autoCheckoutTime));
   } catch (error) {
     logger.error('Error checking auto-checkout condition by shift end', error);
     return false;
@@ -0,0 +1,30 @@
+/**
+ * UUID Utilities
+ * RFC 4122 version 4 identifiers for records created on the device
+ */
+
+const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  const cryptoApi = (globalThis as any).crypto;
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+    return bytes;
+  }
+  // Hermes has no Web Crypto unless polyfilled - fall back to Math.random
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+};
+
+/**
+ * Generate a random (version 4) UUID, e.g. "3b241101-e2bb-4255-8caf-4136c566a962"
+ */
+export function generateUUID(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = 0x40 + (bytes[6] % 0x10); // Version 4
+  bytes[8] = 0x80 + (bytes[8] % 0x40); // RFC 4122 variant
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}